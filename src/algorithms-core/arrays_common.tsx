@@ -1,30 +1,155 @@
 import * as d3 from "d3";
 import { FC, useEffect, useState, useRef } from "react";
 import { SortStep } from "@/algorithms-core/quicksort";
+import { RandomSource, randomInt } from "@/algorithms-core/random";
 
 export function generateRandomArray(
   length: number,
   min: number,
   max: number,
+  rng: RandomSource = Math.random,
 ): number[] {
-  return Array.from(
-    { length },
-    () => Math.floor(Math.random() * (max - min + 1)) + min,
-  );
+  return Array.from({ length }, () => randomInt(rng, min, max));
+}
+
+// Input distributions that can be generated for the sorting visualizers.
+export type ArrayPreset =
+  | "random"
+  | "sorted"
+  | "reverse"
+  | "nearly-sorted"
+  | "many-duplicates"
+  | "all-equal"
+  | "organ-pipe";
+
+export const ARRAY_PRESETS: { id: ArrayPreset; label: string }[] = [
+  { id: "random", label: "Random" },
+  { id: "sorted", label: "Sorted" },
+  { id: "reverse", label: "Reverse sorted" },
+  { id: "nearly-sorted", label: "Nearly sorted" },
+  { id: "many-duplicates", label: "Many duplicates" },
+  { id: "all-equal", label: "All equal" },
+  { id: "organ-pipe", label: "Organ pipe" },
+];
+
+/**
+ * Generates an array following one of the preset distributions. Sorted,
+ * reverse-sorted, all-equal and organ-pipe inputs are the ones that push
+ * quicksort with a poor pivot choice towards its quadratic worst case.
+ *
+ * @param preset - The distribution to generate
+ * @param length - Number of elements
+ * @param min - Smallest allowed value
+ * @param max - Largest allowed value
+ * @param rng - Source of random numbers, Math.random by default
+ * @returns The generated array
+ */
+export function generatePresetArray(
+  preset: ArrayPreset,
+  length: number,
+  min: number,
+  max: number,
+  rng: RandomSource = Math.random,
+): number[] {
+  // Drawn only by the presets built from sorted values, so the others use
+  // the same random numbers as generateRandomArray
+  const sortedArray = () =>
+    generateRandomArray(length, min, max, rng).sort((a, b) => a - b);
+
+  switch (preset) {
+    case "random":
+      return generateRandomArray(length, min, max, rng);
+    case "sorted":
+      return sortedArray();
+    case "reverse":
+      return sortedArray().reverse();
+    case "nearly-sorted": {
+      const ascending = sortedArray();
+      // Swap a few distinct pairs of neighbours, about one in ten elements
+      const pairs = Math.floor(length / 2);
+      const swapped = new Set<number>();
+      while (swapped.size < Math.min(pairs, Math.max(1, length / 10))) {
+        swapped.add(randomInt(rng, 0, pairs - 1));
+      }
+      swapped.forEach((pair) => {
+        const i = pair * 2;
+        [ascending[i], ascending[i + 1]] = [ascending[i + 1], ascending[i]];
+      });
+      return ascending;
+    }
+    case "many-duplicates": {
+      // Draw every element from a pool of a few distinct values
+      const pool = generateRandomArray(Math.min(4, length), min, max, rng);
+      return Array.from(
+        { length },
+        () => pool[randomInt(rng, 0, pool.length - 1)],
+      );
+    }
+    case "all-equal":
+      return new Array(length).fill(randomInt(rng, min, max));
+    case "organ-pipe": {
+      // Rise to the largest value in the middle, then fall again
+      const ascending = sortedArray();
+      const rising = ascending.filter((_, i) => i % 2 === 0);
+      const falling = ascending.filter((_, i) => i % 2 === 1).reverse();
+      return [...rising, ...falling];
+    }
+  }
+}
+
+// Limits on arrays typed in by the user.
+export const MAX_INPUT_LENGTH = 100;
+export const MAX_INPUT_VALUE = 999;
+
+/**
+ * Parses a comma or space separated list of whole numbers typed in by the
+ * user.
+ *
+ * @param text - The raw input, e.g. "5, 3, 8, 1"
+ * @returns The parsed numbers
+ * @throws Error describing the first problem found in the input
+ */
+export function parseArrayInput(text: string): number[] {
+  const tokens = text.split(/[\s,]+/).filter((token) => token !== "");
+  if (tokens.length === 0) {
+    throw new Error("Enter at least one number");
+  }
+  if (tokens.length > MAX_INPUT_LENGTH) {
+    throw new Error(`Enter at most ${MAX_INPUT_LENGTH} numbers`);
+  }
+
+  return tokens.map((token, i) => {
+    if (!/^\d+$/.test(token)) {
+      throw new Error(
+        `"${token}" at position ${i + 1} is not a non-negative whole number`,
+      );
+    }
+    const value = Number(token);
+    if (value > MAX_INPUT_VALUE) {
+      throw new Error(
+        `${value} at position ${i + 1} is larger than ${MAX_INPUT_VALUE}`,
+      );
+    }
+    return value;
+  });
 }
 
 export interface ArrayVisualizerProps {
   step: SortStep;
+  height?: number; // Height of the chart in pixels, 400 by default
 }
 
 /**
  * ArrayVisualizer component for visualizing sorting steps.
  *
- * @param param0 - Contains the sorting step data.
+ * @param param0 - Contains the sorting step data and the chart height.
  * @returns JSX.Element
  */
-export const ArrayVisualizer: FC<ArrayVisualizerProps> = ({ step }) => {
-  const { arr, pivotIndex, comparing } = step;
+export const ArrayVisualizer: FC<ArrayVisualizerProps> = ({
+  step,
+  height: chartHeight = 400,
+}) => {
+  const { arr, pivotIndex, comparing, range, writeIndex } = step;
   const svgRef = useRef<SVGSVGElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
@@ -34,7 +159,7 @@ export const ArrayVisualizer: FC<ArrayVisualizerProps> = ({ step }) => {
       if (containerRef.current) {
         setDimensions({
           width: containerRef.current.clientWidth,
-          height: 400,
+          height: chartHeight,
         });
       }
     };
@@ -46,7 +171,7 @@ export const ArrayVisualizer: FC<ArrayVisualizerProps> = ({ step }) => {
     return () => {
       window.removeEventListener("resize", updateDimensions);
     };
-  }, []);
+  }, [chartHeight]);
 
   useEffect(() => {
     if (!svgRef.current || !containerRef.current) return;
@@ -75,6 +200,18 @@ export const ArrayVisualizer: FC<ArrayVisualizerProps> = ({ step }) => {
       .domain([0, d3.max(arr) || 100])
       .range([height, 0]);
 
+    // Outline the pivot, the written index and the compared indices.
+    const strokeColor = (_: number, i: number) => {
+      if (pivotIndex !== undefined && i === pivotIndex) return "red";
+      if (writeIndex !== undefined && i === writeIndex) return "limegreen";
+      if (comparing && comparing.includes(i)) return "orange";
+      return "none";
+    };
+
+    // Fade the bars outside the subarray being worked on.
+    const fillOpacity = (_: number, i: number) =>
+      range && (i < range[0] || i > range[1]) ? 0.35 : 1;
+
     // DATA JOIN: Bind array data to rect elements.
     const bars = g.selectAll<SVGRectElement, number>("rect").data(arr);
 
@@ -87,19 +224,9 @@ export const ArrayVisualizer: FC<ArrayVisualizerProps> = ({ step }) => {
       .attr("width", barWidth - 5)
       .attr("height", 0)
       .attr("fill", "steelblue")
-      .attr("stroke", (d, i) => {
-        if (pivotIndex !== undefined && i === pivotIndex) return "red";
-        if (comparing && comparing.includes(i)) return "orange";
-        return "none";
-      })
-      .attr("stroke-width", (d, i) => {
-        if (
-          (pivotIndex !== undefined && i === pivotIndex) ||
-          (comparing && comparing.includes(i))
-        )
-          return 3;
-        return 0;
-      })
+      .attr("fill-opacity", fillOpacity)
+      .attr("stroke", strokeColor)
+      .attr("stroke-width", (d, i) => (strokeColor(d, i) === "none" ? 0 : 3))
       .transition()
       .duration(500)
       .attr("y", (d) => yScale(d))
@@ -114,19 +241,9 @@ export const ArrayVisualizer: FC<ArrayVisualizerProps> = ({ step }) => {
       .attr("y", (d) => yScale(d))
       .attr("height", (d) => height - yScale(d))
       .attr("fill", "steelblue")
-      .attr("stroke", (d, i) => {
-        if (pivotIndex !== undefined && i === pivotIndex) return "red";
-        if (comparing && comparing.includes(i)) return "orange";
-        return "none";
-      })
-      .attr("stroke-width", (d, i) => {
-        if (
-          (pivotIndex !== undefined && i === pivotIndex) ||
-          (comparing && comparing.includes(i))
-        )
-          return 3;
-        return 0;
-      });
+      .attr("fill-opacity", fillOpacity)
+      .attr("stroke", strokeColor)
+      .attr("stroke-width", (d, i) => (strokeColor(d, i) === "none" ? 0 : 3));
 
     // EXIT: Remove bars that no longer have data.
     bars
@@ -136,7 +253,7 @@ export const ArrayVisualizer: FC<ArrayVisualizerProps> = ({ step }) => {
       .attr("y", height)
       .attr("height", 0)
       .remove();
-  }, [arr, pivotIndex, comparing, dimensions]);
+  }, [arr, pivotIndex, comparing, range, writeIndex, dimensions]);
 
   return (
     <div className="w-full flex justify-center" ref={containerRef}>
@@ -144,7 +261,7 @@ export const ArrayVisualizer: FC<ArrayVisualizerProps> = ({ step }) => {
         <svg
           ref={svgRef}
           width={800}
-          height={400}
+          height={chartHeight}
           className="bg-white dark:bg-gray-800 w-full"
         />
       </div>
@@ -0,0 +1,438 @@
+import { dijkstra } from "./dijkstras";
+import { getEdgeWeight, Graph } from "./graphs_common";
+import {
+  CodeListing,
+  createTraceStep,
+  Highlight,
+  StepKind,
+  TraceStep,
+  TraceStepOptions,
+} from "./trace";
+
+export type HeuristicName = "manhattan" | "euclidean" | "chebyshev" | "zero";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Heuristic {
+  id: HeuristicName;
+  label: string;
+  estimate: (from: Point, to: Point) => number; // Guess at the distance left
+}
+
+// The heuristics A* can be run with. Euclidean never overestimates when edge
+// weights are at least the distance between their ends; Manhattan and
+// Chebyshev are exact lower bounds on a 4-neighbour grid with unit weights,
+// where Manhattan is the tighter of the two. Zero turns A* into Dijkstra.
+export const HEURISTICS: Heuristic[] = [
+  {
+    id: "manhattan",
+    label: "Manhattan",
+    estimate: (from, to) => Math.abs(from.x - to.x) + Math.abs(from.y - to.y),
+  },
+  {
+    id: "euclidean",
+    label: "Euclidean",
+    estimate: (from, to) => Math.hypot(from.x - to.x, from.y - to.y),
+  },
+  {
+    id: "chebyshev",
+    label: "Chebyshev",
+    estimate: (from, to) =>
+      Math.max(Math.abs(from.x - to.x), Math.abs(from.y - to.y)),
+  },
+  { id: "zero", label: "Zero (Dijkstra)", estimate: () => 0 },
+];
+
+export interface AStarStep extends TraceStep {
+  currentNodeId: string | null; // Node being expanded
+  open: string[]; // Discovered nodes not yet expanded, lowest f first
+  closed: string[]; // Expanded nodes, in the order expanded
+  g: Map<string, number>; // Cost of the best known path from the start
+  h: Map<string, number>; // Heuristic estimate of the cost left to the goal
+  previous: Map<string, string | null>; // Previous nodes in the best known paths
+  path: string[] | null; // Path from the start to the goal, once found
+}
+
+export interface AStarResult {
+  steps: AStarStep[];
+  path: string[] | null; // Shortest path from the start to the goal
+  distance: number | null; // Its total weight
+  expanded: number; // Nodes taken from the open set, the goal included
+}
+
+// A* listings. Steps record the pseudo-code line numbers.
+export const ASTAR_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "aStar(G, s, t, h):",
+      "  g[s] = 0; open = {s}; closed = {}",
+      "  while open is not empty:",
+      "    u = node in open with the lowest f = g[u] + h(u, t)",
+      "    if u = t: return the path to t through prev",
+      "    move u from open to closed",
+      "    for each edge (u, v, w) with v not in closed:",
+      "      alt = g[u] + w",
+      "      if alt < g[v]:",
+      "        g[v] = alt; prev[v] = u; put v in open",
+      "  return no path",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function aStar(graph: Graph, s: string, t: string, h: (v: string) => number) {",
+      "  const g = new Map([[s, 0]]), prev = new Map<string, string>();",
+      "  const open = new Set([s]), closed = new Set<string>();",
+      "  const f = (v: string) => g.get(v)! + h(v);",
+      "  while (open.size > 0) {",
+      "    const u = [...open].reduce((a, b) => (f(b) < f(a) ? b : a));",
+      "    if (u === t) return pathTo(t, prev);",
+      "    open.delete(u);",
+      "    closed.add(u);",
+      "    for (const { node: v, edge } of graph.get_neighbors(u)) {",
+      "      if (closed.has(v.id)) continue;",
+      "      const alt = g.get(u)! + edge.data;",
+      "      if (alt < (g.get(v.id) ?? Infinity)) {",
+      "        g.set(v.id, alt);",
+      "        prev.set(v.id, u);",
+      "        open.add(v.id);",
+      "      }",
+      "    }",
+      "  }",
+      "  return null;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 5,
+      4: 6,
+      5: 7,
+      6: 8,
+      7: 10,
+      8: 12,
+      9: 13,
+      10: 14,
+      11: 20,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def a_star(graph, s, t, h):",
+      "    g, prev = {s: 0}, {}",
+      "    open_heap, closed = [(h(s), s)], set()",
+      "    while open_heap:",
+      "        _, u = heapq.heappop(open_heap)",
+      "        if u == t:",
+      "            return path_to(t, prev)",
+      "        if u in closed:",
+      "            continue",
+      "        closed.add(u)",
+      "        for v, w in graph.neighbors(u):",
+      "            if v in closed:",
+      "                continue",
+      "            alt = g[u] + w",
+      "            if alt < g.get(v, math.inf):",
+      "                g[v] = alt",
+      "                prev[v] = u",
+      "                heapq.heappush(open_heap, (alt + h(v), v))",
+      "    return None",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 4,
+      4: 5,
+      5: 6,
+      6: 10,
+      7: 11,
+      8: 14,
+      9: 15,
+      10: 16,
+      11: 19,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "List<String> aStar(Graph graph, String s, String t, ToIntFunction<String> h) {",
+      "  Map<String, Integer> g = new HashMap<>(Map.of(s, 0));",
+      "  Map<String, String> prev = new HashMap<>();",
+      "  PriorityQueue<String> open = new PriorityQueue<>(",
+      "      Comparator.comparingInt(v -> g.get(v) + h.applyAsInt(v)));",
+      "  Set<String> closed = new HashSet<>();",
+      "  open.add(s);",
+      "  while (!open.isEmpty()) {",
+      "    String u = open.poll();",
+      "    if (u.equals(t)) return pathTo(t, prev);",
+      "    if (!closed.add(u)) continue;",
+      "    for (Edge e : graph.edgesFrom(u)) {",
+      "      if (closed.contains(e.to)) continue;",
+      "      int alt = g.get(u) + e.weight;",
+      "      if (alt < g.getOrDefault(e.to, Integer.MAX_VALUE)) {",
+      "        g.put(e.to, alt);",
+      "        prev.put(e.to, u);",
+      "        open.remove(e.to);",
+      "        open.add(e.to);",
+      "      }",
+      "    }",
+      "  }",
+      "  return null;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 8,
+      4: 9,
+      5: 10,
+      6: 11,
+      7: 12,
+      8: 14,
+      9: 15,
+      10: 16,
+      11: 23,
+    },
+  },
+];
+
+// Rounds an estimate for the narration, e.g. 7.0710678 to 7.07
+function formatCost(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * A* search for the shortest path from a start node to a goal. Like
+ * Dijkstra's algorithm it expands one node at a time, but it picks the open
+ * node with the lowest f = g + h, where g is the cost of the best path found
+ * so far and h is the heuristic's guess at the cost left, measured between
+ * the nodes' positions. Ties on f go to the node with the lower h, i.e. the
+ * one closer to the goal. As long as h never overestimates, the path found is
+ * a shortest one, usually after expanding far fewer nodes than Dijkstra.
+ *
+ * @param graph - The graph to search, with non-negative numeric edge weights
+ * @param startNodeId - The ID of the node to start from
+ * @param goalNodeId - The ID of the node to find a path to
+ * @param heuristic - The heuristic to guide the search; every node needs a
+ *   position unless it is "zero"
+ * @returns The recorded steps, the path found and the number of expansions
+ */
+export function astar(
+  graph: Graph,
+  startNodeId: string,
+  goalNodeId: string,
+  heuristic: HeuristicName,
+): AStarResult {
+  if (!graph.nodes[startNodeId]) {
+    throw new Error(`Start node ${startNodeId} not found in the graph`);
+  }
+  if (!graph.nodes[goalNodeId]) {
+    throw new Error(`Goal node ${goalNodeId} not found in the graph`);
+  }
+  const { label, estimate } = HEURISTICS.find(({ id }) => id === heuristic)!;
+  if (heuristic !== "zero") {
+    const unplaced = Object.values(graph.nodes).find((node) => !node.position);
+    if (unplaced) {
+      throw new Error(
+        `Node ${unplaced.id} has no position for the ${label} heuristic`,
+      );
+    }
+  }
+  graph.get_all_edges().forEach((edge) => {
+    if (getEdgeWeight(edge) < 0) {
+      throw new Error(
+        `A* needs non-negative edge weights, but ${edge.from_node.id} - ${edge.to_node.id} weighs ${edge.data}`,
+      );
+    }
+  });
+
+  const goalPosition = graph.nodes[goalNodeId].position ?? { x: 0, y: 0 };
+  const estimateFrom = (nodeId: string) =>
+    estimate(graph.nodes[nodeId].position ?? goalPosition, goalPosition);
+
+  const g = new Map<string, number>();
+  const h = new Map<string, number>();
+  const previous = new Map<string, string | null>();
+  const open = new Set<string>();
+  const closed: string[] = [];
+  const isClosed = new Set<string>();
+  let currentNodeId: string | null = null;
+  let path: string[] | null = null;
+
+  const f = (nodeId: string) => g.get(nodeId)! + h.get(nodeId)!;
+  // Lowest f first, then lowest h; otherwise the order nodes were opened in
+  const sortedOpen = () =>
+    [...open].sort((a, b) => f(a) - f(b) || h.get(a)! - h.get(b)!);
+
+  const steps: AStarStep[] = [];
+  const record = (
+    kind: StepKind,
+    narration: string,
+    trace: TraceStepOptions,
+  ) => {
+    steps.push({
+      ...createTraceStep(kind, narration, trace),
+      currentNodeId,
+      open: sortedOpen(),
+      closed: closed.slice(),
+      g: new Map(g),
+      h: new Map(h),
+      previous: new Map(previous),
+      path: path ? path.slice() : null,
+    });
+  };
+
+  g.set(startNodeId, 0);
+  h.set(startNodeId, estimateFrom(startNodeId));
+  previous.set(startNodeId, null);
+  open.add(startNodeId);
+  record(
+    "init",
+    `Open ${startNodeId} with g = 0 and h = ${formatCost(h.get(startNodeId)!)} (${label})`,
+    {
+      highlights: [
+        { type: "node", nodeId: startNodeId, role: "next" },
+        { type: "node", nodeId: goalNodeId, role: "path" },
+      ],
+      mutations: [{ target: "g", key: startNodeId, from: null, to: 0 }],
+      line: 2,
+    },
+  );
+
+  while (open.size > 0) {
+    const u = sortedOpen()[0];
+    currentNodeId = u;
+    const gU = g.get(u)!;
+
+    if (u === goalNodeId) {
+      path = [u];
+      for (let v = previous.get(u); v; v = previous.get(v)) path.unshift(v);
+      closed.push(u);
+      isClosed.add(u);
+      open.delete(u);
+      record(
+        "done",
+        `Reached the goal ${u} at cost ${formatCost(gU)} after expanding ${closed.length} node${closed.length === 1 ? "" : "s"}: ${path.join(" -> ")}`,
+        {
+          highlights: [
+            ...path.map((nodeId): Highlight => ({
+              type: "node",
+              nodeId,
+              role: "path",
+            })),
+            ...path.slice(1).map((nodeId, i): Highlight => ({
+              type: "edge",
+              sourceId: path![i],
+              targetId: nodeId,
+              role: "path",
+            })),
+          ],
+          line: 5,
+        },
+      );
+      return {
+        steps,
+        path: path.slice(),
+        distance: gU,
+        expanded: closed.length,
+      };
+    }
+
+    open.delete(u);
+    closed.push(u);
+    isClosed.add(u);
+    record(
+      "visit",
+      `Expand ${u}, the open node with the lowest f = ${formatCost(gU)} + ${formatCost(h.get(u)!)} = ${formatCost(f(u))}`,
+      {
+        highlights: [{ type: "node", nodeId: u, role: "current" }],
+        mutations: [
+          { target: "closed", key: u, from: null, to: closed.length },
+        ],
+        line: 6,
+      },
+    );
+
+    for (const { node, edge } of graph.get_neighbors(u)) {
+      const v = node.id;
+      if (isClosed.has(v)) continue;
+      const alt = gU + getEdgeWeight(edge);
+      const gV = g.get(v) ?? Infinity;
+      const highlights: Highlight[] = [
+        { type: "node", nodeId: u, role: "current" },
+        { type: "node", nodeId: v, role: "next" },
+        { type: "edge", sourceId: u, targetId: v, role: "compare" },
+      ];
+      if (alt >= gV) {
+        record(
+          "compare",
+          `g[${u}] + ${formatCost(getEdgeWeight(edge))} = ${formatCost(alt)} is no better than g[${v}] = ${formatCost(gV)}`,
+          { highlights, line: 9 },
+        );
+        continue;
+      }
+
+      const opened = !open.has(v);
+      const previousBefore = previous.get(v) ?? null;
+      g.set(v, alt);
+      if (!h.has(v)) h.set(v, estimateFrom(v));
+      previous.set(v, u);
+      open.add(v);
+      record(
+        "relax",
+        `${opened ? "Open" : "Improve"} ${v}: g = ${formatCost(alt)}, h = ${formatCost(h.get(v)!)}, f = ${formatCost(f(v))}`,
+        {
+          highlights,
+          mutations: [
+            {
+              target: "g",
+              key: v,
+              from: gV === Infinity ? null : gV,
+              to: alt,
+            },
+            {
+              target: "previous",
+              key: v,
+              from: previousBefore,
+              to: u,
+            },
+          ],
+          line: 10,
+        },
+      );
+    }
+  }
+
+  currentNodeId = null;
+  record(
+    "done",
+    `The open set is empty, so ${goalNodeId} cannot be reached from ${startNodeId}`,
+    { line: 11 },
+  );
+  return { steps, path: null, distance: null, expanded: closed.length };
+}
+
+/**
+ * Counts the nodes Dijkstra's algorithm finalizes from the start before the
+ * goal, the goal included, for comparison with A*'s expansions on the same
+ * graph.
+ *
+ * @param graph - The graph to search
+ * @param startNodeId - The ID of the node to start from
+ * @param goalNodeId - The ID of the node to stop at
+ * @returns The number of nodes finalized, or every reachable node's count
+ *   when the goal cannot be reached
+ */
+export function countDijkstraExpansions(
+  graph: Graph,
+  startNodeId: string,
+  goalNodeId: string,
+): number {
+  const { steps } = dijkstra(graph, startNodeId, false, "heap", goalNodeId);
+  return steps[steps.length - 1].visited.size;
+}
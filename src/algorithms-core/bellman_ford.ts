@@ -0,0 +1,384 @@
+import { getEdgeWeight, Graph } from "./graphs_common";
+import {
+  CodeListing,
+  createTraceStep,
+  Highlight,
+  StepKind,
+  TraceStep,
+  TraceStepOptions,
+} from "./trace";
+
+export interface BellmanFordStep extends TraceStep {
+  pass: number; // Relaxation pass, from 1; |V| for the negative-cycle check
+  currentEdge: { sourceId: string; targetId: string } | null; // Edge being relaxed, in the direction used
+  distances: Map<string, number>; // Current distances from the start node
+  previous: Map<string, string | null>; // Previous nodes in the best known paths
+  negativeCycle: string[] | null; // Nodes of the negative cycle, once found
+}
+
+export interface BellmanFordResult {
+  steps: BellmanFordStep[];
+  distances: Map<string, number>;
+  previous: Map<string, string | null>;
+  passes: number; // Relaxation passes run before distances settled
+  negativeCycle: string[] | null; // Nodes of a negative cycle reachable from the start, in order
+}
+
+// Bellman-Ford listings. Steps record the pseudo-code line numbers.
+export const BELLMAN_FORD_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "bellmanFord(G, s):",
+      "  for each node v: dist[v] = infinity, prev[v] = null",
+      "  dist[s] = 0",
+      "  repeat |V| - 1 times:",
+      "    for each edge (u, v, w) in G:",
+      "      if dist[u] + w < dist[v]:",
+      "        dist[v] = dist[u] + w, prev[v] = u",
+      "    if no distance changed: stop early",
+      "  for each edge (u, v, w) in G:",
+      "    if dist[u] + w < dist[v]:",
+      "      follow prev from v to find a negative cycle",
+      "  return dist, prev",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function bellmanFord(graph: Graph, s: string) {",
+      "  const dist = new Map<string, number>();",
+      "  const prev = new Map<string, string | null>();",
+      "  for (const v of Object.keys(graph.nodes)) {",
+      "    dist.set(v, Infinity);",
+      "    prev.set(v, null);",
+      "  }",
+      "  dist.set(s, 0);",
+      "  const n = Object.keys(graph.nodes).length;",
+      "  for (let i = 1; i < n; i++) {",
+      "    let changed = false;",
+      "    for (const [u, v, w] of edges(graph)) {",
+      "      if (dist.get(u)! + w < dist.get(v)!) {",
+      "        dist.set(v, dist.get(u)! + w);",
+      "        prev.set(v, u);",
+      "        changed = true;",
+      "      }",
+      "    }",
+      "    if (!changed) break;",
+      "  }",
+      "  for (const [u, v, w] of edges(graph)) {",
+      "    if (dist.get(u)! + w < dist.get(v)!) {",
+      "      return { cycle: findCycle(prev, u, v) };",
+      "    }",
+      "  }",
+      "  return { dist, prev };",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 4,
+      3: 8,
+      4: 10,
+      5: 12,
+      6: 13,
+      7: 14,
+      8: 19,
+      9: 21,
+      10: 22,
+      11: 23,
+      12: 26,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def bellman_ford(graph, s):",
+      "    dist = {v: math.inf for v in graph}",
+      "    prev = {v: None for v in graph}",
+      "    dist[s] = 0",
+      "    for _ in range(len(graph) - 1):",
+      "        changed = False",
+      "        for u, v, w in edges(graph):",
+      "            if dist[u] + w < dist[v]:",
+      "                dist[v] = dist[u] + w",
+      "                prev[v] = u",
+      "                changed = True",
+      "        if not changed:",
+      "            break",
+      "    for u, v, w in edges(graph):",
+      "        if dist[u] + w < dist[v]:",
+      "            return find_cycle(prev, u, v)",
+      "    return dist, prev",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 4,
+      4: 5,
+      5: 7,
+      6: 8,
+      7: 9,
+      8: 12,
+      9: 14,
+      10: 15,
+      11: 16,
+      12: 17,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "Map<String, Integer> bellmanFord(Graph graph, String s) {",
+      "  Map<String, Integer> dist = new HashMap<>();",
+      "  Map<String, String> prev = new HashMap<>();",
+      "  for (String v : graph.nodes()) dist.put(v, Integer.MAX_VALUE);",
+      "  dist.put(s, 0);",
+      "  for (int i = 1; i < graph.size(); i++) {",
+      "    boolean changed = false;",
+      "    for (Edge e : graph.edges()) {",
+      "      if (dist.get(e.from) != Integer.MAX_VALUE",
+      "          && dist.get(e.from) + e.weight < dist.get(e.to)) {",
+      "        dist.put(e.to, dist.get(e.from) + e.weight);",
+      "        prev.put(e.to, e.from);",
+      "        changed = true;",
+      "      }",
+      "    }",
+      "    if (!changed) break;",
+      "  }",
+      "  for (Edge e : graph.edges()) {",
+      "    if (dist.get(e.from) != Integer.MAX_VALUE",
+      "        && dist.get(e.from) + e.weight < dist.get(e.to)) {",
+      "      throw new NegativeCycleException(findCycle(prev, e));",
+      "    }",
+      "  }",
+      "  return dist;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 4,
+      3: 5,
+      4: 6,
+      5: 8,
+      6: 9,
+      7: 11,
+      8: 16,
+      9: 18,
+      10: 19,
+      11: 21,
+      12: 24,
+    },
+  },
+];
+
+// Adding a weight as written in the narration, e.g. "+ 4" or "- 2".
+function signed(weight: number): string {
+  return weight < 0 ? `- ${-weight}` : `+ ${weight}`;
+}
+
+/**
+ * Finds the negative cycle behind an edge that still relaxes after |V| - 1
+ * passes. Walking |V| previous links back from the edge's target is sure to
+ * land on the cycle, which is then read off by following the links until
+ * they come back around.
+ *
+ * @param previous - Previous nodes after the relaxation passes
+ * @param sourceId - Source of the edge that still relaxes
+ * @param targetId - Target of that edge
+ * @param nodeCount - Number of nodes in the graph
+ * @returns The nodes of the cycle in the order its edges run
+ */
+export function findNegativeCycle(
+  previous: Map<string, string | null>,
+  sourceId: string,
+  targetId: string,
+  nodeCount: number,
+): string[] {
+  const links = new Map(previous);
+  links.set(targetId, sourceId);
+
+  let nodeId = targetId;
+  for (let i = 0; i < nodeCount; i++) nodeId = links.get(nodeId)!;
+
+  const cycle = [nodeId];
+  for (let id = links.get(nodeId)!; id !== nodeId; id = links.get(id)!) {
+    cycle.push(id);
+  }
+  return cycle.reverse();
+}
+
+/**
+ * Bellman-Ford shortest paths from a start node. Every pass relaxes each
+ * edge in the order of get_all_edges(), both ways when the graph is
+ * undirected, and the passes stop early once one changes nothing. After
+ * |V| - 1 passes an edge that still relaxes proves a negative cycle is
+ * reachable, and the cycle is traced back through the previous links.
+ *
+ * @param graph - The graph to search, with numeric edge weights
+ * @param startNodeId - The ID of the node to start from
+ * @returns The recorded steps, the distances and any negative cycle
+ */
+export function bellmanFord(
+  graph: Graph,
+  startNodeId: string,
+): BellmanFordResult {
+  if (!graph.nodes[startNodeId]) {
+    throw new Error(`Start node ${startNodeId} not found in the graph`);
+  }
+
+  const nodeIds = Object.keys(graph.nodes);
+  const distances = new Map<string, number>();
+  const previous = new Map<string, string | null>();
+  nodeIds.forEach((nodeId) => {
+    distances.set(nodeId, nodeId === startNodeId ? 0 : Infinity);
+    previous.set(nodeId, null);
+  });
+
+  // Each undirected edge can be relaxed in both directions
+  const relaxations: [string, string, number][] = [];
+  graph.get_all_edges().forEach((edge) => {
+    const weight = getEdgeWeight(edge);
+    relaxations.push([edge.from_node.id, edge.to_node.id, weight]);
+    if (!graph.directed) {
+      relaxations.push([edge.to_node.id, edge.from_node.id, weight]);
+    }
+  });
+
+  const steps: BellmanFordStep[] = [];
+  let pass = 0;
+  let negativeCycle: string[] | null = null;
+  const record = (
+    kind: StepKind,
+    narration: string,
+    trace: TraceStepOptions,
+    currentEdge: BellmanFordStep["currentEdge"] = null,
+  ) => {
+    steps.push({
+      ...createTraceStep(kind, narration, trace),
+      pass,
+      currentEdge,
+      distances: new Map(distances),
+      previous: new Map(previous),
+      negativeCycle,
+    });
+  };
+
+  record(
+    "init",
+    `Set the distance of ${startNodeId} to 0 and every other node to infinity`,
+    {
+      highlights: [{ type: "node", nodeId: startNodeId, role: "current" }],
+      mutations: [
+        { target: "distances", key: startNodeId, from: Infinity, to: 0 },
+      ],
+      line: 3,
+    },
+  );
+
+  let passes = 0;
+  for (pass = 1; pass < nodeIds.length; pass++) {
+    passes = pass;
+    let changed = 0;
+    for (const [u, v, weight] of relaxations) {
+      const distU = distances.get(u)!;
+      const distV = distances.get(v)!;
+      const candidate = distU + weight;
+      const edge = { sourceId: u, targetId: v };
+      const highlights: Highlight[] = [
+        { type: "edge", sourceId: u, targetId: v, role: "compare" },
+        { type: "node", nodeId: u, role: "current" },
+        { type: "node", nodeId: v, role: "next" },
+      ];
+
+      if (candidate < distV) {
+        const from = previous.get(v) ?? null;
+        distances.set(v, candidate);
+        previous.set(v, u);
+        changed++;
+        record(
+          "relax",
+          `${u} -> ${v}: ${distU} ${signed(weight)} = ${candidate} is shorter than ${distV}, so update ${v}`,
+          {
+            highlights,
+            mutations: [
+              { target: "distances", key: v, from: distV, to: candidate },
+              { target: "previous", key: v, from, to: u },
+            ],
+            line: 7,
+          },
+          edge,
+        );
+      } else {
+        record(
+          "compare",
+          distU === Infinity
+            ? `${u} -> ${v}: ${u} has not been reached yet`
+            : `${u} -> ${v}: ${distU} ${signed(weight)} = ${candidate} is no shorter than ${distV}`,
+          { highlights, line: 6 },
+          edge,
+        );
+      }
+    }
+
+    record(
+      "finalize",
+      changed === 0
+        ? `Pass ${pass} changed nothing, so every distance is final`
+        : `Pass ${pass} updated ${changed} distance${changed === 1 ? "" : "s"}`,
+      { line: 8 },
+    );
+    if (changed === 0) break;
+  }
+
+  // One more pass: an edge that still relaxes lies on or leads from a negative cycle
+  pass = nodeIds.length;
+  for (const [u, v, weight] of relaxations) {
+    const distU = distances.get(u)!;
+    const distV = distances.get(v)!;
+    const edge = { sourceId: u, targetId: v };
+    if (distU + weight < distV) {
+      negativeCycle = findNegativeCycle(previous, u, v, nodeIds.length);
+      const cycle = negativeCycle;
+      const cycleHighlights: Highlight[] = [];
+      cycle.forEach((nodeId, i) => {
+        cycleHighlights.push(
+          { type: "node", nodeId, role: "path" },
+          {
+            type: "edge",
+            sourceId: nodeId,
+            targetId: cycle[(i + 1) % cycle.length],
+            role: "path",
+          },
+        );
+      });
+      record(
+        "done",
+        `${u} -> ${v} can still be shortened, so there is a negative cycle: ` +
+          `${[...cycle, cycle[0]].join(" -> ")}`,
+        { highlights: cycleHighlights, line: 11 },
+        edge,
+      );
+      return { steps, distances, previous, passes, negativeCycle };
+    }
+    record(
+      "compare",
+      `Check ${u} -> ${v}: it cannot be shortened any further`,
+      {
+        highlights: [
+          { type: "edge", sourceId: u, targetId: v, role: "compare" },
+        ],
+        line: 10,
+      },
+      edge,
+    );
+  }
+
+  const reached = nodeIds.filter((id) => distances.get(id) !== Infinity);
+  record(
+    "done",
+    `No negative cycle: the distances to all ${reached.length} reachable nodes are final`,
+    { line: 12 },
+  );
+
+  return { steps, distances, previous, passes, negativeCycle: null };
+}
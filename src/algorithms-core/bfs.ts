@@ -0,0 +1,320 @@
+import { Graph } from "./graphs_common";
+import {
+  CodeListing,
+  createTraceStep,
+  Highlight,
+  StepKind,
+  TraceStepOptions,
+} from "./trace";
+import {
+  createTraversalState,
+  createTraversalStep,
+  isAncestor,
+  TraversalOptions,
+  TraversalState,
+  TraversalStep,
+} from "./traversal";
+
+export interface BFSStep extends TraversalStep {
+  levels: Map<string, number>; // Edges from the root of each discovered node
+}
+
+export interface BFSResult {
+  steps: BFSStep[];
+  order: string[]; // Nodes in the order they were discovered
+  parents: Map<string, string | null>;
+  levels: Map<string, number>;
+}
+
+// Breadth-first search listings. Steps record the pseudo-code line numbers.
+export const BFS_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "bfs(G, s):",
+      "  discovered = {s}, parent[s] = null",
+      "  Q = [s]",
+      "  while Q is not empty:",
+      "    u = Q.dequeue()",
+      "    for each edge (u, v) in G:",
+      "      if v is not discovered:",
+      "        discovered.add(v), parent[v] = u",
+      "        Q.enqueue(v)",
+      "      else if v is an ancestor of u: (u, v) is a back edge",
+      "      else: (u, v) is a cross edge",
+      "    u is finished",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function bfs(graph: Graph, s: string) {",
+      "  const parent = new Map<string, string | null>([[s, null]]);",
+      "  const queue = [s];",
+      "  while (queue.length > 0) {",
+      "    const u = queue.shift()!;",
+      "    for (const { node: v } of graph.get_neighbors(u)) {",
+      "      if (!parent.has(v.id)) {",
+      "        parent.set(v.id, u);",
+      "        queue.push(v.id);",
+      "      } else {",
+      "        // (u, v) is a back or cross edge",
+      "      }",
+      "    }",
+      "    // u is finished",
+      "  }",
+      "  return parent;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      6: 6,
+      7: 7,
+      8: 8,
+      9: 9,
+      10: 11,
+      11: 11,
+      12: 14,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def bfs(graph, s):",
+      "    parent = {s: None}",
+      "    queue = deque([s])",
+      "    while queue:",
+      "        u = queue.popleft()",
+      "        for v in graph[u]:",
+      "            if v not in parent:",
+      "                parent[v] = u",
+      "                queue.append(v)",
+      "            else:",
+      "                pass  # (u, v) is a back or cross edge",
+      "        # u is finished",
+      "    return parent",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      6: 6,
+      7: 7,
+      8: 8,
+      9: 9,
+      10: 11,
+      11: 11,
+      12: 12,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "Map<String, String> bfs(Graph graph, String s) {",
+      "  Map<String, String> parent = new HashMap<>();",
+      "  parent.put(s, null);",
+      "  Deque<String> queue = new ArrayDeque<>(List.of(s));",
+      "  while (!queue.isEmpty()) {",
+      "    String u = queue.poll();",
+      "    for (String v : graph.neighbors(u)) {",
+      "      if (!parent.containsKey(v)) {",
+      "        parent.put(v, u);",
+      "        queue.add(v);",
+      "      } else {",
+      "        // (u, v) is a back or cross edge",
+      "      }",
+      "    }",
+      "    // u is finished",
+      "  }",
+      "  return parent;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 4,
+      4: 5,
+      5: 6,
+      6: 7,
+      7: 8,
+      8: 9,
+      9: 10,
+      10: 12,
+      11: 12,
+      12: 15,
+    },
+  },
+];
+
+/**
+ * Breadth-first search from a start node. Each node is expanded in the order
+ * it was queued, and every edge examined is classified against the search
+ * tree: tree edges discover nodes, back edges lead to an ancestor and all
+ * others are cross edges. Undirected edges are classified once, from the end
+ * they are first examined from.
+ *
+ * @param graph - The graph to search
+ * @param startNodeId - The ID of the node to start from
+ * @param options - Whether to go on until every node has been reached
+ * @returns The recorded steps and the search tree
+ */
+export function bfs(
+  graph: Graph,
+  startNodeId: string,
+  options: TraversalOptions = {},
+): BFSResult {
+  if (!graph.nodes[startNodeId]) {
+    throw new Error(`Start node ${startNodeId} not found in the graph`);
+  }
+
+  const state: TraversalState = createTraversalState();
+  const levels = new Map<string, number>();
+  const steps: BFSStep[] = [];
+  const record = (
+    kind: StepKind,
+    narration: string,
+    trace: TraceStepOptions,
+  ) => {
+    steps.push({
+      ...createTraversalStep(state, createTraceStep(kind, narration, trace)),
+      levels: new Map(levels),
+    });
+  };
+
+  const discover = (nodeId: string, parentId: string | null) => {
+    state.discovered.push(nodeId);
+    state.parents.set(nodeId, parentId);
+    levels.set(nodeId, parentId === null ? 0 : levels.get(parentId)! + 1);
+    state.frontier.push(nodeId);
+  };
+
+  const search = (rootId: string, first: boolean) => {
+    discover(rootId, null);
+    record(
+      "init",
+      first
+        ? `Discover ${rootId} and put it in the queue`
+        : `${rootId} has not been reached; start a new search from it`,
+      {
+        highlights: [{ type: "node", nodeId: rootId, role: "next" }],
+        mutations: [
+          {
+            target: "discovered",
+            key: rootId,
+            from: null,
+            to: state.discovered.length,
+          },
+        ],
+        line: first ? 3 : 2,
+      },
+    );
+
+    while (state.frontier.length > 0) {
+      const u = state.frontier.shift()!;
+      state.currentNodeId = u;
+      record("visit", `Take ${u} from the front of the queue`, {
+        highlights: [{ type: "node", nodeId: u, role: "current" }],
+        line: 5,
+      });
+
+      for (const { node, edge } of graph.get_neighbors(u)) {
+        const v = node.id;
+        // An undirected edge is seen again from its other end
+        if (state.edgeClasses.has(edge.id)) continue;
+
+        const edgeHighlight: Highlight = {
+          type: "edge",
+          sourceId: u,
+          targetId: v,
+          role: "compare",
+        };
+        if (!state.parents.has(v)) {
+          discover(v, u);
+          state.edgeClasses.set(edge.id, "tree");
+          record("visit", `Discover ${v} from ${u} and queue it`, {
+            highlights: [
+              { type: "node", nodeId: u, role: "current" },
+              { type: "node", nodeId: v, role: "next" },
+              edgeHighlight,
+            ],
+            mutations: [
+              {
+                target: "discovered",
+                key: v,
+                from: null,
+                to: state.discovered.length,
+              },
+              { target: "edgeClasses", key: edge.id, from: null, to: "tree" },
+            ],
+            line: 8,
+          });
+        } else {
+          const back = isAncestor(state.parents, v, u);
+          state.edgeClasses.set(edge.id, back ? "back" : "cross");
+          record(
+            "compare",
+            `${v} is already discovered, so ${u} - ${v} is a ${back ? "back" : "cross"} edge`,
+            {
+              highlights: [
+                { type: "node", nodeId: u, role: "current" },
+                { type: "node", nodeId: v, role: "visited" },
+                edgeHighlight,
+              ],
+              mutations: [
+                {
+                  target: "edgeClasses",
+                  key: edge.id,
+                  from: null,
+                  to: back ? "back" : "cross",
+                },
+              ],
+              line: back ? 10 : 11,
+            },
+          );
+        }
+      }
+
+      state.finished.push(u);
+      state.currentNodeId = null;
+      record("finalize", `Every edge of ${u} has been examined`, {
+        highlights: [{ type: "node", nodeId: u, role: "visited" }],
+        mutations: [
+          {
+            target: "finished",
+            key: u,
+            from: null,
+            to: state.finished.length,
+          },
+        ],
+        line: 12,
+      });
+    }
+  };
+
+  search(startNodeId, true);
+  if (options.visitAll) {
+    Object.keys(graph.nodes).forEach((nodeId) => {
+      if (!state.parents.has(nodeId)) search(nodeId, false);
+    });
+  }
+
+  const reached = state.discovered.length;
+  record(
+    "done",
+    `Search complete: reached ${reached} of ${Object.keys(graph.nodes).length} nodes`,
+    {},
+  );
+
+  return {
+    steps,
+    order: state.discovered.slice(),
+    parents: new Map(state.parents),
+    levels: new Map(levels),
+  };
+}
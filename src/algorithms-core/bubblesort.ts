@@ -0,0 +1,151 @@
+import { CodeListing, createTraceStep } from "./trace";
+import {
+  annotateSortStats,
+  createInitialSortStep,
+  SortStep,
+  swap,
+} from "./quicksort";
+
+// Bubble sort source listings. Steps record the pseudo-code line numbers.
+export const BUBBLESORT_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "bubbleSort(A):",
+      "  for i = 0 to n - 2:",
+      "    swapped = false",
+      "    for j = 0 to n - i - 2:",
+      "      if A[j] > A[j + 1]:",
+      "        swap A[j] and A[j + 1]",
+      "        swapped = true",
+      "    if not swapped: stop",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function bubbleSort(a: number[]): void {",
+      "  for (let i = 0; i < a.length - 1; i++) {",
+      "    let swapped = false;",
+      "    for (let j = 0; j < a.length - i - 1; j++) {",
+      "      if (a[j] > a[j + 1]) {",
+      "        [a[j], a[j + 1]] = [a[j + 1], a[j]];",
+      "        swapped = true;",
+      "      }",
+      "    }",
+      "    if (!swapped) break;",
+      "  }",
+      "}",
+    ],
+    lineMap: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7, 8: 10 },
+  },
+  {
+    language: "python",
+    lines: [
+      "def bubble_sort(a):",
+      "    for i in range(len(a) - 1):",
+      "        swapped = False",
+      "        for j in range(len(a) - i - 1):",
+      "            if a[j] > a[j + 1]:",
+      "                a[j], a[j + 1] = a[j + 1], a[j]",
+      "                swapped = True",
+      "        if not swapped:",
+      "            break",
+    ],
+    lineMap: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7, 8: 8 },
+  },
+  {
+    language: "java",
+    lines: [
+      "void bubbleSort(int[] a) {",
+      "  for (int i = 0; i < a.length - 1; i++) {",
+      "    boolean swapped = false;",
+      "    for (int j = 0; j < a.length - i - 1; j++) {",
+      "      if (a[j] > a[j + 1]) {",
+      "        swap(a, j, j + 1);",
+      "        swapped = true;",
+      "      }",
+      "    }",
+      "    if (!swapped) break;",
+      "  }",
+      "}",
+    ],
+    lineMap: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7, 8: 10 },
+  },
+];
+
+// Returns an array of steps detailing the changes during bubble sort.
+// The first step is the unsorted input and the last step is the sorted array.
+export function getBubbleSortSteps(initialArray: number[]): SortStep[] {
+  const steps: SortStep[] = [createInitialSortStep(initialArray)];
+  const arr = initialArray.slice();
+  const n = arr.length;
+
+  for (let i = 0; i < n - 1; i++) {
+    let swapped = false;
+    // Everything after lastUnsorted is already in its final place
+    const lastUnsorted = n - i - 1;
+
+    for (let j = 0; j < lastUnsorted; j++) {
+      // Record comparing the adjacent pair.
+      steps.push({
+        ...createTraceStep("compare", `Compare ${arr[j]} and ${arr[j + 1]}`, {
+          highlights: [
+            { type: "index", index: j, role: "compare" },
+            { type: "index", index: j + 1, role: "compare" },
+          ],
+          line: 5,
+        }),
+        arr: arr.slice(),
+        comparing: [j, j + 1],
+        range: [0, lastUnsorted],
+      });
+
+      if (arr[j] > arr[j + 1]) {
+        const mutations = [
+          { target: "arr", key: j, from: arr[j], to: arr[j + 1] },
+          { target: "arr", key: j + 1, from: arr[j + 1], to: arr[j] },
+        ];
+        swap(arr, j, j + 1);
+        swapped = true;
+        // Record the swap of the out-of-order pair.
+        steps.push({
+          ...createTraceStep(
+            "swap",
+            `${arr[j + 1]} > ${arr[j]}, swap indices ${j} and ${j + 1}`,
+            {
+              highlights: [
+                { type: "index", index: j, role: "swap" },
+                { type: "index", index: j + 1, role: "swap" },
+              ],
+              mutations,
+              line: 6,
+            },
+          ),
+          arr: arr.slice(),
+          comparing: [j, j + 1],
+          range: [0, lastUnsorted],
+        });
+      }
+    }
+
+    if (!swapped) {
+      // Record stopping early on a pass without swaps.
+      steps.push({
+        ...createTraceStep(
+          "finalize",
+          "No swaps in this pass, the array is sorted",
+          { line: 8 },
+        ),
+        arr: arr.slice(),
+      });
+      break;
+    }
+  }
+
+  steps.push({
+    ...createTraceStep("done", "The array is sorted"),
+    arr: arr.slice(),
+  });
+  return annotateSortStats(steps);
+}
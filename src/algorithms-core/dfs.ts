@@ -0,0 +1,338 @@
+import { Graph } from "./graphs_common";
+import {
+  CodeListing,
+  createTraceStep,
+  Highlight,
+  StepKind,
+  TraceStepOptions,
+} from "./trace";
+import {
+  createTraversalState,
+  createTraversalStep,
+  EdgeClass,
+  TraversalOptions,
+  TraversalState,
+  TraversalStep,
+} from "./traversal";
+
+export interface DFSStep extends TraversalStep {
+  discoveryTime: Map<string, number>; // Clock value when each node was discovered
+  finishTime: Map<string, number>; // Clock value when each node was finished
+}
+
+export interface DFSResult {
+  steps: DFSStep[];
+  order: string[]; // Nodes in the order they were discovered
+  finishOrder: string[]; // Nodes in the order they were finished
+  parents: Map<string, string | null>;
+  discoveryTime: Map<string, number>;
+  finishTime: Map<string, number>;
+}
+
+// Depth-first search listings. Steps record the pseudo-code line numbers.
+export const DFS_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "dfs(G, s):",
+      "  time = 0",
+      "  visit(s)",
+      "visit(u):",
+      "  time += 1, discovered[u] = time",
+      "  for each edge (u, v) in G:",
+      "    if v is not discovered:",
+      "      parent[v] = u",
+      "      visit(v)",
+      "    else if v is not finished: (u, v) is a back edge",
+      "    else if discovered[u] < discovered[v]: (u, v) is a forward edge",
+      "    else: (u, v) is a cross edge",
+      "  time += 1, finished[u] = time",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function dfs(graph: Graph, s: string) {",
+      "  let time = 0;",
+      "  const discovered = new Map<string, number>();",
+      "  const finished = new Map<string, number>();",
+      "  const visit = (u: string) => {",
+      "    discovered.set(u, ++time);",
+      "    for (const { node: v } of graph.get_neighbors(u)) {",
+      "      if (!discovered.has(v.id)) {",
+      "        visit(v.id); // tree edge",
+      "      } else if (!finished.has(v.id)) {",
+      "        // back edge",
+      "      } else if (discovered.get(u)! < discovered.get(v.id)!) {",
+      "        // forward edge",
+      "      } else {",
+      "        // cross edge",
+      "      }",
+      "    }",
+      "    finished.set(u, ++time);",
+      "  };",
+      "  visit(s);",
+      "  return { discovered, finished };",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 20,
+      4: 5,
+      5: 6,
+      6: 7,
+      7: 8,
+      8: 9,
+      9: 9,
+      10: 10,
+      11: 12,
+      12: 14,
+      13: 18,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def dfs(graph, s):",
+      "    time = 0",
+      "    discovered, finished = {}, {}",
+      "    def visit(u):",
+      "        nonlocal time",
+      "        time += 1",
+      "        discovered[u] = time",
+      "        for v in graph[u]:",
+      "            if v not in discovered:",
+      "                visit(v)  # tree edge",
+      "            elif v not in finished:",
+      "                pass  # back edge",
+      "            elif discovered[u] < discovered[v]:",
+      "                pass  # forward edge",
+      "            else:",
+      "                pass  # cross edge",
+      "        time += 1",
+      "        finished[u] = time",
+      "    visit(s)",
+      "    return discovered, finished",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 19,
+      4: 4,
+      5: 7,
+      6: 8,
+      7: 9,
+      8: 10,
+      9: 10,
+      10: 11,
+      11: 13,
+      12: 15,
+      13: 18,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "int time = 0;",
+      "Map<String, Integer> discovered = new HashMap<>(), finished = new HashMap<>();",
+      "void dfs(Graph graph, String s) {",
+      "  time = 0;",
+      "  visit(graph, s);",
+      "}",
+      "void visit(Graph graph, String u) {",
+      "  discovered.put(u, ++time);",
+      "  for (String v : graph.neighbors(u)) {",
+      "    if (!discovered.containsKey(v)) {",
+      "      visit(graph, v); // tree edge",
+      "    } else if (!finished.containsKey(v)) {",
+      "      // back edge",
+      "    } else if (discovered.get(u) < discovered.get(v)) {",
+      "      // forward edge",
+      "    } else {",
+      "      // cross edge",
+      "    }",
+      "  }",
+      "  finished.put(u, ++time);",
+      "}",
+    ],
+    lineMap: {
+      1: 3,
+      2: 4,
+      3: 5,
+      4: 7,
+      5: 8,
+      6: 9,
+      7: 10,
+      8: 11,
+      9: 11,
+      10: 12,
+      11: 14,
+      12: 16,
+      13: 20,
+    },
+  },
+];
+
+// Pseudo-code line that classifies each kind of non-tree edge.
+const CLASS_LINES: Record<Exclude<EdgeClass, "tree">, number> = {
+  back: 10,
+  forward: 11,
+  cross: 12,
+};
+
+/**
+ * Depth-first search from a start node. A single clock stamps the time each
+ * node is discovered and finished, and the stack holds the current path of
+ * recursive calls. Edges are classified as tree, back, forward or cross; in
+ * an undirected graph only tree and back edges occur, and each edge is
+ * classified once, from the end it is first examined from.
+ *
+ * @param graph - The graph to search
+ * @param startNodeId - The ID of the node to start from
+ * @param options - Whether to go on until every node has been reached
+ * @returns The recorded steps, the search tree and the clock stamps
+ */
+export function dfs(
+  graph: Graph,
+  startNodeId: string,
+  options: TraversalOptions = {},
+): DFSResult {
+  if (!graph.nodes[startNodeId]) {
+    throw new Error(`Start node ${startNodeId} not found in the graph`);
+  }
+
+  const state: TraversalState = createTraversalState();
+  const discoveryTime = new Map<string, number>();
+  const finishTime = new Map<string, number>();
+  let time = 0;
+  const steps: DFSStep[] = [];
+  const record = (
+    kind: StepKind,
+    narration: string,
+    trace: TraceStepOptions,
+  ) => {
+    steps.push({
+      ...createTraversalStep(state, createTraceStep(kind, narration, trace)),
+      discoveryTime: new Map(discoveryTime),
+      finishTime: new Map(finishTime),
+    });
+  };
+
+  const visit = (u: string) => {
+    time++;
+    discoveryTime.set(u, time);
+    state.discovered.push(u);
+    state.frontier.push(u);
+    state.currentNodeId = u;
+    record("visit", `Discover ${u} at time ${time} and push it on the stack`, {
+      highlights: [{ type: "node", nodeId: u, role: "current" }],
+      mutations: [{ target: "discovered", key: u, from: null, to: time }],
+      line: 5,
+    });
+
+    for (const { node, edge } of graph.get_neighbors(u)) {
+      const v = node.id;
+      // An undirected edge is seen again from its other end
+      if (state.edgeClasses.has(edge.id)) continue;
+
+      const edgeHighlight: Highlight = {
+        type: "edge",
+        sourceId: u,
+        targetId: v,
+        role: "compare",
+      };
+      if (!discoveryTime.has(v)) {
+        state.parents.set(v, u);
+        state.edgeClasses.set(edge.id, "tree");
+        record("compare", `${v} is undiscovered, so follow ${u} - ${v}`, {
+          highlights: [
+            { type: "node", nodeId: u, role: "current" },
+            { type: "node", nodeId: v, role: "next" },
+            edgeHighlight,
+          ],
+          mutations: [
+            { target: "edgeClasses", key: edge.id, from: null, to: "tree" },
+          ],
+          line: 8,
+        });
+        visit(v);
+        state.currentNodeId = u;
+        continue;
+      }
+
+      let edgeClass: Exclude<EdgeClass, "tree">;
+      let reason: string;
+      if (!finishTime.has(v)) {
+        edgeClass = "back";
+        reason = `${v} is on the stack`;
+      } else if (discoveryTime.get(u)! < discoveryTime.get(v)!) {
+        edgeClass = "forward";
+        reason = `${v} is a finished descendant of ${u}`;
+      } else {
+        edgeClass = "cross";
+        reason = `${v} is finished and not a descendant of ${u}`;
+      }
+      state.edgeClasses.set(edge.id, edgeClass);
+      record("compare", `${reason}, so ${u} - ${v} is a ${edgeClass} edge`, {
+        highlights: [
+          { type: "node", nodeId: u, role: "current" },
+          { type: "node", nodeId: v, role: "visited" },
+          edgeHighlight,
+        ],
+        mutations: [
+          { target: "edgeClasses", key: edge.id, from: null, to: edgeClass },
+        ],
+        line: CLASS_LINES[edgeClass],
+      });
+    }
+
+    time++;
+    finishTime.set(u, time);
+    state.finished.push(u);
+    state.frontier.pop();
+    state.currentNodeId = null;
+    record("finalize", `Finish ${u} at time ${time} and pop it off the stack`, {
+      highlights: [{ type: "node", nodeId: u, role: "visited" }],
+      mutations: [{ target: "finished", key: u, from: null, to: time }],
+      line: 13,
+    });
+  };
+
+  const search = (rootId: string, first: boolean) => {
+    state.parents.set(rootId, null);
+    record(
+      "init",
+      first
+        ? `Start the search from ${rootId}`
+        : `${rootId} has not been reached; start a new search from it`,
+      {
+        highlights: [{ type: "node", nodeId: rootId, role: "next" }],
+        line: first ? 2 : 3,
+      },
+    );
+    visit(rootId);
+  };
+
+  search(startNodeId, true);
+  if (options.visitAll) {
+    Object.keys(graph.nodes).forEach((nodeId) => {
+      if (!discoveryTime.has(nodeId)) search(nodeId, false);
+    });
+  }
+
+  record(
+    "done",
+    `Search complete: reached ${state.discovered.length} of ${Object.keys(graph.nodes).length} nodes`,
+    {},
+  );
+
+  return {
+    steps,
+    order: state.discovered.slice(),
+    finishOrder: state.finished.slice(),
+    parents: new Map(state.parents),
+    discoveryTime: new Map(discoveryTime),
+    finishTime: new Map(finishTime),
+  };
+}
@@ -1,22 +1,353 @@
-import { Graph } from "./graphs_common";
-
-export interface DijkstraStep {
+import { getEdgeWeight, Graph } from "./graphs_common";
+import { HeapEntry, IndexedMinHeap } from "./indexed_heap";
+import {
+  CodeListing,
+  createTraceStep,
+  Highlight,
+  Mutation,
+  TraceStep,
+} from "./trace";
+
+export interface DijkstraStep extends TraceStep {
   currentNodeId: string | null; // The node currently being processed (null for initial step)
   distances: Map<string, number>; // Current distances from the start node
   previous: Map<string, string | null>; // Previous nodes in the optimal path
   visited: Set<string>; // Nodes that have been visited
   unvisited: Set<string>; // Nodes that are yet to be visited
   currentShortest: string | null; // Current node with shortest distance in unvisited set
+  heap: HeapEntry[] | null; // The priority queue in array form, null when it is scanned linearly
+  comparisons: number; // Distance comparisons made so far to find the closest node
+}
+
+// How the closest unvisited node is found: an indexed binary heap, taking
+// O((V + E) log V) overall, or a scan of every unvisited node, O(V^2)
+export type DijkstraQueue = "heap" | "linear";
+
+// How finely a run is recorded: one step per finalized node, or also a step
+// for each edge examined and whether it improved a distance
+export type DijkstraGranularity = "node" | "edge";
+
+// State of the priority queue recorded with each step
+export interface DijkstraQueueState {
+  heap: HeapEntry[] | null;
+  comparisons: number;
 }
 
 export interface DijkstraResult {
   steps: DijkstraStep[];
   distances: Map<string, number>;
   previous: Map<string, string | null>;
-  shortestPath: string[] | null; // The shortest path from start to end node
+  shortestPath: string[] | null; // The shortest path from start to the target, if one was given
   totalDistance: number | null; // Total distance of the shortest path
 }
 
+// Dijkstra source listings using a binary heap. Steps record the pseudo-code
+// line numbers, which match the linear scan listings below. Python and Java
+// have no decrease-key, so they push a new entry and skip the stale one.
+export const DIJKSTRA_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "dijkstra(G, source):",
+      "  for each node v in G:",
+      "    dist[v] = infinity, prev[v] = null",
+      "  dist[source] = 0",
+      "  Q = min-heap of all nodes keyed by dist",
+      "  while Q is not empty:",
+      "    u = Q.extractMin()",
+      "    if dist[u] = infinity or u = target: stop",
+      "    u is final",
+      "    for each neighbor v of u:",
+      "      alt = dist[u] + weight(u, v)",
+      "      if alt < dist[v]:",
+      "        dist[v] = alt, prev[v] = u, Q.decreaseKey(v, alt)",
+      "  return dist, prev",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function dijkstra(graph: Graph, source: string, target?: string) {",
+      "  const dist = new Map<string, number>();",
+      "  const prev = new Map<string, string | null>();",
+      "  for (const v of Object.keys(graph.nodes)) {",
+      "    dist.set(v, Infinity);",
+      "    prev.set(v, null);",
+      "  }",
+      "  dist.set(source, 0);",
+      "  const queue = new IndexedMinHeap();",
+      "  for (const [v, d] of dist) queue.push(v, d);",
+      "  while (queue.size > 0) {",
+      "    const u = queue.pop()!.id;",
+      "    if (dist.get(u) === Infinity || u === target) break;",
+      "    for (const [v, weight] of neighbors(graph, u)) {",
+      "      const alt = dist.get(u)! + weight;",
+      "      if (alt < dist.get(v)!) {",
+      "        dist.set(v, alt);",
+      "        prev.set(v, u);",
+      "        if (queue.has(v)) queue.decreaseKey(v, alt);",
+      "      }",
+      "    }",
+      "  }",
+      "  return { dist, prev };",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 4,
+      3: 5,
+      4: 8,
+      5: 9,
+      6: 11,
+      7: 12,
+      8: 13,
+      9: 12,
+      10: 14,
+      11: 15,
+      12: 16,
+      13: 17,
+      14: 23,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def dijkstra(graph, source, target=None):",
+      "    dist = {v: math.inf for v in graph}",
+      "    prev = {v: None for v in graph}",
+      "    dist[source] = 0",
+      "    queue = [(0, source)]",
+      "    done = set()",
+      "    while queue:",
+      "        d, u = heapq.heappop(queue)",
+      "        if u in done:",
+      "            continue  # an older, larger entry for u",
+      "        done.add(u)",
+      "        if u == target:",
+      "            break",
+      "        for v, weight in graph[u]:",
+      "            alt = d + weight",
+      "            if alt < dist[v]:",
+      "                dist[v] = alt",
+      "                prev[v] = u",
+      "                heapq.heappush(queue, (alt, v))",
+      "    return dist, prev",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      6: 7,
+      7: 8,
+      8: 12,
+      9: 11,
+      10: 14,
+      11: 15,
+      12: 16,
+      13: 17,
+      14: 20,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "Map<String, Integer> dijkstra(Graph graph, String source, String target) {",
+      "  Map<String, Integer> dist = new HashMap<>();",
+      "  Map<String, String> prev = new HashMap<>();",
+      "  for (String v : graph.nodes()) {",
+      "    dist.put(v, Integer.MAX_VALUE);",
+      "    prev.put(v, null);",
+      "  }",
+      "  dist.put(source, 0);",
+      "  PriorityQueue<Map.Entry<String, Integer>> queue =",
+      "      new PriorityQueue<>(Map.Entry.comparingByValue());",
+      "  queue.add(Map.entry(source, 0));",
+      "  Set<String> done = new HashSet<>();",
+      "  while (!queue.isEmpty()) {",
+      "    String u = queue.poll().getKey();",
+      "    if (!done.add(u)) continue; // an older, larger entry for u",
+      "    if (u.equals(target)) break;",
+      "    for (Edge e : graph.neighbors(u)) {",
+      "      int alt = dist.get(u) + e.weight;",
+      "      if (alt < dist.get(e.to)) {",
+      "        dist.put(e.to, alt);",
+      "        prev.put(e.to, u);",
+      "        queue.add(Map.entry(e.to, alt));",
+      "      }",
+      "    }",
+      "  }",
+      "  return dist;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 4,
+      3: 5,
+      4: 8,
+      5: 9,
+      6: 13,
+      7: 14,
+      8: 16,
+      9: 15,
+      10: 17,
+      11: 18,
+      12: 19,
+      13: 20,
+      14: 26,
+    },
+  },
+];
+
+// Dijkstra source listings scanning every unvisited node for the closest.
+export const DIJKSTRA_LINEAR_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "dijkstra(G, source):",
+      "  for each node v in G:",
+      "    dist[v] = infinity, prev[v] = null",
+      "  dist[source] = 0",
+      "  Q = all nodes of G",
+      "  while Q is not empty:",
+      "    u = node in Q with the smallest dist",
+      "    if dist[u] = infinity or u = target: stop",
+      "    remove u from Q",
+      "    for each neighbor v of u:",
+      "      alt = dist[u] + weight(u, v)",
+      "      if alt < dist[v]:",
+      "        dist[v] = alt, prev[v] = u",
+      "  return dist, prev",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function dijkstra(graph: Graph, source: string, target?: string) {",
+      "  const dist = new Map<string, number>();",
+      "  const prev = new Map<string, string | null>();",
+      "  for (const v of Object.keys(graph.nodes)) {",
+      "    dist.set(v, Infinity);",
+      "    prev.set(v, null);",
+      "  }",
+      "  dist.set(source, 0);",
+      "  const queue = new Set(Object.keys(graph.nodes));",
+      "  while (queue.size > 0) {",
+      "    const u = findNodeWithSmallestDistance(queue, dist)!;",
+      "    if (dist.get(u) === Infinity || u === target) break;",
+      "    queue.delete(u);",
+      "    for (const [v, weight] of neighbors(graph, u)) {",
+      "      const alt = dist.get(u)! + weight;",
+      "      if (alt < dist.get(v)!) {",
+      "        dist.set(v, alt);",
+      "        prev.set(v, u);",
+      "      }",
+      "    }",
+      "  }",
+      "  return { dist, prev };",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 4,
+      3: 5,
+      4: 8,
+      5: 9,
+      6: 10,
+      7: 11,
+      8: 12,
+      9: 13,
+      10: 14,
+      11: 15,
+      12: 16,
+      13: 17,
+      14: 22,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def dijkstra(graph, source, target=None):",
+      "    dist = {v: math.inf for v in graph}",
+      "    prev = {v: None for v in graph}",
+      "    dist[source] = 0",
+      "    queue = set(graph)",
+      "    while queue:",
+      "        u = min(queue, key=lambda v: dist[v])",
+      "        if dist[u] == math.inf or u == target:",
+      "            break",
+      "        queue.remove(u)",
+      "        for v, weight in graph[u]:",
+      "            alt = dist[u] + weight",
+      "            if alt < dist[v]:",
+      "                dist[v] = alt",
+      "                prev[v] = u",
+      "    return dist, prev",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      6: 6,
+      7: 7,
+      8: 8,
+      9: 10,
+      10: 11,
+      11: 12,
+      12: 13,
+      13: 14,
+      14: 16,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "Map<String, Integer> dijkstra(Graph graph, String source, String target) {",
+      "  Map<String, Integer> dist = new HashMap<>();",
+      "  Map<String, String> prev = new HashMap<>();",
+      "  for (String v : graph.nodes()) {",
+      "    dist.put(v, Integer.MAX_VALUE);",
+      "    prev.put(v, null);",
+      "  }",
+      "  dist.put(source, 0);",
+      "  Set<String> queue = new HashSet<>(graph.nodes());",
+      "  while (!queue.isEmpty()) {",
+      "    String u = Collections.min(queue, Comparator.comparing(dist::get));",
+      "    if (dist.get(u) == Integer.MAX_VALUE || u.equals(target)) break;",
+      "    queue.remove(u);",
+      "    for (Edge e : graph.neighbors(u)) {",
+      "      int alt = dist.get(u) + e.weight;",
+      "      if (alt < dist.get(e.to)) {",
+      "        dist.put(e.to, alt);",
+      "        prev.put(e.to, u);",
+      "      }",
+      "    }",
+      "  }",
+      "  return dist;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 4,
+      3: 5,
+      4: 8,
+      5: 9,
+      6: 10,
+      7: 11,
+      8: 12,
+      9: 13,
+      10: 14,
+      11: 15,
+      12: 16,
+      13: 17,
+      14: 22,
+    },
+  },
+];
+
 /**
  * Helper function for conditional debug logging
  */
@@ -56,6 +387,10 @@ export function findNodeWithSmallestDistance(
 
 /**
  * Creates a deep copy of the current algorithm state for step-by-step visualization
+ *
+ * @param trace - Common trace fields for the step; when omitted a default
+ *   "init" or "finalize" step is described from currentId
+ * @param queue - The priority queue's heap and comparison count, if any
  */
 export function createDijkstraStep(
   currentId: string | null,
@@ -64,14 +399,36 @@ export function createDijkstraStep(
   previous: Map<string, string | null>,
   visited: Set<string>,
   unvisited: Set<string>,
+  trace?: TraceStep,
+  queue: DijkstraQueueState = { heap: null, comparisons: 0 },
 ): DijkstraStep {
+  const highlights: Highlight[] = [];
+  if (currentId !== null) {
+    highlights.push({ type: "node", nodeId: currentId, role: "current" });
+  }
+  if (nextShortest !== null) {
+    highlights.push({ type: "node", nodeId: nextShortest, role: "next" });
+  }
+
   return {
+    ...(trace ??
+      (currentId === null
+        ? createTraceStep("init", "Set every distance to infinity", {
+            highlights,
+            line: 4,
+          })
+        : createTraceStep("finalize", `Finalize node ${currentId}`, {
+            highlights,
+            line: 9,
+          }))),
     currentNodeId: currentId,
     distances: new Map(distances),
     previous: new Map(previous),
     visited: new Set(visited),
     unvisited: new Set(unvisited),
     currentShortest: nextShortest,
+    heap: queue.heap ? queue.heap.map((entry) => ({ ...entry })) : null,
+    comparisons: queue.comparisons,
   };
 }
 
@@ -112,21 +469,35 @@ export function reconstructPath(
 /**
  * Implementation of Dijkstra's algorithm to find the shortest paths from a source node to all other nodes.
  * The weight of an edge is determined by the 'data' property of the edge.
+ * Both queues break ties between equal distances by node order, so they
+ * finalize the nodes in the same order. Given a target, the run stops as soon
+ * as the target is finalized and the result carries the path to it.
+ * Recorded per edge, each finalized node is followed by a step for every
+ * edge examined from it; per node, one step sums them up.
  *
  * @param graph - The graph object containing nodes and edges
  * @param startNodeId - The ID of the starting node
  * @param debug - Whether to enable debug logging (default: false)
+ * @param queue - How to find the closest unvisited node (default: "heap")
+ * @param targetNodeId - The ID of the node to stop at, if any
+ * @param granularity - Whether to record a step per node or per edge (default: "node")
  * @returns The algorithm steps and result
  */
 export function dijkstra(
   graph: Graph,
   startNodeId: string,
   debug: boolean = false,
+  queue: DijkstraQueue = "heap",
+  targetNodeId: string | null = null,
+  granularity: DijkstraGranularity = "node",
 ): DijkstraResult {
   // Validate input
   if (!graph.nodes[startNodeId]) {
     throw new Error(`Start node ${startNodeId} not found in the graph`);
   }
+  if (targetNodeId !== null && !graph.nodes[targetNodeId]) {
+    throw new Error(`Target node ${targetNodeId} not found in the graph`);
+  }
 
   // Initialize data structures
   const distances = new Map<string, number>();
@@ -141,8 +512,45 @@ export function dijkstra(
     unvisited.add(nodeId);
   });
 
+  // The heap holds every unvisited node, keyed by its distance
+  const heap = queue === "heap" ? new IndexedMinHeap() : null;
+  distances.forEach((distance, nodeId) => heap?.push(nodeId, distance));
+  let linearComparisons = 0;
+  const queueState = (): DijkstraQueueState => ({
+    heap: heap ? heap.snapshot() : null,
+    comparisons: heap ? heap.comparisons : linearComparisons,
+  });
+  // The closest unvisited node, or null once none can be reached
+  const peekClosest = (): string | null => {
+    if (!heap) return findNodeWithSmallestDistance(unvisited, distances);
+    const top = heap.peek();
+    return top && top.priority !== Infinity ? top.id : null;
+  };
+
   // Steps for visualization
   const steps: DijkstraStep[] = [];
+  const perEdge = granularity === "edge";
+
+  // Record a step while currentId is processed, with the closest node left
+  // as the next one
+  const recordStep = (currentId: string, trace: TraceStep) => {
+    const nextId = peekClosest();
+    if (nextId !== null) {
+      trace.highlights.push({ type: "node", nodeId: nextId, role: "next" });
+    }
+    steps.push(
+      createDijkstraStep(
+        currentId,
+        nextId,
+        distances,
+        previous,
+        visited,
+        unvisited,
+        trace,
+        queueState(),
+      ),
+    );
+  };
 
   // Record initial state
   steps.push(
@@ -153,6 +561,18 @@ export function dijkstra(
       previous,
       visited,
       unvisited,
+      createTraceStep(
+        "init",
+        `Set the distance of ${startNodeId} to 0 and every other node to infinity`,
+        {
+          highlights: [{ type: "node", nodeId: startNodeId, role: "next" }],
+          mutations: [
+            { target: "distances", key: startNodeId, from: Infinity, to: 0 },
+          ],
+          line: 4,
+        },
+      ),
+      queueState(),
     ),
   );
 
@@ -165,8 +585,10 @@ export function dijkstra(
 
   // Main algorithm loop - continue until all nodes are visited or no more nodes are reachable
   while (unvisited.size > 0) {
-    // Find the unvisited node with the smallest distance
-    const currentNodeId = findNodeWithSmallestDistance(unvisited, distances);
+    // Find the unvisited node with the smallest distance; a scan compares
+    // every one of them
+    if (!heap) linearComparisons += unvisited.size;
+    const currentNodeId = peekClosest();
 
     // If no reachable node, we're done
     if (currentNodeId === null) {
@@ -190,86 +612,123 @@ export function dijkstra(
     }
 
     // Remove the current node from unvisited and add to visited
+    heap?.pop();
     unvisited.delete(currentNodeId);
     visited.add(currentNodeId);
 
-    // Get the current node from the graph
-    const currentNode = graph.nodes[currentNodeId];
-
-    // Process all edges from the current node
-    // For undirected graphs, we need to check both outgoing and incoming edges
-    // since each can be traversed in either direction
-
-    // Process outgoing edges
-    let edge = currentNode.outgoing_edges;
-    debugLog(debug, `Checking outgoing edges from ${currentNodeId}:`);
-
-    while (edge !== null) {
-      const neighborId = edge.to_node.id;
-
-      // Only process unvisited nodes or nodes we might improve
-      if (
-        visited.has(neighborId) &&
-        distances.get(neighborId)! <= currentDistance
-      ) {
-        edge = edge.next_from;
-        continue;
-      }
-
-      // Get the weight of the edge (use 1 as default if not a number)
-      const weight = typeof edge.data === "number" ? edge.data : 1;
-      const newDistance = currentDistance + weight;
-
-      debugLog(
-        debug,
-        `  Edge to ${neighborId} with weight ${weight} gives new distance ${newDistance}`,
+    // The target's distance is final once it leaves the queue, so stop there
+    if (currentNodeId === targetNodeId) {
+      const { path } = reconstructPath(
+        targetNodeId,
+        startNodeId,
+        previous,
+        distances,
       );
-      debugLog(
-        debug,
-        `  Current distance to ${neighborId} is ${distances.get(neighborId)}`,
+      debugLog(debug, `Reached the target ${targetNodeId}, stopping`);
+      steps.push(
+        createDijkstraStep(
+          currentNodeId,
+          null,
+          distances,
+          previous,
+          visited,
+          unvisited,
+          createTraceStep(
+            "finalize",
+            `Finalize the target ${currentNodeId} at distance ${currentDistance}; ` +
+              `its shortest path is known, so stop`,
+            {
+              highlights: [
+                { type: "node", nodeId: currentNodeId, role: "current" },
+                ...(path ?? []).slice(1).map((nodeId, i): Highlight => ({
+                  type: "edge",
+                  sourceId: path![i],
+                  targetId: nodeId,
+                  role: "path",
+                })),
+              ],
+              line: 8,
+            },
+          ),
+          queueState(),
+        ),
       );
+      break;
+    }
 
-      // If we found a shorter path, update the distance and previous node
-      const currentNeighborDistance = distances.has(neighborId)
-        ? distances.get(neighborId)!
-        : Infinity;
-      if (newDistance < currentNeighborDistance) {
-        debugLog(
-          debug,
-          `  Updating distance to ${neighborId} from ${currentNeighborDistance} to ${newDistance}`,
-        );
-        distances.set(neighborId, newDistance);
-        previous.set(neighborId, currentNodeId);
-      } else {
-        debugLog(debug, `  No update needed for ${neighborId}`);
-      }
+    // Changes and relaxed edges made while processing this node
+    const mutations: Mutation[] = [];
+    const relaxedEdges: Highlight[] = [];
 
-      edge = edge.next_from;
+    if (perEdge) {
+      recordStep(
+        currentNodeId,
+        createTraceStep(
+          "finalize",
+          `Finalize ${currentNodeId} at distance ${currentDistance} and examine its edges`,
+          {
+            highlights: [
+              { type: "node", nodeId: currentNodeId, role: "current" },
+            ],
+            line: 9,
+          },
+        ),
+      );
     }
 
-    // Process incoming edges (because graph is now undirected)
-    edge = currentNode.incoming_edges;
-    debugLog(debug, `Checking incoming edges to ${currentNodeId}:`);
-
-    while (edge !== null) {
-      const neighborId = edge.from_node.id;
+    // Process every edge leading out of the current node. Undirected edges
+    // can be traversed in either direction, so they are followed from both
+    // the outgoing and incoming lists; directed ones only from outgoing.
+    debugLog(debug, `Checking edges from ${currentNodeId}:`);
+
+    for (const { node: neighbor, edge } of graph.get_neighbors(currentNodeId)) {
+      const neighborId = neighbor.id;
+      const edgeHighlights = (): Highlight[] => [
+        { type: "node", nodeId: currentNodeId, role: "current" },
+        { type: "node", nodeId: neighborId, role: "compare" },
+        {
+          type: "edge",
+          sourceId: currentNodeId,
+          targetId: neighborId,
+          role: "compare",
+        },
+      ];
 
       // Only process unvisited nodes or nodes we might improve
       if (
         visited.has(neighborId) &&
         distances.get(neighborId)! <= currentDistance
       ) {
-        edge = edge.next_to;
+        if (perEdge) {
+          recordStep(
+            currentNodeId,
+            createTraceStep(
+              "compare",
+              `${neighborId} is already final, so skip ${currentNodeId} - ${neighborId}`,
+              { highlights: edgeHighlights(), line: 10 },
+            ),
+          );
+        }
         continue;
       }
 
-      // Get the weight of the edge (use 1 as default if not a number)
-      const weight = typeof edge.data === "number" ? edge.data : 1;
+      // Get the weight of the edge, which must be a number
+      const weight = getEdgeWeight(edge);
       const newDistance = currentDistance + weight;
+      if (perEdge) {
+        recordStep(
+          currentNodeId,
+          createTraceStep(
+            "compare",
+            `Examine ${currentNodeId} - ${neighborId}: alt = ${currentDistance} + ${weight} = ${newDistance}`,
+            { highlights: edgeHighlights(), line: 11 },
+          ),
+        );
+      }
 
       debugLog(
         debug,
-        `  Edge from ${neighborId} with weight ${weight} gives new distance ${newDistance}`,
+        `  Edge to ${neighborId} with weight ${weight} gives new distance ${newDistance}`,
       );
       debugLog(
         debug,
@@ -285,17 +744,63 @@ export function dijkstra(
           debug,
           `  Updating distance to ${neighborId} from ${currentNeighborDistance} to ${newDistance}`,
         );
+        mutations.push(
+          {
+            target: "distances",
+            key: neighborId,
+            from: currentNeighborDistance,
+            to: newDistance,
+          },
+          {
+            target: "previous",
+            key: neighborId,
+            from: previous.get(neighborId) ?? null,
+            to: currentNodeId,
+          },
+        );
+        relaxedEdges.push({
+          type: "edge",
+          sourceId: currentNodeId,
+          targetId: neighborId,
+          role: "compare",
+        });
         distances.set(neighborId, newDistance);
         previous.set(neighborId, currentNodeId);
+        if (heap?.has(neighborId)) heap.decreaseKey(neighborId, newDistance);
+        if (perEdge) {
+          recordStep(
+            currentNodeId,
+            createTraceStep(
+              "relax",
+              `Improve the distance of ${neighborId} from ${currentNeighborDistance} to ${newDistance} via ${currentNodeId}`,
+              {
+                highlights: edgeHighlights(),
+                mutations: mutations.slice(-2),
+                line: 13,
+              },
+            ),
+          );
+        }
       } else {
         debugLog(debug, `  No update needed for ${neighborId}`);
+        if (perEdge) {
+          recordStep(
+            currentNodeId,
+            createTraceStep(
+              "compare",
+              `No improvement: ${newDistance} is not less than the distance of ${neighborId}, ${currentNeighborDistance}`,
+              { highlights: edgeHighlights(), line: 12 },
+            ),
+          );
+        }
       }
-
-      edge = edge.next_to;
     }
 
+    // Per edge, every change was recorded as it happened
+    if (perEdge) continue;
+
     // Find the next node for visualization
-    const nextNodeId = findNodeWithSmallestDistance(unvisited, distances);
+    const nextNodeId = peekClosest();
     debugLog(debug, `Next node to process: ${nextNodeId}`);
     debugLog(
       debug,
@@ -305,6 +810,14 @@ export function dijkstra(
     debugLog(debug, `Unvisited nodes: ${Array.from(unvisited).join(", ")}`);
 
     // Record the current step
+    const stepHighlights: Highlight[] = [
+      { type: "node", nodeId: currentNodeId, role: "current" },
+      ...relaxedEdges,
+    ];
+    if (nextNodeId !== null) {
+      stepHighlights.push({ type: "node", nodeId: nextNodeId, role: "next" });
+    }
+    const updatedCount = relaxedEdges.length;
     steps.push(
       createDijkstraStep(
         currentNodeId,
@@ -313,6 +826,13 @@ export function dijkstra(
         previous,
         visited,
         unvisited,
+        createTraceStep(
+          "finalize",
+          `Finalize ${currentNodeId} at distance ${currentDistance}, ` +
+            `updating ${updatedCount} neighbor${updatedCount === 1 ? "" : "s"}`,
+          { highlights: stepHighlights, mutations, line: 9 },
+        ),
+        queueState(),
       ),
     );
   }
@@ -327,11 +847,16 @@ export function dijkstra(
     `Final previous map: ${[...previous.entries()].map(([k, v]) => `${k}->${v}`).join(", ")}`,
   );
 
+  const { path, distance } =
+    targetNodeId === null
+      ? { path: null, distance: null }
+      : reconstructPath(targetNodeId, startNodeId, previous, distances);
+
   return {
     steps,
     distances,
     previous,
-    shortestPath: null,
-    totalDistance: null,
+    shortestPath: path,
+    totalDistance: distance,
   };
 }
@@ -1,4 +1,16 @@
-export function computeShortestPath(dpValues: number[][]) {
+import { createTraceStep, TraceStep } from "./trace";
+
+// A step of the grid shortest path computation.
+export interface GridPathStep extends TraceStep {
+  distances: number[][]; // Snapshot of the DP table
+  cell: [number, number] | null; // Cell that was just computed (null for init/done)
+  path: [number, number][]; // Reconstructed path (only filled on the final step)
+}
+
+export function computeShortestPath(
+  dpValues: number[][],
+  steps?: GridPathStep[],
+) {
   // Handle empty input case
   if (!dpValues || dpValues.length === 0) {
     throw new Error("Grid cannot be empty");
@@ -18,6 +30,23 @@ export function computeShortestPath(dpValues: number[][]) {
   // Set starting point distance to its value
   distances[0][0] = dpValues[0][0];
 
+  steps?.push({
+    ...createTraceStep("init", `Start at (0, 0) with cost ${dpValues[0][0]}`, {
+      highlights: [{ type: "cell", row: 0, col: 0, role: "current" }],
+      mutations: [
+        {
+          target: "distances",
+          key: "0,0",
+          from: Infinity,
+          to: dpValues[0][0],
+        },
+      ],
+    }),
+    distances: distances.map((row) => row.slice()),
+    cell: null,
+    path: [],
+  });
+
   // Compute shortest distances using dynamic programming
   for (let row = 0; row < rows; row++) {
     for (let col = 0; col < cols; col++) {
@@ -45,11 +74,45 @@ export function computeShortestPath(dpValues: number[][]) {
 
       distances[row][col] = minDistance;
       previous[row][col] = prevCell;
+
+      if (steps) {
+        const highlights: TraceStep["highlights"] = [
+          { type: "cell", row, col, role: "current" },
+        ];
+        if (prevCell) {
+          highlights.push({
+            type: "cell",
+            row: prevCell[0],
+            col: prevCell[1],
+            role: "compare",
+          });
+        }
+        steps.push({
+          ...createTraceStep(
+            "finalize",
+            `Cell (${row}, ${col}) costs ${minDistance}`,
+            {
+              highlights,
+              mutations: [
+                {
+                  target: "distances",
+                  key: `${row},${col}`,
+                  from: Infinity,
+                  to: minDistance,
+                },
+              ],
+            },
+          ),
+          distances: distances.map((r) => r.slice()),
+          cell: [row, col],
+          path: [],
+        });
+      }
     }
   }
 
   // Reconstruct the shortest path
-  const path = [];
+  const path: [number, number][] = [];
   let current: [number, number] | null = [rows - 1, cols - 1]; // End point
   while (current) {
     path.unshift(current);
@@ -57,5 +120,30 @@ export function computeShortestPath(dpValues: number[][]) {
     current = previous[current[0]][current[1]];
   }
 
+  steps?.push({
+    ...createTraceStep(
+      "done",
+      `Shortest path costs ${distances[rows - 1][cols - 1]}`,
+      {
+        highlights: path.map(([row, col]) => ({
+          type: "cell" as const,
+          row,
+          col,
+          role: "path" as const,
+        })),
+      },
+    ),
+    distances: distances.map((r) => r.slice()),
+    cell: null,
+    path: path.slice(),
+  });
+
   return path;
 }
+
+// Returns the steps detailing how the DP table is filled in.
+export function getShortestPathSteps(dpValues: number[][]): GridPathStep[] {
+  const steps: GridPathStep[] = [];
+  computeShortestPath(dpValues, steps);
+  return steps;
+}
@@ -0,0 +1,331 @@
+import { getEdgeWeight, Graph } from "./graphs_common";
+import {
+  CodeListing,
+  createTraceStep,
+  Highlight,
+  Mutation,
+  StepKind,
+  TraceStepOptions,
+  TraceStep,
+} from "./trace";
+
+export interface FloydWarshallStep extends TraceStep {
+  nodeIds: string[]; // Node of each row and column of the matrices
+  k: number | null; // Index of the intermediate node tried in this iteration
+  distances: number[][]; // distances[i][j]: shortest known distance from i to j
+  next: (number | null)[][]; // next[i][j]: node after i on that path, null while j is unreached
+  negativeCycle: string[] | null; // Nodes on a negative cycle, once the run has found them
+}
+
+export interface FloydWarshallResult {
+  steps: FloydWarshallStep[];
+  nodeIds: string[];
+  distances: number[][];
+  next: (number | null)[][];
+  negativeCycle: string[] | null; // Nodes whose distance to themselves is negative
+}
+
+// Floyd-Warshall listings. Steps record the pseudo-code line numbers.
+export const FLOYD_WARSHALL_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "floydWarshall(G):",
+      "  for each pair (i, j): dist[i][j] = infinity, next[i][j] = null",
+      "  for each node i: dist[i][i] = 0, next[i][i] = i",
+      "  for each edge (u, v, w): dist[u][v] = w, next[u][v] = v",
+      "  for each node k:",
+      "    for each node i:",
+      "      for each node j:",
+      "        if dist[i][k] + dist[k][j] < dist[i][j]:",
+      "          dist[i][j] = dist[i][k] + dist[k][j], next[i][j] = next[i][k]",
+      "  if dist[i][i] < 0 for some i: report a negative cycle",
+      "  return dist, next",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function floydWarshall(n: number, edges: [number, number, number][]) {",
+      "  const dist = Array.from({ length: n }, () => Array(n).fill(Infinity));",
+      "  const next = Array.from({ length: n }, () => Array(n).fill(null));",
+      "  for (let i = 0; i < n; i++) {",
+      "    dist[i][i] = 0;",
+      "    next[i][i] = i;",
+      "  }",
+      "  for (const [u, v, w] of edges) {",
+      "    dist[u][v] = w;",
+      "    next[u][v] = v;",
+      "  }",
+      "  for (let k = 0; k < n; k++) {",
+      "    for (let i = 0; i < n; i++) {",
+      "      for (let j = 0; j < n; j++) {",
+      "        if (dist[i][k] + dist[k][j] < dist[i][j]) {",
+      "          dist[i][j] = dist[i][k] + dist[k][j];",
+      "          next[i][j] = next[i][k];",
+      "        }",
+      "      }",
+      "    }",
+      "  }",
+      "  if (dist.some((row, i) => row[i] < 0)) throw new Error('negative cycle');",
+      "  return { dist, next };",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 4,
+      4: 8,
+      5: 12,
+      6: 13,
+      7: 14,
+      8: 15,
+      9: 16,
+      10: 22,
+      11: 23,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def floyd_warshall(n, edges):",
+      "    dist = [[math.inf] * n for _ in range(n)]",
+      "    nxt = [[None] * n for _ in range(n)]",
+      "    for i in range(n):",
+      "        dist[i][i], nxt[i][i] = 0, i",
+      "    for u, v, w in edges:",
+      "        dist[u][v], nxt[u][v] = w, v",
+      "    for k in range(n):",
+      "        for i in range(n):",
+      "            for j in range(n):",
+      "                if dist[i][k] + dist[k][j] < dist[i][j]:",
+      "                    dist[i][j] = dist[i][k] + dist[k][j]",
+      "                    nxt[i][j] = nxt[i][k]",
+      "    if any(dist[i][i] < 0 for i in range(n)):",
+      "        raise ValueError('negative cycle')",
+      "    return dist, nxt",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 4,
+      4: 6,
+      5: 8,
+      6: 9,
+      7: 10,
+      8: 11,
+      9: 12,
+      10: 14,
+      11: 16,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "int[][] floydWarshall(int n, int[][] edges) {",
+      "  int[][] dist = new int[n][n];",
+      "  int[][] next = new int[n][n];",
+      "  for (int[] row : dist) Arrays.fill(row, Integer.MAX_VALUE);",
+      "  for (int[] row : next) Arrays.fill(row, -1);",
+      "  for (int i = 0; i < n; i++) {",
+      "    dist[i][i] = 0;",
+      "    next[i][i] = i;",
+      "  }",
+      "  for (int[] e : edges) {",
+      "    dist[e[0]][e[1]] = e[2];",
+      "    next[e[0]][e[1]] = e[1];",
+      "  }",
+      "  for (int k = 0; k < n; k++) {",
+      "    for (int i = 0; i < n; i++) {",
+      "      for (int j = 0; j < n; j++) {",
+      "        if (dist[i][k] != Integer.MAX_VALUE && dist[k][j] != Integer.MAX_VALUE",
+      "            && dist[i][k] + dist[k][j] < dist[i][j]) {",
+      "          dist[i][j] = dist[i][k] + dist[k][j];",
+      "          next[i][j] = next[i][k];",
+      "        }",
+      "      }",
+      "    }",
+      "  }",
+      "  for (int i = 0; i < n; i++) {",
+      '    if (dist[i][i] < 0) throw new IllegalStateException("negative cycle");',
+      "  }",
+      "  return dist;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 4,
+      3: 6,
+      4: 10,
+      5: 14,
+      6: 15,
+      7: 16,
+      8: 17,
+      9: 19,
+      10: 26,
+      11: 28,
+    },
+  },
+];
+
+/**
+ * Reads the path from one node to another off the next matrix of a step.
+ * With a negative cycle on the way the links can loop, so the walk gives up
+ * after visiting every node once.
+ *
+ * @param step - The matrices to read, from a step or the result
+ * @param from - Row index of the first node
+ * @param to - Column index of the last node
+ * @returns The node IDs along the path, or null when there is none
+ */
+export function floydWarshallPath(
+  step: Pick<FloydWarshallStep, "nodeIds" | "next">,
+  from: number,
+  to: number,
+): string[] | null {
+  if (step.next[from][to] === null) return null;
+  const path = [step.nodeIds[from]];
+  let i = from;
+  while (i !== to) {
+    i = step.next[i][to]!;
+    path.push(step.nodeIds[i]);
+    if (path.length > step.nodeIds.length) return null;
+  }
+  return path;
+}
+
+/**
+ * Floyd-Warshall shortest paths between every pair of nodes. The distance
+ * matrix starts from the edge weights and is improved once for each node k,
+ * letting every path go through k as well as the nodes tried before it;
+ * one step is recorded per k. Undirected edges count both ways, and
+ * parallel edges keep the lighter weight. A node whose distance to itself
+ * ends up negative lies on a negative cycle.
+ *
+ * @param graph - The graph to search, with numeric edge weights
+ * @returns The recorded steps, the final matrices and any negative cycle
+ */
+export function floydWarshall(graph: Graph): FloydWarshallResult {
+  const nodeIds = Object.keys(graph.nodes);
+  const index = new Map(nodeIds.map((nodeId, i) => [nodeId, i]));
+  const n = nodeIds.length;
+  const distances = nodeIds.map((_, i) =>
+    nodeIds.map((_, j) => (i === j ? 0 : Infinity)),
+  );
+  const next = nodeIds.map((_, i) =>
+    nodeIds.map((_, j): number | null => (i === j ? i : null)),
+  );
+
+  const steps: FloydWarshallStep[] = [];
+  let negativeCycle: string[] | null = null;
+  const record = (
+    kind: StepKind,
+    narration: string,
+    trace: TraceStepOptions,
+    k: number | null = null,
+  ) => {
+    steps.push({
+      ...createTraceStep(kind, narration, trace),
+      nodeIds,
+      k,
+      distances: distances.map((row) => row.slice()),
+      next: next.map((row) => row.slice()),
+      negativeCycle,
+    });
+  };
+
+  // Each edge is a path of its own; undirected ones run both ways
+  const mutations: Mutation[] = [];
+  const setEdge = (u: number, v: number, weight: number) => {
+    if (weight >= distances[u][v]) return;
+    mutations.push({
+      target: "distances",
+      key: `${u},${v}`,
+      from: distances[u][v],
+      to: weight,
+    });
+    distances[u][v] = weight;
+    next[u][v] = v;
+  };
+  graph.get_all_edges().forEach((edge) => {
+    const weight = getEdgeWeight(edge);
+    const u = index.get(edge.from_node.id)!;
+    const v = index.get(edge.to_node.id)!;
+    setEdge(u, v, weight);
+    if (!graph.directed) setEdge(v, u, weight);
+  });
+  record(
+    "init",
+    `Start from the ${mutations.length} direct distance${mutations.length === 1 ? "" : "s"} given by the edges`,
+    { mutations, line: 4 },
+  );
+
+  for (let k = 0; k < n; k++) {
+    const shortened: Mutation[] = [];
+    const cells: Highlight[] = [];
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        const candidate = distances[i][k] + distances[k][j];
+        if (candidate < distances[i][j]) {
+          shortened.push({
+            target: "distances",
+            key: `${i},${j}`,
+            from: distances[i][j],
+            to: candidate,
+          });
+          cells.push({ type: "cell", row: i, col: j, role: "write" });
+          distances[i][j] = candidate;
+          next[i][j] = next[i][k];
+        }
+      }
+    }
+
+    const highlights: Highlight[] = [
+      { type: "node", nodeId: nodeIds[k], role: "current" },
+      ...cells,
+    ];
+    if (shortened.length === 0) {
+      record(
+        "compare",
+        `Going through ${nodeIds[k]} shortens no path`,
+        { highlights, line: 8 },
+        k,
+      );
+    } else {
+      record(
+        "relax",
+        `Going through ${nodeIds[k]} shortens ${shortened.length} path${shortened.length === 1 ? "" : "s"}`,
+        { highlights, mutations: shortened, line: 9 },
+        k,
+      );
+    }
+  }
+
+  const onCycle = nodeIds.filter((_, i) => distances[i][i] < 0);
+  if (onCycle.length > 0) {
+    negativeCycle = onCycle;
+    record(
+      "done",
+      `A path from each of ${onCycle.join(", ")} back to itself has a negative cost, so there is a negative cycle`,
+      {
+        highlights: onCycle.map((nodeId): Highlight => ({
+          type: "node",
+          nodeId,
+          role: "path",
+        })),
+        line: 10,
+      },
+    );
+  } else {
+    // The diagonal is always reachable, so it is left out of the count
+    const connected =
+      distances.flat().filter((distance) => distance !== Infinity).length - n;
+    record(
+      "done",
+      `Every distance is final; ${connected} of the ${n * (n - 1)} ordered pairs of distinct nodes are connected`,
+      { line: 11 },
+    );
+  }
+
+  return { steps, nodeIds, distances, next, negativeCycle };
+}
@@ -0,0 +1,879 @@
+import { Edge, Graph } from "./graphs_common";
+
+// Reading and writing graphs as JSON, Graphviz DOT, plain edge lists and
+// GraphML. Every parser reports problems as a GraphParseError that carries
+// the line number of the offending input.
+
+export type GraphFormat = "json" | "dot" | "edgelist" | "graphml";
+
+export const GRAPH_FORMATS: {
+  id: GraphFormat;
+  label: string;
+  extension: string; // Used when downloading
+  mimeType: string;
+}[] = [
+  {
+    id: "json",
+    label: "JSON",
+    extension: "json",
+    mimeType: "application/json",
+  },
+  {
+    id: "dot",
+    label: "Graphviz DOT",
+    extension: "dot",
+    mimeType: "text/vnd.graphviz",
+  },
+  {
+    id: "edgelist",
+    label: "Edge list",
+    extension: "txt",
+    mimeType: "text/plain",
+  },
+  {
+    id: "graphml",
+    label: "GraphML",
+    extension: "graphml",
+    mimeType: "application/graphml+xml",
+  },
+];
+
+// A problem found while parsing a graph, with the 1-based line it is on.
+export class GraphParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = "GraphParseError";
+    this.line = line;
+  }
+}
+
+// 1-based line number of a character offset in text.
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === "\n") line++;
+  }
+  return line;
+}
+
+function edgeWeight(edge: Edge): number {
+  return typeof edge.data === "number" ? edge.data : 1;
+}
+
+function parseNumber(text: string, what: string, line: number): number {
+  const value = Number(text);
+  if (text.trim() === "" || !Number.isFinite(value)) {
+    throw new GraphParseError(`${what} "${text}" is not a number`, line);
+  }
+  return value;
+}
+
+// Nodes that are only named by an edge are drawn with their name.
+function ensureNode(graph: Graph, id: string): void {
+  if (!graph.nodes[id]) graph.add_node(id, 0, id);
+}
+
+function addParsedEdge(
+  graph: Graph,
+  from: string,
+  to: string,
+  weight: number,
+  line: number,
+): void {
+  if (from === to) {
+    throw new GraphParseError(`Self-loop on "${from}" is not supported`, line);
+  }
+  ensureNode(graph, from);
+  ensureNode(graph, to);
+  if (!graph.add_edge(from, to, weight)) {
+    throw new GraphParseError(
+      `Duplicate edge "${from}" ${graph.directed ? "->" : "-"} "${to}"`,
+      line,
+    );
+  }
+}
+
+// ---------------------------------------------------------------- JSON
+
+// Shape of the JSON format: nodes with an optional value, label and x and y
+// position, and edges with an optional weight (1 by default), undirected
+// unless flagged.
+export interface GraphJSON {
+  directed?: boolean;
+  nodes: {
+    id: string;
+    value?: number;
+    label?: string;
+    x?: number;
+    y?: number;
+  }[];
+  edges: { source: string; target: string; weight?: number }[];
+}
+
+export function graphToJSON(graph: Graph): string {
+  const json: GraphJSON = {
+    directed: graph.directed,
+    nodes: Object.values(graph.nodes).map((node) => ({
+      id: node.id,
+      value: node.value,
+      ...(node.label !== undefined && { label: node.label }),
+      ...(node.position && { x: node.position.x, y: node.position.y }),
+    })),
+    edges: graph.get_all_edges().map((edge) => ({
+      source: edge.from_node.id,
+      target: edge.to_node.id,
+      weight: edgeWeight(edge),
+    })),
+  };
+  return JSON.stringify(json, null, 2);
+}
+
+// Line of item `index` of the top-level array `key`, found by scanning the
+// raw text since JSON.parse keeps no positions.
+function findJsonItemLine(text: string, key: string, index: number): number {
+  let depth = 0;
+  let inString = false;
+  let stringStart = 0;
+  let lastKey: string | null = null;
+  let arrayDepth = -1; // Depth inside the array once found, -2 once left
+  let itemCount = 0;
+  let awaitingItem = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === "\\") {
+        i++;
+      } else if (c === '"') {
+        inString = false;
+        if (depth === 1) lastKey = text.slice(stringStart + 1, i);
+      }
+      continue;
+    }
+    if (/\s/.test(c)) continue;
+
+    if (awaitingItem && c !== "]") {
+      if (itemCount === index) return lineAt(text, i);
+      itemCount++;
+      awaitingItem = false;
+    }
+    if (c === '"') {
+      inString = true;
+      stringStart = i;
+    } else if (c === "{" || c === "[") {
+      depth++;
+      if (c === "[" && depth === 2 && arrayDepth === -1 && lastKey === key) {
+        arrayDepth = depth;
+        awaitingItem = true;
+      }
+    } else if (c === "}" || c === "]") {
+      if (depth === arrayDepth) arrayDepth = -2;
+      depth--;
+    } else if (c === "," && depth === arrayDepth) {
+      awaitingItem = true;
+    }
+  }
+  return 1;
+}
+
+export function parseGraphJSON(text: string): Graph {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    const message = (err as Error).message;
+    const position = message.match(/position (\d+)/);
+    const line = message.match(/line (\d+)/);
+    throw new GraphParseError(
+      "Invalid JSON",
+      line ? Number(line[1]) : position ? lineAt(text, Number(position[1])) : 1,
+    );
+  }
+
+  const { directed, nodes, edges } = (json ?? {}) as Partial<
+    Record<string, unknown>
+  >;
+  if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+    throw new GraphParseError(
+      'Expected an object with "nodes" and "edges" arrays',
+      1,
+    );
+  }
+  if (directed !== undefined && typeof directed !== "boolean") {
+    throw new GraphParseError('"directed" must be true or false', 1);
+  }
+
+  const graph = new Graph(directed === true);
+  nodes.forEach((node, i) => {
+    const line = findJsonItemLine(text, "nodes", i);
+    if (typeof node?.id !== "string" || node.id === "") {
+      throw new GraphParseError('Node needs a non-empty string "id"', line);
+    }
+    if (node.value !== undefined && !Number.isFinite(node.value)) {
+      throw new GraphParseError(
+        `Node "${node.id}" value is not a number`,
+        line,
+      );
+    }
+    if (node.label !== undefined && typeof node.label !== "string") {
+      throw new GraphParseError(
+        `Node "${node.id}" label is not a string`,
+        line,
+      );
+    }
+    if (graph.nodes[node.id]) {
+      throw new GraphParseError(`Duplicate node "${node.id}"`, line);
+    }
+    if ((node.x === undefined) !== (node.y === undefined)) {
+      throw new GraphParseError(
+        `Node "${node.id}" needs both "x" and "y" or neither`,
+        line,
+      );
+    }
+    if (
+      node.x !== undefined &&
+      (!Number.isFinite(node.x) || !Number.isFinite(node.y))
+    ) {
+      throw new GraphParseError(
+        `Node "${node.id}" position is not a number`,
+        line,
+      );
+    }
+    graph.add_node(
+      node.id,
+      node.value ?? 0,
+      node.label ?? (node.value === undefined ? node.id : undefined),
+    );
+    if (node.x !== undefined) {
+      graph.nodes[node.id].position = { x: node.x, y: node.y };
+    }
+  });
+
+  edges.forEach((edge, i) => {
+    const line = findJsonItemLine(text, "edges", i);
+    if (typeof edge?.source !== "string" || typeof edge?.target !== "string") {
+      throw new GraphParseError(
+        'Edge needs string "source" and "target"',
+        line,
+      );
+    }
+    for (const end of [edge.source, edge.target]) {
+      if (!graph.nodes[end]) {
+        throw new GraphParseError(`Edge refers to unknown node "${end}"`, line);
+      }
+    }
+    if (edge.weight !== undefined && !Number.isFinite(edge.weight)) {
+      throw new GraphParseError("Edge weight is not a number", line);
+    }
+    addParsedEdge(graph, edge.source, edge.target, edge.weight ?? 1, line);
+  });
+
+  return graph;
+}
+
+// ---------------------------------------------------------------- DOT
+
+const DOT_PLAIN_ID = /^[A-Za-z_\u0080-￿][\w\u0080-￿]*$/;
+const DOT_NUMERAL = /^-?(\.\d+|\d+(\.\d*)?)$/;
+
+function dotId(id: string): string {
+  return DOT_PLAIN_ID.test(id) || DOT_NUMERAL.test(id)
+    ? id
+    : `"${id.replace(/"/g, '\\"')}"`;
+}
+
+export function graphToDOT(graph: Graph): string {
+  const lines = [graph.directed ? "digraph G {" : "graph G {"];
+  Object.values(graph.nodes).forEach((node) => {
+    const attrs = [`value=${node.value}`];
+    if (node.label !== undefined) attrs.push(`label=${dotId(node.label)}`);
+    if (node.position) {
+      attrs.push(`pos="${node.position.x},${node.position.y}"`);
+    }
+    lines.push(`  ${dotId(node.id)} [${attrs.join(", ")}];`);
+  });
+  graph.get_all_edges().forEach((edge) => {
+    lines.push(
+      `  ${dotId(edge.from_node.id)} ${graph.directed ? "->" : "--"} ${dotId(edge.to_node.id)} [weight=${edgeWeight(edge)}];`,
+    );
+  });
+  lines.push("}");
+  return lines.join("\n");
+}
+
+interface DotToken {
+  type: "id" | "punct";
+  text: string;
+  line: number;
+}
+
+function tokenizeDOT(text: string): DotToken[] {
+  const tokens: DotToken[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < text.length) {
+    const c = text[i];
+    if (c === "\n") {
+      line++;
+      i++;
+    } else if (/\s/.test(c)) {
+      i++;
+    } else if (
+      text.startsWith("//", i) ||
+      (c === "#" && isLineStart(text, i))
+    ) {
+      while (i < text.length && text[i] !== "\n") i++;
+    } else if (text.startsWith("/*", i)) {
+      const end = text.indexOf("*/", i + 2);
+      if (end === -1) throw new GraphParseError("Unclosed comment", line);
+      line += text.slice(i, end).split("\n").length - 1;
+      i = end + 2;
+    } else if (text.startsWith("--", i) || text.startsWith("->", i)) {
+      tokens.push({ type: "punct", text: text.slice(i, i + 2), line });
+      i += 2;
+    } else if ("{}[]=;,:".includes(c)) {
+      tokens.push({ type: "punct", text: c, line });
+      i++;
+    } else if (c === '"') {
+      const startLine = line;
+      let value = "";
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === "\\" && text[i + 1] === '"') {
+          value += '"';
+          i += 2;
+          continue;
+        }
+        if (text[i] === "\n") line++;
+        value += text[i++];
+      }
+      if (i >= text.length) {
+        throw new GraphParseError("Unclosed string", startLine);
+      }
+      i++;
+      tokens.push({ type: "id", text: value, line: startLine });
+    } else {
+      const match = text
+        .slice(i)
+        .match(/^(-?(\.\d+|\d+(\.\d*)?)|[\w\u0080-￿]+)/);
+      if (!match) {
+        throw new GraphParseError(`Unexpected character "${c}"`, line);
+      }
+      tokens.push({ type: "id", text: match[0], line });
+      i += match[0].length;
+    }
+  }
+  return tokens;
+}
+
+// Graphviz positions read "x,y", with a trailing "!" when the node is pinned.
+function parseDotPosition(token: DotToken): { x: number; y: number } {
+  const parts = token.text.replace(/!$/, "").split(",");
+  if (parts.length !== 2) {
+    throw new GraphParseError(
+      `Position "${token.text}" is not of the form "x,y"`,
+      token.line,
+    );
+  }
+  const [x, y] = parts.map((part) => parseNumber(part, "Position", token.line));
+  return { x, y };
+}
+
+// '#' starts a comment only at the start of a line (C preprocessor output).
+function isLineStart(text: string, i: number): boolean {
+  const before = text.lastIndexOf("\n", i - 1);
+  return text.slice(before + 1, i).trim() === "";
+}
+
+/**
+ * Parses the subset of DOT used for weighted graphs: node statements,
+ * edge statements (including chains like a -- b -- c) with attribute lists,
+ * and graph, node and edge attribute statements, which are ignored.
+ * Edge weights come from the weight attribute, or else a numeric label.
+ * Node positions come from the pos attribute.
+ * A digraph gives a directed graph.
+ * Subgraphs are not supported.
+ */
+export function parseGraphDOT(text: string): Graph {
+  const tokens = tokenizeDOT(text);
+  let pos = 0;
+  const lastLine = () => tokens[tokens.length - 1]?.line ?? 1;
+  const peek = () => tokens[pos];
+  const next = (): DotToken => {
+    const token = tokens[pos++];
+    if (!token)
+      throw new GraphParseError("Unexpected end of input", lastLine());
+    return token;
+  };
+  const expect = (text: string): DotToken => {
+    const token = next();
+    if (token.text !== text || token.type !== "punct") {
+      throw new GraphParseError(
+        `Expected "${text}" but found "${token.text}"`,
+        token.line,
+      );
+    }
+    return token;
+  };
+  const expectId = (): DotToken => {
+    const token = next();
+    if (token.type !== "id") {
+      throw new GraphParseError(
+        `Expected a name but found "${token.text}"`,
+        token.line,
+      );
+    }
+    return token;
+  };
+
+  // Header: [strict] (graph | digraph) [name] {
+  let header = next();
+  if (header.text.toLowerCase() === "strict") header = next();
+  const kind = header.text.toLowerCase();
+  if (kind !== "graph" && kind !== "digraph") {
+    throw new GraphParseError('Expected "graph" or "digraph"', header.line);
+  }
+  const edgeOp = kind === "digraph" ? "->" : "--";
+  if (peek()?.type === "id") next();
+  expect("{");
+
+  const readAttributes = (): Record<string, DotToken> => {
+    const attrs: Record<string, DotToken> = {};
+    while (peek()?.text === "[") {
+      next();
+      while (peek()?.text !== "]") {
+        const key = expectId();
+        expect("=");
+        attrs[key.text.toLowerCase()] = expectId();
+        if (peek()?.text === "," || peek()?.text === ";") next();
+      }
+      expect("]");
+    }
+    return attrs;
+  };
+
+  const graph = new Graph(kind === "digraph");
+  while (peek()?.text !== "}") {
+    const first = next();
+    if (first.text === ";") continue;
+    if (first.type !== "id") {
+      throw new GraphParseError(`Unexpected "${first.text}"`, first.line);
+    }
+    const keyword = first.text.toLowerCase();
+    if (keyword === "subgraph") {
+      throw new GraphParseError("Subgraphs are not supported", first.line);
+    }
+    if (["graph", "node", "edge"].includes(keyword) && peek()?.text === "[") {
+      readAttributes();
+      continue;
+    }
+    if (peek()?.text === "=") {
+      // Graph attribute, e.g. rankdir=LR
+      next();
+      expectId();
+      continue;
+    }
+    if (peek()?.text === ":") {
+      throw new GraphParseError("Ports are not supported", first.line);
+    }
+
+    const chain = [first];
+    while (peek()?.text === "--" || peek()?.text === "->") {
+      const op = next();
+      if (op.text !== edgeOp) {
+        throw new GraphParseError(
+          `Use "${edgeOp}" for edges in a ${kind}`,
+          op.line,
+        );
+      }
+      chain.push(expectId());
+    }
+    const attrs = readAttributes();
+
+    if (chain.length === 1) {
+      ensureNode(graph, first.text);
+      const node = graph.nodes[first.text];
+      if (attrs.value) {
+        node.value = parseNumber(attrs.value.text, "Value", attrs.value.line);
+        if (!attrs.label) delete node.label;
+      }
+      if (attrs.label) node.label = attrs.label.text;
+      if (attrs.pos) node.position = parseDotPosition(attrs.pos);
+    } else {
+      const weightToken = attrs.weight ?? attrs.label;
+      const weight = weightToken
+        ? parseNumber(weightToken.text, "Weight", weightToken.line)
+        : 1;
+      for (let k = 1; k < chain.length; k++) {
+        addParsedEdge(
+          graph,
+          chain[k - 1].text,
+          chain[k].text,
+          weight,
+          chain[k].line,
+        );
+      }
+    }
+  }
+  expect("}");
+  if (pos < tokens.length) {
+    throw new GraphParseError(
+      "Unexpected input after the graph",
+      tokens[pos].line,
+    );
+  }
+  return graph;
+}
+
+// ---------------------------------------------------------------- Edge list
+
+const DIRECTED_EDGE_LIST = "# directed";
+
+// Names with spaces, commas, quotes or comment marks are written in quotes.
+function edgeListName(id: string): string {
+  return /[\s,"#]|\/\//.test(id)
+    ? `"${id.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+    : id;
+}
+
+// One "source target weight" line per edge; values and labels are not kept.
+// Directed graphs start with a "# directed" comment.
+export function graphToEdgeList(graph: Graph): string {
+  const lines: string[] = graph.directed ? [DIRECTED_EDGE_LIST] : [];
+  const connected = new Set<string>();
+  graph.get_all_edges().forEach((edge) => {
+    connected.add(edge.from_node.id);
+    connected.add(edge.to_node.id);
+    lines.push(
+      `${edgeListName(edge.from_node.id)} ${edgeListName(edge.to_node.id)} ${edgeWeight(edge)}`,
+    );
+  });
+  // Isolated nodes get a line of their own
+  Object.keys(graph.nodes).forEach((id) => {
+    if (!connected.has(id)) lines.push(edgeListName(id));
+  });
+  return lines.join("\n");
+}
+
+// Splits a line into fields, dropping any trailing comment.
+function splitEdgeListLine(raw: string, line: number): string[] {
+  const fields: string[] = [];
+  const field = /"((?:[^"\\]|\\.)*)"|(#|\/\/)|(?:[^\s,"#/]|\/(?!\/))+|"/g;
+  let match: RegExpExecArray | null;
+  while ((match = field.exec(raw)) !== null) {
+    if (match[2]) break;
+    if (match[0] === '"') throw new GraphParseError("Unclosed quote", line);
+    fields.push(
+      match[1] !== undefined ? match[1].replace(/\\(.)/g, "$1") : match[0],
+    );
+  }
+  return fields;
+}
+
+/**
+ * Parses lines of "source target [weight]", separated by spaces, tabs or
+ * commas, with names in double quotes when they contain any of those.
+ * A line with a single name adds an isolated node. Blank lines and comments
+ * starting with # or // are skipped, except that a first line of
+ * "# directed" makes the edges directed.
+ */
+export function parseGraphEdgeList(text: string): Graph {
+  const firstLine = text.trimStart().split("\n")[0].trim().toLowerCase();
+  const graph = new Graph(firstLine === DIRECTED_EDGE_LIST);
+  text.split("\n").forEach((raw, i) => {
+    const line = i + 1;
+    const fields = splitEdgeListLine(raw, line);
+    if (fields.length === 0) return;
+
+    if (fields.length === 1) {
+      ensureNode(graph, fields[0]);
+    } else if (fields.length <= 3) {
+      const weight =
+        fields.length === 3 ? parseNumber(fields[2], "Weight", line) : 1;
+      addParsedEdge(graph, fields[0], fields[1], weight, line);
+    } else {
+      throw new GraphParseError('Expected "source target [weight]"', line);
+    }
+  });
+  return graph;
+}
+
+// ---------------------------------------------------------------- GraphML
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Replaces entities in text found on the given line
+function unescapeXml(text: string, line: number): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code =
+        name[1].toLowerCase() === "x"
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      if (code > 0x10ffff) {
+        throw new GraphParseError(`${entity} is not a valid character`, line);
+      }
+      return String.fromCodePoint(code);
+    }
+    const named: Record<string, string> = {
+      amp: "&",
+      lt: "<",
+      gt: ">",
+      quot: '"',
+      apos: "'",
+    };
+    return named[name] ?? entity;
+  });
+}
+
+export function graphToGraphML(graph: Graph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="value" for="node" attr.name="value" attr.type="double"/>',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    `  <graph id="G" edgedefault="${graph.directed ? "directed" : "undirected"}">`,
+  ];
+  Object.values(graph.nodes).forEach((node) => {
+    const label =
+      node.label !== undefined
+        ? `<data key="label">${escapeXml(node.label)}</data>`
+        : "";
+    const position = node.position
+      ? `<data key="x">${node.position.x}</data><data key="y">${node.position.y}</data>`
+      : "";
+    lines.push(
+      `    <node id="${escapeXml(node.id)}"><data key="value">${node.value}</data>${label}${position}</node>`,
+    );
+  });
+  graph.get_all_edges().forEach((edge) => {
+    lines.push(
+      `    <edge source="${escapeXml(edge.from_node.id)}" target="${escapeXml(edge.to_node.id)}"><data key="weight">${edgeWeight(edge)}</data></edge>`,
+    );
+  });
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n");
+}
+
+interface GraphMLElement {
+  name: string;
+  attrs: Record<string, string>;
+  data: Record<string, { text: string; line: number }>;
+  line: number;
+}
+
+/**
+ * Parses GraphML nodes and edges. Node values, labels and positions and edge
+ * weights are read from <data> elements whose <key> is named value, label,
+ * x and y, or weight (by attr.name, or by id when there is no key
+ * declaration).
+ */
+export function parseGraphGraphML(text: string): Graph {
+  const keyNames: Record<string, string> = {};
+  const nodes: GraphMLElement[] = [];
+  const edges: GraphMLElement[] = [];
+  const stack: { name: string; line: number }[] = [];
+  let current: GraphMLElement | null = null;
+  let dataKey: { key: string; start: number; line: number } | null = null;
+  let sawGraph = false;
+  let directed = false;
+
+  const tagPattern =
+    /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[?!][\s\S]*?>|<[^>]*>?/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(text)) !== null) {
+    const tag = match[0];
+    const line = lineAt(text, match.index);
+    if (
+      tag.startsWith("<!--") ||
+      tag.startsWith("<?") ||
+      tag.startsWith("<!")
+    ) {
+      continue;
+    }
+    if (!tag.endsWith(">")) throw new GraphParseError("Unclosed tag", line);
+
+    const parsed = tag.match(/^<(\/?)([A-Za-z_][\w.:-]*)([\s\S]*?)(\/?)>$/);
+    if (!parsed) throw new GraphParseError(`Malformed tag ${tag}`, line);
+    const [, closing, qualifiedName, rest, selfClosing] = parsed;
+    const name = qualifiedName.replace(/^.*:/, "");
+
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new GraphParseError(
+          open
+            ? `Expected </${open.name}> but found </${name}>`
+            : `Unexpected </${name}>`,
+          line,
+        );
+      }
+      if (name === "data" && current && dataKey) {
+        current.data[dataKey.key] = {
+          text: unescapeXml(
+            text.slice(dataKey.start, match.index),
+            dataKey.line,
+          ).trim(),
+          line: dataKey.line,
+        };
+        dataKey = null;
+      } else if (name === "node" || name === "edge") {
+        current = null;
+      }
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    const attrPattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let attr: RegExpExecArray | null;
+    while ((attr = attrPattern.exec(rest)) !== null) {
+      attrs[attr[1]] = unescapeXml(attr[2] ?? attr[3], line);
+    }
+
+    if (name === "graph") {
+      sawGraph = true;
+      directed = attrs.edgedefault === "directed";
+    } else if (name === "key" && attrs.id) {
+      keyNames[attrs.id] = (attrs["attr.name"] ?? attrs.id).toLowerCase();
+    } else if (name === "node" || name === "edge") {
+      if (current) {
+        throw new GraphParseError(`<${name}> cannot be nested`, line);
+      }
+      current = { name, attrs, data: {}, line };
+      (name === "node" ? nodes : edges).push(current);
+      if (selfClosing) current = null;
+    } else if (name === "data" && current && !selfClosing) {
+      dataKey = {
+        key: keyNames[attrs.key] ?? attrs.key?.toLowerCase() ?? "",
+        start: match.index + tag.length,
+        line,
+      };
+    }
+    if (!selfClosing) stack.push({ name, line });
+  }
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    throw new GraphParseError(`<${open.name}> is never closed`, open.line);
+  }
+  if (!sawGraph) throw new GraphParseError("No <graph> element found", 1);
+
+  const graph = new Graph(directed);
+  nodes.forEach((node) => {
+    const id = node.attrs.id;
+    if (!id) throw new GraphParseError('Node needs an "id"', node.line);
+    if (id in graph.nodes) {
+      throw new GraphParseError(`Duplicate node "${id}"`, node.line);
+    }
+    const { value, label, x, y } = node.data;
+    graph.add_node(
+      id,
+      value ? parseNumber(value.text, "Value", value.line) : 0,
+      label?.text ?? (value ? undefined : id),
+    );
+    if (x || y) {
+      if (!x || !y) {
+        throw new GraphParseError(
+          `Node "${id}" needs both an x and a y position`,
+          node.line,
+        );
+      }
+      graph.nodes[id].position = {
+        x: parseNumber(x.text, "Position", x.line),
+        y: parseNumber(y.text, "Position", y.line),
+      };
+    }
+  });
+  edges.forEach((edge) => {
+    const { source, target } = edge.attrs;
+    if (!source || !target) {
+      throw new GraphParseError('Edge needs "source" and "target"', edge.line);
+    }
+    for (const end of [source, target]) {
+      if (!graph.nodes[end]) {
+        throw new GraphParseError(
+          `Edge refers to unknown node "${end}"`,
+          edge.line,
+        );
+      }
+    }
+    const weight = edge.data.weight;
+    addParsedEdge(
+      graph,
+      source,
+      target,
+      weight ? parseNumber(weight.text, "Weight", weight.line) : 1,
+      edge.line,
+    );
+  });
+  return graph;
+}
+
+// ---------------------------------------------------------------- Dispatch
+
+export function serializeGraph(graph: Graph, format: GraphFormat): string {
+  switch (format) {
+    case "json":
+      return graphToJSON(graph);
+    case "dot":
+      return graphToDOT(graph);
+    case "edgelist":
+      return graphToEdgeList(graph);
+    case "graphml":
+      return graphToGraphML(graph);
+  }
+}
+
+/**
+ * Parses a graph in the given format.
+ *
+ * @throws GraphParseError with the line of the first problem found
+ */
+export function parseGraph(text: string, format: GraphFormat): Graph {
+  switch (format) {
+    case "json":
+      return parseGraphJSON(text);
+    case "dot":
+      return parseGraphDOT(text);
+    case "edgelist":
+      return parseGraphEdgeList(text);
+    case "graphml":
+      return parseGraphGraphML(text);
+  }
+}
+
+/**
+ * Guesses the format of a graph from its file extension, or else from how
+ * the text starts.
+ */
+export function detectGraphFormat(
+  text: string,
+  fileName?: string,
+): GraphFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (fileName?.includes(".") && extension) {
+    if (extension === "json") return "json";
+    if (extension === "dot" || extension === "gv") return "dot";
+    if (extension === "graphml" || extension === "xml") return "graphml";
+    if (["txt", "csv", "tsv", "edges", "edgelist"].includes(extension)) {
+      return "edgelist";
+    }
+  }
+
+  const start = text.trimStart();
+  if (start.startsWith("{")) return "json";
+  if (start.startsWith("<")) return "graphml";
+  if (/^(strict\s+)?(di)?graph\b/i.test(start)) return "dot";
+  return "edgelist";
+}
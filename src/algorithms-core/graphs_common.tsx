@@ -1,16 +1,20 @@
 import * as d3 from "d3";
-import { FC, useEffect, useRef, useState } from "react";
+import { FC, KeyboardEvent, useEffect, useRef, useState } from "react";
+import { RandomSource, randomInt } from "./random";
 
 // Node interface with outgoing and incoming edge lists
 export interface Node {
   id: string;
   value: number;
+  label?: string; // Text drawn on the node instead of the value
   outgoing_edges: Edge | null; // Head of outgoing edges list
   incoming_edges: Edge | null; // Head of incoming edges list
   x?: number;
   y?: number;
   fx?: number | null;
   fy?: number | null;
+  position?: { x: number; y: number }; // Fixed coordinates, e.g. for A* heuristics; drawn to scale
+
   color?: string; // Optional stroke color property
   fillColor?: string; // Optional fill color property
   useGradient?: boolean; // Optional gradient usage property
@@ -30,9 +34,15 @@ export interface Edge extends d3.SimulationLinkDatum<Node> {
 
 // Graph class to manage nodes and edges
 export class Graph {
-  nodes: Record<string, Node> = {};
+  // Without a prototype, so ids such as "constructor" name no node until added
+  nodes: Record<string, Node> = Object.create(null);
+  directed: boolean; // Edges only lead from from_node to to_node
+
+  constructor(directed: boolean = false) {
+    this.directed = directed;
+  }
 
-  add_node(node_id: string, value: number): void {
+  add_node(node_id: string, value: number, label?: string): void {
     if (!this.nodes[node_id]) {
       this.nodes[node_id] = {
         id: node_id,
@@ -40,15 +50,33 @@ export class Graph {
         outgoing_edges: null,
         incoming_edges: null,
       };
+      if (label !== undefined) this.nodes[node_id].label = label;
     }
   }
 
-  // Helper method to generate consistent edge IDs regardless of direction
+  // Remove a node along with every edge that touches it
+  remove_node(node_id: string): void {
+    const node = this.nodes[node_id];
+    if (!node) return;
+
+    while (node.outgoing_edges !== null) {
+      this.remove_edge(node_id, node.outgoing_edges.to_node.id);
+    }
+    while (node.incoming_edges !== null) {
+      this.remove_edge(node.incoming_edges.from_node.id, node_id);
+    }
+    delete this.nodes[node_id];
+  }
+
+  // Helper method to generate edge IDs; undirected IDs ignore direction
   _getEdgeId(nodeId1: string, nodeId2: string): string {
-    return [nodeId1, nodeId2].sort().join("-");
+    return this.directed
+      ? `${nodeId1}->${nodeId2}`
+      : [nodeId1, nodeId2].sort().join("-");
   }
 
-  // Check if an edge exists between two nodes (in either direction)
+  // Check if an edge exists between two nodes (in either direction unless
+  // the graph is directed)
   hasEdge(nodeId1: string, nodeId2: string): boolean {
     if (!this.nodes[nodeId1] || !this.nodes[nodeId2]) return false;
 
@@ -59,6 +87,7 @@ export class Graph {
       if (edge.to_node.id === nodeId2) return true;
       edge = edge.next_from;
     }
+    if (this.directed) return false;
 
     const node2 = this.nodes[nodeId2];
     edge = node2.outgoing_edges;
@@ -73,7 +102,7 @@ export class Graph {
 
   add_edge(from_id: string, to_id: string, weight: number = 1): Edge | null {
     if (this.nodes[from_id] && this.nodes[to_id]) {
-      // Skip if edge already exists in either direction
+      // Skip if the edge already exists (in either direction if undirected)
       if (this.hasEdge(from_id, to_id)) {
         return null;
       }
@@ -81,7 +110,7 @@ export class Graph {
       const from_node = this.nodes[from_id];
       const to_node = this.nodes[to_id];
 
-      // Create consistent edge ID regardless of direction
+      // Create the edge ID, direction-agnostic unless the graph is directed
       const edgeId = this._getEdgeId(from_id, to_id);
 
       // Create edge
@@ -197,6 +226,38 @@ export class Graph {
     }
   }
 
+  // Nodes reachable from a node in one step, with the edge leading there.
+  // Undirected edges are followed from either end.
+  get_neighbors(node_id: string): { node: Node; edge: Edge }[] {
+    const node = this.nodes[node_id];
+    if (!node) return [];
+
+    const neighbors: { node: Node; edge: Edge }[] = [];
+    for (let edge = node.outgoing_edges; edge !== null; edge = edge.next_from) {
+      neighbors.push({ node: edge.to_node, edge });
+    }
+    if (!this.directed) {
+      for (let edge = node.incoming_edges; edge !== null; edge = edge.next_to) {
+        neighbors.push({ node: edge.from_node, edge });
+      }
+    }
+    return neighbors;
+  }
+
+  // Nodes with an edge into the given node, i.e. its neighbors in the
+  // transposed graph; the same as get_neighbors when undirected
+  get_predecessors(node_id: string): { node: Node; edge: Edge }[] {
+    const node = this.nodes[node_id];
+    if (!node) return [];
+    if (!this.directed) return this.get_neighbors(node_id);
+
+    const predecessors: { node: Node; edge: Edge }[] = [];
+    for (let edge = node.incoming_edges; edge !== null; edge = edge.next_to) {
+      predecessors.push({ node: edge.from_node, edge });
+    }
+    return predecessors;
+  }
+
   // Get all edges in the graph as a flat array for visualization
   get_all_edges(): Edge[] {
     const edges: Edge[] = [];
@@ -217,6 +278,19 @@ export class Graph {
   }
 }
 
+/**
+ * Reads the weight of an edge, rejecting edges whose data is not a number
+ * rather than guessing one.
+ */
+export function getEdgeWeight(edge: Edge): number {
+  if (typeof edge.data !== "number" || !Number.isFinite(edge.data)) {
+    throw new Error(
+      `Edge ${edge.from_node.id} - ${edge.to_node.id} has no numeric weight`,
+    );
+  }
+  return edge.data;
+}
+
 /**
  * Creates a random graph with the specified parameters
  * @param nodeCount Number of nodes to create
@@ -224,6 +298,11 @@ export class Graph {
  * @param minValue Minimum value for node values
  * @param maxValue Maximum value for node values
  * @param nodeColorOptions Optional color settings for nodes
+ * @param rng Source of random numbers, Math.random by default
+ * @param directed Whether to create a directed graph, false by default
+ * @param minWeight Minimum edge weight, 1 by default; negative to allow negative weights
+ * @param maxWeight Maximum edge weight, 10 by default
+ * @param acyclic Whether a directed graph must have no cycles, false by default
  * @returns A new Graph instance
  */
 export function createRandomGraph(
@@ -236,13 +315,17 @@ export function createRandomGraph(
     defaultFillColor?: string;
     useGradient?: boolean;
   },
+  rng: RandomSource = Math.random,
+  directed: boolean = false,
+  minWeight: number = 1,
+  maxWeight: number = 10,
+  acyclic: boolean = false,
 ): Graph {
-  const graph = new Graph();
+  const graph = new Graph(directed);
 
   // Create nodes
   for (let i = 0; i < nodeCount; i++) {
-    const value =
-      Math.floor(Math.random() * (maxValue - minValue + 1)) + minValue;
+    const value = randomInt(rng, minValue, maxValue);
 
     // Store node color options directly in the node object
     const node: Node = {
@@ -271,46 +354,56 @@ export function createRandomGraph(
   // Create random edges
   const nodeIds = Object.keys(graph.nodes);
 
-  // Calculate max edges for an undirected graph - each pair can have at most 1 edge
-  const possibleEdgePairs = (nodeCount * (nodeCount - 1)) / 2;
+  // An acyclic graph only has edges from earlier to later connected nodes
+  const oneWay = !directed || acyclic;
+
+  // Calculate max edges - each pair can have at most 1 edge, or 1 each way
+  // when the graph is directed
+  const possibleEdgePairs = (nodeCount * (nodeCount - 1)) / (oneWay ? 2 : 1);
   const maxEdges = Math.floor(possibleEdgePairs * edgeDensity);
 
-  // Ensure the graph is connected (minimum spanning tree)
+  // Ensure the graph is connected (minimum spanning tree); in a directed
+  // graph every node can be reached from the first connected node
   const connected = new Set<string>();
+  const connectedOrder: string[] = [];
   const unconnected = new Set<string>(nodeIds);
 
   // Start with a random node
-  const startNodeId = nodeIds[Math.floor(Math.random() * nodeIds.length)];
+  const startNodeId = nodeIds[randomInt(rng, 0, nodeIds.length - 1)];
   connected.add(startNodeId);
+  connectedOrder.push(startNodeId);
   unconnected.delete(startNodeId);
 
   // Connect all nodes
   while (unconnected.size > 0) {
-    const fromId =
-      Array.from(connected)[Math.floor(Math.random() * connected.size)];
+    const fromId = Array.from(connected)[randomInt(rng, 0, connected.size - 1)];
     const toId =
-      Array.from(unconnected)[Math.floor(Math.random() * unconnected.size)];
+      Array.from(unconnected)[randomInt(rng, 0, unconnected.size - 1)];
 
-    const weight = Math.floor(Math.random() * 10) + 1;
+    const weight = randomInt(rng, minWeight, maxWeight);
     graph.add_edge(fromId, toId, weight);
 
     connected.add(toId);
+    connectedOrder.push(toId);
     unconnected.delete(toId);
   }
 
   // Add additional random edges up to desired density
   let edgeCount = nodeCount - 1; // Already added n-1 edges for connectivity
 
-  // Create a list of all possible node pairs
+  // Create a list of all possible node pairs; the connecting edges all point
+  // forwards in the order nodes were connected, so acyclic pairs do too
+  const pairOrder = acyclic ? connectedOrder : nodeIds;
   const possiblePairs: [string, string][] = [];
-  for (let i = 0; i < nodeIds.length; i++) {
-    for (let j = i + 1; j < nodeIds.length; j++) {
-      possiblePairs.push([nodeIds[i], nodeIds[j]]);
+  for (let i = 0; i < pairOrder.length; i++) {
+    for (let j = i + 1; j < pairOrder.length; j++) {
+      possiblePairs.push([pairOrder[i], pairOrder[j]]);
+      if (!oneWay) possiblePairs.push([pairOrder[j], pairOrder[i]]);
     }
   }
 
   // Shuffle the possible pairs to add edges randomly
-  shuffleArray(possiblePairs);
+  shuffleArray(possiblePairs, rng);
 
   // Add edges until we reach the desired density
   for (const [fromId, toId] of possiblePairs) {
@@ -320,7 +413,7 @@ export function createRandomGraph(
     // Skip if edge already exists
     if (graph.hasEdge(fromId, toId)) continue;
 
-    const weight = Math.floor(Math.random() * 10) + 1;
+    const weight = randomInt(rng, minWeight, maxWeight);
     graph.add_edge(fromId, toId, weight);
     edgeCount++;
   }
@@ -329,13 +422,176 @@ export function createRandomGraph(
 }
 
 // Helper function to shuffle array
-function shuffleArray<T>(array: T[]): void {
+function shuffleArray<T>(array: T[], rng: RandomSource): void {
   for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = randomInt(rng, 0, i);
     [array[i], array[j]] = [array[j], array[i]];
   }
 }
 
+/**
+ * Creates a grid of cells joined to the cells above, below, left and right
+ * of them, every step weighing 1. Cells are labelled by row letter and
+ * column number (A1, A2, ...) and positioned at their column and row. Walls
+ * are left out of the graph, never in the first or last cell.
+ *
+ * @param rows - Number of rows, at most 26
+ * @param cols - Number of columns
+ * @param wallDensity - Share of the cells that are walls (0-1)
+ * @param rng - Source of random numbers, Math.random by default
+ * @returns A new undirected Graph
+ */
+export function createGridGraph(
+  rows: number,
+  cols: number,
+  wallDensity: number = 0.2,
+  rng: RandomSource = Math.random,
+): Graph {
+  const graph = new Graph();
+  const cellId = (row: number, col: number) => `cell-${row}-${col}`;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const isEnd =
+        (row === 0 && col === 0) || (row === rows - 1 && col === cols - 1);
+      if (!isEnd && rng() < wallDensity) continue;
+      const id = cellId(row, col);
+      graph.add_node(id, 0, `${String.fromCharCode(65 + row)}${col + 1}`);
+      graph.nodes[id].position = { x: col, y: row };
+    }
+  }
+
+  Object.values(graph.nodes).forEach((node) => {
+    const { x: col, y: row } = node.position!;
+    if (graph.nodes[cellId(row, col + 1)]) {
+      graph.add_edge(node.id, cellId(row, col + 1), 1);
+    }
+    if (graph.nodes[cellId(row + 1, col)]) {
+      graph.add_edge(node.id, cellId(row + 1, col), 1);
+    }
+  });
+
+  return graph;
+}
+
+/**
+ * Creates a random geometric graph: nodes scattered over a 100 by 100
+ * square, each joined to its nearest connected node so the graph is
+ * connected, then to its nearest others up to the edge density. Every edge
+ * weighs its length, rounded up, so straight-line distance never
+ * overestimates a path.
+ *
+ * @param nodeCount - Number of nodes to create
+ * @param edgeDensity - Share of the other nodes each node is joined to (0-1)
+ * @param minValue - Minimum value for node values
+ * @param maxValue - Maximum value for node values
+ * @param rng - Source of random numbers, Math.random by default
+ * @returns A new undirected Graph with node positions
+ */
+export function createGeometricGraph(
+  nodeCount: number,
+  edgeDensity: number = 0.1,
+  minValue: number = 1,
+  maxValue: number = 20,
+  rng: RandomSource = Math.random,
+): Graph {
+  const graph = new Graph();
+  for (let i = 0; i < nodeCount; i++) {
+    const id = `node-${i}`;
+    graph.add_node(id, randomInt(rng, minValue, maxValue));
+    // Kept to one decimal so links and exports restore them exactly
+    graph.nodes[id].position = {
+      x: Math.round(rng() * 1000) / 10,
+      y: Math.round(rng() * 1000) / 10,
+    };
+  }
+
+  const nodes = Object.values(graph.nodes);
+  const distance = (a: Node, b: Node) =>
+    Math.hypot(a.position!.x - b.position!.x, a.position!.y - b.position!.y);
+  const connect = (a: Node, b: Node) =>
+    graph.add_edge(a.id, b.id, Math.max(1, Math.ceil(distance(a, b))));
+
+  // Join each node to the nearest node already connected
+  nodes.slice(1).forEach((node, i) => {
+    const nearest = nodes
+      .slice(0, i + 1)
+      .reduce((best, other) =>
+        distance(node, other) < distance(node, best) ? other : best,
+      );
+    connect(node, nearest);
+  });
+
+  // Then to its nearest neighbors, up to the density
+  const neighborCount = Math.round(edgeDensity * (nodeCount - 1));
+  nodes.forEach((node) => {
+    nodes
+      .filter((other) => other !== node)
+      .sort((a, b) => distance(node, a) - distance(node, b))
+      .slice(0, neighborCount)
+      .forEach((other) => {
+        if (!graph.hasEdge(node.id, other.id)) connect(node, other);
+      });
+  });
+
+  return graph;
+}
+
+// Magnitude of an edge's weight for sizing and layout, so negative and zero
+// weights still draw a line of sensible width and length.
+function drawnWeight(edge: Edge): number {
+  return typeof edge.data === "number" ? Math.abs(edge.data) || 1 : 1;
+}
+
+export interface PositionScale {
+  toCanvas: (position: { x: number; y: number }) => { x: number; y: number };
+  toPosition: (x: number, y: number) => { x: number; y: number };
+}
+
+/**
+ * Fits node positions to a canvas, stretching each axis so the positions
+ * span it inside the padding. A single value along an axis lands in the
+ * middle. Maps canvas points back as well, so nodes added on the canvas
+ * get positions in the same units as the rest.
+ *
+ * @param positions - The positions to fit, at least one
+ * @param width - Width of the canvas
+ * @param height - Height of the canvas
+ * @param padding - Space kept free along each side
+ * @returns Conversions between positions and canvas points
+ */
+export function createPositionScale(
+  positions: { x: number; y: number }[],
+  width: number,
+  height: number,
+  padding: number,
+): PositionScale {
+  const axisScale = (axis: "x" | "y", size: number) => {
+    const values = positions.map((position) => position[axis]);
+    let min = Math.min(...values);
+    let range = Math.max(...values) - min;
+    // Treat one value as a unit range around it, which centers it
+    if (range === 0) {
+      min -= 0.5;
+      range = 1;
+    }
+    const span = size - 2 * padding;
+    return {
+      toCanvas: (value: number) => padding + ((value - min) / range) * span,
+      toPosition: (point: number) => min + ((point - padding) / span) * range,
+    };
+  };
+  const x = axisScale("x", width);
+  const y = axisScale("y", height);
+  return {
+    toCanvas: (position) => ({
+      x: x.toCanvas(position.x),
+      y: y.toCanvas(position.y),
+    }),
+    toPosition: (px, py) => ({ x: x.toPosition(px), y: y.toPosition(py) }),
+  };
+}
+
 // Enhanced Highlight interfaces - expanded to support more styling options
 export interface NodeHighlight {
   nodeId: string;
@@ -366,7 +622,27 @@ export interface GraphVisualizerProps {
   highlightedNodes?: NodeHighlight[];
   highlightedEdges?: EdgeHighlight[];
   onNodeHover?: (nodeId: string | null) => void; // Add new callback prop
+  hoveredNodeId?: string | null; // Node drawn as hovered from outside the canvas, e.g. from a table row
+  onNodeClick?: (nodeId: string) => void; // Called when a node is clicked outside edit mode
   backgroundOptions?: BackgroundOptions; // New background options
+  editable?: boolean; // Edit mode: add, connect, reweight and delete
+  onGraphChange?: (graph: Graph) => void; // Called after each edit
+}
+
+// Node or edge picked in edit mode, removed with Delete or Backspace
+interface GraphSelection {
+  type: "node" | "edge";
+  id: string;
+}
+
+// Inline editor opened by clicking an edge's weight label
+interface WeightEditor {
+  from: string;
+  to: string;
+  original: string;
+  text: string;
+  x: number;
+  y: number;
 }
 
 // Main GraphVisualizer component
@@ -377,7 +653,11 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
   highlightedNodes = [],
   highlightedEdges = [],
   onNodeHover,
+  hoveredNodeId = null,
+  onNodeClick,
   backgroundOptions,
+  editable = false,
+  onGraphChange,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
@@ -391,13 +671,38 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
   const highlightedNodesRef = useRef(highlightedNodes);
   const highlightedEdgesRef = useRef(highlightedEdges);
   const backgroundOptionsRef = useRef(backgroundOptions);
+  const onGraphChangeRef = useRef(onGraphChange);
+  const onNodeClickRef = useRef(onNodeClick);
+  const nodeRadiusRef = useRef(0);
+
+  // Edits change the graph in place, so the revision triggers the redraw
+  const [revision, setRevision] = useState(0);
+  const keepLayoutRef = useRef(false);
+  const [selection, setSelection] = useState<GraphSelection | null>(null);
+  const [weightEditor, setWeightEditor] = useState<WeightEditor | null>(null);
+  const cancelWeightRef = useRef(false);
 
   // At the start of your component or effect
   useEffect(() => {
     highlightedNodesRef.current = highlightedNodes;
     highlightedEdgesRef.current = highlightedEdges;
     backgroundOptionsRef.current = backgroundOptions;
-  }, [highlightedNodes, highlightedEdges, backgroundOptions]);
+    onGraphChangeRef.current = onGraphChange;
+    onNodeClickRef.current = onNodeClick;
+  }, [
+    highlightedNodes,
+    highlightedEdges,
+    backgroundOptions,
+    onGraphChange,
+    onNodeClick,
+  ]);
+
+  // Redraw after an edit without shaking up the layout
+  const commitEdit = () => {
+    keepLayoutRef.current = true;
+    setRevision((r) => r + 1);
+    onGraphChangeRef.current?.(graph);
+  };
 
   // Main effect for graph rendering and visualization
   useEffect(() => {
@@ -424,8 +729,8 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
 
     const highlightedEdgesMap = new Map<string, EdgeHighlight>();
     currentHighlightedEdges.forEach((hl) => {
-      // Generate consistent edge ID for undirected edges
-      const edgeId = [hl.sourceId, hl.targetId].sort().join("-");
+      // Generate the edge ID the graph uses for this pair
+      const edgeId = graph._getEdgeId(hl.sourceId, hl.targetId);
       highlightedEdgesMap.set(edgeId, hl);
     });
 
@@ -448,7 +753,7 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
     const textColor = "white";
 
     // Add a subtle gradient background
-    svg
+    const background = svg
       .append("rect")
       .attr("width", width)
       .attr("height", height)
@@ -560,6 +865,33 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
     });
 
     // Create D3 selections with improved styling
+    // Arrowheads for directed edges
+    if (graph.directed) {
+      defs
+        .append("marker")
+        .attr("id", "arrowhead")
+        .attr("viewBox", "0 -5 10 10")
+        .attr("refX", 10)
+        .attr("refY", 0)
+        .attr("markerUnits", "userSpaceOnUse")
+        .attr("markerWidth", 10)
+        .attr("markerHeight", 10)
+        .attr("orient", "auto")
+        .append("path")
+        .attr("d", "M0,-5L10,0L0,5")
+        .attr("fill", defaultLinkColor);
+    }
+
+    // Directed edges with a twin going the other way are drawn side by side
+    const reciprocal = new Set(
+      edges
+        .filter(
+          (edge) =>
+            graph.directed && graph.hasEdge(edge.to_node.id, edge.from_node.id),
+        )
+        .map((edge) => edge.id),
+    );
+
     const linkGroup = svg.append("g");
 
     const link = linkGroup
@@ -582,11 +914,19 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
         }
 
         // Otherwise use edge.data as weight
-        const weight = typeof d.data === "number" ? d.data : 1;
+        const weight = drawnWeight(d);
         const baseWidth = highlightedEdgesMap.has(d.id) ? 2.5 : 1.5;
         return (baseWidth * Math.sqrt(weight)) / 2;
       })
-      .attr("stroke-linecap", "round");
+      .attr("stroke-linecap", "round")
+      .attr("marker-end", graph.directed ? "url(#arrowhead)" : null);
+
+    if (editable) {
+      link.style("cursor", "pointer").on("click", (event, d) => {
+        setSelection({ type: "edge", id: d.id });
+        containerRef.current?.focus();
+      });
+    }
 
     // Add node shadows for depth
     const shadow = defs
@@ -637,6 +977,8 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
       ),
     );
 
+    nodeRadiusRef.current = nodeRadius;
+
     const nodeGroup = svg.append("g");
 
     const node = nodeGroup
@@ -711,12 +1053,26 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
             highlightedNodesMap.has(node.id) ? 2 : 1.5,
           );
       })
+      .on("click", (event, d) => {
+        if (!editable) {
+          onNodeClickRef.current?.(d.id);
+          return;
+        }
+        setSelection({ type: "node", id: d.id });
+        containerRef.current?.focus();
+      })
       .call(
-        d3
-          .drag<SVGCircleElement, Node>()
-          .on("start", dragstarted)
-          .on("drag", dragged)
-          .on("end", dragended),
+        editable
+          ? d3
+              .drag<SVGCircleElement, Node>()
+              .on("start", connectStarted)
+              .on("drag", connectDragged)
+              .on("end", connectEnded)
+          : d3
+              .drag<SVGCircleElement, Node>()
+              .on("start", dragstarted)
+              .on("drag", dragged)
+              .on("end", dragended),
       );
 
     // Calculate appropriate font size based on node radius
@@ -727,14 +1083,16 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
       .selectAll("text")
       .data(nodes)
       .join("text")
-      .text((d) => d.value.toString())
+      .text((d) => d.label ?? d.value.toString())
       .attr("font-size", `${fontSize}px`)
       .attr("font-weight", (d) =>
         highlightedNodesMap.has(d.id) ? "700" : "500",
       )
       .attr("text-anchor", "middle")
       .attr("fill", textColor)
-      .attr("dy", "0.35em");
+      .attr("dy", "0.35em")
+      // Let clicks and drags through to the node underneath
+      .attr("pointer-events", "none");
 
     // Add edge weight labels - make them smaller and more subtle
     const edgeLabelFontSize = Math.max(8, Math.min(10, nodeRadius * 0.4));
@@ -779,6 +1137,25 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
       .attr("fill", isDarkMode ? "hsl(0, 0%, 95%)" : "hsl(0, 0%, 20%)")
       .attr("opacity", (d) => (highlightedEdgesMap.has(d.id) ? 0.95 : 0.5));
 
+    // Clicking a weight label in edit mode opens an editor on top of it
+    if (editable) {
+      const openWeightEditor = (event: MouseEvent, d: Edge) => {
+        const [x, y] = d3.pointer(event, svgRef.current);
+        const weight = typeof d.data === "number" ? d.data.toString() : "1";
+        setSelection({ type: "edge", id: d.id });
+        setWeightEditor({
+          from: d.from_node.id,
+          to: d.to_node.id,
+          original: weight,
+          text: weight,
+          x,
+          y,
+        });
+      };
+      edgeLabelBackground.style("cursor", "text").on("click", openWeightEditor);
+      edgeLabels.style("cursor", "text").on("click", openWeightEditor);
+    }
+
     // Calculate appropriate force parameters based on container size
     const optimalLinkDistance =
       Math.min(width, height) / Math.max(4, Math.sqrt(nodes.length));
@@ -790,6 +1167,46 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
       ),
     );
 
+    // Nodes with a position are pinned there, scaled to fill the canvas
+    const positioned = nodes.filter((n) => n.position);
+    const positionScale =
+      positioned.length > 0
+        ? createPositionScale(
+            positioned.map((n) => n.position!),
+            width,
+            height,
+            Math.max(nodeRadius * 2, Math.min(width, height) * 0.08),
+          )
+        : null;
+    const pin = (n: Node) => {
+      if (!n.position || !positionScale) return;
+      const point = positionScale.toCanvas(n.position);
+      n.fx = point.x;
+      n.fy = point.y;
+    };
+    positioned.forEach(pin);
+
+    // Clicking empty canvas in edit mode adds a node there. In a graph laid
+    // out by position it gets the position under the pointer, so it stays
+    // put and heuristics can measure to it.
+    if (editable) {
+      background.style("cursor", "crosshair").on("click", (event) => {
+        const [x, y] = d3.pointer(event);
+        let n = nodes.length;
+        while (graph.nodes[`node-${n}`]) n++;
+        const id = `node-${n}`;
+        graph.add_node(id, n);
+        graph.nodes[id].x = x;
+        graph.nodes[id].y = y;
+        if (positionScale) {
+          graph.nodes[id].position = positionScale.toPosition(x, y);
+        }
+        setSelection({ type: "node", id });
+        containerRef.current?.focus();
+        commitEdit();
+      });
+    }
+
     // Set up force simulation with our edge structure
     const simulation = d3
       .forceSimulation<Node>(nodes)
@@ -802,11 +1219,11 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
           return forceLink
             .distance((d) => {
               // Heavier edges pull nodes closer together
-              const weight = typeof d.data === "number" ? d.data : 1;
+              const weight = drawnWeight(d);
               return optimalLinkDistance / Math.sqrt(weight);
             })
             .strength((d) => {
-              const weight = typeof d.data === "number" ? d.data : 1;
+              const weight = drawnWeight(d);
               return 0.5 + weight / 10;
             });
         })(),
@@ -859,15 +1276,86 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
       if (!event.active) simulation.alphaTarget(0);
       d.fx = null;
       d.fy = null;
+      pin(d);
+    }
+
+    // Dragging from one node onto another in edit mode connects them
+    let connector: d3.Selection<
+      SVGPathElement,
+      unknown,
+      null,
+      undefined
+    > | null = null;
+
+    function connectStarted(
+      event: d3.D3DragEvent<SVGCircleElement, Node, Node>,
+      d: Node,
+    ) {
+      connector = svg
+        .append("path")
+        .attr("stroke", defaultLinkColor)
+        .attr("stroke-width", 2)
+        .attr("stroke-dasharray", "6 4")
+        .attr("pointer-events", "none")
+        .attr("d", `M${d.x},${d.y}L${event.x},${event.y}`);
+    }
+
+    function connectDragged(
+      event: d3.D3DragEvent<SVGCircleElement, Node, Node>,
+      d: Node,
+    ) {
+      connector?.attr("d", `M${d.x},${d.y}L${event.x},${event.y}`);
+    }
+
+    function connectEnded(
+      event: d3.D3DragEvent<SVGCircleElement, Node, Node>,
+      d: Node,
+    ) {
+      connector?.remove();
+      connector = null;
+      const target = nodes.find(
+        (other) =>
+          other !== d &&
+          Math.hypot((other.x ?? 0) - event.x, (other.y ?? 0) - event.y) <=
+            nodeRadius,
+      );
+      if (target && graph.add_edge(d.id, target.id, 1)) {
+        setSelection({ type: "edge", id: graph._getEdgeId(d.id, target.id) });
+        commitEdit();
+      }
+    }
+
+    // Line ends of an edge. Directed edges stop at the target's rim so the
+    // arrowhead shows, and twins are moved apart to their own side.
+    function edgeEnds(d: Edge): [number, number, number, number] {
+      const x1 = d.from_node.x || 0;
+      const y1 = d.from_node.y || 0;
+      const x2 = d.to_node.x || 0;
+      const y2 = d.to_node.y || 0;
+      if (!graph.directed) return [x1, y1, x2, y2];
+
+      const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+      const ux = (x2 - x1) / length;
+      const uy = (y2 - y1) / length;
+      const shift = reciprocal.has(d.id) ? nodeRadius * 0.3 : 0;
+      return [
+        x1 + uy * shift,
+        y1 - ux * shift,
+        x2 - ux * nodeRadius + uy * shift,
+        y2 - uy * nodeRadius - ux * shift,
+      ];
     }
 
     // Update positions on tick
     simulation.on("tick", () => {
-      link
-        .attr("x1", (d) => d.from_node.x || 0)
-        .attr("y1", (d) => d.from_node.y || 0)
-        .attr("x2", (d) => d.to_node.x || 0)
-        .attr("y2", (d) => d.to_node.y || 0);
+      link.each(function (d) {
+        const [x1, y1, x2, y2] = edgeEnds(d);
+        d3.select(this)
+          .attr("x1", x1)
+          .attr("y1", y1)
+          .attr("x2", x2)
+          .attr("y2", y2);
+      });
 
       // Position edge labels
       edges.forEach((edge, i) => {
@@ -889,7 +1377,7 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
         // Only create offset if edge is long enough
         if (length > nodeRadius * 3) {
           // Increase offset to move labels further from edges
-          const offsetScale = 0.25;
+          const offsetScale = reciprocal.has(edge.id) ? 0.6 : 0.25;
           const offsetX = (dy / length) * nodeRadius * offsetScale;
           const offsetY = (-dx / length) * nodeRadius * offsetScale;
 
@@ -929,12 +1417,18 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
       text.attr("x", (d) => d.x || 0).attr("y", (d) => d.y || 0);
     });
 
+    // After an edit, settle the new parts without moving everything else
+    if (keepLayoutRef.current) {
+      keepLayoutRef.current = false;
+      simulation.alpha(0.1);
+    }
+
     // Cleanup when component unmounts
     return () => {
       simulation.stop();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [graph, dimensions, isDarkMode, onNodeHover]); // Add onNodeHover to dependency array
+  }, [graph, dimensions, isDarkMode, onNodeHover, editable, revision]); // Add onNodeHover to dependency array
 
   /**
    * Effect to handle highlights
@@ -958,8 +1452,8 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
 
     const highlightedEdgesMap = new Map<string, EdgeHighlight>();
     localHighlightedEdges.forEach((hl) => {
-      // Generate consistent edge ID for undirected edges
-      const edgeId = [hl.sourceId, hl.targetId].sort().join("-");
+      // Generate the edge ID the graph uses for this pair
+      const edgeId = graph._getEdgeId(hl.sourceId, hl.targetId);
       highlightedEdgesMap.set(edgeId, hl);
     });
 
@@ -1053,7 +1547,7 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
           return highlight.width;
         }
 
-        const weight = typeof d.data === "number" ? d.data : 1;
+        const weight = drawnWeight(d);
         const baseWidth = d.id && highlightedEdgesMap.has(d.id) ? 2.5 : 1.5;
         return (baseWidth * Math.sqrt(weight)) / 2;
       })
@@ -1085,7 +1579,78 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
         if (d.id && highlightedEdgesMap.has(d.id)) return 0.95;
         return 0.7;
       });
-  }, [highlightedNodes, highlightedEdges, isDarkMode]);
+  }, [graph, highlightedNodes, highlightedEdges, isDarkMode]);
+
+  // Grow the node hovered from outside the canvas, as the mouse does
+  useEffect(() => {
+    if (!svgRef.current) return;
+    d3.select(svgRef.current)
+      .selectAll<SVGCircleElement, Node>("circle")
+      .transition("hover")
+      .duration(150)
+      .attr(
+        "r",
+        (d) => nodeRadiusRef.current * (d.id === hoveredNodeId ? 1.25 : 1),
+      );
+  }, [hoveredNodeId, graph, dimensions, isDarkMode, revision]);
+
+  // Outline the selected node or edge while editing
+  const shownSelection = editable ? selection : null;
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const isSelected = (type: GraphSelection["type"], id: string) =>
+      shownSelection?.type === type && shownSelection.id === id;
+
+    svg
+      .selectAll<SVGCircleElement, Node>("circle")
+      .attr("stroke-dasharray", (d) =>
+        isSelected("node", d.id) ? "4 3" : null,
+      );
+    svg
+      .selectAll<SVGLineElement, Edge>("line")
+      .attr("stroke-dasharray", (d) =>
+        isSelected("edge", d.id) ? "6 4" : null,
+      );
+  }, [shownSelection, graph, dimensions, isDarkMode, revision]);
+
+  // Delete or Backspace removes the selected node or edge
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!shownSelection || e.target instanceof HTMLInputElement) return;
+    if (e.key !== "Delete" && e.key !== "Backspace") return;
+    e.preventDefault();
+
+    if (shownSelection.type === "node") {
+      graph.remove_node(shownSelection.id);
+    } else {
+      const edge = graph
+        .get_all_edges()
+        .find((edge) => edge.id === shownSelection.id);
+      if (edge) graph.remove_edge(edge.from_node.id, edge.to_node.id);
+    }
+    setSelection(null);
+    commitEdit();
+  };
+
+  // Replace the edited edge with one of the new weight
+  const commitWeight = () => {
+    if (!weightEditor) return;
+    setWeightEditor(null);
+    const cancelled = cancelWeightRef.current;
+    cancelWeightRef.current = false;
+    const weight = Number(weightEditor.text);
+    if (
+      cancelled ||
+      weightEditor.text.trim() === "" ||
+      !Number.isFinite(weight) ||
+      weightEditor.text === weightEditor.original
+    ) {
+      return;
+    }
+    graph.remove_edge(weightEditor.from, weightEditor.to);
+    graph.add_edge(weightEditor.from, weightEditor.to, weight);
+    commitEdit();
+  };
 
   // Handle responsive sizing
   useEffect(() => {
@@ -1115,8 +1680,10 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
   return (
     <div
       ref={containerRef}
-      className="w-full h-full min-h-[400px] rounded-xl overflow-hidden shadow-sm border border-gray-200 dark:border-gray-800"
+      className="relative w-full h-full min-h-[400px] rounded-xl overflow-hidden shadow-sm border border-gray-200 dark:border-gray-800 outline-none"
       style={{ width: "100%", height: "100%" }}
+      tabIndex={editable ? 0 : undefined}
+      onKeyDown={editable ? handleKeyDown : undefined}
     >
       <svg
         ref={svgRef}
@@ -1125,6 +1692,27 @@ export const GraphVisualizer: FC<GraphVisualizerProps> = ({
         className="w-full h-full"
         style={{ display: "block" }}
       />
+      {editable && weightEditor && (
+        <input
+          type="text"
+          inputMode="decimal"
+          autoFocus
+          aria-label="Edge weight"
+          value={weightEditor.text}
+          onChange={(e) =>
+            setWeightEditor({ ...weightEditor, text: e.target.value })
+          }
+          onKeyDown={(e) => {
+            if (e.key === "Escape") cancelWeightRef.current = true;
+            if (e.key === "Enter" || e.key === "Escape") {
+              e.currentTarget.blur();
+            }
+          }}
+          onBlur={commitWeight}
+          className="absolute w-16 px-1 text-sm text-center rounded border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200 -translate-x-1/2 -translate-y-1/2"
+          style={{ left: weightEditor.x, top: weightEditor.y }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,116 @@
+export interface HeapEntry {
+  id: string;
+  priority: number;
+}
+
+// Binary min-heap of ids keyed by priority. Each id's place in the array is
+// kept in an index, so its priority can be lowered in place (decrease-key)
+// without searching for it. Equal priorities come out in the order the ids
+// were pushed.
+export class IndexedMinHeap {
+  entries: HeapEntry[] = []; // The heap in array form; the children of i sit at 2i + 1 and 2i + 2
+  positions = new Map<string, number>(); // Index of each id in entries
+  order = new Map<string, number>(); // When each id in the heap was pushed, to break ties
+  pushes = 0; // Pushes made so far, so ids pushed again go behind the rest
+  comparisons = 0; // Priority comparisons made so far
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  has(id: string): boolean {
+    return this.positions.has(id);
+  }
+
+  // The priority of an id in the heap, undefined when it is not there
+  priority(id: string): number | undefined {
+    const position = this.positions.get(id);
+    return position === undefined ? undefined : this.entries[position].priority;
+  }
+
+  // The entry with the lowest priority, without removing it
+  peek(): HeapEntry | null {
+    return this.entries[0] ?? null;
+  }
+
+  push(id: string, priority: number): void {
+    if (this.has(id)) throw new Error(`${id} is already in the heap`);
+    this.order.set(id, this.pushes++);
+    this.entries.push({ id, priority });
+    this.positions.set(id, this.entries.length - 1);
+    this.siftUp(this.entries.length - 1);
+  }
+
+  // Remove and return the entry with the lowest priority
+  pop(): HeapEntry | null {
+    if (this.entries.length === 0) return null;
+    const top = this.entries[0];
+    const last = this.entries.pop()!;
+    this.positions.delete(top.id);
+    this.order.delete(top.id);
+    if (this.entries.length > 0) {
+      this.entries[0] = last;
+      this.positions.set(last.id, 0);
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  // Lower the priority of an id already in the heap and move it up to match
+  decreaseKey(id: string, priority: number): void {
+    const position = this.positions.get(id);
+    if (position === undefined) throw new Error(`${id} is not in the heap`);
+    if (priority > this.entries[position].priority) {
+      throw new Error(
+        `Cannot raise the priority of ${id} from ${this.entries[position].priority} to ${priority}`,
+      );
+    }
+    this.entries[position].priority = priority;
+    this.siftUp(position);
+  }
+
+  // Copy of the array form, for recording a step
+  snapshot(): HeapEntry[] {
+    return this.entries.map((entry) => ({ ...entry }));
+  }
+
+  private less(i: number, j: number): boolean {
+    this.comparisons++;
+    const a = this.entries[i];
+    const b = this.entries[j];
+    if (a.priority !== b.priority) return a.priority < b.priority;
+    return this.order.get(a.id)! < this.order.get(b.id)!;
+  }
+
+  private swap(i: number, j: number): void {
+    [this.entries[i], this.entries[j]] = [this.entries[j], this.entries[i]];
+    this.positions.set(this.entries[i].id, i);
+    this.positions.set(this.entries[j].id, j);
+  }
+
+  private siftUp(i: number): void {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(i, parent)) return;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  private siftDown(i: number): void {
+    while (true) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < this.entries.length && this.less(left, smallest)) {
+        smallest = left;
+      }
+      if (right < this.entries.length && this.less(right, smallest)) {
+        smallest = right;
+      }
+      if (smallest === i) return;
+      this.swap(i, smallest);
+      i = smallest;
+    }
+  }
+}
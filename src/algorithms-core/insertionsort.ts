@@ -0,0 +1,145 @@
+import { CodeListing, createTraceStep } from "./trace";
+import {
+  annotateSortStats,
+  createInitialSortStep,
+  SortStep,
+} from "./quicksort";
+
+// Insertion sort source listings. Steps record the pseudo-code line numbers.
+export const INSERTIONSORT_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "insertionSort(A):",
+      "  for i = 1 to n - 1:",
+      "    key = A[i]",
+      "    j = i - 1",
+      "    while j >= 0 and A[j] > key:",
+      "      A[j + 1] = A[j]",
+      "      j = j - 1",
+      "    A[j + 1] = key",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function insertionSort(a: number[]): void {",
+      "  for (let i = 1; i < a.length; i++) {",
+      "    const key = a[i];",
+      "    let j = i - 1;",
+      "    while (j >= 0 && a[j] > key) {",
+      "      a[j + 1] = a[j];",
+      "      j--;",
+      "    }",
+      "    a[j + 1] = key;",
+      "  }",
+      "}",
+    ],
+    lineMap: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7, 8: 9 },
+  },
+  {
+    language: "python",
+    lines: [
+      "def insertion_sort(a):",
+      "    for i in range(1, len(a)):",
+      "        key = a[i]",
+      "        j = i - 1",
+      "        while j >= 0 and a[j] > key:",
+      "            a[j + 1] = a[j]",
+      "            j -= 1",
+      "        a[j + 1] = key",
+    ],
+    lineMap: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7, 8: 8 },
+  },
+  {
+    language: "java",
+    lines: [
+      "void insertionSort(int[] a) {",
+      "  for (int i = 1; i < a.length; i++) {",
+      "    int key = a[i];",
+      "    int j = i - 1;",
+      "    while (j >= 0 && a[j] > key) {",
+      "      a[j + 1] = a[j];",
+      "      j--;",
+      "    }",
+      "    a[j + 1] = key;",
+      "  }",
+      "}",
+    ],
+    lineMap: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7, 8: 9 },
+  },
+];
+
+// Returns an array of steps detailing the changes during insertion sort.
+// The first step is the unsorted input and the last step is the sorted array.
+export function getInsertionSortSteps(initialArray: number[]): SortStep[] {
+  const steps: SortStep[] = [createInitialSortStep(initialArray)];
+  const arr = initialArray.slice();
+
+  for (let i = 1; i < arr.length; i++) {
+    const key = arr[i];
+    let j = i - 1;
+
+    while (j >= 0) {
+      // Record comparing the key with the next element of the sorted prefix.
+      steps.push({
+        ...createTraceStep("compare", `Compare ${arr[j]} with key ${key}`, {
+          highlights: [
+            { type: "index", index: j, role: "compare" },
+            { type: "index", index: j + 1, role: "current" },
+          ],
+          line: 5,
+        }),
+        arr: arr.slice(),
+        comparing: [j],
+        writeIndex: j + 1,
+        range: [0, i],
+      });
+      if (arr[j] <= key) break;
+
+      // Shift the larger element one place to the right.
+      const previous = arr[j + 1];
+      arr[j + 1] = arr[j];
+      steps.push({
+        ...createTraceStep(
+          "write",
+          `${arr[j]} > ${key}, shift it to index ${j + 1}`,
+          {
+            highlights: [{ type: "index", index: j + 1, role: "write" }],
+            mutations: [
+              { target: "arr", key: j + 1, from: previous, to: arr[j] },
+            ],
+            line: 6,
+          },
+        ),
+        arr: arr.slice(),
+        comparing: [j],
+        writeIndex: j + 1,
+        range: [0, i],
+      });
+      j--;
+    }
+
+    if (j + 1 !== i) {
+      // Drop the key into the gap left by the shifts.
+      const previous = arr[j + 1];
+      arr[j + 1] = key;
+      steps.push({
+        ...createTraceStep("write", `Insert key ${key} at index ${j + 1}`, {
+          highlights: [{ type: "index", index: j + 1, role: "write" }],
+          mutations: [{ target: "arr", key: j + 1, from: previous, to: key }],
+          line: 8,
+        }),
+        arr: arr.slice(),
+        writeIndex: j + 1,
+        range: [0, i],
+      });
+    }
+  }
+
+  steps.push({
+    ...createTraceStep("done", "The array is sorted"),
+    arr: arr.slice(),
+  });
+  return annotateSortStats(steps);
+}
@@ -0,0 +1,344 @@
+import { Graph } from "./graphs_common";
+import { SCCResult, SCCStep } from "./scc";
+import {
+  CodeListing,
+  createTraceStep,
+  Highlight,
+  StepKind,
+  TraceStepOptions,
+} from "./trace";
+
+export interface KosarajuStep extends SCCStep {
+  pass: 1 | 2; // First pass on the graph, second on its transpose
+  visited: string[]; // Nodes reached by the first pass
+  finished: string[]; // Nodes in the order the first pass finished them
+  stack: string[]; // Current path of recursive calls, bottom first
+  assigned: string[]; // Nodes placed in a component by the second pass
+}
+
+// Kosaraju listings. Steps record the pseudo-code line numbers.
+export const KOSARAJU_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "kosaraju(G):",
+      "  for each node u: if u is unvisited: visit(u)",
+      "  for each node u, last finished first:",
+      "    if u is unassigned: assign(u, a new component c)",
+      "visit(u):",
+      "  mark u visited",
+      "  for each edge (u, v): if v is unvisited: visit(v)",
+      "  append u to the finish order",
+      "assign(u, c):",
+      "  put u in component c",
+      "  for each edge (v, u), i.e. (u, v) of the transpose: if v is unassigned: assign(v, c)",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function kosaraju(graph: Graph): string[][] {",
+      "  const visited = new Set<string>();",
+      "  const finished: string[] = [];",
+      "  const visit = (u: string) => {",
+      "    visited.add(u);",
+      "    for (const { node: v } of graph.get_neighbors(u))",
+      "      if (!visited.has(v.id)) visit(v.id);",
+      "    finished.push(u);",
+      "  };",
+      "  for (const id in graph.nodes) if (!visited.has(id)) visit(id);",
+      "  const components: string[][] = [];",
+      "  const assigned = new Set<string>();",
+      "  const assign = (u: string, component: string[]) => {",
+      "    assigned.add(u);",
+      "    component.push(u);",
+      "    for (const { node: v } of graph.get_predecessors(u))",
+      "      if (!assigned.has(v.id)) assign(v.id, component);",
+      "  };",
+      "  for (const u of finished.reverse()) {",
+      "    if (assigned.has(u)) continue;",
+      "    components.push([]);",
+      "    assign(u, components[components.length - 1]);",
+      "  }",
+      "  return components;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 10,
+      3: 19,
+      4: 22,
+      5: 4,
+      6: 5,
+      7: 7,
+      8: 8,
+      9: 13,
+      10: 15,
+      11: 17,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def kosaraju(graph):",
+      "    visited, finished = set(), []",
+      "    def visit(u):",
+      "        visited.add(u)",
+      "        for v in graph.neighbors(u):",
+      "            if v not in visited:",
+      "                visit(v)",
+      "        finished.append(u)",
+      "    for u in graph.nodes:",
+      "        if u not in visited:",
+      "            visit(u)",
+      "    components, assigned = [], set()",
+      "    def assign(u, component):",
+      "        assigned.add(u)",
+      "        component.append(u)",
+      "        for v in graph.predecessors(u):",
+      "            if v not in assigned:",
+      "                assign(v, component)",
+      "    for u in reversed(finished):",
+      "        if u not in assigned:",
+      "            components.append([])",
+      "            assign(u, components[-1])",
+      "    return components",
+    ],
+    lineMap: {
+      1: 1,
+      2: 9,
+      3: 19,
+      4: 20,
+      5: 3,
+      6: 4,
+      7: 6,
+      8: 8,
+      9: 13,
+      10: 15,
+      11: 17,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "List<List<String>> kosaraju(Graph graph) {",
+      "  Set<String> visited = new HashSet<>();",
+      "  Deque<String> finished = new ArrayDeque<>();",
+      "  for (String u : graph.nodes())",
+      "    if (!visited.contains(u)) visit(graph, u, visited, finished);",
+      "  Set<String> assigned = new HashSet<>();",
+      "  List<List<String>> components = new ArrayList<>();",
+      "  for (String u : finished) {",
+      "    if (assigned.contains(u)) continue;",
+      "    components.add(new ArrayList<>());",
+      "    assign(graph, u, assigned, components.get(components.size() - 1));",
+      "  }",
+      "  return components;",
+      "}",
+      "void visit(Graph graph, String u, Set<String> visited, Deque<String> finished) {",
+      "  visited.add(u);",
+      "  for (String v : graph.neighbors(u))",
+      "    if (!visited.contains(v)) visit(graph, v, visited, finished);",
+      "  finished.push(u);",
+      "}",
+      "void assign(Graph graph, String u, Set<String> assigned, List<String> component) {",
+      "  assigned.add(u);",
+      "  component.add(u);",
+      "  for (String v : graph.predecessors(u))",
+      "    if (!assigned.contains(v)) assign(graph, v, assigned, component);",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 4,
+      3: 8,
+      4: 11,
+      5: 15,
+      6: 16,
+      7: 18,
+      8: 19,
+      9: 21,
+      10: 23,
+      11: 25,
+    },
+  },
+];
+
+/**
+ * Kosaraju's strongly connected components algorithm. A first depth-first
+ * pass records the order nodes finish in. A second pass takes the nodes last
+ * finished first and, from each one not yet assigned, follows the edges
+ * backwards, i.e. searches the transposed graph; everything it reaches that
+ * is not assigned yet forms one component.
+ *
+ * @param graph - The graph to split into components
+ * @returns The recorded steps and the components, in the order found
+ */
+export function kosaraju(graph: Graph): SCCResult<KosarajuStep> {
+  const nodeIds = Object.keys(graph.nodes);
+  const visited = new Set<string>();
+  const finished: string[] = [];
+  const assigned = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let pass: 1 | 2 = 1;
+  let currentNodeId: string | null = null;
+
+  const steps: KosarajuStep[] = [];
+  const record = (
+    kind: StepKind,
+    narration: string,
+    trace: TraceStepOptions,
+  ) => {
+    steps.push({
+      ...createTraceStep(kind, narration, trace),
+      currentNodeId,
+      components: components.map((members) => members.slice()),
+      pass,
+      visited: [...visited],
+      finished: finished.slice(),
+      stack: stack.slice(),
+      assigned: [...assigned],
+    });
+  };
+
+  const visit = (u: string) => {
+    visited.add(u);
+    stack.push(u);
+    currentNodeId = u;
+    record("visit", `Visit ${u}`, {
+      highlights: [{ type: "node", nodeId: u, role: "current" }],
+      line: 6,
+    });
+
+    for (const { node } of graph.get_neighbors(u)) {
+      const v = node.id;
+      const highlights: Highlight[] = [
+        { type: "node", nodeId: u, role: "current" },
+        { type: "node", nodeId: v, role: "next" },
+        { type: "edge", sourceId: u, targetId: v, role: "compare" },
+      ];
+      if (visited.has(v)) {
+        record("compare", `${v} is already visited`, { highlights, line: 7 });
+        continue;
+      }
+      record("compare", `${v} is unvisited, so follow ${u} - ${v}`, {
+        highlights,
+        line: 7,
+      });
+      visit(v);
+      currentNodeId = u;
+    }
+
+    stack.pop();
+    finished.push(u);
+    currentNodeId = null;
+    record("finalize", `${u} is finished, number ${finished.length}`, {
+      highlights: [{ type: "node", nodeId: u, role: "visited" }],
+      mutations: [
+        { target: "finished", key: u, from: null, to: finished.length },
+      ],
+      line: 8,
+    });
+  };
+
+  // Edges are followed from their target back to their source
+  const assign = (u: string, component: string[]) => {
+    assigned.add(u);
+    component.push(u);
+    stack.push(u);
+    currentNodeId = u;
+    record("visit", `Put ${u} in C${components.length}`, {
+      highlights: [{ type: "node", nodeId: u, role: "current" }],
+      mutations: [
+        { target: "assigned", key: u, from: null, to: components.length - 1 },
+      ],
+      line: 10,
+    });
+
+    for (const { node } of graph.get_predecessors(u)) {
+      const v = node.id;
+      const highlights: Highlight[] = [
+        { type: "node", nodeId: u, role: "current" },
+        { type: "node", nodeId: v, role: "next" },
+        { type: "edge", sourceId: v, targetId: u, role: "compare" },
+      ];
+      if (assigned.has(v)) {
+        record("compare", `${v} already has a component`, {
+          highlights,
+          line: 11,
+        });
+        continue;
+      }
+      record(
+        "compare",
+        `${v} - ${u} leads back from ${u} to ${v}, which has no component yet`,
+        { highlights, line: 11 },
+      );
+      assign(v, component);
+      currentNodeId = u;
+    }
+    stack.pop();
+  };
+
+  for (const nodeId of nodeIds) {
+    if (visited.has(nodeId)) continue;
+    currentNodeId = null;
+    record("init", `${nodeId} is unvisited; start a search from it`, {
+      highlights: [{ type: "node", nodeId, role: "next" }],
+      line: 2,
+    });
+    visit(nodeId);
+  }
+
+  pass = 2;
+  currentNodeId = null;
+  record(
+    "init",
+    "Second pass: take the nodes last finished first and follow the edges backwards, as in the transposed graph",
+    { line: 3 },
+  );
+  for (const nodeId of finished.slice().reverse()) {
+    if (assigned.has(nodeId)) continue;
+    const component: string[] = [];
+    components.push(component);
+    record(
+      "init",
+      `${nodeId} is the latest finished node without a component; it starts C${components.length}`,
+      {
+        highlights: [{ type: "node", nodeId, role: "next" }],
+        line: 4,
+      },
+    );
+    assign(nodeId, component);
+    currentNodeId = null;
+    record(
+      "finalize",
+      `C${components.length} is complete: ${component.join(", ")}`,
+      {
+        highlights: component.map((id) => ({
+          type: "node",
+          nodeId: id,
+          role: "path",
+        })),
+        mutations: [
+          {
+            target: "components",
+            key: components.length - 1,
+            from: null,
+            to: component.join(","),
+          },
+        ],
+        line: 4,
+      },
+    );
+  }
+
+  record(
+    "done",
+    `Found ${components.length} strongly connected component${components.length === 1 ? "" : "s"}`,
+    {},
+  );
+
+  return { steps, components: components.map((members) => members.slice()) };
+}
@@ -0,0 +1,259 @@
+import { Graph } from "./graphs_common";
+import {
+  assertUndirected,
+  MSTEdge,
+  MSTResult,
+  MSTStep,
+  toMSTEdge,
+  UnionFind,
+} from "./mst";
+import {
+  CodeListing,
+  createTraceStep,
+  Highlight,
+  StepKind,
+  TraceStepOptions,
+} from "./trace";
+
+export interface KruskalStep extends MSTStep {
+  sortedEdges: MSTEdge[]; // Every edge, lightest first; shared by all steps
+  edgeIndex: number; // Position of the current edge in sortedEdges, -1 before the first
+  rejected: string[]; // Ids of edges skipped because they would close a cycle
+  forest: Map<string, string>; // Union-find parent of each node; roots point to themselves
+}
+
+// Kruskal listings. Steps record the pseudo-code line numbers.
+export const KRUSKAL_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "kruskal(G):",
+      "  sort the edges of G by weight",
+      "  make each node its own set",
+      "  for each edge (u, v, w) in sorted order:",
+      "    if find(u) = find(v): reject (u, v), it would close a cycle",
+      "    else:",
+      "      add (u, v) to the tree, union(u, v)",
+      "      if the tree has |V| - 1 edges: stop",
+      "  return the tree",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function kruskal(graph: Graph) {",
+      "  const edges = graph.get_all_edges()",
+      "    .sort((a, b) => (a.data as number) - (b.data as number));",
+      "  const sets = new UnionFind(Object.keys(graph.nodes));",
+      "  const tree: Edge[] = [];",
+      "  for (const edge of edges) {",
+      "    const u = edge.from_node.id, v = edge.to_node.id;",
+      "    if (sets.find(u) === sets.find(v)) continue;",
+      "    tree.push(edge);",
+      "    sets.union(u, v);",
+      "    if (tree.length === Object.keys(graph.nodes).length - 1) break;",
+      "  }",
+      "  return tree;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 4,
+      4: 6,
+      5: 8,
+      6: 9,
+      7: 10,
+      8: 11,
+      9: 13,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def kruskal(graph):",
+      "    edges = sorted(graph.edges, key=lambda e: e.weight)",
+      "    sets = UnionFind(graph.nodes)",
+      "    tree = []",
+      "    for e in edges:",
+      "        if sets.find(e.u) == sets.find(e.v):",
+      "            continue",
+      "        tree.append(e)",
+      "        sets.union(e.u, e.v)",
+      "        if len(tree) == len(graph.nodes) - 1:",
+      "            break",
+      "    return tree",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 5,
+      5: 6,
+      6: 8,
+      7: 9,
+      8: 10,
+      9: 12,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "List<Edge> kruskal(Graph graph) {",
+      "  List<Edge> edges = new ArrayList<>(graph.edges());",
+      "  edges.sort(Comparator.comparingInt(e -> e.weight));",
+      "  UnionFind sets = new UnionFind(graph.nodes());",
+      "  List<Edge> tree = new ArrayList<>();",
+      "  for (Edge e : edges) {",
+      "    if (sets.find(e.from).equals(sets.find(e.to))) continue;",
+      "    tree.add(e);",
+      "    sets.union(e.from, e.to);",
+      "    if (tree.size() == graph.size() - 1) break;",
+      "  }",
+      "  return tree;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 3,
+      3: 4,
+      4: 6,
+      5: 7,
+      6: 8,
+      7: 9,
+      8: 10,
+      9: 12,
+    },
+  },
+];
+
+/**
+ * Kruskal's minimum spanning tree algorithm. Edges are taken lightest first
+ * (ties keep the order of get_all_edges()) and added unless a union-find
+ * lookup shows both ends are already joined, in which case the edge would
+ * close a cycle and is rejected. A disconnected graph yields a minimum
+ * spanning forest.
+ *
+ * @param graph - An undirected graph with numeric edge weights
+ * @returns The recorded steps and the tree
+ */
+export function kruskal(graph: Graph): MSTResult<KruskalStep> {
+  assertUndirected(graph);
+
+  const nodeIds = Object.keys(graph.nodes);
+  // Array sort is stable, so equal weights keep the graph's edge order
+  const sortedEdges = graph
+    .get_all_edges()
+    .map((edge) => toMSTEdge(edge))
+    .sort((a, b) => a.weight - b.weight);
+  const sets = new UnionFind(nodeIds);
+  const tree: MSTEdge[] = [];
+  const rejected: string[] = [];
+  let totalWeight = 0;
+  let edgeIndex = -1;
+
+  const steps: KruskalStep[] = [];
+  const record = (
+    kind: StepKind,
+    narration: string,
+    trace: TraceStepOptions,
+  ) => {
+    steps.push({
+      ...createTraceStep(kind, narration, trace),
+      tree: tree.slice(),
+      totalWeight,
+      currentEdge: sortedEdges[edgeIndex] ?? null,
+      sortedEdges,
+      edgeIndex,
+      rejected: rejected.slice(),
+      forest: new Map(sets.parents),
+    });
+  };
+
+  record(
+    "init",
+    `Sort the ${sortedEdges.length} edges by weight and put each node in its own set`,
+    { line: 3 },
+  );
+
+  for (edgeIndex = 0; edgeIndex < sortedEdges.length; edgeIndex++) {
+    if (nodeIds.length > 0 && tree.length === nodeIds.length - 1) break;
+
+    const edge = sortedEdges[edgeIndex];
+    const { sourceId: u, targetId: v } = edge;
+    const edgeHighlight: Highlight = {
+      type: "edge",
+      sourceId: u,
+      targetId: v,
+      role: "compare",
+    };
+    const rootU = sets.find(u);
+    const rootV = sets.find(v);
+
+    if (rootU === rootV) {
+      rejected.push(edge.id);
+      record(
+        "compare",
+        `${u} and ${v} are both in ${rootU}'s set, so ${u} - ${v} would close a cycle`,
+        {
+          highlights: [
+            edgeHighlight,
+            { type: "node", nodeId: u, role: "compare" },
+            { type: "node", nodeId: v, role: "compare" },
+          ],
+          mutations: [
+            { target: "rejected", key: edge.id, from: null, to: edge.weight },
+          ],
+          line: 5,
+        },
+      );
+      continue;
+    }
+
+    sets.union(u, v);
+    tree.push(edge);
+    totalWeight += edge.weight;
+    const root = sets.find(u);
+    record(
+      "finalize",
+      `Add ${u} - ${v} at ${edge.weight} and merge the sets of ${rootU} and ${rootV}`,
+      {
+        highlights: [
+          { ...edgeHighlight, role: "path" },
+          { type: "node", nodeId: u, role: "current" },
+          { type: "node", nodeId: v, role: "current" },
+        ],
+        mutations: [
+          { target: "tree", key: edge.id, from: null, to: edge.weight },
+          {
+            target: "forest",
+            key: root === rootU ? rootV : rootU,
+            from: root === rootU ? rootV : rootU,
+            to: root,
+          },
+        ],
+        line: tree.length === nodeIds.length - 1 ? 8 : 7,
+      },
+    );
+  }
+
+  const components = nodeIds.length - tree.length;
+  edgeIndex = -1;
+  record(
+    "done",
+    components <= 1
+      ? `The minimum spanning tree has ${tree.length} edges and weighs ${totalWeight}`
+      : `The graph is disconnected: the minimum spanning forest has ${components} trees and weighs ${totalWeight}`,
+    {
+      highlights: tree.map((edge) => ({
+        type: "edge",
+        sourceId: edge.sourceId,
+        targetId: edge.targetId,
+        role: "path",
+      })),
+      line: 9,
+    },
+  );
+
+  return { steps, tree, totalWeight, components };
+}
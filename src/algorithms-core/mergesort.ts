@@ -0,0 +1,287 @@
+import { CodeListing, createTraceStep } from "./trace";
+import {
+  annotateSortStats,
+  createInitialSortStep,
+  SortStep,
+} from "./quicksort";
+
+// Merge sort source listings. Steps record the pseudo-code line numbers.
+export const MERGESORT_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "mergeSort(A, lo, hi):",
+      "  if lo >= hi: return",
+      "  mid = floor((lo + hi) / 2)",
+      "  mergeSort(A, lo, mid)",
+      "  mergeSort(A, mid + 1, hi)",
+      "  merge(A, lo, mid, hi)",
+      "",
+      "merge(A, lo, mid, hi):",
+      "  copy A[lo..hi] into aux[lo..hi]",
+      "  i = lo, j = mid + 1",
+      "  for k = lo to hi:",
+      "    if i > mid: A[k] = aux[j]; j = j + 1",
+      "    else if j > hi: A[k] = aux[i]; i = i + 1",
+      "    else if aux[j] < aux[i]: A[k] = aux[j]; j = j + 1",
+      "    else: A[k] = aux[i]; i = i + 1",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function mergeSort(a: number[], aux: number[], lo: number, hi: number): void {",
+      "  if (lo >= hi) return;",
+      "  const mid = Math.floor((lo + hi) / 2);",
+      "  mergeSort(a, aux, lo, mid);",
+      "  mergeSort(a, aux, mid + 1, hi);",
+      "  merge(a, aux, lo, mid, hi);",
+      "}",
+      "",
+      "function merge(a: number[], aux: number[], lo: number, mid: number, hi: number): void {",
+      "  for (let k = lo; k <= hi; k++) aux[k] = a[k];",
+      "  let i = lo, j = mid + 1;",
+      "  for (let k = lo; k <= hi; k++) {",
+      "    if (i > mid) a[k] = aux[j++];",
+      "    else if (j > hi) a[k] = aux[i++];",
+      "    else if (aux[j] < aux[i]) a[k] = aux[j++];",
+      "    else a[k] = aux[i++];",
+      "  }",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      6: 6,
+      8: 9,
+      9: 10,
+      10: 11,
+      11: 12,
+      12: 13,
+      13: 14,
+      14: 15,
+      15: 16,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def merge_sort(a, aux, lo, hi):",
+      "    if lo >= hi:",
+      "        return",
+      "    mid = (lo + hi) // 2",
+      "    merge_sort(a, aux, lo, mid)",
+      "    merge_sort(a, aux, mid + 1, hi)",
+      "    merge(a, aux, lo, mid, hi)",
+      "",
+      "def merge(a, aux, lo, mid, hi):",
+      "    aux[lo:hi + 1] = a[lo:hi + 1]",
+      "    i, j = lo, mid + 1",
+      "    for k in range(lo, hi + 1):",
+      "        if i > mid:",
+      "            a[k] = aux[j]; j += 1",
+      "        elif j > hi:",
+      "            a[k] = aux[i]; i += 1",
+      "        elif aux[j] < aux[i]:",
+      "            a[k] = aux[j]; j += 1",
+      "        else:",
+      "            a[k] = aux[i]; i += 1",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 4,
+      4: 5,
+      5: 6,
+      6: 7,
+      8: 9,
+      9: 10,
+      10: 11,
+      11: 12,
+      12: 14,
+      13: 16,
+      14: 18,
+      15: 20,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "void mergeSort(int[] a, int[] aux, int lo, int hi) {",
+      "  if (lo >= hi) return;",
+      "  int mid = (lo + hi) / 2;",
+      "  mergeSort(a, aux, lo, mid);",
+      "  mergeSort(a, aux, mid + 1, hi);",
+      "  merge(a, aux, lo, mid, hi);",
+      "}",
+      "",
+      "void merge(int[] a, int[] aux, int lo, int mid, int hi) {",
+      "  System.arraycopy(a, lo, aux, lo, hi - lo + 1);",
+      "  int i = lo, j = mid + 1;",
+      "  for (int k = lo; k <= hi; k++) {",
+      "    if (i > mid) a[k] = aux[j++];",
+      "    else if (j > hi) a[k] = aux[i++];",
+      "    else if (aux[j] < aux[i]) a[k] = aux[j++];",
+      "    else a[k] = aux[i++];",
+      "  }",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      6: 6,
+      8: 9,
+      9: 10,
+      10: 11,
+      11: 12,
+      12: 13,
+      13: 14,
+      14: 15,
+      15: 16,
+    },
+  },
+];
+
+// Merge the sorted runs arr[left..mid] and arr[mid+1..right] through the
+// auxiliary buffer, recording each comparison and write.
+export function merge(
+  arr: number[],
+  aux: (number | null)[],
+  left: number,
+  mid: number,
+  right: number,
+  steps: SortStep[],
+): void {
+  // Copy the range into the auxiliary buffer, clearing what is left from
+  // the previous merge.
+  aux.fill(null);
+  for (let k = left; k <= right; k++) aux[k] = arr[k];
+  steps.push({
+    ...createTraceStep(
+      "write",
+      `Copy indices ${left} to ${right} into the auxiliary buffer`,
+      {
+        mutations: arr.slice(left, right + 1).map((value, offset) => ({
+          target: "aux",
+          key: left + offset,
+          from: null,
+          to: value,
+        })),
+        line: 9,
+      },
+    ),
+    arr: arr.slice(),
+    auxiliary: aux.slice(),
+    range: [left, right],
+  });
+
+  let i = left;
+  let j = mid + 1;
+  for (let k = left; k <= right; k++) {
+    let source: number;
+    let line: number;
+    if (i > mid) {
+      source = j++;
+      line = 12;
+    } else if (j > right) {
+      source = i++;
+      line = 13;
+    } else {
+      // Record comparing the heads of both runs.
+      steps.push({
+        ...createTraceStep(
+          "compare",
+          `Compare ${aux[i]} (left run) with ${aux[j]} (right run)`,
+          {
+            highlights: [
+              { type: "index", index: i, role: "compare", array: "aux" },
+              { type: "index", index: j, role: "compare", array: "aux" },
+            ],
+            line: 14,
+          },
+        ),
+        arr: arr.slice(),
+        auxiliary: aux.slice(),
+        range: [left, right],
+        auxComparing: [i, j],
+      });
+      if (aux[j]! < aux[i]!) {
+        source = j++;
+        line = 14;
+      } else {
+        source = i++;
+        line = 15;
+      }
+    }
+
+    const value = aux[source]!;
+    const previous = arr[k];
+    arr[k] = value;
+    // Record writing the chosen element back into the array.
+    steps.push({
+      ...createTraceStep(
+        "write",
+        `Write ${value} from aux[${source}] to index ${k}`,
+        {
+          highlights: [
+            { type: "index", index: k, role: "write" },
+            { type: "index", index: source, role: "write", array: "aux" },
+          ],
+          mutations: [{ target: "arr", key: k, from: previous, to: value }],
+          line,
+        },
+      ),
+      arr: arr.slice(),
+      auxiliary: aux.slice(),
+      range: [left, right],
+      writeIndex: k,
+      auxComparing: [source],
+    });
+  }
+}
+
+// Recursively split the array in halves and merge them back, recording steps.
+export function mergeSortHelper(
+  arr: number[],
+  aux: (number | null)[],
+  left: number,
+  right: number,
+  steps: SortStep[],
+): void {
+  if (left >= right) return;
+
+  const mid = Math.floor((left + right) / 2);
+  // Record the split of this range into two halves.
+  steps.push({
+    ...createTraceStep("split", `Split indices ${left} to ${right} at ${mid}`, {
+      line: 3,
+    }),
+    arr: arr.slice(),
+    auxiliary: aux.slice(),
+    range: [left, right],
+  });
+
+  mergeSortHelper(arr, aux, left, mid, steps);
+  mergeSortHelper(arr, aux, mid + 1, right, steps);
+  merge(arr, aux, left, mid, right, steps);
+}
+
+// Returns an array of steps detailing the changes during merge sort.
+// The first step is the unsorted input and the last step is the sorted array.
+export function getMergeSortSteps(initialArray: number[]): SortStep[] {
+  const steps: SortStep[] = [createInitialSortStep(initialArray)];
+  const arrCopy = initialArray.slice();
+  const aux: (number | null)[] = new Array(arrCopy.length).fill(null);
+  mergeSortHelper(arrCopy, aux, 0, arrCopy.length - 1, steps);
+  steps.push({
+    ...createTraceStep("done", "The array is sorted"),
+    arr: arrCopy.slice(),
+  });
+  return annotateSortStats(steps);
+}
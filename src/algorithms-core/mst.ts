@@ -0,0 +1,84 @@
+import { Edge, getEdgeWeight, Graph } from "./graphs_common";
+import { TraceStep } from "./trace";
+
+// Types and helpers shared by the minimum spanning tree algorithms (Prim
+// and Kruskal), so their results can be compared on the same graph.
+
+// A weighted edge, in the direction the algorithm reached it from.
+export interface MSTEdge {
+  id: string; // Edge id in the graph
+  sourceId: string;
+  targetId: string;
+  weight: number;
+}
+
+export interface MSTStep extends TraceStep {
+  tree: MSTEdge[]; // Edges chosen so far, in the order they were chosen
+  totalWeight: number; // Total weight of the chosen edges
+  currentEdge: MSTEdge | null; // Edge being considered
+}
+
+export interface MSTResult<T extends MSTStep = MSTStep> {
+  steps: T[];
+  tree: MSTEdge[]; // Edges of the minimum spanning tree, or forest when disconnected
+  totalWeight: number;
+  components: number; // Trees in the forest; 1 when the graph is connected
+}
+
+export function toMSTEdge(edge: Edge, sourceId = edge.from_node.id): MSTEdge {
+  return {
+    id: edge.id,
+    sourceId,
+    targetId:
+      sourceId === edge.from_node.id ? edge.to_node.id : edge.from_node.id,
+    weight: getEdgeWeight(edge),
+  };
+}
+
+/**
+ * Rejects directed graphs, which have no spanning trees in this sense.
+ */
+export function assertUndirected(graph: Graph): void {
+  if (graph.directed) {
+    throw new Error("A minimum spanning tree needs an undirected graph");
+  }
+}
+
+// Disjoint sets of node ids with union by rank and path compression.
+export class UnionFind {
+  parents: Map<string, string>; // Each node's parent; roots point to themselves
+  ranks: Map<string, number>; // Upper bound on the height of each root's tree
+
+  constructor(ids: string[]) {
+    this.parents = new Map(ids.map((id) => [id, id]));
+    this.ranks = new Map(ids.map((id) => [id, 0]));
+  }
+
+  // Find the root of a node's set, pointing every node on the way at it
+  find(id: string): string {
+    let root = id;
+    while (this.parents.get(root) !== root) root = this.parents.get(root)!;
+    for (let node = id; node !== root;) {
+      const next = this.parents.get(node)!;
+      this.parents.set(node, root);
+      node = next;
+    }
+    return root;
+  }
+
+  // Merge the sets of two nodes; false when they were already one set
+  union(a: string, b: string): boolean {
+    let rootA = this.find(a);
+    let rootB = this.find(b);
+    if (rootA === rootB) return false;
+
+    if (this.ranks.get(rootA)! < this.ranks.get(rootB)!) {
+      [rootA, rootB] = [rootB, rootA];
+    }
+    this.parents.set(rootB, rootA);
+    if (this.ranks.get(rootA) === this.ranks.get(rootB)) {
+      this.ranks.set(rootA, this.ranks.get(rootA)! + 1);
+    }
+    return true;
+  }
+}
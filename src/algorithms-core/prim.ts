@@ -0,0 +1,330 @@
+import { Graph } from "./graphs_common";
+import {
+  assertUndirected,
+  MSTEdge,
+  MSTResult,
+  MSTStep,
+  toMSTEdge,
+} from "./mst";
+import {
+  CodeListing,
+  createTraceStep,
+  Highlight,
+  StepKind,
+  TraceStepOptions,
+} from "./trace";
+
+// A node waiting in Prim's priority queue.
+export interface PrimQueueEntry {
+  nodeId: string;
+  key: number; // Weight of the lightest edge joining the node to the tree
+  via: MSTEdge | null; // That edge, null for the root of a tree
+}
+
+export interface PrimStep extends MSTStep {
+  currentNodeId: string | null; // Node just added to the tree
+  inTree: string[]; // Nodes in the tree, in the order they were added
+  queue: PrimQueueEntry[]; // Priority queue, lightest key first
+}
+
+// Prim listings. Steps record the pseudo-code line numbers.
+export const PRIM_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "prim(G, s):",
+      "  key[v] = infinity for every node v, key[s] = 0",
+      "  Q = {s}",
+      "  while Q is not empty:",
+      "    u = node in Q with the smallest key",
+      "    add u and the edge that reached it to the tree",
+      "    for each edge (u, v, w) in G with v not in the tree:",
+      "      if w < key[v]:",
+      "        key[v] = w, via[v] = (u, v), put v in Q",
+      "  return the tree",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function prim(graph: Graph, s: string) {",
+      "  const key = new Map<string, number>([[s, 0]]);",
+      "  const via = new Map<string, Edge | null>([[s, null]]);",
+      "  const queue = new Set([s]);",
+      "  const tree: Edge[] = [];",
+      "  const inTree = new Set<string>();",
+      "  while (queue.size > 0) {",
+      "    const u = findNodeWithSmallestDistance(queue, key)!;",
+      "    queue.delete(u);",
+      "    inTree.add(u);",
+      "    if (via.get(u)) tree.push(via.get(u)!);",
+      "    for (const { node: v, edge } of graph.get_neighbors(u)) {",
+      "      const w = edge.data as number;",
+      "      if (inTree.has(v.id) || w >= (key.get(v.id) ?? Infinity)) continue;",
+      "      key.set(v.id, w);",
+      "      via.set(v.id, edge);",
+      "      queue.add(v.id);",
+      "    }",
+      "  }",
+      "  return tree;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 4,
+      4: 7,
+      5: 8,
+      6: 11,
+      7: 12,
+      8: 14,
+      9: 15,
+      10: 20,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def prim(graph, s):",
+      "    key = {s: 0}",
+      "    via = {s: None}",
+      "    queue = [(0, s)]",
+      "    tree, in_tree = [], set()",
+      "    while queue:",
+      "        _, u = heapq.heappop(queue)",
+      "        if u in in_tree:",
+      "            continue",
+      "        in_tree.add(u)",
+      "        if via[u]:",
+      "            tree.append(via[u])",
+      "        for v, w in graph[u]:",
+      "            if v not in in_tree and w < key.get(v, math.inf):",
+      "                key[v], via[v] = w, (u, v, w)",
+      "                heapq.heappush(queue, (w, v))",
+      "    return tree",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 4,
+      4: 6,
+      5: 7,
+      6: 12,
+      7: 13,
+      8: 14,
+      9: 15,
+      10: 17,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "List<Edge> prim(Graph graph, String s) {",
+      "  Map<String, Integer> key = new HashMap<>(Map.of(s, 0));",
+      "  Map<String, Edge> via = new HashMap<>();",
+      "  PriorityQueue<String> queue = new PriorityQueue<>(Comparator.comparing(key::get));",
+      "  queue.add(s);",
+      "  Set<String> inTree = new HashSet<>();",
+      "  List<Edge> tree = new ArrayList<>();",
+      "  while (!queue.isEmpty()) {",
+      "    String u = queue.poll();",
+      "    if (!inTree.add(u)) continue;",
+      "    if (via.containsKey(u)) tree.add(via.get(u));",
+      "    for (Edge e : graph.neighbors(u)) {",
+      "      if (!inTree.contains(e.to)",
+      "          && e.weight < key.getOrDefault(e.to, Integer.MAX_VALUE)) {",
+      "        key.put(e.to, e.weight);",
+      "        via.put(e.to, e);",
+      "        queue.add(e.to);",
+      "      }",
+      "    }",
+      "  }",
+      "  return tree;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 5,
+      4: 8,
+      5: 9,
+      6: 11,
+      7: 12,
+      8: 13,
+      9: 15,
+      10: 21,
+    },
+  },
+];
+
+/**
+ * Prim's minimum spanning tree algorithm, grown from a start node. The
+ * priority queue holds every node touching the tree with the weight of the
+ * lightest edge joining it; the lightest is added next. When the queue runs
+ * dry before every node is in the tree, a new tree is started from the first
+ * node left out, giving a minimum spanning forest.
+ *
+ * @param graph - An undirected graph with numeric edge weights
+ * @param startNodeId - The ID of the node to grow the tree from
+ * @returns The recorded steps and the tree
+ */
+export function prim(graph: Graph, startNodeId: string): MSTResult<PrimStep> {
+  if (!graph.nodes[startNodeId]) {
+    throw new Error(`Start node ${startNodeId} not found in the graph`);
+  }
+  assertUndirected(graph);
+
+  const keys = new Map<string, PrimQueueEntry>();
+  const inTree: string[] = [];
+  const inTreeSet = new Set<string>();
+  const tree: MSTEdge[] = [];
+  let totalWeight = 0;
+  let currentNodeId: string | null = null;
+  let components = 0;
+
+  const steps: PrimStep[] = [];
+  const record = (
+    kind: StepKind,
+    narration: string,
+    trace: TraceStepOptions,
+    currentEdge: MSTEdge | null = null,
+  ) => {
+    steps.push({
+      ...createTraceStep(kind, narration, trace),
+      tree: tree.slice(),
+      totalWeight,
+      currentEdge,
+      currentNodeId,
+      inTree: inTree.slice(),
+      queue: [...keys.values()]
+        .filter((entry) => !inTreeSet.has(entry.nodeId))
+        .sort((a, b) => a.key - b.key),
+    });
+  };
+
+  const grow = (rootId: string) => {
+    components++;
+    keys.set(rootId, { nodeId: rootId, key: 0, via: null });
+    record(
+      "init",
+      components === 1
+        ? `Put ${rootId} in the queue with key 0`
+        : `${rootId} is not connected to the tree; start a new tree from it`,
+      {
+        highlights: [{ type: "node", nodeId: rootId, role: "next" }],
+        mutations: [{ target: "keys", key: rootId, from: null, to: 0 }],
+        line: 3,
+      },
+    );
+
+    while (true) {
+      // The queue is small, so a scan stands in for a heap
+      let next: PrimQueueEntry | null = null;
+      for (const entry of keys.values()) {
+        if (!inTreeSet.has(entry.nodeId) && (!next || entry.key < next.key)) {
+          next = entry;
+        }
+      }
+      if (next === null) break;
+      const { nodeId: u, via } = next;
+
+      inTree.push(u);
+      inTreeSet.add(u);
+      currentNodeId = u;
+      const highlights: Highlight[] = [
+        { type: "node", nodeId: u, role: "current" },
+      ];
+      if (via) {
+        tree.push(via);
+        totalWeight += via.weight;
+        highlights.push({
+          type: "edge",
+          sourceId: via.sourceId,
+          targetId: via.targetId,
+          role: "path",
+        });
+      }
+      record(
+        "visit",
+        via
+          ? `Add ${u} to the tree by ${via.sourceId} - ${u}, the lightest edge at ${via.weight}`
+          : `Add ${u} to the tree as its root`,
+        {
+          highlights,
+          mutations: via
+            ? [{ target: "tree", key: via.id, from: null, to: via.weight }]
+            : [],
+          line: 6,
+        },
+        via,
+      );
+
+      for (const { node, edge } of graph.get_neighbors(u)) {
+        const v = node.id;
+        if (inTreeSet.has(v)) continue;
+
+        const candidate = toMSTEdge(edge, u);
+        const current = keys.get(v);
+        const edgeHighlights: Highlight[] = [
+          { type: "node", nodeId: u, role: "current" },
+          { type: "node", nodeId: v, role: "next" },
+          { type: "edge", sourceId: u, targetId: v, role: "compare" },
+        ];
+        if (current && candidate.weight >= current.key) {
+          record(
+            "compare",
+            `${u} - ${v} weighs ${candidate.weight}, no lighter than ${v}'s key ${current.key}`,
+            { highlights: edgeHighlights, line: 8 },
+            candidate,
+          );
+          continue;
+        }
+
+        keys.set(v, { nodeId: v, key: candidate.weight, via: candidate });
+        record(
+          "relax",
+          current
+            ? `${u} - ${v} weighs ${candidate.weight}, lighter than ${v}'s key ${current.key}, so update it`
+            : `Put ${v} in the queue with key ${candidate.weight} by ${u} - ${v}`,
+          {
+            highlights: edgeHighlights,
+            mutations: [
+              {
+                target: "keys",
+                key: v,
+                from: current?.key ?? null,
+                to: candidate.weight,
+              },
+            ],
+            line: 9,
+          },
+          candidate,
+        );
+      }
+    }
+  };
+
+  grow(startNodeId);
+  Object.keys(graph.nodes).forEach((nodeId) => {
+    if (!inTreeSet.has(nodeId)) grow(nodeId);
+  });
+
+  currentNodeId = null;
+  record(
+    "done",
+    components === 1
+      ? `The minimum spanning tree has ${tree.length} edges and weighs ${totalWeight}`
+      : `The graph is disconnected: the minimum spanning forest has ${components} trees and weighs ${totalWeight}`,
+    {
+      highlights: tree.map((edge) => ({
+        type: "edge",
+        sourceId: edge.sourceId,
+        targetId: edge.targetId,
+        role: "path",
+      })),
+      line: 10,
+    },
+  );
+
+  return { steps, tree, totalWeight, components };
+}
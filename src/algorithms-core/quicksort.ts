@@ -1,9 +1,441 @@
+import {
+  CodeLanguage,
+  CodeListing,
+  createTraceStep,
+  Mutation,
+  TraceStep,
+} from "./trace";
+import { RandomSource, randomInt } from "./random";
+
 // Quicksort with step recording.
 // Data structure to hold each sorting step.
-export interface SortStep {
+export interface SortStep extends TraceStep {
   arr: number[]; // Current state of the array
   pivotIndex?: number; // The index of the pivot (if applicable)
   comparing?: number[]; // Indices that are currently being compared/highlighted
+  range?: [number, number]; // Bounds of the subarray being worked on
+  writeIndex?: number; // Index that was just written (merge-based sorts)
+  auxiliary?: (number | null)[]; // Auxiliary buffer, null where unused
+  auxComparing?: number[]; // Indices of the auxiliary buffer being highlighted
+  stats?: SortStats; // Running totals up to and including this step
+  depth?: number; // Recursion depth of the call that recorded this step
+}
+
+// Running totals of the work done by a sorting algorithm.
+export interface SortStats {
+  comparisons: number;
+  swaps: number;
+  writes: number; // Array writes; a swap counts as two
+}
+
+// Ways of choosing the pivot of each partition.
+export type PivotStrategy =
+  "first" | "last" | "middle" | "median-of-three" | "random";
+
+// Lomuto scans once with the pivot parked at the end; Hoare moves two
+// pointers towards each other and swaps fewer elements.
+export type PartitionScheme = "lomuto" | "hoare";
+
+export interface QuickSortOptions {
+  pivot?: PivotStrategy; // Random by default
+  scheme?: PartitionScheme; // Lomuto by default
+  rng?: RandomSource; // Used by the random pivot, Math.random by default
+}
+
+export const PIVOT_STRATEGIES: { id: PivotStrategy; label: string }[] = [
+  { id: "first", label: "First element" },
+  { id: "last", label: "Last element" },
+  { id: "middle", label: "Middle element" },
+  { id: "median-of-three", label: "Median of three" },
+  { id: "random", label: "Random" },
+];
+
+export const PARTITION_SCHEMES: { id: PartitionScheme; label: string }[] = [
+  { id: "lomuto", label: "Lomuto" },
+  { id: "hoare", label: "Hoare" },
+];
+
+// The pivot index expression for each strategy in each listing language.
+const PIVOT_EXPRESSIONS: Record<PivotStrategy, Record<CodeLanguage, string>> = {
+  first: { pseudocode: "lo", typescript: "lo", python: "lo", java: "lo" },
+  last: { pseudocode: "hi", typescript: "hi", python: "hi", java: "hi" },
+  middle: {
+    pseudocode: "floor((lo + hi) / 2)",
+    typescript: "Math.floor((lo + hi) / 2)",
+    python: "(lo + hi) // 2",
+    java: "(lo + hi) / 2",
+  },
+  "median-of-three": {
+    pseudocode: "medianOfThree(A, lo, hi)",
+    typescript: "medianOfThree(a, lo, hi)",
+    python: "median_of_three(a, lo, hi)",
+    java: "medianOfThree(a, lo, hi)",
+  },
+  random: {
+    pseudocode: "random(lo, hi)",
+    typescript: "lo + Math.floor(Math.random() * (hi - lo + 1))",
+    python: "random.randint(lo, hi)",
+    java: "lo + random.nextInt(hi - lo + 1)",
+  },
+};
+
+// Lomuto quicksort listings, with {pivot} standing for the pivot index.
+const LOMUTO_LISTINGS: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "quicksort(A, lo, hi):",
+      "  if lo < hi:",
+      "    p = partition(A, lo, hi)",
+      "    quicksort(A, lo, p - 1)",
+      "    quicksort(A, p + 1, hi)",
+      "",
+      "partition(A, lo, hi):",
+      "  swap A[{pivot}] and A[hi]",
+      "  pivot = A[hi]",
+      "  i = lo",
+      "  for j = lo to hi - 1:",
+      "    if A[j] < pivot:",
+      "      swap A[i] and A[j]",
+      "      i = i + 1",
+      "  swap A[i] and A[hi]",
+      "  return i",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function quicksort(a: number[], lo: number, hi: number): void {",
+      "  if (lo < hi) {",
+      "    const p = partition(a, lo, hi);",
+      "    quicksort(a, lo, p - 1);",
+      "    quicksort(a, p + 1, hi);",
+      "  }",
+      "}",
+      "",
+      "function partition(a: number[], lo: number, hi: number): number {",
+      "  const r = {pivot};",
+      "  [a[r], a[hi]] = [a[hi], a[r]];",
+      "  const pivot = a[hi];",
+      "  let i = lo;",
+      "  for (let j = lo; j < hi; j++) {",
+      "    if (a[j] < pivot) {",
+      "      [a[i], a[j]] = [a[j], a[i]];",
+      "      i++;",
+      "    }",
+      "  }",
+      "  [a[i], a[hi]] = [a[hi], a[i]];",
+      "  return i;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      7: 9,
+      8: 11,
+      9: 12,
+      10: 13,
+      11: 14,
+      12: 15,
+      13: 16,
+      14: 17,
+      15: 20,
+      16: 21,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def quicksort(a, lo, hi):",
+      "    if lo < hi:",
+      "        p = partition(a, lo, hi)",
+      "        quicksort(a, lo, p - 1)",
+      "        quicksort(a, p + 1, hi)",
+      "",
+      "def partition(a, lo, hi):",
+      "    r = {pivot}",
+      "    a[r], a[hi] = a[hi], a[r]",
+      "    pivot = a[hi]",
+      "    i = lo",
+      "    for j in range(lo, hi):",
+      "        if a[j] < pivot:",
+      "            a[i], a[j] = a[j], a[i]",
+      "            i += 1",
+      "    a[i], a[hi] = a[hi], a[i]",
+      "    return i",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      7: 7,
+      8: 9,
+      9: 10,
+      10: 11,
+      11: 12,
+      12: 13,
+      13: 14,
+      14: 15,
+      15: 16,
+      16: 17,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "void quicksort(int[] a, int lo, int hi) {",
+      "  if (lo < hi) {",
+      "    int p = partition(a, lo, hi);",
+      "    quicksort(a, lo, p - 1);",
+      "    quicksort(a, p + 1, hi);",
+      "  }",
+      "}",
+      "",
+      "int partition(int[] a, int lo, int hi) {",
+      "  swap(a, {pivot}, hi);",
+      "  int pivot = a[hi];",
+      "  int i = lo;",
+      "  for (int j = lo; j < hi; j++) {",
+      "    if (a[j] < pivot) {",
+      "      swap(a, i, j);",
+      "      i++;",
+      "    }",
+      "  }",
+      "  swap(a, i, hi);",
+      "  return i;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      7: 9,
+      8: 10,
+      9: 11,
+      10: 12,
+      11: 13,
+      12: 14,
+      13: 15,
+      14: 16,
+      15: 19,
+      16: 20,
+    },
+  },
+];
+
+// Hoare quicksort listings, with {pivot} standing for the pivot index.
+const HOARE_LISTINGS: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "quicksort(A, lo, hi):",
+      "  if lo < hi:",
+      "    p = partition(A, lo, hi)",
+      "    quicksort(A, lo, p)",
+      "    quicksort(A, p + 1, hi)",
+      "",
+      "partition(A, lo, hi):",
+      "  swap A[{pivot}] and A[lo]",
+      "  pivot = A[lo]",
+      "  i = lo - 1, j = hi + 1",
+      "  loop:",
+      "    do i = i + 1 while A[i] < pivot",
+      "    do j = j - 1 while A[j] > pivot",
+      "    if i >= j: return j",
+      "    swap A[i] and A[j]",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function quicksort(a: number[], lo: number, hi: number): void {",
+      "  if (lo < hi) {",
+      "    const p = partition(a, lo, hi);",
+      "    quicksort(a, lo, p);",
+      "    quicksort(a, p + 1, hi);",
+      "  }",
+      "}",
+      "",
+      "function partition(a: number[], lo: number, hi: number): number {",
+      "  const r = {pivot};",
+      "  [a[r], a[lo]] = [a[lo], a[r]];",
+      "  const pivot = a[lo];",
+      "  let i = lo - 1, j = hi + 1;",
+      "  while (true) {",
+      "    do i++; while (a[i] < pivot);",
+      "    do j--; while (a[j] > pivot);",
+      "    if (i >= j) return j;",
+      "    [a[i], a[j]] = [a[j], a[i]];",
+      "  }",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      7: 9,
+      8: 11,
+      9: 12,
+      10: 13,
+      11: 14,
+      12: 15,
+      13: 16,
+      14: 17,
+      15: 18,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def quicksort(a, lo, hi):",
+      "    if lo < hi:",
+      "        p = partition(a, lo, hi)",
+      "        quicksort(a, lo, p)",
+      "        quicksort(a, p + 1, hi)",
+      "",
+      "def partition(a, lo, hi):",
+      "    r = {pivot}",
+      "    a[r], a[lo] = a[lo], a[r]",
+      "    pivot = a[lo]",
+      "    i, j = lo - 1, hi + 1",
+      "    while True:",
+      "        i += 1",
+      "        while a[i] < pivot:",
+      "            i += 1",
+      "        j -= 1",
+      "        while a[j] > pivot:",
+      "            j -= 1",
+      "        if i >= j:",
+      "            return j",
+      "        a[i], a[j] = a[j], a[i]",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      7: 7,
+      8: 9,
+      9: 10,
+      10: 11,
+      11: 12,
+      12: 14,
+      13: 17,
+      14: 19,
+      15: 21,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "void quicksort(int[] a, int lo, int hi) {",
+      "  if (lo < hi) {",
+      "    int p = partition(a, lo, hi);",
+      "    quicksort(a, lo, p);",
+      "    quicksort(a, p + 1, hi);",
+      "  }",
+      "}",
+      "",
+      "int partition(int[] a, int lo, int hi) {",
+      "  swap(a, {pivot}, lo);",
+      "  int pivot = a[lo];",
+      "  int i = lo - 1, j = hi + 1;",
+      "  while (true) {",
+      "    do i++; while (a[i] < pivot);",
+      "    do j--; while (a[j] > pivot);",
+      "    if (i >= j) return j;",
+      "    swap(a, i, j);",
+      "  }",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 3,
+      4: 4,
+      5: 5,
+      7: 9,
+      8: 10,
+      9: 11,
+      10: 12,
+      11: 13,
+      12: 14,
+      13: 15,
+      14: 16,
+      15: 17,
+    },
+  },
+];
+
+/**
+ * Returns the quicksort listings for a partition scheme, with the pivot
+ * choice written out for the given strategy. Steps record the pseudo-code
+ * line numbers.
+ */
+export function getQuickSortCode(
+  options: QuickSortOptions = {},
+): CodeListing[] {
+  const { pivot = "random", scheme = "lomuto" } = options;
+  const listings = scheme === "hoare" ? HOARE_LISTINGS : LOMUTO_LISTINGS;
+  return listings.map((listing) => ({
+    ...listing,
+    lines: listing.lines.map((line) =>
+      line.replace("{pivot}", PIVOT_EXPRESSIONS[pivot][listing.language]),
+    ),
+  }));
+}
+
+// Quicksort listings for the default options: random pivot, Lomuto scheme.
+export const QUICKSORT_CODE: CodeListing[] = getQuickSortCode();
+
+/**
+ * Creates the initial step for an unsorted array, before any work is done.
+ */
+export function createInitialSortStep(arr: number[]): SortStep {
+  return {
+    ...createTraceStep("init", `Start with ${arr.length} unsorted elements`, {
+      line: 1,
+    }),
+    arr: arr.slice(),
+  };
+}
+
+/**
+ * Fills in the running comparison, swap and array write totals on each step.
+ * Comparisons are counted from "compare" steps, writes from mutations of the
+ * array and swaps from pairs of writes that exchange two values.
+ *
+ * @param steps - The recorded sorting steps, annotated in place
+ * @returns The same steps, for chaining
+ */
+export function annotateSortStats(steps: SortStep[]): SortStep[] {
+  const stats: SortStats = { comparisons: 0, swaps: 0, writes: 0 };
+  steps.forEach((step) => {
+    if (step.kind === "compare") stats.comparisons++;
+
+    const writes = step.mutations.filter((m) => m.target === "arr");
+    stats.writes += writes.length;
+    if (
+      writes.length === 2 &&
+      writes[0].from === writes[1].to &&
+      writes[1].from === writes[0].to
+    ) {
+      stats.swaps++;
+    }
+
+    step.stats = { ...stats };
+  });
+  return steps;
 }
 
 // Swap two elements in an array.
@@ -13,59 +445,294 @@ export function swap(arr: number[], i: number, j: number): void {
   arr[j] = temp;
 }
 
-// Partition the array and record steps.
+// Describe the array writes made by swapping indices i and j (before the swap).
+function swapMutations(arr: number[], i: number, j: number): Mutation[] {
+  if (i === j) return [];
+  return [
+    { target: "arr", key: i, from: arr[i], to: arr[j] },
+    { target: "arr", key: j, from: arr[j], to: arr[i] },
+  ];
+}
+
+/**
+ * Picks the index of the pivot for arr[left..right].
+ * Median-of-three returns whichever of the first, middle and last elements
+ * holds the median value.
+ */
+export function choosePivotIndex(
+  arr: number[],
+  left: number,
+  right: number,
+  strategy: PivotStrategy,
+  rng: RandomSource = Math.random,
+): number {
+  const mid = Math.floor((left + right) / 2);
+  switch (strategy) {
+    case "first":
+      return left;
+    case "last":
+      return right;
+    case "middle":
+      return mid;
+    case "median-of-three": {
+      const [a, b, c] = [arr[left], arr[mid], arr[right]];
+      if ((a <= b && b <= c) || (c <= b && b <= a)) return mid;
+      if ((b <= a && a <= c) || (c <= a && a <= b)) return left;
+      return right;
+    }
+    case "random":
+      return randomInt(rng, left, right);
+  }
+}
+
+// Partition the array with the Lomuto scheme and record steps.
 export function partition(
   arr: number[],
   left: number,
   right: number,
   steps: SortStep[],
+  pivotStrategy: PivotStrategy = "random",
+  rng: RandomSource = Math.random,
 ): number {
-  // Pick a random pivot index between left and right.
-  const randomPivotIndex =
-    Math.floor(Math.random() * (right - left + 1)) + left;
-  // Swap the random pivot with the rightmost element.
-  swap(arr, randomPivotIndex, right);
+  const chosenIndex = choosePivotIndex(arr, left, right, pivotStrategy, rng);
+  // Swap the chosen pivot with the rightmost element.
+  const pivotMutations = swapMutations(arr, chosenIndex, right);
+  swap(arr, chosenIndex, right);
 
   const pivot = arr[right];
+  if (pivotMutations.length > 0) {
+    // Record moving the pivot out of the way.
+    steps.push({
+      ...createTraceStep("swap", `Move pivot ${pivot} to index ${right}`, {
+        highlights: [
+          { type: "index", index: right, role: "pivot" },
+          { type: "index", index: chosenIndex, role: "swap" },
+        ],
+        mutations: pivotMutations,
+        line: 8,
+      }),
+      arr: arr.slice(),
+      pivotIndex: right,
+      comparing: [chosenIndex],
+      range: [left, right],
+    });
+  }
   let i = left;
 
   for (let j = left; j < right; j++) {
     // Record a step highlighting the element at index j (being compared against the pivot).
-    steps.push({ arr: arr.slice(), pivotIndex: right, comparing: [j] });
+    steps.push({
+      ...createTraceStep("compare", `Compare ${arr[j]} with pivot ${pivot}`, {
+        highlights: [
+          { type: "index", index: right, role: "pivot" },
+          { type: "index", index: j, role: "compare" },
+        ],
+        line: 12,
+      }),
+      arr: arr.slice(),
+      pivotIndex: right,
+      comparing: [j],
+      range: [left, right],
+    });
     if (arr[j] < pivot) {
+      const mutations = swapMutations(arr, i, j);
       swap(arr, i, j);
       // Record the step after the swap (highlighting both swapped indices).
-      steps.push({ arr: arr.slice(), pivotIndex: right, comparing: [i, j] });
+      steps.push({
+        ...createTraceStep(
+          "swap",
+          `${arr[i]} < ${pivot}, swap indices ${i} and ${j}`,
+          {
+            highlights: [
+              { type: "index", index: right, role: "pivot" },
+              { type: "index", index: i, role: "swap" },
+              { type: "index", index: j, role: "swap" },
+            ],
+            mutations,
+            line: 13,
+          },
+        ),
+        arr: arr.slice(),
+        pivotIndex: right,
+        comparing: [i, j],
+        range: [left, right],
+      });
       i++;
     }
   }
 
   // Swap pivot into its correct position.
+  const mutations = swapMutations(arr, i, right);
   swap(arr, i, right);
   // Record the final pivot placement.
-  steps.push({ arr: arr.slice(), pivotIndex: i, comparing: [i, right] });
+  steps.push({
+    ...createTraceStep("pivot", `Place pivot ${pivot} at index ${i}`, {
+      highlights: [
+        { type: "index", index: i, role: "pivot" },
+        { type: "index", index: right, role: "swap" },
+      ],
+      mutations,
+      line: 15,
+    }),
+    arr: arr.slice(),
+    pivotIndex: i,
+    comparing: [i, right],
+    range: [left, right],
+  });
 
   return i;
 }
 
+// Partition the array with the Hoare scheme and record steps. Returns the
+// last index of the left part; unlike Lomuto the pivot is not placed.
+export function hoarePartition(
+  arr: number[],
+  left: number,
+  right: number,
+  steps: SortStep[],
+  pivotStrategy: PivotStrategy = "random",
+  rng: RandomSource = Math.random,
+): number {
+  const chosenIndex = choosePivotIndex(arr, left, right, pivotStrategy, rng);
+  // Swap the chosen pivot with the leftmost element.
+  const pivotMutations = swapMutations(arr, chosenIndex, left);
+  swap(arr, chosenIndex, left);
+
+  const pivot = arr[left];
+  if (pivotMutations.length > 0) {
+    // Record moving the pivot out of the way.
+    steps.push({
+      ...createTraceStep("swap", `Move pivot ${pivot} to index ${left}`, {
+        highlights: [
+          { type: "index", index: left, role: "pivot" },
+          { type: "index", index: chosenIndex, role: "swap" },
+        ],
+        mutations: pivotMutations,
+        line: 8,
+      }),
+      arr: arr.slice(),
+      pivotIndex: left,
+      comparing: [chosenIndex],
+      range: [left, right],
+    });
+  }
+
+  // Record comparing the element at index k against the pivot.
+  const recordCompare = (k: number, line: number) => {
+    steps.push({
+      ...createTraceStep("compare", `Compare ${arr[k]} with pivot ${pivot}`, {
+        highlights: [{ type: "index", index: k, role: "compare" }],
+        line,
+      }),
+      arr: arr.slice(),
+      comparing: [k],
+      range: [left, right],
+    });
+  };
+
+  let i = left - 1;
+  let j = right + 1;
+  while (true) {
+    do {
+      i++;
+      recordCompare(i, 12);
+    } while (arr[i] < pivot);
+    do {
+      j--;
+      recordCompare(j, 13);
+    } while (arr[j] > pivot);
+
+    if (i >= j) {
+      // Record where the pointers crossed.
+      steps.push({
+        ...createTraceStep(
+          "split",
+          `Pointers crossed, split indices ${left} to ${right} after ${j}`,
+          { line: 14 },
+        ),
+        arr: arr.slice(),
+        comparing: [j, i],
+        range: [left, right],
+      });
+      return j;
+    }
+
+    const mutations = swapMutations(arr, i, j);
+    swap(arr, i, j);
+    // Record swapping the pair that is on the wrong side of the pivot.
+    steps.push({
+      ...createTraceStep("swap", `Swap ${arr[j]} and ${arr[i]}`, {
+        highlights: [
+          { type: "index", index: i, role: "swap" },
+          { type: "index", index: j, role: "swap" },
+        ],
+        mutations,
+        line: 15,
+      }),
+      arr: arr.slice(),
+      comparing: [i, j],
+      range: [left, right],
+    });
+  }
+}
+
 // Recursively apply quicksort while recording each step.
 export function quicksortHelper(
   arr: number[],
   left: number,
   right: number,
   steps: SortStep[],
+  options: QuickSortOptions = {},
+  depth = 1,
 ): void {
   if (left < right) {
-    const pivotIndex = partition(arr, left, right, steps);
-    quicksortHelper(arr, left, pivotIndex - 1, steps);
-    quicksortHelper(arr, pivotIndex + 1, right, steps);
+    const { pivot = "random", scheme = "lomuto", rng = Math.random } = options;
+    const start = steps.length;
+    // Record the recursive call that partitions this subarray.
+    steps.push({
+      ...createTraceStep("recurse", `Partition indices ${left} to ${right}`, {
+        line: 3,
+      }),
+      arr: arr.slice(),
+      range: [left, right],
+    });
+
+    if (scheme === "hoare") {
+      const split = hoarePartition(arr, left, right, steps, pivot, rng);
+      stampDepth(steps, start, depth);
+      quicksortHelper(arr, left, split, steps, options, depth + 1);
+      quicksortHelper(arr, split + 1, right, steps, options, depth + 1);
+    } else {
+      const pivotIndex = partition(arr, left, right, steps, pivot, rng);
+      stampDepth(steps, start, depth);
+      quicksortHelper(arr, left, pivotIndex - 1, steps, options, depth + 1);
+      quicksortHelper(arr, pivotIndex + 1, right, steps, options, depth + 1);
+    }
   }
 }
 
+// Mark the steps recorded since start with the recursion depth of the call.
+function stampDepth(steps: SortStep[], start: number, depth: number): void {
+  for (let s = start; s < steps.length; s++) steps[s].depth = depth;
+}
+
+// Returns the deepest recursion level reached by the recorded steps.
+export function getMaxDepth(steps: SortStep[]): number {
+  return steps.reduce((max, step) => Math.max(max, step.depth ?? 0), 0);
+}
+
 // Returns an array of steps detailing the changes during quicksort.
-export function getQuickSortSteps(initialArray: number[]): SortStep[] {
-  const steps: SortStep[] = [];
+// The first step is the unsorted input and the last step is the sorted array.
+export function getQuickSortSteps(
+  initialArray: number[],
+  options: QuickSortOptions = {},
+): SortStep[] {
+  const steps: SortStep[] = [createInitialSortStep(initialArray)];
   const arrCopy = initialArray.slice();
-  quicksortHelper(arrCopy, 0, arrCopy.length - 1, steps);
-  return steps;
+  quicksortHelper(arrCopy, 0, arrCopy.length - 1, steps, options);
+  steps.push({
+    ...createTraceStep("done", "The array is sorted"),
+    arr: arrCopy.slice(),
+  });
+  return annotateSortStats(steps);
 }
@@ -0,0 +1,51 @@
+// Seedable random numbers, so generated inputs and randomized algorithms
+// can be reproduced from a seed.
+
+// Returns a float in [0, 1), like Math.random.
+export type RandomSource = () => number;
+
+// Seeds are whole numbers in [0, MAX_SEED].
+export const MAX_SEED = 2 ** 32 - 1;
+
+/**
+ * Creates a random source that returns the same sequence for the same seed,
+ * using the mulberry32 generator.
+ *
+ * @param seed - Whole number seed; only the low 32 bits are used
+ * @returns A Math.random replacement
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Returns a whole number in [min, max] drawn from rng.
+export function randomInt(rng: RandomSource, min: number, max: number): number {
+  return Math.floor(rng() * (max - min + 1)) + min;
+}
+
+// Picks a fresh seed for a new run. Kept short so it is easy to read out.
+export function generateSeed(): number {
+  return randomInt(Math.random, 0, 99999);
+}
+
+/**
+ * Parses a seed typed in by the user.
+ *
+ * @param text - The raw input, e.g. "42"
+ * @returns The seed
+ * @throws Error if the input is not a whole number between 0 and MAX_SEED
+ */
+export function parseSeed(text: string): number {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed) || Number(trimmed) > MAX_SEED) {
+    throw new Error(`Seed must be a whole number from 0 to ${MAX_SEED}`);
+  }
+  return Number(trimmed);
+}
@@ -0,0 +1,66 @@
+import { Graph } from "./graphs_common";
+import { TraceStep } from "./trace";
+
+// Types and helpers shared by the strongly connected component algorithms
+// (Tarjan and Kosaraju), so their results can be compared on the same graph.
+// In an undirected graph every edge leads both ways, so the components are
+// the connected components.
+
+export interface SCCStep extends TraceStep {
+  currentNodeId: string | null; // Node being visited
+  components: string[][]; // Components found so far, in the order found
+}
+
+export interface SCCResult<T extends SCCStep = SCCStep> {
+  steps: T[];
+  components: string[][]; // Every component, in the order found
+}
+
+/**
+ * Maps each node to the index of its component.
+ */
+export function getComponentIndex(components: string[][]): Map<string, number> {
+  const index = new Map<string, number>();
+  components.forEach((members, i) =>
+    members.forEach((nodeId) => index.set(nodeId, i)),
+  );
+  return index;
+}
+
+// Id of the node standing for a component in the condensed graph
+export function componentNodeId(index: number): string {
+  return `scc-${index}`;
+}
+
+/**
+ * Builds the condensation of a graph: one node per component, labelled C1,
+ * C2, ... with the component's size as its value, and an edge between two
+ * components wherever an edge of the graph joins them, weighted by the
+ * number of such edges. The condensation of a directed graph has no cycles.
+ *
+ * @param graph - The graph the components were found in
+ * @param components - Its strongly connected components
+ * @returns A directed graph with one node per component
+ */
+export function condenseGraph(graph: Graph, components: string[][]): Graph {
+  const condensed = new Graph(true);
+  components.forEach((members, i) =>
+    condensed.add_node(componentNodeId(i), members.length, `C${i + 1}`),
+  );
+
+  const componentOf = getComponentIndex(components);
+  const counts = new Map<string, [number, number, number]>();
+  graph.get_all_edges().forEach((edge) => {
+    const from = componentOf.get(edge.from_node.id);
+    const to = componentOf.get(edge.to_node.id);
+    if (from === undefined || to === undefined || from === to) return;
+    const key = `${from}->${to}`;
+    const count = counts.get(key)?.[2] ?? 0;
+    counts.set(key, [from, to, count + 1]);
+  });
+  counts.forEach(([from, to, count]) =>
+    condensed.add_edge(componentNodeId(from), componentNodeId(to), count),
+  );
+
+  return condensed;
+}
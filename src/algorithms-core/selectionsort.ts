@@ -0,0 +1,142 @@
+import { CodeListing, createTraceStep } from "./trace";
+import {
+  annotateSortStats,
+  createInitialSortStep,
+  SortStep,
+  swap,
+} from "./quicksort";
+
+// Selection sort source listings. Steps record the pseudo-code line numbers.
+export const SELECTIONSORT_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "selectionSort(A):",
+      "  for i = 0 to n - 2:",
+      "    min = i",
+      "    for j = i + 1 to n - 1:",
+      "      if A[j] < A[min]:",
+      "        min = j",
+      "    if min != i:",
+      "      swap A[i] and A[min]",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function selectionSort(a: number[]): void {",
+      "  for (let i = 0; i < a.length - 1; i++) {",
+      "    let min = i;",
+      "    for (let j = i + 1; j < a.length; j++) {",
+      "      if (a[j] < a[min]) {",
+      "        min = j;",
+      "      }",
+      "    }",
+      "    if (min !== i) {",
+      "      [a[i], a[min]] = [a[min], a[i]];",
+      "    }",
+      "  }",
+      "}",
+    ],
+    lineMap: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 9, 8: 10 },
+  },
+  {
+    language: "python",
+    lines: [
+      "def selection_sort(a):",
+      "    for i in range(len(a) - 1):",
+      "        min_index = i",
+      "        for j in range(i + 1, len(a)):",
+      "            if a[j] < a[min_index]:",
+      "                min_index = j",
+      "        if min_index != i:",
+      "            a[i], a[min_index] = a[min_index], a[i]",
+    ],
+    lineMap: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7, 8: 8 },
+  },
+  {
+    language: "java",
+    lines: [
+      "void selectionSort(int[] a) {",
+      "  for (int i = 0; i < a.length - 1; i++) {",
+      "    int min = i;",
+      "    for (int j = i + 1; j < a.length; j++) {",
+      "      if (a[j] < a[min]) {",
+      "        min = j;",
+      "      }",
+      "    }",
+      "    if (min != i) {",
+      "      swap(a, i, min);",
+      "    }",
+      "  }",
+      "}",
+    ],
+    lineMap: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 9, 8: 10 },
+  },
+];
+
+// Returns an array of steps detailing the changes during selection sort.
+// The pivot index of each step marks the smallest element found so far.
+export function getSelectionSortSteps(initialArray: number[]): SortStep[] {
+  const steps: SortStep[] = [createInitialSortStep(initialArray)];
+  const arr = initialArray.slice();
+  const n = arr.length;
+
+  for (let i = 0; i < n - 1; i++) {
+    let min = i;
+
+    for (let j = i + 1; j < n; j++) {
+      // Record comparing the candidate with the smallest element so far.
+      const isSmaller = arr[j] < arr[min];
+      steps.push({
+        ...createTraceStep(
+          "compare",
+          isSmaller
+            ? `${arr[j]} < ${arr[min]}, index ${j} is the new minimum`
+            : `Compare ${arr[j]} with minimum ${arr[min]}`,
+          {
+            highlights: [
+              { type: "index", index: min, role: "pivot" },
+              { type: "index", index: j, role: "compare" },
+            ],
+            line: isSmaller ? 6 : 5,
+          },
+        ),
+        arr: arr.slice(),
+        pivotIndex: min,
+        comparing: [j],
+        range: [i, n - 1],
+      });
+      if (isSmaller) min = j;
+    }
+
+    if (min !== i) {
+      const mutations = [
+        { target: "arr", key: i, from: arr[i], to: arr[min] },
+        { target: "arr", key: min, from: arr[min], to: arr[i] },
+      ];
+      swap(arr, i, min);
+      // Record moving the minimum to the front of the unsorted range.
+      steps.push({
+        ...createTraceStep("swap", `Swap minimum ${arr[i]} into index ${i}`, {
+          highlights: [
+            { type: "index", index: i, role: "swap" },
+            { type: "index", index: min, role: "swap" },
+          ],
+          mutations,
+          line: 8,
+        }),
+        arr: arr.slice(),
+        pivotIndex: i,
+        comparing: [min],
+        range: [i, n - 1],
+      });
+    }
+  }
+
+  steps.push({
+    ...createTraceStep("done", "The array is sorted"),
+    arr: arr.slice(),
+  });
+  return annotateSortStats(steps);
+}
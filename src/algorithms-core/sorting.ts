@@ -0,0 +1,69 @@
+import { CodeListing } from "./trace";
+import { RandomSource } from "./random";
+import { SortStep, getQuickSortSteps, QUICKSORT_CODE } from "./quicksort";
+import { getMergeSortSteps, MERGESORT_CODE } from "./mergesort";
+import { getBubbleSortSteps, BUBBLESORT_CODE } from "./bubblesort";
+import { getInsertionSortSteps, INSERTIONSORT_CODE } from "./insertionsort";
+import { getSelectionSortSteps, SELECTIONSORT_CODE } from "./selectionsort";
+
+// A step-recording sorting algorithm that can be picked by name.
+export interface SortingAlgorithm {
+  id: string;
+  name: string;
+  getSteps: (arr: number[], rng?: RandomSource) => SortStep[]; // rng drives any random choices
+  code: CodeListing[];
+}
+
+// Every sorting algorithm with a step-recording implementation.
+export const SORTING_ALGORITHMS: SortingAlgorithm[] = [
+  {
+    id: "quicksort",
+    name: "Quick Sort",
+    getSteps: (arr, rng) => getQuickSortSteps(arr, { rng }),
+    code: QUICKSORT_CODE,
+  },
+  {
+    id: "mergesort",
+    name: "Merge Sort",
+    getSteps: getMergeSortSteps,
+    code: MERGESORT_CODE,
+  },
+  {
+    id: "bubblesort",
+    name: "Bubble Sort",
+    getSteps: getBubbleSortSteps,
+    code: BUBBLESORT_CODE,
+  },
+  {
+    id: "insertionsort",
+    name: "Insertion Sort",
+    getSteps: getInsertionSortSteps,
+    code: INSERTIONSORT_CODE,
+  },
+  {
+    id: "selectionsort",
+    name: "Selection Sort",
+    getSteps: getSelectionSortSteps,
+    code: SELECTIONSORT_CODE,
+  },
+];
+
+// Look up a sorting algorithm by its id.
+export function getSortingAlgorithm(id: string): SortingAlgorithm | undefined {
+  return SORTING_ALGORITHMS.find((algorithm) => algorithm.id === id);
+}
+
+/**
+ * Lines up the step lists of several algorithms so they can be played back
+ * together. Frame i holds step i of every list; a list that has run out keeps
+ * showing its last step.
+ *
+ * @param lanes - One step list per algorithm, each with at least one step
+ * @returns One frame per step of the longest list
+ */
+export function getRaceFrames(lanes: SortStep[][]): SortStep[][] {
+  const length = Math.max(0, ...lanes.map((steps) => steps.length));
+  return Array.from({ length }, (_, i) =>
+    lanes.map((steps) => steps[Math.min(i, steps.length - 1)]),
+  );
+}
@@ -0,0 +1,335 @@
+import { Graph } from "./graphs_common";
+import { SCCResult, SCCStep } from "./scc";
+import {
+  CodeListing,
+  createTraceStep,
+  Highlight,
+  StepKind,
+  TraceStepOptions,
+} from "./trace";
+
+export interface TarjanStep extends SCCStep {
+  index: Map<string, number>; // Order in which each visited node was reached
+  lowLink: Map<string, number>; // Lowest index reachable from each node's subtree through the stack
+  stack: string[]; // Nodes not yet assigned to a component, bottom first
+}
+
+// Tarjan listings. Steps record the pseudo-code line numbers.
+export const TARJAN_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "tarjan(G):",
+      "  next = 0; S = empty stack",
+      "  for each node v: if v has no index: strongConnect(v)",
+      "strongConnect(v):",
+      "  index[v] = low[v] = next++; push v on S",
+      "  for each edge (v, w):",
+      "    if w has no index: strongConnect(w); low[v] = min(low[v], low[w])",
+      "    else if w is on S: low[v] = min(low[v], index[w])",
+      "  if low[v] = index[v]:",
+      "    pop nodes off S down to v as a new component",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function tarjan(graph: Graph): string[][] {",
+      "  const index = new Map<string, number>(), low = new Map<string, number>();",
+      "  const stack: string[] = [], onStack = new Set<string>();",
+      "  const components: string[][] = [];",
+      "  const strongConnect = (v: string) => {",
+      "    index.set(v, index.size); low.set(v, index.get(v)!);",
+      "    stack.push(v); onStack.add(v);",
+      "    for (const { node: w } of graph.get_neighbors(v)) {",
+      "      if (!index.has(w.id)) {",
+      "        strongConnect(w.id);",
+      "        low.set(v, Math.min(low.get(v)!, low.get(w.id)!));",
+      "      } else if (onStack.has(w.id)) {",
+      "        low.set(v, Math.min(low.get(v)!, index.get(w.id)!));",
+      "      }",
+      "    }",
+      "    if (low.get(v) === index.get(v)) {",
+      "      const component: string[] = [];",
+      "      let w: string;",
+      "      do { w = stack.pop()!; onStack.delete(w); component.push(w); } while (w !== v);",
+      "      components.push(component);",
+      "    }",
+      "  };",
+      "  for (const id in graph.nodes) if (!index.has(id)) strongConnect(id);",
+      "  return components;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 23,
+      4: 5,
+      5: 6,
+      6: 8,
+      7: 11,
+      8: 13,
+      9: 16,
+      10: 19,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def tarjan(graph):",
+      "    index, low, stack, on_stack, components = {}, {}, [], set(), []",
+      "    def strong_connect(v):",
+      "        index[v] = low[v] = len(index)",
+      "        stack.append(v)",
+      "        on_stack.add(v)",
+      "        for w in graph.neighbors(v):",
+      "            if w not in index:",
+      "                strong_connect(w)",
+      "                low[v] = min(low[v], low[w])",
+      "            elif w in on_stack:",
+      "                low[v] = min(low[v], index[w])",
+      "        if low[v] == index[v]:",
+      "            component = []",
+      "            while True:",
+      "                w = stack.pop()",
+      "                on_stack.discard(w)",
+      "                component.append(w)",
+      "                if w == v:",
+      "                    break",
+      "            components.append(component)",
+      "    for v in graph.nodes:",
+      "        if v not in index:",
+      "            strong_connect(v)",
+      "    return components",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 22,
+      4: 3,
+      5: 4,
+      6: 7,
+      7: 10,
+      8: 12,
+      9: 13,
+      10: 15,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "List<List<String>> tarjan(Graph graph) {",
+      "  Map<String, Integer> index = new HashMap<>(), low = new HashMap<>();",
+      "  Deque<String> stack = new ArrayDeque<>();",
+      "  List<List<String>> components = new ArrayList<>();",
+      "  for (String v : graph.nodes())",
+      "    if (!index.containsKey(v)) strongConnect(graph, v, index, low, stack, components);",
+      "  return components;",
+      "}",
+      "void strongConnect(Graph graph, String v, Map<String, Integer> index,",
+      "    Map<String, Integer> low, Deque<String> stack, List<List<String>> components) {",
+      "  index.put(v, index.size()); low.put(v, index.get(v));",
+      "  stack.push(v);",
+      "  for (String w : graph.neighbors(v)) {",
+      "    if (!index.containsKey(w)) {",
+      "      strongConnect(graph, w, index, low, stack, components);",
+      "      low.put(v, Math.min(low.get(v), low.get(w)));",
+      "    } else if (stack.contains(w)) {",
+      "      low.put(v, Math.min(low.get(v), index.get(w)));",
+      "    }",
+      "  }",
+      "  if (low.get(v).equals(index.get(v))) {",
+      "    List<String> component = new ArrayList<>();",
+      "    String w;",
+      "    do { w = stack.pop(); component.add(w); } while (!w.equals(v));",
+      "    components.add(component);",
+      "  }",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 2,
+      3: 5,
+      4: 9,
+      5: 11,
+      6: 13,
+      7: 16,
+      8: 18,
+      9: 21,
+      10: 24,
+    },
+  },
+];
+
+/**
+ * Tarjan's strongly connected components algorithm. A single depth-first
+ * search numbers the nodes in the order it reaches them and keeps every node
+ * not yet placed in a component on a stack. A node's low-link is the lowest
+ * index it can reach through its subtree and one edge back into the stack;
+ * when it equals the node's own index, the node is the root of a component,
+ * which is everything above it on the stack.
+ *
+ * @param graph - The graph to split into components
+ * @returns The recorded steps and the components, in the order found
+ */
+export function tarjan(graph: Graph): SCCResult<TarjanStep> {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let currentNodeId: string | null = null;
+
+  const steps: TarjanStep[] = [];
+  const record = (
+    kind: StepKind,
+    narration: string,
+    trace: TraceStepOptions,
+  ) => {
+    steps.push({
+      ...createTraceStep(kind, narration, trace),
+      currentNodeId,
+      components: components.map((members) => members.slice()),
+      index: new Map(index),
+      lowLink: new Map(lowLink),
+      stack: stack.slice(),
+    });
+  };
+
+  // Lowers v's low-link to value, recording the change when there is one
+  const lower = (
+    v: string,
+    value: number,
+    reason: string,
+    highlights: Highlight[],
+    line: number,
+  ) => {
+    const from = lowLink.get(v)!;
+    if (value < from) {
+      lowLink.set(v, value);
+      record(
+        "relax",
+        `${reason}, so low[${v}] drops from ${from} to ${value}`,
+        {
+          highlights,
+          mutations: [{ target: "lowLink", key: v, from, to: value }],
+          line,
+        },
+      );
+    } else {
+      record("compare", `${reason}, which does not lower low[${v}] = ${from}`, {
+        highlights,
+        line,
+      });
+    }
+  };
+
+  const strongConnect = (v: string) => {
+    const vIndex = index.size;
+    index.set(v, vIndex);
+    lowLink.set(v, vIndex);
+    stack.push(v);
+    onStack.add(v);
+    currentNodeId = v;
+    record("visit", `Give ${v} index and low-link ${vIndex} and push it`, {
+      highlights: [{ type: "node", nodeId: v, role: "current" }],
+      mutations: [
+        { target: "index", key: v, from: null, to: vIndex },
+        { target: "lowLink", key: v, from: null, to: vIndex },
+      ],
+      line: 5,
+    });
+
+    for (const { node } of graph.get_neighbors(v)) {
+      const w = node.id;
+      const highlights: Highlight[] = [
+        { type: "node", nodeId: v, role: "current" },
+        { type: "node", nodeId: w, role: "next" },
+        { type: "edge", sourceId: v, targetId: w, role: "compare" },
+      ];
+      if (!index.has(w)) {
+        record("compare", `${w} has no index, so follow ${v} - ${w}`, {
+          highlights,
+          line: 7,
+        });
+        strongConnect(w);
+        currentNodeId = v;
+        lower(
+          v,
+          lowLink.get(w)!,
+          `Back at ${v}: low[${w}] is ${lowLink.get(w)}`,
+          highlights,
+          7,
+        );
+      } else if (onStack.has(w)) {
+        lower(
+          v,
+          index.get(w)!,
+          `${w} is on the stack with index ${index.get(w)}`,
+          highlights,
+          8,
+        );
+      } else {
+        record(
+          "compare",
+          `${w} already belongs to a finished component, so skip it`,
+          { highlights, line: 6 },
+        );
+      }
+    }
+
+    if (lowLink.get(v) !== vIndex) return;
+
+    const component: string[] = [];
+    let w: string;
+    do {
+      w = stack.pop()!;
+      onStack.delete(w);
+      component.push(w);
+    } while (w !== v);
+    components.push(component);
+    currentNodeId = v;
+    record(
+      "finalize",
+      `low[${v}] = index[${v}], so ${v} roots component C${components.length}: ${component.join(", ")}`,
+      {
+        highlights: component.map((nodeId) => ({
+          type: "node",
+          nodeId,
+          role: "path",
+        })),
+        mutations: [
+          {
+            target: "components",
+            key: components.length - 1,
+            from: null,
+            to: component.join(","),
+          },
+        ],
+        line: 10,
+      },
+    );
+  };
+
+  record("init", "Start with an empty stack and no node indexed", {
+    line: 2,
+  });
+  for (const nodeId of Object.keys(graph.nodes)) {
+    if (index.has(nodeId)) continue;
+    currentNodeId = null;
+    record("init", `${nodeId} has no index; start a search from it`, {
+      highlights: [{ type: "node", nodeId, role: "next" }],
+      line: 3,
+    });
+    strongConnect(nodeId);
+  }
+
+  currentNodeId = null;
+  record(
+    "done",
+    `Found ${components.length} strongly connected component${components.length === 1 ? "" : "s"}`,
+    {},
+  );
+
+  return { steps, components: components.map((members) => members.slice()) };
+}
@@ -0,0 +1,547 @@
+import { Graph } from "./graphs_common";
+import {
+  CodeListing,
+  createTraceStep,
+  Highlight,
+  StepKind,
+  TraceStep,
+  TraceStepOptions,
+} from "./trace";
+
+// Topological sorting of directed graphs, by Kahn's algorithm and by
+// depth-first search. Both stop with a cycle when the graph has one.
+
+export interface TopologicalSortStep extends TraceStep {
+  currentNodeId: string | null; // Node being placed or visited
+  order: string[]; // Topological order of the nodes placed so far
+  cycle: string[] | null; // A cycle in edge order, once one is found
+}
+
+export interface KahnStep extends TopologicalSortStep {
+  inDegree: Map<string, number>; // Edges into each node from nodes not yet placed
+  queue: string[]; // Nodes with no such edges, front first
+}
+
+export interface TopologicalDFSStep extends TopologicalSortStep {
+  stack: string[]; // Current path of recursive calls, bottom first
+  finished: string[]; // Nodes in the order they were finished
+}
+
+export interface TopologicalSortResult<
+  T extends TopologicalSortStep = TopologicalSortStep,
+> {
+  steps: T[];
+  order: string[] | null; // Null when the graph has a cycle
+  cycle: string[] | null; // A cycle in edge order, when the graph has one
+}
+
+// Kahn's algorithm listings. Steps record the pseudo-code line numbers.
+export const KAHN_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "kahn(G):",
+      "  in[v] = number of edges into v, for every node v",
+      "  Q = the nodes with in[v] = 0",
+      "  while Q is not empty:",
+      "    u = dequeue(Q); append u to order",
+      "    for each edge (u, v):",
+      "      in[v] = in[v] - 1",
+      "      if in[v] = 0: enqueue(Q, v)",
+      "  if order has fewer than |V| nodes:",
+      "    report the cycle among the nodes left",
+      "  return order",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function kahn(graph: Graph): string[] {",
+      "  const inDegree = new Map<string, number>();",
+      "  for (const id in graph.nodes) inDegree.set(id, 0);",
+      "  for (const edge of graph.get_all_edges())",
+      "    inDegree.set(edge.to_node.id, inDegree.get(edge.to_node.id)! + 1);",
+      "  const queue = [...inDegree.keys()].filter((id) => inDegree.get(id) === 0);",
+      "  const order: string[] = [];",
+      "  while (queue.length > 0) {",
+      "    const u = queue.shift()!;",
+      "    order.push(u);",
+      "    for (const { node: v } of graph.get_neighbors(u)) {",
+      "      inDegree.set(v.id, inDegree.get(v.id)! - 1);",
+      "      if (inDegree.get(v.id) === 0) queue.push(v.id);",
+      "    }",
+      "  }",
+      "  if (order.length < Object.keys(graph.nodes).length)",
+      '    throw new Error("The graph has a cycle");',
+      "  return order;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 4,
+      3: 6,
+      4: 8,
+      5: 9,
+      6: 11,
+      7: 12,
+      8: 13,
+      9: 16,
+      10: 17,
+      11: 18,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def kahn(graph):",
+      "    in_degree = {v: 0 for v in graph.nodes}",
+      "    for u, v in graph.edges:",
+      "        in_degree[v] += 1",
+      "    queue = deque(v for v in graph.nodes if in_degree[v] == 0)",
+      "    order = []",
+      "    while queue:",
+      "        u = queue.popleft()",
+      "        order.append(u)",
+      "        for v in graph.neighbors(u):",
+      "            in_degree[v] -= 1",
+      "            if in_degree[v] == 0:",
+      "                queue.append(v)",
+      "    if len(order) < len(graph.nodes):",
+      '        raise ValueError("the graph has a cycle")',
+      "    return order",
+    ],
+    lineMap: {
+      1: 1,
+      2: 3,
+      3: 5,
+      4: 7,
+      5: 8,
+      6: 10,
+      7: 11,
+      8: 12,
+      9: 14,
+      10: 15,
+      11: 16,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "List<String> kahn(Graph graph) {",
+      "  Map<String, Integer> inDegree = new HashMap<>();",
+      "  for (String v : graph.nodes()) inDegree.put(v, 0);",
+      "  for (Edge e : graph.edges()) inDegree.merge(e.to, 1, Integer::sum);",
+      "  Deque<String> queue = new ArrayDeque<>();",
+      "  for (String v : graph.nodes()) if (inDegree.get(v) == 0) queue.add(v);",
+      "  List<String> order = new ArrayList<>();",
+      "  while (!queue.isEmpty()) {",
+      "    String u = queue.poll();",
+      "    order.add(u);",
+      "    for (String v : graph.neighbors(u)) {",
+      "      inDegree.merge(v, -1, Integer::sum);",
+      "      if (inDegree.get(v) == 0) queue.add(v);",
+      "    }",
+      "  }",
+      "  if (order.size() < graph.size())",
+      '    throw new IllegalStateException("The graph has a cycle");',
+      "  return order;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 4,
+      3: 6,
+      4: 8,
+      5: 9,
+      6: 11,
+      7: 12,
+      8: 13,
+      9: 16,
+      10: 17,
+      11: 18,
+    },
+  },
+];
+
+// Depth-first topological sort listings. Steps record the pseudo-code line
+// numbers.
+export const TOPOLOGICAL_DFS_CODE: CodeListing[] = [
+  {
+    language: "pseudocode",
+    lines: [
+      "topologicalSort(G):",
+      "  for each node u: if u is unvisited: visit(u)",
+      "  return order",
+      "visit(u):",
+      "  push u on the stack",
+      "  for each edge (u, v):",
+      "    if v is on the stack: report the cycle v ... u, v",
+      "    if v is unvisited: visit(v)",
+      "  pop u off the stack; put u at the front of order",
+    ],
+  },
+  {
+    language: "typescript",
+    lines: [
+      "function topologicalSort(graph: Graph): string[] {",
+      '  const state = new Map<string, "active" | "finished">();',
+      "  const order: string[] = [];",
+      "  const visit = (u: string) => {",
+      '    state.set(u, "active");',
+      "    for (const { node: v } of graph.get_neighbors(u)) {",
+      '      if (state.get(v.id) === "active") throw new Error("The graph has a cycle");',
+      "      if (!state.has(v.id)) visit(v.id);",
+      "    }",
+      '    state.set(u, "finished");',
+      "    order.unshift(u);",
+      "  };",
+      "  for (const id in graph.nodes) if (!state.has(id)) visit(id);",
+      "  return order;",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 13,
+      3: 14,
+      4: 4,
+      5: 5,
+      6: 6,
+      7: 7,
+      8: 8,
+      9: 10,
+    },
+  },
+  {
+    language: "python",
+    lines: [
+      "def topological_sort(graph):",
+      "    state, order = {}, []",
+      "    def visit(u):",
+      '        state[u] = "active"',
+      "        for v in graph.neighbors(u):",
+      '            if state.get(v) == "active":',
+      '                raise ValueError("the graph has a cycle")',
+      "            if v not in state:",
+      "                visit(v)",
+      '        state[u] = "finished"',
+      "        order.append(u)",
+      "    for u in graph.nodes:",
+      "        if u not in state:",
+      "            visit(u)",
+      "    return order[::-1]",
+    ],
+    lineMap: {
+      1: 1,
+      2: 12,
+      3: 15,
+      4: 3,
+      5: 4,
+      6: 5,
+      7: 6,
+      8: 8,
+      9: 10,
+    },
+  },
+  {
+    language: "java",
+    lines: [
+      "List<String> topologicalSort(Graph graph) {",
+      "  Map<String, Boolean> finished = new HashMap<>();",
+      "  Deque<String> order = new ArrayDeque<>();",
+      "  for (String u : graph.nodes())",
+      "    if (!finished.containsKey(u)) visit(graph, u, finished, order);",
+      "  return new ArrayList<>(order);",
+      "}",
+      "void visit(Graph graph, String u, Map<String, Boolean> finished, Deque<String> order) {",
+      "  finished.put(u, false);",
+      "  for (String v : graph.neighbors(u)) {",
+      "    if (Boolean.FALSE.equals(finished.get(v)))",
+      '      throw new IllegalStateException("The graph has a cycle");',
+      "    if (!finished.containsKey(v)) visit(graph, v, finished, order);",
+      "  }",
+      "  finished.put(u, true);",
+      "  order.addFirst(u);",
+      "}",
+    ],
+    lineMap: {
+      1: 1,
+      2: 4,
+      3: 6,
+      4: 8,
+      5: 9,
+      6: 10,
+      7: 11,
+      8: 13,
+      9: 15,
+    },
+  },
+];
+
+/**
+ * Rejects undirected graphs, whose edges have no direction to order by.
+ */
+export function assertDirected(graph: Graph): void {
+  if (!graph.directed) {
+    throw new Error("A topological sort needs a directed graph");
+  }
+}
+
+// A cycle written out with its first node repeated at the end
+export function formatCycle(cycle: string[]): string {
+  return [...cycle, cycle[0]].join(" -> ");
+}
+
+// Highlights every node and edge of a cycle
+function cycleHighlights(cycle: string[]): Highlight[] {
+  return cycle.flatMap((nodeId, i): Highlight[] => [
+    { type: "node", nodeId, role: "path" },
+    {
+      type: "edge",
+      sourceId: nodeId,
+      targetId: cycle[(i + 1) % cycle.length],
+      role: "path",
+    },
+  ]);
+}
+
+// Every node left over by Kahn's algorithm still has an edge in from another
+// left-over node, so walking backwards along those edges must come round to
+// a node seen before. The nodes from there on form a cycle.
+function findCycleAmong(graph: Graph, remaining: Set<string>): string[] {
+  const walk: string[] = [];
+  const positions = new Map<string, number>();
+  let nodeId = [...remaining][0];
+  while (!positions.has(nodeId)) {
+    positions.set(nodeId, walk.length);
+    walk.push(nodeId);
+    let edge = graph.nodes[nodeId].incoming_edges;
+    while (edge !== null && !remaining.has(edge.from_node.id)) {
+      edge = edge.next_to;
+    }
+    nodeId = edge!.from_node.id;
+  }
+  // The walk went against the edges, so turn the cycle around
+  return walk.slice(positions.get(nodeId)).reverse();
+}
+
+/**
+ * Kahn's algorithm. Every node's in-degree is counted, the nodes with none
+ * are queued, and each node taken from the queue is placed next in the
+ * order and removes its outgoing edges, queueing the nodes left with no
+ * incoming edges. Nodes that are never queued wait on each other around a
+ * cycle, which is reported instead of an order.
+ *
+ * @param graph - A directed graph
+ * @returns The recorded steps, and the order or a cycle
+ */
+export function kahnTopologicalSort(
+  graph: Graph,
+): TopologicalSortResult<KahnStep> {
+  assertDirected(graph);
+
+  const nodeIds = Object.keys(graph.nodes);
+  const inDegree = new Map(nodeIds.map((id) => [id, 0]));
+  graph.get_all_edges().forEach((edge) => {
+    inDegree.set(edge.to_node.id, inDegree.get(edge.to_node.id)! + 1);
+  });
+  const queue: string[] = [];
+  const order: string[] = [];
+  let currentNodeId: string | null = null;
+  let cycle: string[] | null = null;
+
+  const steps: KahnStep[] = [];
+  const record = (
+    kind: StepKind,
+    narration: string,
+    trace: TraceStepOptions,
+  ) => {
+    steps.push({
+      ...createTraceStep(kind, narration, trace),
+      currentNodeId,
+      order: order.slice(),
+      cycle,
+      inDegree: new Map(inDegree),
+      queue: queue.slice(),
+    });
+  };
+
+  record("init", "Count the edges into every node", { line: 2 });
+
+  nodeIds.forEach((id) => {
+    if (inDegree.get(id) === 0) queue.push(id);
+  });
+  record(
+    "init",
+    queue.length > 0
+      ? `Queue the nodes with no incoming edges: ${queue.join(", ")}`
+      : "Every node has an incoming edge, so none can go first",
+    {
+      highlights: queue.map((nodeId) => ({
+        type: "node",
+        nodeId,
+        role: "next",
+      })),
+      line: 3,
+    },
+  );
+
+  while (queue.length > 0) {
+    const u = queue.shift()!;
+    order.push(u);
+    currentNodeId = u;
+    record("visit", `Dequeue ${u} and place it at position ${order.length}`, {
+      highlights: [{ type: "node", nodeId: u, role: "current" }],
+      mutations: [{ target: "order", key: u, from: null, to: order.length }],
+      line: 5,
+    });
+
+    for (const { node } of graph.get_neighbors(u)) {
+      const v = node.id;
+      const from = inDegree.get(v)!;
+      inDegree.set(v, from - 1);
+      if (from === 1) queue.push(v);
+      record(
+        "relax",
+        from === 1
+          ? `Remove ${u} -> ${v}: ${v} has no incoming edges left, so enqueue it`
+          : `Remove ${u} -> ${v}: ${v} still has ${from - 1} incoming`,
+        {
+          highlights: [
+            { type: "node", nodeId: u, role: "current" },
+            { type: "node", nodeId: v, role: "next" },
+            { type: "edge", sourceId: u, targetId: v, role: "compare" },
+          ],
+          mutations: [{ target: "inDegree", key: v, from, to: from - 1 }],
+          line: from === 1 ? 8 : 7,
+        },
+      );
+    }
+  }
+  currentNodeId = null;
+
+  if (order.length < nodeIds.length) {
+    const placed = new Set(order);
+    cycle = findCycleAmong(
+      graph,
+      new Set(nodeIds.filter((id) => !placed.has(id))),
+    );
+    record(
+      "done",
+      `Only ${order.length} of ${nodeIds.length} nodes could be placed; the rest wait on each other around the cycle ${formatCycle(cycle)}`,
+      { highlights: cycleHighlights(cycle), line: 10 },
+    );
+    return { steps, order: null, cycle };
+  }
+
+  record("done", `Topological order: ${order.join(", ")}`, { line: 11 });
+  return { steps, order: order.slice(), cycle: null };
+}
+
+/**
+ * Topological sort by depth-first search. Nodes are searched in the order
+ * of the graph, and a node is put at the front of the order when it
+ * finishes, after everything it leads to. An edge back to a node still on
+ * the stack closes a cycle, which ends the sort.
+ *
+ * @param graph - A directed graph
+ * @returns The recorded steps, and the order or a cycle
+ */
+export function dfsTopologicalSort(
+  graph: Graph,
+): TopologicalSortResult<TopologicalDFSStep> {
+  assertDirected(graph);
+
+  const nodeIds = Object.keys(graph.nodes);
+  const visited = new Set<string>();
+  const stack: string[] = [];
+  const finished: string[] = [];
+  let currentNodeId: string | null = null;
+  let cycle: string[] | null = null;
+
+  const steps: TopologicalDFSStep[] = [];
+  const record = (
+    kind: StepKind,
+    narration: string,
+    trace: TraceStepOptions,
+  ) => {
+    steps.push({
+      ...createTraceStep(kind, narration, trace),
+      currentNodeId,
+      order: finished.slice().reverse(),
+      cycle,
+      stack: stack.slice(),
+      finished: finished.slice(),
+    });
+  };
+
+  // Returns true when a cycle was found below u
+  const visit = (u: string): boolean => {
+    visited.add(u);
+    stack.push(u);
+    currentNodeId = u;
+    record("visit", `Visit ${u} and push it on the stack`, {
+      highlights: [{ type: "node", nodeId: u, role: "current" }],
+      line: 5,
+    });
+
+    for (const { node } of graph.get_neighbors(u)) {
+      const v = node.id;
+      const highlights: Highlight[] = [
+        { type: "node", nodeId: u, role: "current" },
+        { type: "node", nodeId: v, role: "next" },
+        { type: "edge", sourceId: u, targetId: v, role: "compare" },
+      ];
+      if (stack.includes(v)) {
+        cycle = stack.slice(stack.indexOf(v));
+        record(
+          "done",
+          `${v} is still on the stack, so ${u} -> ${v} closes the cycle ${formatCycle(cycle)} and no topological order exists`,
+          { highlights: cycleHighlights(cycle), line: 7 },
+        );
+        return true;
+      }
+      if (visited.has(v)) {
+        record("compare", `${v} is finished, so it already comes after ${u}`, {
+          highlights,
+          line: 6,
+        });
+        continue;
+      }
+      record("compare", `${v} is unvisited, so follow ${u} -> ${v}`, {
+        highlights,
+        line: 8,
+      });
+      if (visit(v)) return true;
+      currentNodeId = u;
+    }
+
+    stack.pop();
+    finished.push(u);
+    currentNodeId = null;
+    record(
+      "finalize",
+      `${u} is finished, so put it at the front of the order`,
+      {
+        highlights: [{ type: "node", nodeId: u, role: "visited" }],
+        mutations: [
+          { target: "finished", key: u, from: null, to: finished.length },
+        ],
+        line: 9,
+      },
+    );
+    return false;
+  };
+
+  for (const nodeId of nodeIds) {
+    if (visited.has(nodeId)) continue;
+    record("init", `${nodeId} is unvisited; start a search from it`, {
+      highlights: [{ type: "node", nodeId, role: "next" }],
+      line: 2,
+    });
+    if (visit(nodeId)) return { steps, order: null, cycle };
+  }
+
+  const order = finished.slice().reverse();
+  record("done", `Topological order: ${order.join(", ")}`, { line: 3 });
+  return { steps, order, cycle: null };
+}
@@ -0,0 +1,165 @@
+// Common step-trace model shared by every algorithm in algorithms-core.
+// Each algorithm records an ordered list of steps. A step carries the
+// algorithm-specific state needed by its visualizer, plus the common fields
+// below so that a single player can drive any visualizer.
+
+// The kind of event a step represents.
+export type StepKind =
+  | "init" // Initial state before the algorithm starts
+  | "compare" // Two entities are being compared
+  | "swap" // Two array elements were swapped
+  | "pivot" // A pivot was placed in its final position
+  | "recurse" // A recursive call starts on a sub-problem
+  | "split" // A range is divided into smaller ranges
+  | "write" // Values were written into an array or buffer
+  | "visit" // A node or cell is being processed
+  | "relax" // Distances were relaxed along edges
+  | "finalize" // A node or cell's value is final
+  | "done"; // The algorithm has finished
+
+// The role an entity plays in the current step, used for coloring.
+export type HighlightRole =
+  | "pivot"
+  | "compare"
+  | "swap"
+  | "write"
+  | "current"
+  | "next"
+  | "visited"
+  | "path";
+
+// An entity highlighted during a step.
+export type Highlight =
+  // array names the array when it is not the main one, e.g. "aux"
+  | { type: "index"; index: number; role: HighlightRole; array?: string }
+  | { type: "cell"; row: number; col: number; role: HighlightRole }
+  | { type: "node"; nodeId: string; role: HighlightRole }
+  | { type: "edge"; sourceId: string; targetId: string; role: HighlightRole };
+
+export type MutationValue = number | string | null;
+
+// A single change made to the algorithm's data during a step.
+export interface Mutation {
+  target: string; // Name of the structure changed, e.g. "arr" or "distances"
+  key: number | string; // Index or id within that structure
+  from: MutationValue; // Value before the change
+  to: MutationValue; // Value after the change
+}
+
+// Fields present on every recorded step.
+export interface TraceStep {
+  kind: StepKind;
+  highlights: Highlight[];
+  mutations: Mutation[];
+  line?: number; // Pseudo-code line (1-based) that produced this step
+  narration: string; // Human readable description of the step
+}
+
+// A recorded run of an algorithm.
+export type Trace<T extends TraceStep = TraceStep> = T[];
+
+export interface TraceStepOptions {
+  highlights?: Highlight[];
+  mutations?: Mutation[];
+  line?: number;
+}
+
+/**
+ * Creates the common fields of a trace step.
+ *
+ * @param kind - The kind of event being recorded
+ * @param narration - Human readable description of the step
+ * @param options - Optional highlights, mutations and pseudo-code line
+ * @returns A TraceStep that algorithm-specific steps can spread into
+ */
+export function createTraceStep(
+  kind: StepKind,
+  narration: string,
+  options: TraceStepOptions = {},
+): TraceStep {
+  const step: TraceStep = {
+    kind,
+    highlights: options.highlights ?? [],
+    mutations: options.mutations ?? [],
+    narration,
+  };
+  if (options.line !== undefined) step.line = options.line;
+  return step;
+}
+
+// Describes which steps of a trace deserve a marker on a timeline.
+export interface MarkerRule<T extends TraceStep = TraceStep> {
+  label: string; // Legend label, e.g. "Pivot placed"
+  color: string;
+  match: (step: T) => boolean;
+}
+
+// A notable step found by a MarkerRule.
+export interface StepMarker {
+  index: number; // Index of the step in the trace
+  rule: number; // Index of the rule that matched
+  label: string;
+  color: string;
+}
+
+/**
+ * Finds the notable steps of a trace. A step matching several rules gets one
+ * marker per rule.
+ *
+ * @param steps - The recorded trace
+ * @param rules - The events to look for
+ * @returns Markers ordered by rule, then by step index
+ */
+export function getStepMarkers<T extends TraceStep>(
+  steps: T[],
+  rules: MarkerRule<T>[],
+): StepMarker[] {
+  const markers: StepMarker[] = [];
+  rules.forEach((rule, ruleIndex) => {
+    steps.forEach((step, index) => {
+      if (rule.match(step)) {
+        markers.push({
+          index,
+          rule: ruleIndex,
+          label: rule.label,
+          color: rule.color,
+        });
+      }
+    });
+  });
+  return markers;
+}
+
+/**
+ * Checks whether a step changed the given structure, e.g. "distances".
+ */
+export function hasMutation(step: TraceStep, target: string): boolean {
+  return step.mutations.some((mutation) => mutation.target === target);
+}
+
+export type CodeLanguage = "pseudocode" | "typescript" | "python" | "java";
+
+// Source listing of an algorithm in one language.
+export interface CodeListing {
+  language: CodeLanguage;
+  lines: string[];
+  // Maps pseudo-code lines (1-based) to lines of this listing. Omitted for the
+  // pseudo-code listing itself.
+  lineMap?: Record<number, number>;
+}
+
+/**
+ * Finds the line of a listing matching a step's pseudo-code line.
+ *
+ * @param listing - The listing being displayed
+ * @param line - Pseudo-code line recorded on the step
+ * @returns The 1-based line in the listing, or undefined if there is none
+ */
+export function getListingLine(
+  listing: CodeListing,
+  line: number | undefined,
+): number | undefined {
+  if (line === undefined) return undefined;
+  if (!listing.lineMap) return line;
+  return listing.lineMap[line];
+}
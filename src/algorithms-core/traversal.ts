@@ -0,0 +1,95 @@
+import { TraceStep } from "./trace";
+
+// State shared by the graph traversals (breadth-first and depth-first
+// search): the frontier, the discovery and finish orders, the search tree
+// and the classification of every edge examined so far.
+
+// How an edge relates to the search tree.
+export type EdgeClass =
+  | "tree" // Led to an undiscovered node
+  | "back" // Leads to an ancestor in the search tree
+  | "forward" // Leads to a finished descendant (directed depth-first only)
+  | "cross"; // Any other edge
+
+export const EDGE_CLASSES: { id: EdgeClass; label: string }[] = [
+  { id: "tree", label: "Tree" },
+  { id: "back", label: "Back" },
+  { id: "forward", label: "Forward" },
+  { id: "cross", label: "Cross" },
+];
+
+export interface TraversalStep extends TraceStep {
+  currentNodeId: string | null; // Node being expanded
+  frontier: string[]; // Queue from front to back, or stack from bottom to top
+  discovered: string[]; // Nodes in the order they were discovered
+  finished: string[]; // Nodes in the order they were finished
+  parents: Map<string, string | null>; // Search tree, null for roots
+  edgeClasses: Map<string, EdgeClass>; // Classified edges by edge id
+}
+
+export interface TraversalOptions {
+  // Once the start node's search ends, start again from the first node not
+  // yet discovered until every node has been reached
+  visitAll?: boolean;
+}
+
+// The live state of a traversal, copied into every recorded step.
+export interface TraversalState {
+  currentNodeId: string | null;
+  frontier: string[];
+  discovered: string[];
+  finished: string[];
+  parents: Map<string, string | null>;
+  edgeClasses: Map<string, EdgeClass>;
+}
+
+export function createTraversalState(): TraversalState {
+  return {
+    currentNodeId: null,
+    frontier: [],
+    discovered: [],
+    finished: [],
+    parents: new Map(),
+    edgeClasses: new Map(),
+  };
+}
+
+/**
+ * Records a traversal step with a copy of the state, so later changes do
+ * not leak into it.
+ *
+ * @param state - The traversal state to copy
+ * @param trace - Common trace fields for the step
+ */
+export function createTraversalStep(
+  state: TraversalState,
+  trace: TraceStep,
+): TraversalStep {
+  return {
+    ...trace,
+    currentNodeId: state.currentNodeId,
+    frontier: state.frontier.slice(),
+    discovered: state.discovered.slice(),
+    finished: state.finished.slice(),
+    parents: new Map(state.parents),
+    edgeClasses: new Map(state.edgeClasses),
+  };
+}
+
+/**
+ * Checks whether a node is an ancestor of another in the search tree.
+ */
+export function isAncestor(
+  parents: Map<string, string | null>,
+  ancestorId: string,
+  nodeId: string,
+): boolean {
+  for (
+    let current: string | null = nodeId;
+    current != null;
+    current = parents.get(current) ?? null
+  ) {
+    if (current === ancestorId) return true;
+  }
+  return false;
+}
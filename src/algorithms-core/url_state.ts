@@ -0,0 +1,255 @@
+import { Graph } from "./graphs_common";
+
+// Encoding of visualization state into URL query parameters, so a link can
+// restore a specific run. Large values are LZW-compressed and written as
+// base64url, marked with a leading COMPRESSED_PREFIX.
+
+export const COMPRESSED_PREFIX = "~";
+// Values up to this many characters are always left readable
+export const COMPRESS_THRESHOLD = 120;
+
+/**
+ * Compresses text with LZW and encodes the codes as base64url.
+ * The text is percent-encoded first so every character fits in one byte.
+ */
+export function compressToBase64Url(text: string): string {
+  const input = encodeURIComponent(text);
+  const dictionary = new Map<string, number>();
+  for (let i = 0; i < 256; i++) dictionary.set(String.fromCharCode(i), i);
+
+  const codes: number[] = [];
+  let phrase = "";
+  for (const char of input) {
+    const extended = phrase + char;
+    if (dictionary.has(extended)) {
+      phrase = extended;
+    } else {
+      codes.push(dictionary.get(phrase)!);
+      dictionary.set(extended, dictionary.size);
+      phrase = char;
+    }
+  }
+  if (phrase !== "") codes.push(dictionary.get(phrase)!);
+
+  // Write each code as a varint: 7 bits per byte, high bit set on all but the last
+  let bytes = "";
+  codes.forEach((code) => {
+    while (code >= 0x80) {
+      bytes += String.fromCharCode((code & 0x7f) | 0x80);
+      code >>>= 7;
+    }
+    bytes += String.fromCharCode(code);
+  });
+
+  return btoa(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Reverses compressToBase64Url.
+ *
+ * @throws Error if the value was not produced by compressToBase64Url
+ */
+export function decompressFromBase64Url(value: string): string {
+  const malformed = new Error("Malformed compressed value");
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) throw malformed;
+
+  let bytes: string;
+  try {
+    bytes = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  } catch {
+    throw malformed;
+  }
+
+  const codes: number[] = [];
+  let code = 0;
+  let shift = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes.charCodeAt(i);
+    code |= (byte & 0x7f) << shift;
+    if (byte & 0x80) {
+      shift += 7;
+    } else {
+      codes.push(code);
+      code = 0;
+      shift = 0;
+    }
+  }
+  if (shift !== 0) throw malformed;
+  if (codes.length === 0) return "";
+
+  const dictionary: string[] = [];
+  for (let i = 0; i < 256; i++) dictionary.push(String.fromCharCode(i));
+
+  if (codes[0] >= 256) throw malformed;
+  let previous = dictionary[codes[0]];
+  let output = previous;
+  for (let i = 1; i < codes.length; i++) {
+    let entry: string;
+    if (codes[i] < dictionary.length) {
+      entry = dictionary[codes[i]];
+    } else if (codes[i] === dictionary.length) {
+      // The code being defined by this very step
+      entry = previous + previous[0];
+    } else {
+      throw malformed;
+    }
+    output += entry;
+    dictionary.push(previous + entry[0]);
+    previous = entry;
+  }
+
+  try {
+    return decodeURIComponent(output);
+  } catch {
+    throw malformed;
+  }
+}
+
+// Encode a value for a query parameter, compressing it when that helps.
+export function encodeUrlValue(text: string): string {
+  if (text.length <= COMPRESS_THRESHOLD) return text;
+  const compressed = COMPRESSED_PREFIX + compressToBase64Url(text);
+  return compressed.length < text.length ? compressed : text;
+}
+
+// Decode a value written by encodeUrlValue, or null if it is malformed.
+export function decodeUrlValue(value: string): string | null {
+  if (!value.startsWith(COMPRESSED_PREFIX)) return value;
+  try {
+    return decompressFromBase64Url(value.slice(COMPRESSED_PREFIX.length));
+  } catch {
+    return null;
+  }
+}
+
+// Encode an array of numbers as a comma separated list.
+export function encodeNumberList(arr: number[]): string {
+  return encodeUrlValue(arr.join(","));
+}
+
+// Decode a list of non-negative whole numbers, or null if it is malformed.
+export function decodeNumberList(value: string | null): number[] | null {
+  if (value === null) return null;
+  const text = decodeUrlValue(value);
+  if (text === null || !/^\d+(,\d+)*$/.test(text)) return null;
+  return text.split(",").map(Number);
+}
+
+/**
+ * Parses a whole number parameter.
+ *
+ * @returns The number, or null if it is missing, malformed or out of range
+ */
+export function decodeInteger(
+  value: string | null,
+  min: number,
+  max: number,
+): number | null {
+  if (value === null || !/^-?\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return parsed >= min && parsed <= max ? parsed : null;
+}
+
+// Returns value if it is one of the allowed options, otherwise null.
+export function decodeOption<T extends string>(
+  value: string | null,
+  options: readonly { id: T }[],
+): T | null {
+  const match = options.find((option) => option.id === value);
+  return match ? match.id : null;
+}
+
+// Compact form of a graph: [id, value, label?] per node and
+// [from, to, weight] per edge, flagged when the edges are directed, with
+// the [x, y] of the nodes that have a position.
+interface SerializedGraph {
+  directed?: true;
+  nodes: ([string, number] | [string, number, string])[];
+  edges: [string, string, number][];
+  positions?: Record<string, [number, number]>;
+}
+
+// Encode the nodes and weighted edges of a graph.
+export function encodeGraph(graph: Graph): string {
+  const positioned = Object.values(graph.nodes).filter((node) => node.position);
+  const serialized: SerializedGraph = {
+    ...(graph.directed && { directed: true }),
+    nodes: Object.values(graph.nodes).map((node) =>
+      node.label !== undefined
+        ? [node.id, node.value, node.label]
+        : [node.id, node.value],
+    ),
+    edges: graph
+      .get_all_edges()
+      .map((edge) => [
+        edge.from_node.id,
+        edge.to_node.id,
+        typeof edge.data === "number" ? edge.data : 1,
+      ]),
+    ...(positioned.length > 0 && {
+      positions: Object.fromEntries(
+        positioned.map((node) => [
+          node.id,
+          [node.position!.x, node.position!.y],
+        ]),
+      ),
+    }),
+  };
+  return encodeUrlValue(JSON.stringify(serialized));
+}
+
+// Rebuild a graph written by encodeGraph, or null if it is malformed.
+export function decodeGraph(value: string | null): Graph | null {
+  if (value === null) return null;
+  const text = decodeUrlValue(value);
+  if (text === null) return null;
+
+  let serialized: SerializedGraph;
+  try {
+    serialized = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(serialized?.nodes) || !Array.isArray(serialized?.edges)) {
+    return null;
+  }
+
+  const graph = new Graph(serialized.directed === true);
+  // Only the graph's own nodes count, never members of Object.prototype
+  const hasNode = (id: unknown): id is string =>
+    typeof id === "string" && Object.hasOwn(graph.nodes, id);
+  for (const node of serialized.nodes) {
+    if (
+      !Array.isArray(node) ||
+      typeof node[0] !== "string" ||
+      typeof node[1] !== "number" ||
+      (node[2] !== undefined && typeof node[2] !== "string")
+    ) {
+      return null;
+    }
+    graph.add_node(node[0], node[1], node[2]);
+  }
+  for (const edge of serialized.edges) {
+    if (
+      !Array.isArray(edge) ||
+      !hasNode(edge[0]) ||
+      !hasNode(edge[1]) ||
+      typeof edge[2] !== "number"
+    ) {
+      return null;
+    }
+    graph.add_edge(edge[0], edge[1], edge[2]);
+  }
+  for (const [id, position] of Object.entries(serialized.positions ?? {})) {
+    if (
+      !hasNode(id) ||
+      !Array.isArray(position) ||
+      position.length !== 2 ||
+      !position.every((coordinate) => Number.isFinite(coordinate))
+    ) {
+      return null;
+    }
+    graph.nodes[id].position = { x: position[0], y: position[1] };
+  }
+  return graph;
+}
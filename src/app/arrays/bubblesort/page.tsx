@@ -0,0 +1,60 @@
+"use client"; // needed for d3
+import React, { useMemo, FC } from "react";
+
+// webpage visuals
+import SortVisualizerLayout from "@/components/sort-visualizer-layout";
+import ArrayInputControls from "@/components/array-input-controls";
+import { usePlayback } from "@/components/use-playback";
+import { useSortInput } from "@/components/use-sort-input";
+import { useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import { SortStep } from "@/algorithms-core/quicksort";
+import {
+  getBubbleSortSteps,
+  BUBBLESORT_CODE,
+} from "@/algorithms-core/bubblesort";
+import { MarkerRule } from "@/algorithms-core/trace";
+
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<SortStep>[] = [
+  {
+    label: "Swap",
+    color: "hsl(0, 100%, 60%)",
+    match: (step) => step.kind === "swap",
+  },
+  {
+    label: "Early exit",
+    color: "hsl(120, 80%, 40%)",
+    match: (step) => step.kind === "finalize",
+  },
+];
+
+const BubbleSortPage: FC = () => {
+  // The seed, array and step are restored from and kept in the link.
+  const { seed, setSeed, input, setInput, initialStep, urlParams } =
+    useSortInput();
+  // Record every step up front; the first step is the unsorted array.
+  const steps = useMemo(() => getBubbleSortSteps(input), [input]);
+  const playback = usePlayback(steps, { initialIndex: initialStep });
+  useUrlSync({ ...urlParams, step: String(playback.index) });
+
+  return (
+    <SortVisualizerLayout
+      title="Bubble Sort Visualizer"
+      steps={steps}
+      playback={playback}
+      code={BUBBLESORT_CODE}
+      markerRules={MARKER_RULES}
+      controls={
+        <ArrayInputControls
+          onSubmit={setInput}
+          seed={seed}
+          onSeedChange={setSeed}
+        />
+      }
+    />
+  );
+};
+
+export default BubbleSortPage;
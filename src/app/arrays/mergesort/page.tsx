@@ -0,0 +1,57 @@
+"use client"; // needed for d3
+import React, { useMemo, FC } from "react";
+
+// webpage visuals
+import SortVisualizerLayout from "@/components/sort-visualizer-layout";
+import ArrayInputControls from "@/components/array-input-controls";
+import { usePlayback } from "@/components/use-playback";
+import { useSortInput } from "@/components/use-sort-input";
+import { useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import { SortStep } from "@/algorithms-core/quicksort";
+import { getMergeSortSteps, MERGESORT_CODE } from "@/algorithms-core/mergesort";
+import { MarkerRule } from "@/algorithms-core/trace";
+
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<SortStep>[] = [
+  {
+    label: "Split",
+    color: "hsl(270, 100%, 65%)",
+    match: (step) => step.kind === "split",
+  },
+  {
+    label: "Merge started",
+    color: "hsl(200, 100%, 50%)",
+    match: (step) => step.kind === "write" && step.writeIndex === undefined,
+  },
+];
+
+const MergeSortPage: FC = () => {
+  // The seed, array and step are restored from and kept in the link.
+  const { seed, setSeed, input, setInput, initialStep, urlParams } =
+    useSortInput();
+  // Record every step up front; the first step is the unsorted array.
+  const steps = useMemo(() => getMergeSortSteps(input), [input]);
+  const playback = usePlayback(steps, { initialIndex: initialStep });
+  useUrlSync({ ...urlParams, step: String(playback.index) });
+
+  return (
+    <SortVisualizerLayout
+      title="Merge Sort Visualizer"
+      steps={steps}
+      playback={playback}
+      code={MERGESORT_CODE}
+      markerRules={MARKER_RULES}
+      controls={
+        <ArrayInputControls
+          onSubmit={setInput}
+          seed={seed}
+          onSeedChange={setSeed}
+        />
+      }
+    />
+  );
+};
+
+export default MergeSortPage;
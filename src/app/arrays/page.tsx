@@ -23,14 +23,14 @@ const cardInfo: {
     card_name: "Merge Sort",
     card_text:
       "Merge Sort is a sorting algorithm that uses a divide and conquer strategy to sort a list by repeatedly dividing it into smaller sublists",
-    status: "wip",
+    status: "working",
   },
   {
     href: "/arrays/bubblesort",
     card_name: "Bubble Sort",
     card_text:
       "Bubble Sort is a sorting algorithm that repeatedly steps through the list, compares adjacent elements and swaps them if they are in the wrong order.",
-    status: "wip",
+    status: "working",
   },
   {
     href: "/arrays/binarysearch",
@@ -44,14 +44,21 @@ const cardInfo: {
     card_name: "Insertion Sort",
     card_text:
       "Insertion Sort is a sorting algorithm that builds the final sorted array one item at a time, by taking elements and placing them in their correct position.",
-    status: "wip",
+    status: "working",
   },
   {
     href: "/arrays/selectionsort",
     card_name: "Selection Sort",
     card_text:
       "Selection Sort is a sorting algorithm that repeatedly selects the smallest element from the unsorted portion and puts it at the beginning.",
-    status: "wip",
+    status: "working",
+  },
+  {
+    href: "/arrays/race",
+    card_name: "Sorting Race",
+    card_text:
+      "Sorting Race runs several sorting algorithms side by side on the same array, so their comparison and swap totals can be compared as they finish.",
+    status: "working",
   },
   {
     href: "/arrays/twopointer",
@@ -1,149 +1,132 @@
 "use client"; // needed for d3
-import React, { useState, FC, useRef } from "react";
+import React, { useMemo, useState, FC } from "react";
 
 // webpage visuals
-import Header from "@/components/header";
-import Footer from "@/components/footer";
-import Sidebar from "@/components/code-side-bar";
-import ArrayBase from "@/components/array-base";
-
-const intervalMilliseconds = 500; // interval for auto-stepping
+import SortVisualizerLayout from "@/components/sort-visualizer-layout";
+import ArrayInputControls from "@/components/array-input-controls";
+import { usePlayback } from "@/components/use-playback";
+import { useSortInput } from "@/components/use-sort-input";
+import { useUrlSync } from "@/components/use-url-state";
 
 // algorithms core
+import { createSeededRandom } from "@/algorithms-core/random";
+import { decodeOption } from "@/algorithms-core/url_state";
 import {
-  generateRandomArray,
-  ArrayVisualizer,
-} from "@/algorithms-core/arrays_common";
-import { SortStep, getQuickSortSteps } from "@/algorithms-core/quicksort";
-
-const QuickSortPage: FC = () => {
-  // Initialize state with a random array wrapped in a SortStep.
-  const [currentStep, setCurrentStep] = useState<SortStep>(() => {
-    const initial = generateRandomArray(25, 1, 50); // generates 25 bars from 1 to 50
-    return { arr: initial };
-  });
-
-  // New state to hold all steps and the current step index.
-  const [steps, setSteps] = useState<SortStep[]>([]);
-  const [stepIndex, setStepIndex] = useState<number>(0);
-  const [isAutoStepping, setIsAutoStepping] = useState(false);
-  const autoStepIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  SortStep,
+  getQuickSortSteps,
+  getQuickSortCode,
+  getMaxDepth,
+  PARTITION_SCHEMES,
+  PIVOT_STRATEGIES,
+  PartitionScheme,
+  PivotStrategy,
+} from "@/algorithms-core/quicksort";
+import { MarkerRule } from "@/algorithms-core/trace";
 
-  // This function is called on each button press to perform one step.
-  const generateSteps = () => {
-    const newSteps = getQuickSortSteps(currentStep.arr);
-    setSteps(newSteps);
-    setStepIndex(1);
-    setCurrentStep(newSteps[0]);
-  };
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<SortStep>[] = [
+  {
+    label: "Pivot placed",
+    color: "hsl(0, 85%, 55%)",
+    match: (step) => step.kind === "pivot",
+  },
+  {
+    label: "Partition split",
+    color: "hsl(270, 100%, 65%)",
+    match: (step) => step.kind === "split",
+  },
+  {
+    label: "Swap",
+    color: "hsl(30, 100%, 50%)",
+    match: (step) => step.kind === "swap",
+  },
+];
 
-  const handleStep = () => {
-    if (steps.length === 0) {
-      // Generate steps if not already created.
-      generateSteps();
-    } else if (stepIndex < steps.length) {
-      setCurrentStep(steps[stepIndex]);
-      setStepIndex(stepIndex + 1);
-    }
-  };
+const fieldClass =
+  "px-2 py-1 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200";
 
-  const handleToggleAutoStep = () => {
-    // Toggle state
-    setIsAutoStepping((prevState) => {
-      const newState = !prevState;
-
-      if (newState) {
-        // Starting auto-stepping
-        if (steps.length === 0) {
-          // Generate steps first
-          const newSteps = getQuickSortSteps(currentStep.arr);
-          setSteps(newSteps);
-          setStepIndex(1);
-          setCurrentStep(newSteps[0]);
-
-          // Set interval with the new steps we just created
-          autoStepIntervalRef.current = setInterval(() => {
-            setStepIndex((prevIndex) => {
-              if (prevIndex < newSteps.length) {
-                setCurrentStep(newSteps[prevIndex]);
-                return prevIndex + 1;
-              } else {
-                if (autoStepIntervalRef.current) {
-                  clearInterval(autoStepIntervalRef.current);
-                  autoStepIntervalRef.current = null;
-                }
-                setIsAutoStepping(false);
-                return prevIndex;
-              }
-            });
-          }, 500);
-        } else {
-          // Clear any existing interval first
-          if (autoStepIntervalRef.current) {
-            clearInterval(autoStepIntervalRef.current);
-          }
-
-          // Set up new interval with existing steps
-          autoStepIntervalRef.current = setInterval(() => {
-            setStepIndex((prevIndex) => {
-              if (prevIndex < steps.length) {
-                setCurrentStep(steps[prevIndex]);
-                return prevIndex + 1;
-              } else {
-                if (autoStepIntervalRef.current) {
-                  clearInterval(autoStepIntervalRef.current);
-                  autoStepIntervalRef.current = null;
-                }
-                setIsAutoStepping(false);
-                return prevIndex;
-              }
-            });
-          }, intervalMilliseconds);
-        }
-      } else {
-        // Stopping auto-stepping
-        if (autoStepIntervalRef.current) {
-          clearInterval(autoStepIntervalRef.current);
-          autoStepIntervalRef.current = null;
-        }
-      }
-
-      return newState;
-    });
-  };
+const QuickSortPage: FC = () => {
+  // The seed, array, options and step are restored from and kept in the link.
+  const { params, seed, setSeed, input, setInput, initialStep, urlParams } =
+    useSortInput();
+  const [pivot, setPivot] = useState<PivotStrategy>(
+    () => decodeOption(params.get("pivot"), PIVOT_STRATEGIES) ?? "random",
+  );
+  const [scheme, setScheme] = useState<PartitionScheme>(
+    () => decodeOption(params.get("scheme"), PARTITION_SCHEMES) ?? "lomuto",
+  );
 
-  //declaring constant variable numbers and assigning it to the array of numbers
+  // Record every step up front; the first step is the unsorted array.
+  // Random pivots are drawn from the seed so the run can be reproduced.
+  const steps = useMemo(
+    () =>
+      getQuickSortSteps(input, {
+        pivot,
+        scheme,
+        rng: createSeededRandom(seed),
+      }),
+    [input, pivot, scheme, seed],
+  );
+  const code = useMemo(
+    () => getQuickSortCode({ pivot, scheme }),
+    [pivot, scheme],
+  );
+  const playback = usePlayback(steps, { initialIndex: initialStep });
+  useUrlSync({ ...urlParams, pivot, scheme, step: String(playback.index) });
+  const currentStep = playback.step ?? steps[0];
 
   return (
-    <div className="flex flex-col min-h-screen transition-colors">
-      <Header />
-      <main className="flex-grow w-full flex items-center justify-center px-4">
-        <div className="w-full max-w-screen-2xl">
-          <h1 className="text-4xl font-bold text-center mb-8">
-            Quicksort Visualizer
-          </h1>
-          <div className="flex flex-col md:flex-row gap-8 bg-gray-100 dark:bg-gray-800 p-4 rounded-lg">
-            <Sidebar
-              opt1Action={handleToggleAutoStep}
-              opt2Action={handleStep}
-              opt3Action={() => {}}
-              isAutoStepping={isAutoStepping}
-            />
-            <div className="p-4 rounded-lg flex-1 flex flex-col items-center">
-              <ArrayVisualizer step={currentStep} />
-              <div className="flex justify-center items-center w-full mt-6">
-                <ArrayBase
-                  array={currentStep.arr}
-                  pivotIndex={currentStep.pivotIndex}
-                  comparing={currentStep.comparing}
-                />
-              </div>
-            </div>
+    <SortVisualizerLayout
+      title="Quicksort Visualizer"
+      steps={steps}
+      playback={playback}
+      code={code}
+      markerRules={MARKER_RULES}
+      controls={
+        <>
+          <div className="flex flex-wrap gap-4 justify-center items-center text-sm">
+            <label className="flex items-center gap-2">
+              Pivot:
+              <select
+                value={pivot}
+                onChange={(e) => setPivot(e.target.value as PivotStrategy)}
+                className={fieldClass}
+              >
+                {PIVOT_STRATEGIES.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Partition:
+              <select
+                value={scheme}
+                onChange={(e) => setScheme(e.target.value as PartitionScheme)}
+                className={fieldClass}
+              >
+                {PARTITION_SCHEMES.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <span>
+              Recursion depth: {currentStep.depth ?? 0} (max{" "}
+              {getMaxDepth(steps)})
+            </span>
+            <span>Total steps: {steps.length}</span>
           </div>
-        </div>
-      </main>
-      <Footer />
-    </div>
+          <ArrayInputControls
+            onSubmit={setInput}
+            seed={seed}
+            onSeedChange={setSeed}
+          />
+        </>
+      }
+    />
   );
 };
 
@@ -0,0 +1,166 @@
+"use client"; // needed for d3
+import React, { useMemo, useState, FC } from "react";
+
+// webpage visuals
+import Header from "@/components/header";
+import Footer from "@/components/footer";
+import PlaybackControls from "@/components/playback-controls";
+import ArrayInputControls from "@/components/array-input-controls";
+import { usePlayback } from "@/components/use-playback";
+import { useSortInput } from "@/components/use-sort-input";
+import { useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import { ArrayVisualizer } from "@/algorithms-core/arrays_common";
+import {
+  SORTING_ALGORITHMS,
+  getRaceFrames,
+  getSortingAlgorithm,
+} from "@/algorithms-core/sorting";
+import { createSeededRandom } from "@/algorithms-core/random";
+
+const SortingRacePage: FC = () => {
+  // The seed, array, racers and step are restored from and kept in the link.
+  const { params, seed, setSeed, input, setInput, initialStep, urlParams } =
+    useSortInput();
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => {
+    const ids = (params.get("algorithms") ?? "")
+      .split(",")
+      .filter((id, i, all) => getSortingAlgorithm(id) && all.indexOf(id) === i);
+    return ids.length >= 2 ? ids : ["quicksort", "bubblesort"];
+  });
+
+  // Every selected algorithm sorts its own copy of the same input.
+  const lanes = useMemo(
+    () =>
+      SORTING_ALGORITHMS.filter((algorithm) =>
+        selectedIds.includes(algorithm.id),
+      ).map((algorithm) => ({
+        algorithm,
+        steps: algorithm.getSteps(input, createSeededRandom(seed)),
+      })),
+    [input, selectedIds, seed],
+  );
+  const frames = useMemo(
+    () => getRaceFrames(lanes.map((lane) => lane.steps)),
+    [lanes],
+  );
+  const playback = usePlayback(frames, { initialIndex: initialStep });
+  useUrlSync({
+    ...urlParams,
+    algorithms: selectedIds.join(","),
+    step: String(playback.index),
+  });
+  const frame = playback.step ?? frames[0];
+
+  // Keep at least two algorithms in the race.
+  const toggleAlgorithm = (id: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(id)
+        ? ids.length > 2
+          ? ids.filter((other) => other !== id)
+          : ids
+        : [...ids, id],
+    );
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen transition-colors">
+      <Header />
+      <main className="flex-grow w-full flex items-center justify-center px-4">
+        <div className="w-full max-w-screen-2xl">
+          <h1 className="text-4xl font-bold text-center mb-8">Sorting Race</h1>
+          <div className="flex flex-col gap-6 bg-gray-100 dark:bg-gray-800 p-4 rounded-lg">
+            <div className="flex flex-wrap gap-4 justify-center items-center">
+              {SORTING_ALGORITHMS.map((algorithm) => (
+                <label
+                  key={algorithm.id}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(algorithm.id)}
+                    onChange={() => toggleAlgorithm(algorithm.id)}
+                  />
+                  {algorithm.name}
+                </label>
+              ))}
+            </div>
+
+            <ArrayInputControls
+              onSubmit={setInput}
+              seed={seed}
+              onSeedChange={setSeed}
+            />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {lanes.map(({ algorithm, steps }, i) => {
+                const step = frame[i];
+                const finished = playback.index >= steps.length - 1;
+                return (
+                  <div
+                    key={algorithm.id}
+                    className="flex flex-col items-center gap-2"
+                  >
+                    <h2 className="text-xl font-semibold">
+                      {algorithm.name}
+                      {finished && (
+                        <span className="ml-2 text-sm text-green-600">
+                          finished in {steps.length} steps
+                        </span>
+                      )}
+                    </h2>
+                    <ArrayVisualizer step={step} height={250} />
+                    <p className="text-sm">
+                      Comparisons: {step.stats?.comparisons ?? 0} · Swaps:{" "}
+                      {step.stats?.swaps ?? 0}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+
+            <PlaybackControls playback={playback} />
+
+            {playback.isAtEnd && (
+              <table className="mx-auto text-sm">
+                <thead>
+                  <tr>
+                    <th className="px-4 py-1 text-left">Algorithm</th>
+                    <th className="px-4 py-1 text-right">Steps</th>
+                    <th className="px-4 py-1 text-right">Comparisons</th>
+                    <th className="px-4 py-1 text-right">Swaps</th>
+                    <th className="px-4 py-1 text-right">Writes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lanes.map(({ algorithm, steps }) => {
+                    const stats = steps[steps.length - 1].stats;
+                    return (
+                      <tr key={algorithm.id}>
+                        <td className="px-4 py-1">{algorithm.name}</td>
+                        <td className="px-4 py-1 text-right">{steps.length}</td>
+                        <td className="px-4 py-1 text-right">
+                          {stats?.comparisons ?? 0}
+                        </td>
+                        <td className="px-4 py-1 text-right">
+                          {stats?.swaps ?? 0}
+                        </td>
+                        <td className="px-4 py-1 text-right">
+                          {stats?.writes ?? 0}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default SortingRacePage;
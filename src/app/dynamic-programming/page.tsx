@@ -1,7 +1,74 @@
-import UnderConstructionPage from "@/components/page-under-construction";
+"use client";
+
+import Header from "@/components/header";
+import Footer from "@/components/footer";
+import { CardStyle2 } from "@/components/card";
+import { motion } from "framer-motion";
+
+const cardInfo: {
+  href: string;
+  card_name: string;
+  card_text: string;
+  status: "working" | "wip" | "partial";
+}[] = [
+  {
+    href: "/graphs/floyd-warshall",
+    card_name: "Floyd-Warshall Algorithm",
+    card_text:
+      "Floyd-Warshall fills a table of the shortest distance between every pair of vertices in a graph, improving each entry once for every vertex a path may pass through, so each round builds on the answers of the round before.",
+    status: "working",
+  },
+];
 
 const page = () => {
-  return <UnderConstructionPage />;
+  return (
+    <div className="flex flex-col min-h-screen bg-gradient-to-b from-gray-900 to-gray-800">
+      <Header />
+
+      {/* Hero section */}
+      <section className="relative overflow-hidden py-20 bg-gradient-to-b from-gray-900 to-gray-800">
+        {/* Background effect */}
+        <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_rgba(75,75,75,0.1)_0,_rgba(25,25,25,0.2)_50%,_rgba(10,10,10,0.3)_100%)]"></div>
+
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          className="text-center z-10 relative max-w-4xl mx-auto px-4"
+        >
+          <h1 className="text-6xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-gray-100 to-gray-400 p-4 leading-tight">
+            Dynamic Programming
+          </h1>
+          <p className="mt-6 text-xl text-gray-300 max-w-2xl mx-auto">
+            Watch problems get solved by filling in tables of smaller
+            subproblems, one cell at a time
+          </p>
+        </motion.div>
+      </section>
+
+      {/* Content section */}
+      <main className="flex-grow py-16 px-6 bg-gradient-to-b from-gray-800 to-gray-900">
+        <div className="max-w-[1200px] mx-auto">
+          <motion.h2
+            initial={{ opacity: 0 }}
+            whileInView={{ opacity: 1 }}
+            viewport={{ once: true }}
+            className="text-2xl font-bold mb-10 text-gray-200 border-b border-gray-700 pb-3"
+          >
+            Choose an Algorithm to Visualize
+          </motion.h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            {cardInfo.map((card, index) => (
+              <CardStyle2 key={index} {...card} index={index} />
+            ))}
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
 };
 
 export default page;
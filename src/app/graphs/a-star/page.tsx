@@ -0,0 +1,338 @@
+"use client"; // needed for d3
+import React, { FC, useMemo, useState } from "react";
+
+// webpage visuals
+import GraphVisualizerLayout from "@/components/graph-visualizer-layout";
+import GraphInputControls from "@/components/graph-input-controls";
+import { useGraphInput } from "@/components/use-graph-input";
+import { usePlayback } from "@/components/use-playback";
+import { useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import {
+  astar,
+  ASTAR_CODE,
+  AStarStep,
+  countDijkstraExpansions,
+  HeuristicName,
+  HEURISTICS,
+} from "@/algorithms-core/astar";
+import {
+  EdgeHighlight,
+  Graph,
+  NodeHighlight,
+} from "@/algorithms-core/graphs_common";
+import { hasMutation, MarkerRule } from "@/algorithms-core/trace";
+import { decodeOption } from "@/algorithms-core/url_state";
+
+// Define theme colors for the visualization in one place for easy customization
+const COLORS = {
+  START_NODE: {
+    color: "hsl(120, 100%, 40%)",
+    fillColor: "hsl(120, 100%, 35%)",
+  },
+  GOAL_NODE: { color: "hsl(0, 90%, 60%)", fillColor: "hsl(0, 90%, 50%)" },
+  CURRENT_NODE: {
+    color: "hsl(270, 100%, 70%)",
+    fillColor: "hsl(270, 100%, 60%)",
+  },
+  OPEN_NODE: { color: "hsl(45, 100%, 50%)", fillColor: "hsl(45, 100%, 45%)" },
+  CLOSED_NODE: {
+    color: "hsl(217, 100%, 18%)",
+    fillColor: "hsl(217, 100%, 30%)",
+  },
+  DEFAULT_NODE: {
+    color: "hsl(210, 100%, 50%)",
+    fillColor: "hsl(210, 100%, 40%)",
+  },
+
+  PATH_EDGE: "hsl(150, 100%, 40%)",
+  CONSIDERING_EDGE: "hsl(200, 100%, 60%)",
+};
+
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<AStarStep>[] = [
+  {
+    label: "Cost improved",
+    color: COLORS.CONSIDERING_EDGE,
+    match: (step) => hasMutation(step, "g"),
+  },
+  {
+    label: "Node expanded",
+    color: COLORS.CLOSED_NODE.fillColor,
+    match: (step) => hasMutation(step, "closed"),
+  },
+  {
+    label: "Goal reached",
+    color: COLORS.PATH_EDGE,
+    match: (step) => step.path !== null,
+  },
+];
+
+// Shared empty step list used while the graph has no nodes
+const NO_STEPS: AStarStep[] = [];
+
+// Rounds a cost for display; heuristic estimates are often irrational
+function formatCost(value: number | undefined): string {
+  if (value === undefined) return "-";
+  return String(Math.round(value * 10) / 10);
+}
+
+// Node and edge colors for a step: the open and closed sets, the node being
+// expanded, the edge being relaxed and, once found, the path.
+function getHighlights(
+  graph: Graph,
+  step: AStarStep | undefined,
+  startNodeId: string | null,
+  goalNodeId: string | null,
+): { nodes: NodeHighlight[]; edges: EdgeHighlight[] } {
+  const open = new Set(step?.open);
+  const closed = new Set(step?.closed);
+  const nodes = Object.keys(graph.nodes).map((nodeId) => {
+    let colors = COLORS.DEFAULT_NODE;
+    if (nodeId === startNodeId) colors = COLORS.START_NODE;
+    else if (nodeId === goalNodeId) colors = COLORS.GOAL_NODE;
+    else if (nodeId === step?.currentNodeId) colors = COLORS.CURRENT_NODE;
+    else if (open.has(nodeId)) colors = COLORS.OPEN_NODE;
+    else if (closed.has(nodeId)) colors = COLORS.CLOSED_NODE;
+    return { nodeId, ...colors };
+  });
+
+  const edges: EdgeHighlight[] = [];
+  const path = step?.path;
+  path?.slice(1).forEach((nodeId, i) =>
+    edges.push({
+      sourceId: path[i],
+      targetId: nodeId,
+      color: COLORS.PATH_EDGE,
+      width: 5,
+    }),
+  );
+  step?.highlights.forEach((hl) => {
+    if (hl.type !== "edge" || path) return;
+    edges.push({
+      sourceId: hl.sourceId,
+      targetId: hl.targetId,
+      color: COLORS.CONSIDERING_EDGE,
+      width: 5,
+    });
+  });
+
+  return { nodes, edges };
+}
+
+interface AStarPanelProps {
+  graph: Graph;
+  step: AStarStep;
+  expanded: number | null; // A*'s expansions once the run is over
+  dijkstraExpanded: number | null; // Dijkstra's expansions to the same goal
+}
+
+// The open set ordered by f = g + h, the closed set, and how many nodes A*
+// expanded against Dijkstra on the same graph.
+const AStarPanel: FC<AStarPanelProps> = ({
+  graph,
+  step,
+  expanded,
+  dijkstraExpanded,
+}) => {
+  const name = (nodeId: string) => graph.nodes[nodeId]?.label ?? nodeId;
+  const changed = new Set(
+    step.mutations.filter((m) => m.target === "g").map((m) => String(m.key)),
+  );
+  const rows = [
+    ...step.open.map((nodeId) => ({ nodeId, set: "open" })),
+    ...step.closed
+      .slice()
+      .reverse()
+      .map((nodeId) => ({ nodeId, set: "closed" })),
+  ];
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      {expanded !== null && dijkstraExpanded !== null && (
+        <p>
+          A* expanded <span className="font-semibold">{expanded}</span> node
+          {expanded === 1 ? "" : "s"}; Dijkstra expands{" "}
+          <span className="font-semibold">{dijkstraExpanded}</span> on the same
+          graph before finalizing the goal.
+        </p>
+      )}
+      <section>
+        <h3 className="font-semibold mb-1">
+          Open ({step.open.length}) and closed ({step.closed.length}) sets
+        </h3>
+        <table className="w-full text-left">
+          <thead>
+            <tr>
+              <th className="font-semibold">Node</th>
+              <th className="font-semibold">Set</th>
+              <th className="font-semibold">g</th>
+              <th className="font-semibold">h</th>
+              <th className="font-semibold">f</th>
+              <th className="font-semibold">Via</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {rows.map(({ nodeId, set }) => {
+              const g = step.g.get(nodeId);
+              const h = step.h.get(nodeId);
+              const previous = step.previous.get(nodeId);
+              return (
+                <tr
+                  key={nodeId}
+                  className={
+                    changed.has(nodeId)
+                      ? "bg-yellow-100 dark:bg-yellow-900/40"
+                      : set === "closed"
+                        ? "text-gray-500 dark:text-gray-400"
+                        : undefined
+                  }
+                >
+                  <td>{name(nodeId)}</td>
+                  <td>{set}</td>
+                  <td>{formatCost(g)}</td>
+                  <td>{formatCost(h)}</td>
+                  <td>
+                    {formatCost(
+                      g !== undefined && h !== undefined ? g + h : undefined,
+                    )}
+                  </td>
+                  <td>{previous ? name(previous) : "-"}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+};
+
+const AStarPage: FC = () => {
+  // The graph, start and goal, heuristic and step are restored from and kept
+  // in the link. Heuristics measure between node positions, so only grids
+  // and geometric graphs are generated.
+  const input = useGraphInput({ shape: "grid", target: true });
+  const {
+    graph,
+    graphVersion,
+    params,
+    startNodeId,
+    targetNodeId,
+    initialStep,
+    urlParams,
+  } = input;
+  const [heuristic, setHeuristic] = useState<HeuristicName>(
+    () => decodeOption(params.get("heuristic"), HEURISTICS) ?? "manhattan",
+  );
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Record every step up front; graphs without positions or with negative
+  // weights are refused.
+  const run = useMemo(() => {
+    if (!startNodeId || !targetNodeId) {
+      return { steps: NO_STEPS, expanded: null, dijkstra: null, error: null };
+    }
+    try {
+      const result = astar(
+        graphVersion.graph,
+        startNodeId,
+        targetNodeId,
+        heuristic,
+      );
+      return {
+        steps: result.steps,
+        expanded: result.expanded,
+        dijkstra: countDijkstraExpansions(
+          graphVersion.graph,
+          startNodeId,
+          targetNodeId,
+        ),
+        error: null,
+      };
+    } catch (err) {
+      return {
+        steps: NO_STEPS,
+        expanded: null,
+        dijkstra: null,
+        error: (err as Error).message,
+      };
+    }
+  }, [graphVersion, startNodeId, targetNodeId, heuristic]);
+  const playback = usePlayback(run.steps, {
+    baseInterval: 750,
+    initialIndex: initialStep,
+  });
+  useUrlSync({
+    ...urlParams,
+    heuristic: heuristic === "manhattan" ? undefined : heuristic,
+    step: String(playback.index),
+  });
+
+  const currentStep = isEditing ? undefined : playback.step;
+  const highlights = useMemo(
+    () => getHighlights(graph, currentStep, startNodeId, targetNodeId),
+    [graph, currentStep, startNodeId, targetNodeId],
+  );
+  const finished = playback.index === run.steps.length - 1;
+
+  return (
+    <GraphVisualizerLayout
+      title="A* Search Visualizer"
+      graph={graph}
+      steps={run.steps}
+      playback={playback}
+      code={ASTAR_CODE}
+      markerRules={MARKER_RULES}
+      highlightedNodes={highlights.nodes}
+      highlightedEdges={highlights.edges}
+      isEditing={isEditing}
+      onGraphChange={input.editGraph}
+      panel={
+        <div className="flex flex-col gap-3">
+          {run.error && (
+            <p role="alert" className="text-sm text-center text-red-500">
+              {run.error}
+            </p>
+          )}
+          {currentStep && (
+            <AStarPanel
+              graph={graph}
+              step={currentStep}
+              expanded={finished ? run.expanded : null}
+              dijkstraExpanded={run.dijkstra}
+            />
+          )}
+        </div>
+      }
+      controls={
+        <GraphInputControls
+          input={input}
+          isEditing={isEditing}
+          onEditingChange={setIsEditing}
+          showTarget
+          shapes={["grid", "geometric"]}
+          allowDirected={false}
+        >
+          <label className="flex items-center gap-2 text-sm">
+            Heuristic:
+            <select
+              value={heuristic}
+              onChange={(e) => setHeuristic(e.target.value as HeuristicName)}
+              className="px-2 py-1 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200"
+            >
+              {HEURISTICS.map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </GraphInputControls>
+      }
+    />
+  );
+};
+
+export default AStarPage;
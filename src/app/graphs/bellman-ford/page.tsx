@@ -0,0 +1,239 @@
+"use client"; // needed for d3
+import React, { FC, useMemo, useState } from "react";
+
+// webpage visuals
+import GraphVisualizerLayout from "@/components/graph-visualizer-layout";
+import GraphInputControls from "@/components/graph-input-controls";
+import DistanceTable from "@/components/distance-table";
+import { useGraphInput } from "@/components/use-graph-input";
+import { usePlayback } from "@/components/use-playback";
+import { useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import {
+  bellmanFord,
+  BELLMAN_FORD_CODE,
+  BellmanFordStep,
+} from "@/algorithms-core/bellman_ford";
+import {
+  EdgeHighlight,
+  Graph,
+  NodeHighlight,
+} from "@/algorithms-core/graphs_common";
+import { hasMutation, MarkerRule } from "@/algorithms-core/trace";
+
+// Define theme colors for the visualization in one place for easy customization
+const COLORS = {
+  START_NODE: {
+    color: "hsl(120, 100%, 40%)",
+    fillColor: "hsl(120, 100%, 35%)",
+  },
+  SOURCE_NODE: {
+    color: "hsl(270, 100%, 70%)",
+    fillColor: "hsl(270, 100%, 60%)",
+  },
+  TARGET_NODE: { color: "hsl(45, 100%, 50%)", fillColor: "hsl(45, 100%, 45%)" },
+  REACHED_NODE: {
+    color: "hsl(217, 100%, 18%)",
+    fillColor: "hsl(217, 100%, 30%)",
+  },
+  CYCLE_NODE: { color: "hsl(0, 90%, 60%)", fillColor: "hsl(0, 90%, 50%)" },
+  DEFAULT_NODE: {
+    color: "hsl(210, 100%, 50%)",
+    fillColor: "hsl(210, 100%, 40%)",
+  },
+
+  PATH_EDGE: "hsl(150, 100%, 40%)",
+  CONSIDERING_EDGE: "hsl(200, 100%, 60%)",
+  CYCLE_EDGE: "hsl(0, 90%, 60%)",
+};
+
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<BellmanFordStep>[] = [
+  {
+    label: "Distance updated",
+    color: COLORS.PATH_EDGE,
+    match: (step) => hasMutation(step, "distances"),
+  },
+  {
+    label: "Pass complete",
+    color: COLORS.SOURCE_NODE.fillColor,
+    match: (step) => step.kind === "finalize",
+  },
+  {
+    label: "Negative cycle",
+    color: COLORS.CYCLE_EDGE,
+    match: (step) => step.negativeCycle !== null,
+  },
+];
+
+// Shared empty step list used while the graph has no nodes
+const NO_STEPS: BellmanFordStep[] = [];
+
+// Node and edge colors for a step: the best known paths, the edge being
+// relaxed and, once found, the negative cycle.
+function getHighlights(
+  graph: Graph,
+  step: BellmanFordStep | undefined,
+  startNodeId: string | null,
+): { nodes: NodeHighlight[]; edges: EdgeHighlight[] } {
+  const cycle = new Set(step?.negativeCycle);
+  const nodes = Object.keys(graph.nodes).map((nodeId) => {
+    let colors = COLORS.DEFAULT_NODE;
+    if (cycle.has(nodeId)) colors = COLORS.CYCLE_NODE;
+    else if (nodeId === step?.currentEdge?.sourceId)
+      colors = COLORS.SOURCE_NODE;
+    else if (nodeId === step?.currentEdge?.targetId)
+      colors = COLORS.TARGET_NODE;
+    else if (nodeId === startNodeId) colors = COLORS.START_NODE;
+    else if ((step?.distances.get(nodeId) ?? Infinity) !== Infinity)
+      colors = COLORS.REACHED_NODE;
+    return { nodeId, ...colors };
+  });
+
+  const edges: EdgeHighlight[] = [];
+  step?.previous.forEach((sourceId, targetId) => {
+    if (sourceId === null) return;
+    edges.push({ sourceId, targetId, color: COLORS.PATH_EDGE, width: 3 });
+  });
+  if (step?.currentEdge && !step.negativeCycle) {
+    edges.push({
+      ...step.currentEdge,
+      color: step.kind === "relax" ? COLORS.PATH_EDGE : COLORS.CONSIDERING_EDGE,
+      width: 5,
+    });
+  }
+  step?.negativeCycle?.forEach((sourceId, i, nodeIds) => {
+    edges.push({
+      sourceId,
+      targetId: nodeIds[(i + 1) % nodeIds.length],
+      color: COLORS.CYCLE_EDGE,
+      width: 5,
+    });
+  });
+
+  return { nodes, edges };
+}
+
+interface DistancePanelProps {
+  graph: Graph;
+  step: BellmanFordStep | undefined;
+  stepIndex: number;
+  hoveredNodeId: string | null;
+  onHover: (nodeId: string | null) => void;
+}
+
+// The pass being run, every node's distance and previous node, and the
+// negative cycle once one is found.
+const DistancePanel: FC<DistancePanelProps> = ({
+  graph,
+  step,
+  stepIndex,
+  hoveredNodeId,
+  onHover,
+}) => {
+  if (!step) return null;
+  const name = (nodeId: string) => graph.nodes[nodeId]?.label ?? nodeId;
+  const nodeCount = Object.keys(graph.nodes).length;
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <p className="font-semibold">
+        {step.pass === 0
+          ? "Initializing"
+          : step.pass < nodeCount
+            ? `Pass ${step.pass} of at most ${nodeCount - 1}`
+            : "Checking for negative cycles"}
+      </p>
+      {step.negativeCycle && (
+        <p role="alert" className="text-sm text-red-500">
+          Negative cycle:{" "}
+          {[...step.negativeCycle, step.negativeCycle[0]].map(name).join(" → ")}
+        </p>
+      )}
+      <DistanceTable
+        graph={graph}
+        step={step}
+        stepIndex={stepIndex}
+        currentNodeId={step.currentEdge?.targetId}
+        hoveredNodeId={hoveredNodeId}
+        onHover={onHover}
+      />
+    </div>
+  );
+};
+
+const BellmanFordPage: FC = () => {
+  // The graph, start node and step are restored from and kept in the link.
+  // Negative weights only make sense one way, so graphs start out directed.
+  const input = useGraphInput({ directed: true });
+  const { graph, graphVersion, startNodeId, initialStep, urlParams } = input;
+  const [isEditing, setIsEditing] = useState(false);
+  // Hovering a node in the table or on the canvas highlights it in both
+  const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+
+  // Record every step up front; the first step sets the start distance.
+  const steps = useMemo(
+    () =>
+      startNodeId
+        ? bellmanFord(graphVersion.graph, startNodeId).steps
+        : NO_STEPS,
+    [graphVersion, startNodeId],
+  );
+  const playback = usePlayback(steps, {
+    baseInterval: 500,
+    initialIndex: initialStep,
+  });
+  useUrlSync({ ...urlParams, step: String(playback.index) });
+
+  const currentStep = isEditing ? undefined : playback.step;
+  const highlights = useMemo(
+    () => getHighlights(graph, currentStep, startNodeId),
+    [graph, currentStep, startNodeId],
+  );
+
+  return (
+    <GraphVisualizerLayout
+      title="Bellman-Ford Algorithm Visualizer"
+      graph={graph}
+      steps={steps}
+      playback={playback}
+      code={BELLMAN_FORD_CODE}
+      markerRules={MARKER_RULES}
+      highlightedNodes={highlights.nodes}
+      highlightedEdges={highlights.edges}
+      isEditing={isEditing}
+      onGraphChange={input.editGraph}
+      hoveredNodeId={hoveredNodeId}
+      onNodeHover={setHoveredNodeId}
+      panel={
+        <DistancePanel
+          graph={graph}
+          step={currentStep}
+          stepIndex={playback.index}
+          hoveredNodeId={hoveredNodeId}
+          onHover={setHoveredNodeId}
+        />
+      }
+      controls={
+        <GraphInputControls
+          input={input}
+          isEditing={isEditing}
+          onEditingChange={setIsEditing}
+        >
+          <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={input.negativeWeights}
+              onChange={(e) => input.setNegativeWeights(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm">Negative Weights</span>
+          </label>
+        </GraphInputControls>
+      }
+    />
+  );
+};
+
+export default BellmanFordPage;
@@ -0,0 +1,114 @@
+"use client"; // needed for d3
+import React, { FC, useMemo, useState } from "react";
+
+// webpage visuals
+import GraphVisualizerLayout from "@/components/graph-visualizer-layout";
+import GraphInputControls from "@/components/graph-input-controls";
+import TraversalPanel, {
+  getTraversalHighlights,
+  TRAVERSAL_COLORS,
+} from "@/components/traversal-panel";
+import { useGraphInput } from "@/components/use-graph-input";
+import { usePlayback } from "@/components/use-playback";
+import { useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import { bfs, BFS_CODE, BFSStep } from "@/algorithms-core/bfs";
+import { hasMutation, MarkerRule } from "@/algorithms-core/trace";
+
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<BFSStep>[] = [
+  {
+    label: "Node discovered",
+    color: TRAVERSAL_COLORS.FRONTIER_NODE.fillColor,
+    match: (step) => hasMutation(step, "discovered"),
+  },
+  {
+    label: "Back or cross edge",
+    color: TRAVERSAL_COLORS.EDGES.cross,
+    match: (step) =>
+      step.mutations.some((m) => m.target === "edgeClasses" && m.to !== "tree"),
+  },
+];
+
+// Shared empty step list used while the graph has no nodes
+const NO_STEPS: BFSStep[] = [];
+
+const BreadthFirstSearchPage: FC = () => {
+  // The graph, start node and step are restored from and kept in the link.
+  const input = useGraphInput();
+  const { graph, graphVersion, startNodeId, params, initialStep, urlParams } =
+    input;
+  const [visitAll, setVisitAll] = useState(() => params.get("all") === "1");
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Record every step up front; the first step queues the start node.
+  const steps = useMemo(
+    () =>
+      startNodeId
+        ? bfs(graphVersion.graph, startNodeId, { visitAll }).steps
+        : NO_STEPS,
+    [graphVersion, startNodeId, visitAll],
+  );
+  const playback = usePlayback(steps, {
+    baseInterval: 750,
+    initialIndex: initialStep,
+  });
+  useUrlSync({
+    ...urlParams,
+    all: visitAll ? "1" : undefined,
+    step: String(playback.index),
+  });
+
+  const currentStep = isEditing ? undefined : playback.step;
+  const highlights = useMemo(
+    () => getTraversalHighlights(graph, currentStep, startNodeId),
+    [graph, currentStep, startNodeId],
+  );
+
+  return (
+    <GraphVisualizerLayout
+      title="Breadth-First Search Visualizer"
+      graph={graph}
+      steps={steps}
+      playback={playback}
+      code={BFS_CODE}
+      markerRules={MARKER_RULES}
+      highlightedNodes={highlights.nodes}
+      highlightedEdges={highlights.edges}
+      isEditing={isEditing}
+      onGraphChange={input.editGraph}
+      panel={
+        <TraversalPanel
+          graph={graph}
+          step={currentStep}
+          frontierLabel="Queue (front to back)"
+          edgeClasses={["tree", "back", "cross"]}
+          annotate={(nodeId) => {
+            const level = currentStep?.levels.get(nodeId);
+            return level === undefined ? undefined : `(${level})`;
+          }}
+        />
+      }
+      controls={
+        <GraphInputControls
+          input={input}
+          isEditing={isEditing}
+          onEditingChange={setIsEditing}
+        >
+          <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={visitAll}
+              onChange={(e) => setVisitAll(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm">Visit All Nodes</span>
+          </label>
+        </GraphInputControls>
+      }
+    />
+  );
+};
+
+export default BreadthFirstSearchPage;
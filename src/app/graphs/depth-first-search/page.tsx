@@ -0,0 +1,120 @@
+"use client"; // needed for d3
+import React, { FC, useMemo, useState } from "react";
+
+// webpage visuals
+import GraphVisualizerLayout from "@/components/graph-visualizer-layout";
+import GraphInputControls from "@/components/graph-input-controls";
+import TraversalPanel, {
+  getTraversalHighlights,
+  TRAVERSAL_COLORS,
+} from "@/components/traversal-panel";
+import { useGraphInput } from "@/components/use-graph-input";
+import { usePlayback } from "@/components/use-playback";
+import { useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import { dfs, DFS_CODE, DFSStep } from "@/algorithms-core/dfs";
+import { MarkerRule } from "@/algorithms-core/trace";
+
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<DFSStep>[] = [
+  {
+    label: "Node finished",
+    color: TRAVERSAL_COLORS.FINISHED_NODE.fillColor,
+    match: (step) => step.kind === "finalize",
+  },
+  {
+    label: "Back edge",
+    color: TRAVERSAL_COLORS.EDGES.back,
+    match: (step) =>
+      step.mutations.some((m) => m.target === "edgeClasses" && m.to === "back"),
+  },
+];
+
+// Shared empty step list used while the graph has no nodes
+const NO_STEPS: DFSStep[] = [];
+
+const DepthFirstSearchPage: FC = () => {
+  // The graph, start node and step are restored from and kept in the link.
+  const input = useGraphInput();
+  const { graph, graphVersion, startNodeId, params, initialStep, urlParams } =
+    input;
+  const [visitAll, setVisitAll] = useState(() => params.get("all") === "1");
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Record every step up front; the first step starts from the start node.
+  const steps = useMemo(
+    () =>
+      startNodeId
+        ? dfs(graphVersion.graph, startNodeId, { visitAll }).steps
+        : NO_STEPS,
+    [graphVersion, startNodeId, visitAll],
+  );
+  const playback = usePlayback(steps, {
+    baseInterval: 750,
+    initialIndex: initialStep,
+  });
+  useUrlSync({
+    ...urlParams,
+    all: visitAll ? "1" : undefined,
+    step: String(playback.index),
+  });
+
+  const currentStep = isEditing ? undefined : playback.step;
+  const highlights = useMemo(
+    () => getTraversalHighlights(graph, currentStep, startNodeId),
+    [graph, currentStep, startNodeId],
+  );
+
+  return (
+    <GraphVisualizerLayout
+      title="Depth-First Search Visualizer"
+      graph={graph}
+      steps={steps}
+      playback={playback}
+      code={DFS_CODE}
+      markerRules={MARKER_RULES}
+      highlightedNodes={highlights.nodes}
+      highlightedEdges={highlights.edges}
+      isEditing={isEditing}
+      onGraphChange={input.editGraph}
+      panel={
+        <TraversalPanel
+          graph={graph}
+          step={currentStep}
+          frontierLabel="Stack (bottom to top)"
+          edgeClasses={
+            graph.directed
+              ? ["tree", "back", "forward", "cross"]
+              : ["tree", "back"]
+          }
+          annotate={(nodeId) => {
+            const discovered = currentStep?.discoveryTime.get(nodeId);
+            if (discovered === undefined) return undefined;
+            const finished = currentStep?.finishTime.get(nodeId);
+            return `${discovered}/${finished ?? "-"}`;
+          }}
+        />
+      }
+      controls={
+        <GraphInputControls
+          input={input}
+          isEditing={isEditing}
+          onEditingChange={setIsEditing}
+        >
+          <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={visitAll}
+              onChange={(e) => setVisitAll(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm">Visit All Nodes</span>
+          </label>
+        </GraphInputControls>
+      }
+    />
+  );
+};
+
+export default DepthFirstSearchPage;
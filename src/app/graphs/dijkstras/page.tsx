@@ -1,26 +1,34 @@
-"use client";
-
-import React, { useState, FC, useRef, useEffect, useCallback } from "react";
-
-import Header from "@/components/header";
-import Footer from "@/components/footer";
+"use client"; // needed for d3
+import React, { FC, useMemo, useState } from "react";
+
+// webpage visuals
+import GraphVisualizerLayout from "@/components/graph-visualizer-layout";
+import GraphInputControls from "@/components/graph-input-controls";
+import HeapPanel from "@/components/heap-panel";
+import DistanceTable from "@/components/distance-table";
+import { useGraphInput } from "@/components/use-graph-input";
+import { usePlayback } from "@/components/use-playback";
+import { useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
 import {
   dijkstra,
-  DijkstraStep,
+  DIJKSTRA_CODE,
+  DIJKSTRA_LINEAR_CODE,
+  DijkstraGranularity,
+  DijkstraQueue,
   DijkstraResult,
+  DijkstraStep,
 } from "@/algorithms-core/dijkstras";
-
 import {
-  GraphVisualizer,
-  NodeHighlight,
   EdgeHighlight,
-  createRandomGraph,
   Graph,
+  NodeHighlight,
 } from "@/algorithms-core/graphs_common";
+import { hasMutation, MarkerRule } from "@/algorithms-core/trace";
 
 // Define theme colors for the visualization in one place for easy customization
 const COLORS = {
-  // Node colors
   START_NODE: {
     color: "hsl(120, 100%, 40%)",
     fillColor: "hsl(120, 100%, 35%)",
@@ -34,519 +42,346 @@ const COLORS = {
     fillColor: "hsl(217, 100%, 30%)",
   },
   NEXT_NODE: { color: "hsl(45, 100%, 50%)", fillColor: "hsl(45, 100%, 45%)" },
-
-  // Default node colors when not highlighted
+  TARGET_NODE: { color: "hsl(0, 90%, 60%)", fillColor: "hsl(0, 90%, 50%)" },
   DEFAULT_NODE: {
     color: "hsl(210, 100%, 50%)",
     fillColor: "hsl(210, 100%, 40%)",
   },
 
-  // Edge colors
   SHORTEST_PATH: "hsl(150, 100%, 40%)",
   CONSIDERING_EDGE: "hsl(200, 100%, 60%)",
+  EXAMINED_EDGE: "hsl(30, 100%, 55%)",
+};
 
-  // Background colors
-  BACKGROUND: {
-    gradientStart: "hsl(220, 13%, 95%)",
-    gradientEnd: "hsl(220, 13%, 90%)",
-    darkGradientStart: "hsl(0, 0%, 12%)",
-    darkGradientEnd: "hsl(240, 87%, 30%)",
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<DijkstraStep>[] = [
+  {
+    label: "Node finalized",
+    color: COLORS.CURRENT_NODE.fillColor,
+    match: (step) => step.kind === "finalize",
   },
+  {
+    label: "Distance updated",
+    color: COLORS.SHORTEST_PATH,
+    match: (step) => hasMutation(step, "distances"),
+  },
+];
 
-  // Control whether gradients are used for node fills
-  USE_GRADIENT: true,
-};
+// Shared empty step list used while the graph has no nodes
+const NO_STEPS: DijkstraStep[] = [];
 
-// Helper function for conditional debug logging
-function debugLog(debug: boolean, ...args: unknown[]): void {
-  if (debug) {
-    console.log(...args);
-  }
+// The queue named in the page's link; the heap unless it asks for a scan
+function decodeQueue(value: string | null): DijkstraQueue {
+  return value === "linear" ? "linear" : "heap";
 }
 
-const DijkstrasPage: FC = () => {
-  const [graph, setGraph] = useState<Graph | null>(null);
-  const [highlightedNodes, setHighlightedNodes] = useState<NodeHighlight[]>([]);
-  const [highlightedEdges, setHighlightedEdges] = useState<EdgeHighlight[]>([]);
-  const [startNodeId, setStartNodeId] = useState<string | null>(null);
-  const [algorithmResult, setAlgorithmResult] = useState<DijkstraResult | null>(
-    null,
-  );
-  const [currentStepIndex, setCurrentStepIndex] = useState<number>(0);
-  const [isRunning, setIsRunning] = useState<boolean>(false);
-  const [isAutoPlaying, setIsAutoPlaying] = useState<boolean>(false);
-  const autoPlayIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  const [graphDensity, setGraphDensity] = useState<number>(0.1);
-  const [graphSize, setGraphSize] = useState<number>(14);
-  const [debug, setDebug] = useState<boolean>(false);
-  const [useGradient, setUseGradient] = useState<boolean>(COLORS.USE_GRADIENT);
+// The step granularity named in the page's link; per node unless it asks for edges
+function decodeGranularity(value: string | null): DijkstraGranularity {
+  return value === "edge" ? "edge" : "node";
+}
 
-  // Add background color state
-  const [backgroundOptions, setBackgroundOptions] = useState({
-    gradientStart: COLORS.BACKGROUND.gradientStart,
-    gradientEnd: COLORS.BACKGROUND.gradientEnd,
-    useGradient: true,
+// Node and edge colors for a step: the finalized nodes, the node being
+// finalized and its edges to unvisited nodes, the path to the closest
+// unvisited node, the edge examined in a per-edge step and, once the
+// target is reached, its shortest path.
+function getHighlights(
+  graph: Graph,
+  step: DijkstraStep | undefined,
+  startNodeId: string | null,
+  targetNodeId: string | null,
+): { nodes: NodeHighlight[]; edges: EdgeHighlight[] } {
+  const nodes = Object.keys(graph.nodes).map((nodeId) => {
+    let colors = COLORS.DEFAULT_NODE;
+    if (nodeId === startNodeId) colors = COLORS.START_NODE;
+    else if (nodeId === step?.currentNodeId) colors = COLORS.CURRENT_NODE;
+    else if (nodeId === targetNodeId) colors = COLORS.TARGET_NODE;
+    else if (nodeId === step?.currentShortest) colors = COLORS.NEXT_NODE;
+    else if (step?.visited.has(nodeId)) colors = COLORS.VISITED_NODE;
+    return { nodeId, ...colors };
   });
 
-  const containerRef = useRef<HTMLDivElement>(null);
-
-  const handleResetGraph = useCallback(() => {
-    if (autoPlayIntervalRef.current) {
-      clearInterval(autoPlayIntervalRef.current);
-      autoPlayIntervalRef.current = null;
-      setIsAutoPlaying(false);
-    }
-    setIsRunning(false);
-    setCurrentStepIndex(0);
-    setAlgorithmResult(null);
-
-    const newGraph = createRandomGraph(
-      graphSize,
-      graphDensity,
-      1, // minValue
-      30, // maxValue
-      {
-        defaultColor: COLORS.DEFAULT_NODE.color,
-        defaultFillColor: COLORS.DEFAULT_NODE.fillColor,
-        useGradient: useGradient,
-      },
-    );
-    setGraph(newGraph);
-    const nodeIds = Object.keys(newGraph.nodes);
-    if (nodeIds.length > 0) {
-      const startId = nodeIds[0];
-      setStartNodeId(startId);
-
-      // Create a highlighted nodes array with ALL nodes to ensure proper coloring
-      const newHighlightedNodes: NodeHighlight[] = [];
-
-      // Add the start node with START_NODE color
-      newHighlightedNodes.push({
-        nodeId: startId,
-        color: COLORS.START_NODE.color,
-        fillColor: COLORS.START_NODE.fillColor,
-        useGradient: useGradient,
-      });
-
-      // Add all other nodes with DEFAULT_NODE color
-      nodeIds.forEach((nodeId) => {
-        if (nodeId !== startId) {
-          newHighlightedNodes.push({
-            nodeId,
-            color: COLORS.DEFAULT_NODE.color,
-            fillColor: COLORS.DEFAULT_NODE.fillColor,
-            useGradient: useGradient,
-          });
-        }
+  const edges: EdgeHighlight[] = [];
+  if (!step) return { nodes, edges };
+  const { currentNodeId } = step;
+  if (currentNodeId) {
+    graph.get_neighbors(currentNodeId).forEach(({ node }) => {
+      if (!step.unvisited.has(node.id)) return;
+      edges.push({
+        sourceId: currentNodeId,
+        targetId: node.id,
+        color: COLORS.CONSIDERING_EDGE,
       });
-
-      setHighlightedNodes(newHighlightedNodes);
-      setHighlightedEdges([]);
-    }
-  }, [
-    graphSize,
-    graphDensity,
-    useGradient,
-    setGraph,
-    setStartNodeId,
-    setHighlightedNodes,
-    setHighlightedEdges,
-    setIsAutoPlaying,
-    setIsRunning,
-    setCurrentStepIndex,
-    setAlgorithmResult,
-  ]); // Added dependencies for useCallback
-
-  /**
-   * Effect to initialize the graph when the component mounts or when graphSize or graphDensity changes.
-   */
-  useEffect(() => {
-    handleResetGraph();
-  }, [handleResetGraph]); // Now only depends on the memoized handleResetGraph
-
-  // Effect to handle  dark mode
-  useEffect(() => {
-    const isDark =
-      typeof window !== "undefined" &&
-      window.matchMedia &&
-      window.matchMedia("(prefers-color-scheme: dark)").matches;
-
-    // Update background colors based on dark mode
-    setBackgroundOptions({
-      gradientStart: isDark
-        ? COLORS.BACKGROUND.darkGradientStart
-        : COLORS.BACKGROUND.gradientStart,
-      gradientEnd: isDark
-        ? COLORS.BACKGROUND.darkGradientEnd
-        : COLORS.BACKGROUND.gradientEnd,
-      useGradient: true,
     });
-  }, []);
-
-  const handleRunDijkstra = () => {
-    if (!startNodeId || !graph) {
-      debugLog(debug, "Missing start node or no graph");
-      return;
-    }
-
-    try {
-      const result = dijkstra(graph, startNodeId, debug);
-      debugLog(
-        debug,
-        "Dijkstra algorithm completed. Steps:",
-        result.steps.length,
-      );
-      setAlgorithmResult(result);
-      setCurrentStepIndex(0);
-      setIsRunning(true);
-      updateVisualization(result.steps[0], result);
-    } catch (error) {
-      debugLog(debug, "Error running Dijkstra's algorithm:", error);
-    }
-  };
-
-  const handleToggleAutoPlay = () => {
-    if (!algorithmResult) return;
-
-    if (isAutoPlaying) {
-      if (autoPlayIntervalRef.current) {
-        clearInterval(autoPlayIntervalRef.current);
-        autoPlayIntervalRef.current = null;
-      }
-      setIsAutoPlaying(false);
-      return;
-    }
-
-    setIsAutoPlaying(true);
+  }
 
-    // If already at the end, start over
-    if (currentStepIndex >= algorithmResult.steps.length - 1) {
-      setCurrentStepIndex(0);
-      updateVisualization(algorithmResult.steps[0], algorithmResult);
-    }
+  // The best known path to the node finalized next
+  let pathNodeId = step.currentShortest;
+  while (pathNodeId && pathNodeId !== startNodeId) {
+    const previousId = step.previous.get(pathNodeId);
+    if (!previousId) break;
+    edges.push({
+      sourceId: previousId,
+      targetId: pathNodeId,
+      color: COLORS.SHORTEST_PATH,
+      width: 3,
+    });
+    pathNodeId = previousId;
+  }
 
-    autoPlayIntervalRef.current = setInterval(() => {
-      setCurrentStepIndex((prevIndex) => {
-        const nextIndex = prevIndex + 1;
-        if (nextIndex >= algorithmResult!.steps.length) {
-          if (autoPlayIntervalRef.current) {
-            clearInterval(autoPlayIntervalRef.current);
-            autoPlayIntervalRef.current = null;
-          }
-          setIsAutoPlaying(false);
-          return prevIndex;
-        }
-        updateVisualization(
-          algorithmResult!.steps[nextIndex],
-          algorithmResult!,
-        );
-        return nextIndex;
+  step.highlights.forEach((hl) => {
+    if (hl.type !== "edge") return;
+    if (hl.role === "path") {
+      edges.push({
+        sourceId: hl.sourceId,
+        targetId: hl.targetId,
+        color: COLORS.SHORTEST_PATH,
+        width: 5,
+      });
+    } else if (hl.role === "compare" && step.kind !== "finalize") {
+      edges.push({
+        sourceId: hl.sourceId,
+        targetId: hl.targetId,
+        color: COLORS.EXAMINED_EDGE,
+        width: 5,
       });
-    }, 750);
-  };
-
-  const handleStepForward = () => {
-    if (
-      !algorithmResult ||
-      currentStepIndex >= algorithmResult.steps.length - 1
-    )
-      return;
-    const nextStepIndex = currentStepIndex + 1;
-    setCurrentStepIndex(nextStepIndex);
-    updateVisualization(algorithmResult.steps[nextStepIndex], algorithmResult);
-  };
-
-  const handleStepBackward = () => {
-    if (!algorithmResult || currentStepIndex <= 0) return;
-    const prevStepIndex = currentStepIndex - 1;
-    setCurrentStepIndex(prevStepIndex);
-    updateVisualization(algorithmResult.steps[prevStepIndex], algorithmResult);
-  };
-
-  const updateVisualization = (
-    step: DijkstraStep,
-    resultToUse?: DijkstraResult,
-  ) => {
-    const result = resultToUse || algorithmResult;
-    if (!startNodeId || !result || !graph) {
-      debugLog(debug, "Cannot update visualization: missing data");
-      return;
     }
+  });
 
-    debugLog(debug, "Updating visualization for step:", currentStepIndex);
-    debugLog(debug, "Step data:", {
-      currentNodeId: step.currentNodeId,
-      visitedCount: step.visited.size,
-      unvisitedCount: step.unvisited.size,
-    });
-
-    const newHighlightedNodes: NodeHighlight[] = [];
-    const newHighlightedEdges: EdgeHighlight[] = [];
-
-    // Always highlight the start node
-    newHighlightedNodes.push({
-      nodeId: startNodeId,
-      color: COLORS.START_NODE.color,
-      fillColor: COLORS.START_NODE.fillColor,
-      useGradient: useGradient,
-    });
+  return { nodes, edges };
+}
 
-    // Highlight current processing node
-    if (step.currentNodeId) {
-      newHighlightedNodes.push({
-        nodeId: step.currentNodeId,
-        color: COLORS.CURRENT_NODE.color,
-        fillColor: COLORS.CURRENT_NODE.fillColor,
-        useGradient: useGradient,
-      });
+interface DijkstraPanelProps {
+  graph: Graph;
+  step: DijkstraStep | undefined;
+  stepIndex: number;
+  result: DijkstraResult | null; // The whole run, once playback reaches its end
+  targetNodeId: string | null;
+  showHeap: boolean;
+  hoveredNodeId: string | null;
+  onHover: (nodeId: string | null) => void;
+}
 
-      // Highlight edges from current node to unvisited nodes being considered
-      if (graph && step.currentNodeId) {
-        const currentNode = graph.nodes[step.currentNodeId];
+// Every node's distance and previous node, the priority queue, and the path
+// to the target once the run is over.
+const DijkstraPanel: FC<DijkstraPanelProps> = ({
+  graph,
+  step,
+  stepIndex,
+  result,
+  targetNodeId,
+  showHeap,
+  hoveredNodeId,
+  onHover,
+}) => {
+  if (!step) return null;
+  const name = (nodeId: string) => graph.nodes[nodeId]?.label ?? nodeId;
 
-        // Iterate through outgoing edges
-        let edge = currentNode.outgoing_edges;
-        while (edge !== null) {
-          // Only highlight edges to unvisited nodes (those we're considering)
-          if (step.unvisited.has(edge.to_node.id)) {
-            newHighlightedEdges.push({
-              sourceId: step.currentNodeId,
-              targetId: edge.to_node.id,
-              color: COLORS.CONSIDERING_EDGE,
-            });
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <DistanceTable
+        graph={graph}
+        step={step}
+        stepIndex={stepIndex}
+        visited={step.visited}
+        currentNodeId={step.currentNodeId}
+        hoveredNodeId={hoveredNodeId}
+        onHover={onHover}
+      />
+      {showHeap && step.heap && (
+        <HeapPanel
+          entries={step.heap}
+          name={name}
+          changed={
+            new Set(
+              step.mutations
+                .filter((m) => m.target === "distances")
+                .map((m) => String(m.key)),
+            )
           }
-          edge = edge.next_from;
-        }
-      }
-    }
-
-    // Highlight fully visited nodes
-    step.visited.forEach((nodeId) => {
-      if (nodeId !== startNodeId && nodeId !== step.currentNodeId) {
-        newHighlightedNodes.push({
-          nodeId,
-          color: COLORS.VISITED_NODE.color,
-          fillColor: COLORS.VISITED_NODE.fillColor,
-          useGradient: useGradient,
-        });
-      }
-    });
+          comparisons={step.comparisons}
+        />
+      )}
+      {!step.heap && (
+        <p>
+          Linear scan: {step.comparisons} comparison
+          {step.comparisons === 1 ? "" : "s"} so far.
+        </p>
+      )}
+      {result && targetNodeId && (
+        <p>
+          {result.shortestPath ? (
+            <>
+              Shortest path to {name(targetNodeId)}:{" "}
+              <span className="font-mono">
+                {result.shortestPath.map(name).join(" → ")}
+              </span>
+              , cost{" "}
+              <span className="font-semibold">{result.totalDistance}</span>.
+            </>
+          ) : (
+            `${name(targetNodeId)} cannot be reached from the start.`
+          )}
+        </p>
+      )}
+    </div>
+  );
+};
 
-    // Highlight next shortest (unvisited) node in yellow
-    if (step.currentShortest && step.currentShortest !== startNodeId) {
-      newHighlightedNodes.push({
-        nodeId: step.currentShortest,
-        color: COLORS.NEXT_NODE.color,
-        fillColor: COLORS.NEXT_NODE.fillColor,
-        useGradient: useGradient,
-      });
+const DijkstrasPage: FC = () => {
+  // The graph, start and target nodes, queue and step are restored from and
+  // kept in the link. Without a target the run finalizes every node.
+  const input = useGraphInput({ target: true });
+  const { graph, graphVersion, params, startNodeId, initialStep, urlParams } =
+    input;
+  const [stopAtTarget, setStopAtTarget] = useState(() => params.has("target"));
+  const targetNodeId = stopAtTarget ? input.targetNodeId : null;
+  const [queue, setQueue] = useState<DijkstraQueue>(() =>
+    decodeQueue(params.get("queue")),
+  );
+  // Per edge, every edge examined gets its own step
+  const [granularity, setGranularity] = useState<DijkstraGranularity>(() =>
+    decodeGranularity(params.get("granularity")),
+  );
+  const [showHeap, setShowHeap] = useState(() => params.get("heap") === "1");
+  const [isEditing, setIsEditing] = useState(false);
+  // Hovering a node in the table or on the canvas highlights it in both
+  const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+
+  // Record every step up front; edges without numeric weights are refused.
+  const run = useMemo(() => {
+    if (!startNodeId) return { result: null, error: null };
+    try {
+      return {
+        result: dijkstra(
+          graphVersion.graph,
+          startNodeId,
+          false,
+          queue,
+          targetNodeId,
+          granularity,
+        ),
+        error: null,
+      };
+    } catch (err) {
+      return { result: null, error: (err as Error).message };
     }
+  }, [graphVersion, startNodeId, targetNodeId, queue, granularity]);
+  const steps = run.result?.steps ?? NO_STEPS;
+  const playback = usePlayback(steps, {
+    baseInterval: 750,
+    initialIndex: initialStep,
+  });
+  useUrlSync({
+    ...urlParams,
+    target: stopAtTarget ? urlParams.target : undefined,
+    queue: queue === "linear" ? "linear" : undefined,
+    heap: showHeap ? "1" : undefined,
+    granularity: granularity === "edge" ? "edge" : undefined,
+    step: String(playback.index),
+  });
 
-    // Track which nodes are highlighted
-    const highlightedNodeIds = new Set(
-      newHighlightedNodes.map((n) => n.nodeId),
-    );
-
-    // For all non-highlighted nodes, preserve their custom colors from the graph
-    Object.keys(graph.nodes).forEach((nodeId) => {
-      if (!highlightedNodeIds.has(nodeId)) {
-        const node = graph.nodes[nodeId];
-        // Always add non-highlighted nodes to ensure they get their colors from the graph
-        newHighlightedNodes.push({
-          nodeId,
-          color: node.color || COLORS.DEFAULT_NODE.color,
-          fillColor: node.fillColor || COLORS.DEFAULT_NODE.fillColor,
-          useGradient:
-            node.useGradient !== undefined ? node.useGradient : useGradient,
-        });
-      }
-    });
-
-    // Add path visualization for current shortest paths
-    if (step.distances.size > 0 && step.previous.size > 0) {
-      // Highlight the shortest path to the current shortest node
-      if (step.currentShortest) {
-        let pathNodeId = step.currentShortest;
-        while (pathNodeId && pathNodeId !== startNodeId) {
-          const prevNodeId = step.previous.get(pathNodeId);
-          if (prevNodeId) {
-            newHighlightedEdges.push({
-              sourceId: prevNodeId,
-              targetId: pathNodeId,
-              color: COLORS.SHORTEST_PATH,
-              width: 3, // Make shortest path edges thicker
-            });
-            pathNodeId = prevNodeId;
-          } else {
-            break;
-          }
-        }
-      }
+  // Clicking a node makes it the target; clicking the target again clears it
+  const handleNodeClick = (nodeId: string) => {
+    if (stopAtTarget && nodeId === targetNodeId) {
+      setStopAtTarget(false);
+    } else {
+      input.setTargetNodeId(nodeId);
+      setStopAtTarget(true);
     }
-
-    setHighlightedNodes(newHighlightedNodes);
-    setHighlightedEdges(newHighlightedEdges);
   };
 
-  useEffect(() => {
-    return () => {
-      if (autoPlayIntervalRef.current) {
-        clearInterval(autoPlayIntervalRef.current);
-      }
-    };
-  }, []);
+  const currentStep = isEditing ? undefined : playback.step;
+  const highlights = useMemo(
+    () => getHighlights(graph, currentStep, startNodeId, targetNodeId),
+    [graph, currentStep, startNodeId, targetNodeId],
+  );
+  const finished = playback.index === steps.length - 1;
 
   return (
-    <div className="flex flex-col min-h-screen transition-colors">
-      <Header />
-      <main className="flex-grow w-full flex items-center justify-center p-4">
-        <div className="w-full max-w-7xl">
-          <h1 className="text-4xl font-bold text-center mb-8">
-            Dijkstra&apos;s Algorithm Visualizer
-          </h1>
-          <div className="rounded-xl overflow-hidden bg-white dark:bg-gray-900 shadow-md">
-            <div className="p-4 border-b border-gray-200 dark:border-gray-800">
-              <h2 className="text-xl font-semibold">Graph Visualization</h2>
-              <p className="text-sm text-gray-500 dark:text-gray-400">
-                Drag nodes to rearrange the graph.
-              </p>
-            </div>
-            <div className="p-4">
-              <div ref={containerRef} className="w-full h-[600px]">
-                {graph && (
-                  <GraphVisualizer
-                    width={0}
-                    height={0}
-                    graph={graph}
-                    highlightedNodes={highlightedNodes}
-                    highlightedEdges={highlightedEdges}
-                    backgroundOptions={backgroundOptions}
-                  />
-                )}
-              </div>
-            </div>
-            <div className="p-4 border-t border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
-              <div className="flex flex-col gap-4">
-                {algorithmResult && (
-                  <div className="text-center">
-                    <p className="text-lg font-medium mb-2">
-                      Step {currentStepIndex + 1} of{" "}
-                      {algorithmResult.steps.length}
-                    </p>
-                  </div>
-                )}
-                <div className="flex flex-wrap gap-2 justify-center">
-                  {!isRunning ? (
-                    <button
-                      className="px-4 py-2 rounded-md bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors"
-                      onClick={handleRunDijkstra}
-                    >
-                      Run Dijkstra&apos;s Algorithm
-                    </button>
-                  ) : (
-                    <>
-                      <button
-                        className="px-4 py-2 rounded-md bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200 font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
-                        onClick={handleStepBackward}
-                        disabled={currentStepIndex <= 0}
-                      >
-                        Previous Step
-                      </button>
-                      <button
-                        className="px-4 py-2 rounded-md bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors"
-                        onClick={handleStepForward}
-                        disabled={
-                          !!algorithmResult &&
-                          currentStepIndex >= algorithmResult.steps.length - 1
-                        }
-                      >
-                        Next Step
-                      </button>
-                      <button
-                        className={`px-4 py-2 rounded-md font-medium transition-colors ${
-                          isAutoPlaying
-                            ? "bg-yellow-500 text-white hover:bg-yellow-600"
-                            : "bg-green-600 text-white hover:bg-green-700"
-                        }`}
-                        onClick={handleToggleAutoPlay}
-                      >
-                        {isAutoPlaying ? "Pause" : "Auto Play"}
-                      </button>
-                    </>
-                  )}
-                  <button
-                    className="px-4 py-2 rounded-md bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200 font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
-                    onClick={handleResetGraph}
-                  >
-                    Reset Graph
-                  </button>
-
-                  {/* Graph & visualization configuration */}
-                  <div className="flex flex-wrap gap-2 w-full mt-4 justify-center items-center">
-                    <div className="flex items-center gap-2">
-                      <label className="text-sm">Density:</label>
-                      <input
-                        type="number"
-                        value={graphDensity}
-                        onChange={(e) =>
-                          setGraphDensity(
-                            Math.min(1, Math.max(0.05, Number(e.target.value))),
-                          )
-                        }
-                        className="px-3 py-1 w-20 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200"
-                        step="0.05"
-                        min="0.05"
-                        max="1"
-                      />
-                    </div>
-
-                    <div className="flex items-center gap-2">
-                      <label className="text-sm">Size:</label>
-                      <input
-                        type="number"
-                        value={graphSize}
-                        onChange={(e) =>
-                          setGraphSize(
-                            Math.min(100, Math.max(2, Number(e.target.value))),
-                          )
-                        }
-                        className="px-3 py-1 w-20 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200"
-                        min="2"
-                        max="100"
-                      />
-                    </div>
-
-                    {/* Gradient toggle */}
-                    <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
-                      <input
-                        type="checkbox"
-                        checked={useGradient}
-                        onChange={(e) => setUseGradient(e.target.checked)}
-                        className="mr-2"
-                      />
-                      <span className="text-sm">Use Gradients</span>
-                    </label>
-
-                    {/* Debug mode toggle */}
-                    <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
-                      <input
-                        type="checkbox"
-                        checked={debug}
-                        onChange={(e) => setDebug(e.target.checked)}
-                        className="mr-2"
-                      />
-                      <span className="text-sm">Debug Mode</span>
-                    </label>
-                  </div>
-                </div>
-              </div>
-            </div>
-          </div>
+    <GraphVisualizerLayout
+      title="Dijkstra's Algorithm Visualizer"
+      graph={graph}
+      steps={steps}
+      playback={playback}
+      code={queue === "heap" ? DIJKSTRA_CODE : DIJKSTRA_LINEAR_CODE}
+      markerRules={MARKER_RULES}
+      highlightedNodes={highlights.nodes}
+      highlightedEdges={highlights.edges}
+      isEditing={isEditing}
+      onGraphChange={input.editGraph}
+      hoveredNodeId={hoveredNodeId}
+      onNodeHover={setHoveredNodeId}
+      onNodeClick={handleNodeClick}
+      hint="Click a node to make it the target, and click the target again to visit every node."
+      panel={
+        <div className="flex flex-col gap-3">
+          {run.error && (
+            <p role="alert" className="text-sm text-center text-red-500">
+              {run.error}
+            </p>
+          )}
+          <DijkstraPanel
+            graph={graph}
+            step={currentStep}
+            stepIndex={playback.index}
+            result={finished ? run.result : null}
+            targetNodeId={targetNodeId}
+            showHeap={showHeap}
+            hoveredNodeId={hoveredNodeId}
+            onHover={setHoveredNodeId}
+          />
         </div>
-      </main>
-      <Footer />
-    </div>
+      }
+      controls={
+        <GraphInputControls
+          input={input}
+          isEditing={isEditing}
+          onEditingChange={setIsEditing}
+          showTarget={stopAtTarget}
+        >
+          <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={stopAtTarget}
+              onChange={(e) => setStopAtTarget(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm">Stop at Target</span>
+          </label>
+          <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={granularity === "edge"}
+              onChange={(e) =>
+                setGranularity(e.target.checked ? "edge" : "node")
+              }
+              className="mr-2"
+            />
+            <span className="text-sm">Per-Edge Steps</span>
+          </label>
+          <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={queue === "linear"}
+              onChange={(e) => setQueue(e.target.checked ? "linear" : "heap")}
+              className="mr-2"
+            />
+            <span className="text-sm">Linear Scan</span>
+          </label>
+          {queue === "heap" && (
+            <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+              <input
+                type="checkbox"
+                checked={showHeap}
+                onChange={(e) => setShowHeap(e.target.checked)}
+                className="mr-2"
+              />
+              <span className="text-sm">Show Heap</span>
+            </label>
+          )}
+        </GraphInputControls>
+      }
+    />
   );
 };
 
@@ -0,0 +1,264 @@
+"use client"; // needed for d3
+import React, { FC, useMemo, useState } from "react";
+
+// webpage visuals
+import GraphVisualizerLayout from "@/components/graph-visualizer-layout";
+import GraphInputControls from "@/components/graph-input-controls";
+import DistanceMatrix, { MatrixCell } from "@/components/distance-matrix";
+import { useGraphInput } from "@/components/use-graph-input";
+import { usePlayback } from "@/components/use-playback";
+import { useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import {
+  floydWarshall,
+  FLOYD_WARSHALL_CODE,
+  floydWarshallPath,
+  FloydWarshallStep,
+} from "@/algorithms-core/floyd_warshall";
+import {
+  EdgeHighlight,
+  Graph,
+  NodeHighlight,
+} from "@/algorithms-core/graphs_common";
+import { MarkerRule } from "@/algorithms-core/trace";
+
+// Define theme colors for the visualization in one place for easy customization
+const COLORS = {
+  FROM_NODE: {
+    color: "hsl(120, 100%, 40%)",
+    fillColor: "hsl(120, 100%, 35%)",
+  },
+  TO_NODE: { color: "hsl(45, 100%, 50%)", fillColor: "hsl(45, 100%, 45%)" },
+  K_NODE: {
+    color: "hsl(270, 100%, 70%)",
+    fillColor: "hsl(270, 100%, 60%)",
+  },
+  CYCLE_NODE: { color: "hsl(0, 90%, 60%)", fillColor: "hsl(0, 90%, 50%)" },
+  DEFAULT_NODE: {
+    color: "hsl(210, 100%, 50%)",
+    fillColor: "hsl(210, 100%, 40%)",
+  },
+
+  PATH_EDGE: "hsl(150, 100%, 40%)",
+  TO_K_EDGE: "hsl(200, 100%, 60%)",
+  FROM_K_EDGE: "hsl(30, 100%, 55%)",
+};
+
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<FloydWarshallStep>[] = [
+  {
+    label: "Paths shortened",
+    color: COLORS.PATH_EDGE,
+    match: (step) => step.kind === "relax",
+  },
+  {
+    label: "Negative cycle",
+    color: COLORS.CYCLE_NODE.fillColor,
+    match: (step) => step.negativeCycle !== null,
+  },
+];
+
+// Shared empty step list used while the graph has no nodes
+const NO_STEPS: FloydWarshallStep[] = [];
+
+// Edges along a path of node IDs, all in one color
+function pathEdges(path: string[] | null, color: string): EdgeHighlight[] {
+  return (path ?? []).slice(1).map((targetId, i) => ({
+    sourceId: path![i],
+    targetId,
+    color,
+    width: 5,
+  }));
+}
+
+// Node and edge colors for a step: the intermediate node k and any negative
+// cycle. With a matrix cell hovered, the path from its row's node to its
+// column's node: through k as i -> k -> j while k is being tried, otherwise
+// the best path found.
+function getHighlights(
+  graph: Graph,
+  step: FloydWarshallStep | undefined,
+  hoveredCell: MatrixCell | null,
+): { nodes: NodeHighlight[]; edges: EdgeHighlight[] } {
+  const cycle = new Set(step?.negativeCycle);
+  const k = step?.k ?? null;
+  const from = step && hoveredCell ? step.nodeIds[hoveredCell.row] : null;
+  const to = step && hoveredCell ? step.nodeIds[hoveredCell.col] : null;
+  const nodes = Object.keys(graph.nodes).map((nodeId) => {
+    let colors = COLORS.DEFAULT_NODE;
+    if (cycle.has(nodeId)) colors = COLORS.CYCLE_NODE;
+    else if (nodeId === from) colors = COLORS.FROM_NODE;
+    else if (nodeId === to) colors = COLORS.TO_NODE;
+    else if (k !== null && nodeId === step?.nodeIds[k]) colors = COLORS.K_NODE;
+    return { nodeId, ...colors };
+  });
+
+  const edges: EdgeHighlight[] = [];
+  if (step && hoveredCell) {
+    const { row, col } = hoveredCell;
+    if (k !== null && k !== row && k !== col) {
+      const toK = floydWarshallPath(step, row, k);
+      const fromK = floydWarshallPath(step, k, col);
+      if (toK && fromK) {
+        edges.push(
+          ...pathEdges(toK, COLORS.TO_K_EDGE),
+          ...pathEdges(fromK, COLORS.FROM_K_EDGE),
+        );
+      }
+    } else {
+      edges.push(
+        ...pathEdges(floydWarshallPath(step, row, col), COLORS.PATH_EDGE),
+      );
+    }
+  }
+
+  return { nodes, edges };
+}
+
+interface MatrixPanelProps {
+  graph: Graph;
+  step: FloydWarshallStep | undefined;
+  stepIndex: number;
+  hoveredCell: MatrixCell | null;
+  onHover: (cell: MatrixCell | null) => void;
+}
+
+// The node tried as k, the distance matrix and, for the hovered cell, the
+// sum the step compares it against.
+const MatrixPanel: FC<MatrixPanelProps> = ({
+  graph,
+  step,
+  stepIndex,
+  hoveredCell,
+  onHover,
+}) => {
+  if (!step) return null;
+  const name = (nodeId: string) => graph.nodes[nodeId]?.label ?? nodeId;
+  const format = (distance: number) =>
+    distance === Infinity ? "∞" : String(distance);
+  const { k, nodeIds, distances } = step;
+
+  let detail: string | null = null;
+  if (hoveredCell) {
+    const { row, col } = hoveredCell;
+    const path = floydWarshallPath(step, row, col);
+    detail =
+      `${name(nodeIds[row])} → ${name(nodeIds[col])}: ` +
+      (path
+        ? `${format(distances[row][col])} along ${path.map(name).join(" → ")}`
+        : "no path yet");
+    if (k !== null && k !== row && k !== col) {
+      detail +=
+        `; through ${name(nodeIds[k])}: ` +
+        `${format(distances[row][k])} + ${format(distances[k][col])}`;
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <p className="font-semibold">
+        {k === null
+          ? step.kind === "init"
+            ? "Direct distances"
+            : "Final distances"
+          : `k = ${name(nodeIds[k])} (${k + 1} of ${nodeIds.length})`}
+      </p>
+      {step.negativeCycle && (
+        <p role="alert" className="text-sm text-red-500">
+          Negative cycle through {step.negativeCycle.map(name).join(", ")}
+        </p>
+      )}
+      <DistanceMatrix
+        step={step}
+        stepIndex={stepIndex}
+        name={name}
+        hoveredCell={hoveredCell}
+        onHover={onHover}
+      />
+      <p className="text-gray-500 dark:text-gray-400">
+        {detail ?? "Hover a cell to see its path on the graph."}
+      </p>
+    </div>
+  );
+};
+
+const FloydWarshallPage: FC = () => {
+  // The graph and step are restored from and kept in the link. The matrix
+  // grows with the square of the node count, so graphs start out small.
+  const input = useGraphInput({ size: 8, density: 0.25, directed: true });
+  const { graph, graphVersion, initialStep, urlParams } = input;
+  const [isEditing, setIsEditing] = useState(false);
+  const [hoveredCell, setHoveredCell] = useState<MatrixCell | null>(null);
+
+  // Record every step up front; the first step holds the edge weights.
+  const steps = useMemo(
+    () =>
+      Object.keys(graphVersion.graph.nodes).length > 0
+        ? floydWarshall(graphVersion.graph).steps
+        : NO_STEPS,
+    [graphVersion],
+  );
+  const playback = usePlayback(steps, {
+    baseInterval: 1000,
+    initialIndex: initialStep,
+  });
+  useUrlSync({ ...urlParams, step: String(playback.index) });
+
+  const currentStep = isEditing ? undefined : playback.step;
+  // A cell hovered before the graph shrank may no longer exist
+  const shownCell =
+    currentStep &&
+    hoveredCell &&
+    Math.max(hoveredCell.row, hoveredCell.col) < currentStep.nodeIds.length
+      ? hoveredCell
+      : null;
+  const highlights = useMemo(
+    () => getHighlights(graph, currentStep, shownCell),
+    [graph, currentStep, shownCell],
+  );
+
+  return (
+    <GraphVisualizerLayout
+      title="Floyd-Warshall Algorithm Visualizer"
+      graph={graph}
+      steps={steps}
+      playback={playback}
+      code={FLOYD_WARSHALL_CODE}
+      markerRules={MARKER_RULES}
+      highlightedNodes={highlights.nodes}
+      highlightedEdges={highlights.edges}
+      isEditing={isEditing}
+      onGraphChange={input.editGraph}
+      panel={
+        <MatrixPanel
+          graph={graph}
+          step={currentStep}
+          stepIndex={playback.index}
+          hoveredCell={shownCell}
+          onHover={setHoveredCell}
+        />
+      }
+      controls={
+        <GraphInputControls
+          input={input}
+          isEditing={isEditing}
+          onEditingChange={setIsEditing}
+          showStart={false}
+        >
+          <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={input.negativeWeights}
+              onChange={(e) => input.setNegativeWeights(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm">Negative Weights</span>
+          </label>
+        </GraphInputControls>
+      }
+    />
+  );
+};
+
+export default FloydWarshallPage;
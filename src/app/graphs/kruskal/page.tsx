@@ -0,0 +1,237 @@
+"use client"; // needed for d3
+import React, { FC, useMemo, useState } from "react";
+
+// webpage visuals
+import GraphVisualizerLayout from "@/components/graph-visualizer-layout";
+import GraphInputControls from "@/components/graph-input-controls";
+import MSTSummary, {
+  getMSTEdgeHighlights,
+  MST_COLORS,
+} from "@/components/mst-summary";
+import { useGraphInput } from "@/components/use-graph-input";
+import { usePlayback } from "@/components/use-playback";
+import { toQueryString, useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import { Graph, NodeHighlight } from "@/algorithms-core/graphs_common";
+import { kruskal, KRUSKAL_CODE, KruskalStep } from "@/algorithms-core/kruskal";
+import { hasMutation, MarkerRule } from "@/algorithms-core/trace";
+
+// Define theme colors for the visualization in one place for easy customization
+const COLORS = {
+  DEFAULT_NODE: {
+    color: "hsl(210, 100%, 50%)",
+    fillColor: "hsl(210, 100%, 40%)",
+  },
+};
+
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<KruskalStep>[] = [
+  {
+    label: "Edge added",
+    color: MST_COLORS.TREE_EDGE,
+    match: (step) => hasMutation(step, "tree"),
+  },
+  {
+    label: "Edge rejected",
+    color: MST_COLORS.REJECTED_EDGE,
+    match: (step) => hasMutation(step, "rejected"),
+  },
+];
+
+// Shared empty step list used while the graph cannot be run on
+const NO_STEPS: KruskalStep[] = [];
+
+// Root of a node's set in a union-find forest
+function findRoot(forest: Map<string, string>, nodeId: string): string {
+  let root = nodeId;
+  while (forest.get(root) !== undefined && forest.get(root) !== root) {
+    root = forest.get(root)!;
+  }
+  return root;
+}
+
+// Nodes colored by their union-find set; nodes still on their own keep the
+// default color.
+function getNodeHighlights(
+  graph: Graph,
+  step: KruskalStep | undefined,
+): NodeHighlight[] {
+  const nodeIds = Object.keys(graph.nodes);
+  const roots = new Map(
+    nodeIds.map((nodeId) => [
+      nodeId,
+      step ? findRoot(step.forest, nodeId) : nodeId,
+    ]),
+  );
+  const sizes = new Map<string, number>();
+  roots.forEach((root) => sizes.set(root, (sizes.get(root) ?? 0) + 1));
+  // Spread the hues of the merged sets around the color wheel
+  const merged = [...sizes.keys()].filter((root) => sizes.get(root)! > 1);
+
+  return nodeIds.map((nodeId) => {
+    const index = merged.indexOf(roots.get(nodeId)!);
+    if (index === -1) return { nodeId, ...COLORS.DEFAULT_NODE };
+    const hue = Math.round((index * 360) / merged.length + 30) % 360;
+    return {
+      nodeId,
+      color: `hsl(${hue}, 80%, 55%)`,
+      fillColor: `hsl(${hue}, 80%, 45%)`,
+    };
+  });
+}
+
+interface KruskalPanelProps {
+  graph: Graph;
+  step: KruskalStep;
+}
+
+// The sorted edge list, with the tree edges, rejected edges and current edge
+// marked, and the union-find forest drawn as nested lists.
+const KruskalPanel: FC<KruskalPanelProps> = ({ graph, step }) => {
+  const name = (nodeId: string) => graph.nodes[nodeId]?.label ?? nodeId;
+  const inTree = new Set(step.tree.map((edge) => edge.id));
+  const rejected = new Set(step.rejected);
+  const justRejected = hasMutation(step, "rejected");
+
+  const children = new Map<string, string[]>();
+  step.forest.forEach((parent, nodeId) => {
+    if (parent === nodeId) return;
+    children.set(parent, [...(children.get(parent) ?? []), nodeId]);
+  });
+  const roots = [...step.forest.keys()].filter(
+    (nodeId) => step.forest.get(nodeId) === nodeId,
+  );
+  const subtree = (nodeId: string) => (
+    <li key={nodeId}>
+      {name(nodeId)}
+      {children.has(nodeId) && (
+        <ul className="ml-4 border-l border-gray-300 dark:border-gray-700 pl-2">
+          {children.get(nodeId)!.map(subtree)}
+        </ul>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <section>
+        <h3 className="font-semibold mb-1">Edges by weight</h3>
+        <ol className="max-h-60 overflow-y-auto font-mono">
+          {step.sortedEdges.map((edge, i) => {
+            const isCurrent = i === step.edgeIndex;
+            let className = "px-2 rounded";
+            if (isCurrent && justRejected) {
+              className += " bg-red-200 dark:bg-red-900/60 animate-pulse";
+            } else if (isCurrent) {
+              className += " bg-yellow-100 dark:bg-yellow-900/40";
+            }
+            if (inTree.has(edge.id)) {
+              className += " text-green-600 dark:text-green-400";
+            } else if (rejected.has(edge.id)) {
+              className += " text-red-500 line-through";
+            }
+            return (
+              <li key={edge.id} className={className}>
+                {name(edge.sourceId)} - {name(edge.targetId)}: {edge.weight}
+              </li>
+            );
+          })}
+        </ol>
+      </section>
+      <section>
+        <h3 className="font-semibold mb-1">Union-find forest</h3>
+        <ul className="flex flex-wrap gap-x-4 gap-y-1 font-mono">
+          {roots.map(subtree)}
+        </ul>
+      </section>
+    </div>
+  );
+};
+
+const KruskalPage: FC = () => {
+  // The graph and step are restored from and kept in the link.
+  const input = useGraphInput();
+  const { graph, graphVersion, initialStep, urlParams } = input;
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Record every step up front; imported directed graphs are refused.
+  const run = useMemo(() => {
+    try {
+      return { steps: kruskal(graphVersion.graph).steps, error: null };
+    } catch (err) {
+      return { steps: NO_STEPS, error: (err as Error).message };
+    }
+  }, [graphVersion]);
+  const playback = usePlayback(run.steps, {
+    baseInterval: 750,
+    initialIndex: initialStep,
+  });
+  useUrlSync({ ...urlParams, step: String(playback.index) });
+
+  const currentStep = isEditing ? undefined : playback.step;
+  const highlightedNodes = useMemo(
+    () => getNodeHighlights(graph, currentStep),
+    [graph, currentStep],
+  );
+  const highlightedEdges = useMemo(
+    () =>
+      getMSTEdgeHighlights(
+        currentStep,
+        currentStep !== undefined && hasMutation(currentStep, "rejected"),
+      ),
+    [currentStep],
+  );
+
+  return (
+    <GraphVisualizerLayout
+      title="Kruskal's Algorithm Visualizer"
+      graph={graph}
+      steps={run.steps}
+      playback={playback}
+      code={KRUSKAL_CODE}
+      markerRules={MARKER_RULES}
+      highlightedNodes={highlightedNodes}
+      highlightedEdges={highlightedEdges}
+      isEditing={isEditing}
+      onGraphChange={input.editGraph}
+      panel={
+        <div className="flex flex-col gap-3">
+          {run.error && (
+            <p role="alert" className="text-sm text-center text-red-500">
+              {run.error}
+            </p>
+          )}
+          <MSTSummary
+            step={currentStep}
+            nodeCount={Object.keys(graph.nodes).length}
+            compareHref={`/graphs/prim?${toQueryString(urlParams)}`}
+            compareLabel="Run Prim's algorithm on this graph"
+          />
+          {currentStep && <KruskalPanel graph={graph} step={currentStep} />}
+        </div>
+      }
+      controls={
+        <GraphInputControls
+          input={input}
+          isEditing={isEditing}
+          onEditingChange={setIsEditing}
+          showStart={false}
+          allowDirected={false}
+        >
+          <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={input.negativeWeights}
+              onChange={(e) => input.setNegativeWeights(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm">Negative Weights</span>
+          </label>
+        </GraphInputControls>
+      }
+    />
+  );
+};
+
+export default KruskalPage;
@@ -21,54 +21,68 @@ const cardInfo: {
     status: "working",
     preview: <DijkstrasPreview />, // Add the preview component here
   },
+  {
+    href: "/graphs/a-star",
+    card_name: "A* Search",
+    card_text:
+      "A* finds a shortest path to a single goal by expanding the node with the lowest cost so far plus a heuristic estimate of the cost left, reaching the goal after far fewer expansions than Dijkstra's algorithm.",
+    status: "working",
+  },
   {
     href: "/graphs/breadth-first-search",
     card_name: "Breadth-First Search (BFS)",
     card_text:
       "BFS is a graph traversal algorithm that explores all vertices at the present depth before moving on to vertices at the next depth level. It's ideal for finding the shortest path on unweighted graphs.",
-    status: "wip",
+    status: "working",
   },
   {
     href: "/graphs/depth-first-search",
     card_name: "Depth-First Search (DFS)",
     card_text:
       "DFS is a graph traversal algorithm that explores as far as possible along each branch before backtracking. It's useful for topological sorting, detecting cycles, and maze generation.",
-    status: "wip",
+    status: "working",
   },
   {
     href: "/graphs/bellman-ford",
     card_name: "Bellman-Ford Algorithm",
     card_text:
       "The Bellman-Ford algorithm computes shortest paths from a single source vertex to all other vertices, even with negative edge weights. It can detect negative cycles in a graph.",
-    status: "wip",
+    status: "working",
+  },
+  {
+    href: "/graphs/floyd-warshall",
+    card_name: "Floyd-Warshall Algorithm",
+    card_text:
+      "The Floyd-Warshall algorithm finds the shortest paths between every pair of vertices by dynamic programming, filling a distance matrix as it lets paths pass through one more vertex at a time. It handles negative edge weights and detects negative cycles.",
+    status: "working",
   },
   {
     href: "/graphs/prim",
     card_name: "Prim's Algorithm",
     card_text:
       "Prim's algorithm finds a minimum spanning tree for a weighted undirected graph, connecting all vertices with the minimum possible total edge weight.",
-    status: "wip",
+    status: "working",
   },
   {
     href: "/graphs/kruskal",
     card_name: "Kruskal's Algorithm",
     card_text:
       "Kruskal's algorithm finds a minimum spanning tree for a connected weighted graph, adding the smallest edge at each step that doesn't form a cycle.",
-    status: "wip",
+    status: "working",
   },
   {
     href: "/graphs/topological-sort",
     card_name: "Topological Sort",
     card_text:
       "Topological sorting arranges the nodes of a directed acyclic graph in a linear ordering such that for every directed edge (u, v), vertex u comes before v.",
-    status: "wip",
+    status: "working",
   },
   {
     href: "/graphs/strongly-connected",
     card_name: "Strongly Connected Components",
     card_text:
       "A strongly connected component is a portion of a directed graph in which there is a path from each vertex to every other vertex. Kosaraju's or Tarjan's algorithms can find them.",
-    status: "wip",
+    status: "working",
   },
 ];
 
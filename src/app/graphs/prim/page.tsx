@@ -0,0 +1,211 @@
+"use client"; // needed for d3
+import React, { FC, useMemo, useState } from "react";
+
+// webpage visuals
+import GraphVisualizerLayout from "@/components/graph-visualizer-layout";
+import GraphInputControls from "@/components/graph-input-controls";
+import MSTSummary, {
+  getMSTEdgeHighlights,
+  MST_COLORS,
+} from "@/components/mst-summary";
+import { useGraphInput } from "@/components/use-graph-input";
+import { usePlayback } from "@/components/use-playback";
+import { toQueryString, useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import { Graph, NodeHighlight } from "@/algorithms-core/graphs_common";
+import { prim, PRIM_CODE, PrimStep } from "@/algorithms-core/prim";
+import { hasMutation, MarkerRule } from "@/algorithms-core/trace";
+
+// Define theme colors for the visualization in one place for easy customization
+const COLORS = {
+  START_NODE: {
+    color: "hsl(120, 100%, 40%)",
+    fillColor: "hsl(120, 100%, 35%)",
+  },
+  CURRENT_NODE: {
+    color: "hsl(270, 100%, 70%)",
+    fillColor: "hsl(270, 100%, 60%)",
+  },
+  QUEUED_NODE: { color: "hsl(45, 100%, 50%)", fillColor: "hsl(45, 100%, 45%)" },
+  TREE_NODE: {
+    color: "hsl(217, 100%, 18%)",
+    fillColor: "hsl(217, 100%, 30%)",
+  },
+  DEFAULT_NODE: {
+    color: "hsl(210, 100%, 50%)",
+    fillColor: "hsl(210, 100%, 40%)",
+  },
+};
+
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<PrimStep>[] = [
+  {
+    label: "Edge added",
+    color: MST_COLORS.TREE_EDGE,
+    match: (step) => hasMutation(step, "tree"),
+  },
+  {
+    label: "Key lowered",
+    color: COLORS.QUEUED_NODE.fillColor,
+    match: (step) => step.kind === "relax",
+  },
+];
+
+// Shared empty step list used while the graph cannot be run on
+const NO_STEPS: PrimStep[] = [];
+
+// Nodes colored by whether they are in the tree, waiting in the queue or
+// just added.
+function getNodeHighlights(
+  graph: Graph,
+  step: PrimStep | undefined,
+  startNodeId: string | null,
+): NodeHighlight[] {
+  const inTree = new Set(step?.inTree);
+  const queued = new Set(step?.queue.map((entry) => entry.nodeId));
+  return Object.keys(graph.nodes).map((nodeId) => {
+    let colors = COLORS.DEFAULT_NODE;
+    if (nodeId === step?.currentNodeId) colors = COLORS.CURRENT_NODE;
+    else if (inTree.has(nodeId)) colors = COLORS.TREE_NODE;
+    else if (queued.has(nodeId)) colors = COLORS.QUEUED_NODE;
+    else if (nodeId === startNodeId) colors = COLORS.START_NODE;
+    return { nodeId, ...colors };
+  });
+}
+
+interface PriorityQueuePanelProps {
+  graph: Graph;
+  step: PrimStep;
+}
+
+// The priority queue, lightest key first, with the edge behind each key.
+const PriorityQueuePanel: FC<PriorityQueuePanelProps> = ({ graph, step }) => {
+  const name = (nodeId: string) => graph.nodes[nodeId]?.label ?? nodeId;
+  return (
+    <section className="text-sm">
+      <h3 className="font-semibold mb-1">Priority queue (lightest first)</h3>
+      {step.queue.length === 0 ? (
+        <span className="text-gray-500 dark:text-gray-400">empty</span>
+      ) : (
+        <table className="w-full text-left">
+          <thead>
+            <tr>
+              <th className="font-semibold">Node</th>
+              <th className="font-semibold">Key</th>
+              <th className="font-semibold">Via</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {step.queue.map((entry) => (
+              <tr
+                key={entry.nodeId}
+                className={
+                  entry.nodeId === step.currentEdge?.targetId
+                    ? "bg-yellow-100 dark:bg-yellow-900/40"
+                    : undefined
+                }
+              >
+                <td>{name(entry.nodeId)}</td>
+                <td>{entry.key}</td>
+                <td>
+                  {entry.via
+                    ? `${name(entry.via.sourceId)} - ${name(entry.nodeId)}`
+                    : "-"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
+
+const PrimPage: FC = () => {
+  // The graph, start node and step are restored from and kept in the link.
+  const input = useGraphInput();
+  const { graph, graphVersion, startNodeId, initialStep, urlParams } = input;
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Record every step up front; imported directed graphs are refused.
+  const run = useMemo(() => {
+    if (!startNodeId) return { steps: NO_STEPS, error: null };
+    try {
+      return {
+        steps: prim(graphVersion.graph, startNodeId).steps,
+        error: null,
+      };
+    } catch (err) {
+      return { steps: NO_STEPS, error: (err as Error).message };
+    }
+  }, [graphVersion, startNodeId]);
+  const playback = usePlayback(run.steps, {
+    baseInterval: 750,
+    initialIndex: initialStep,
+  });
+  useUrlSync({ ...urlParams, step: String(playback.index) });
+
+  const currentStep = isEditing ? undefined : playback.step;
+  const highlightedNodes = useMemo(
+    () => getNodeHighlights(graph, currentStep, startNodeId),
+    [graph, currentStep, startNodeId],
+  );
+  const highlightedEdges = useMemo(
+    () => getMSTEdgeHighlights(currentStep),
+    [currentStep],
+  );
+
+  return (
+    <GraphVisualizerLayout
+      title="Prim's Algorithm Visualizer"
+      graph={graph}
+      steps={run.steps}
+      playback={playback}
+      code={PRIM_CODE}
+      markerRules={MARKER_RULES}
+      highlightedNodes={highlightedNodes}
+      highlightedEdges={highlightedEdges}
+      isEditing={isEditing}
+      onGraphChange={input.editGraph}
+      panel={
+        <div className="flex flex-col gap-3">
+          {run.error && (
+            <p role="alert" className="text-sm text-center text-red-500">
+              {run.error}
+            </p>
+          )}
+          <MSTSummary
+            step={currentStep}
+            nodeCount={Object.keys(graph.nodes).length}
+            compareHref={`/graphs/kruskal?${toQueryString(urlParams)}`}
+            compareLabel="Run Kruskal's algorithm on this graph"
+          />
+          {currentStep && (
+            <PriorityQueuePanel graph={graph} step={currentStep} />
+          )}
+        </div>
+      }
+      controls={
+        <GraphInputControls
+          input={input}
+          isEditing={isEditing}
+          onEditingChange={setIsEditing}
+          allowDirected={false}
+        >
+          <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={input.negativeWeights}
+              onChange={(e) => input.setNegativeWeights(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm">Negative Weights</span>
+          </label>
+        </GraphInputControls>
+      }
+    />
+  );
+};
+
+export default PrimPage;
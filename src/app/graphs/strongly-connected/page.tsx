@@ -0,0 +1,417 @@
+"use client"; // needed for d3
+import React, { FC, useMemo, useState } from "react";
+
+// webpage visuals
+import GraphVisualizerLayout from "@/components/graph-visualizer-layout";
+import GraphInputControls from "@/components/graph-input-controls";
+import { useGraphInput } from "@/components/use-graph-input";
+import { usePlayback } from "@/components/use-playback";
+import { useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import {
+  EdgeHighlight,
+  Graph,
+  GraphVisualizer,
+  NodeHighlight,
+} from "@/algorithms-core/graphs_common";
+import {
+  kosaraju,
+  KOSARAJU_CODE,
+  KosarajuStep,
+} from "@/algorithms-core/kosaraju";
+import {
+  componentNodeId,
+  condenseGraph,
+  getComponentIndex,
+  SCCStep,
+} from "@/algorithms-core/scc";
+import { tarjan, TARJAN_CODE, TarjanStep } from "@/algorithms-core/tarjan";
+import { hasMutation, MarkerRule } from "@/algorithms-core/trace";
+
+type Method = "tarjan" | "kosaraju";
+
+// The steps of a run, tagged with the method that recorded them
+type SCCRun = { components: string[][] } & (
+  | { method: "tarjan"; steps: TarjanStep[] }
+  | { method: "kosaraju"; steps: KosarajuStep[] }
+);
+
+// Define theme colors for the visualization in one place for easy customization
+const COLORS = {
+  CURRENT_NODE: {
+    color: "hsl(270, 100%, 70%)",
+    fillColor: "hsl(270, 100%, 60%)",
+  },
+  STACK_NODE: {
+    color: "hsl(45, 100%, 50%)",
+    fillColor: "hsl(45, 100%, 45%)",
+  },
+  FINISHED_NODE: {
+    color: "hsl(217, 100%, 18%)",
+    fillColor: "hsl(217, 100%, 30%)",
+  },
+  DEFAULT_NODE: {
+    color: "hsl(210, 100%, 50%)",
+    fillColor: "hsl(210, 100%, 40%)",
+  },
+  EXAMINED_EDGE: "hsl(200, 100%, 60%)",
+};
+
+// Distinct colors for each component, spread by the golden angle so
+// neighbouring indices never look alike
+function componentColors(index: number): { color: string; fillColor: string } {
+  const hue = Math.round(index * 137.5 + 20) % 360;
+  return {
+    color: `hsl(${hue}, 80%, 55%)`,
+    fillColor: `hsl(${hue}, 80%, 45%)`,
+  };
+}
+
+// Events marked on the timeline for each method
+const COMPONENT_FOUND: MarkerRule<SCCStep> = {
+  label: "Component found",
+  color: componentColors(0).fillColor,
+  match: (step) => hasMutation(step, "components"),
+};
+const MARKER_RULES: Record<Method, MarkerRule<SCCStep>[]> = {
+  tarjan: [
+    COMPONENT_FOUND,
+    {
+      label: "Low-link lowered",
+      color: COLORS.STACK_NODE.fillColor,
+      match: (step) => hasMutation(step, "lowLink"),
+    },
+  ],
+  kosaraju: [
+    COMPONENT_FOUND,
+    {
+      label: "Second pass starts",
+      color: COLORS.FINISHED_NODE.fillColor,
+      // Only the step opening the second pass points at line 3
+      match: (step) => step.line === 3,
+    },
+  ],
+};
+
+// Nodes on the stack at a step, and those the first pass of Kosaraju's
+// algorithm has finished; Tarjan's algorithm keeps no finish order.
+function searchState(
+  run: SCCRun,
+  index: number,
+): { stack: string[]; finished: string[] } {
+  if (run.method === "tarjan") {
+    return { stack: run.steps[index]?.stack ?? [], finished: [] };
+  }
+  const step = run.steps[index];
+  return { stack: step?.stack ?? [], finished: step?.finished ?? [] };
+}
+
+// Nodes take the color of their component once it is found; until then they
+// are colored by their place in the search. Edges inside a component take
+// its color, and the edge being examined is drawn thicker.
+function getHighlights(
+  graph: Graph,
+  step: SCCStep | undefined,
+  stackIds: string[],
+  finishedIds: string[],
+): { nodes: NodeHighlight[]; edges: EdgeHighlight[] } {
+  const componentOf = getComponentIndex(step?.components ?? []);
+  const stack = new Set(stackIds);
+  const finished = new Set(finishedIds);
+
+  const nodes = Object.keys(graph.nodes).map((nodeId) => {
+    const component = componentOf.get(nodeId);
+    let colors = COLORS.DEFAULT_NODE;
+    if (nodeId === step?.currentNodeId) colors = COLORS.CURRENT_NODE;
+    else if (component !== undefined) colors = componentColors(component);
+    else if (stack.has(nodeId)) colors = COLORS.STACK_NODE;
+    else if (finished.has(nodeId)) colors = COLORS.FINISHED_NODE;
+    return { nodeId, ...colors };
+  });
+
+  const edges: EdgeHighlight[] = [];
+  graph.get_all_edges().forEach((edge) => {
+    const component = componentOf.get(edge.from_node.id);
+    if (
+      component === undefined ||
+      component !== componentOf.get(edge.to_node.id)
+    ) {
+      return;
+    }
+    edges.push({
+      sourceId: edge.from_node.id,
+      targetId: edge.to_node.id,
+      color: componentColors(component).color,
+      width: 3,
+    });
+  });
+  step?.highlights.forEach((hl) => {
+    if (hl.type !== "edge") return;
+    edges.push({
+      sourceId: hl.sourceId,
+      targetId: hl.targetId,
+      color: COLORS.EXAMINED_EDGE,
+      width: 5,
+    });
+  });
+
+  return { nodes, edges };
+}
+
+interface SCCPanelProps {
+  graph: Graph;
+  run: SCCRun;
+  index: number; // Index of the step to show, within the run
+}
+
+// The components found so far, with Tarjan's index and low-link table or
+// Kosaraju's pass and finish order.
+const SCCPanel: FC<SCCPanelProps> = ({ graph, run, index }) => {
+  const step = run.steps[index];
+  if (!step) return null;
+  const name = (nodeId: string) => graph.nodes[nodeId]?.label ?? nodeId;
+  const changed = new Set(step.mutations.map((m) => String(m.key)));
+
+  const nodeList = (nodeIds: string[]) =>
+    nodeIds.length === 0 ? (
+      <span className="text-gray-500 dark:text-gray-400">empty</span>
+    ) : (
+      <ol className="flex flex-wrap gap-1">
+        {nodeIds.map((nodeId) => (
+          <li
+            key={nodeId}
+            className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-800 font-mono"
+          >
+            {name(nodeId)}
+          </li>
+        ))}
+      </ol>
+    );
+
+  let algorithmState: React.ReactNode;
+  if (run.method === "tarjan") {
+    const step = run.steps[index];
+    const onStack = new Set(step.stack);
+    algorithmState = (
+      <>
+        <section>
+          <h3 className="font-semibold mb-1">Stack (bottom to top)</h3>
+          {nodeList(step.stack)}
+        </section>
+        <section>
+          <h3 className="font-semibold mb-1">Index and low-link</h3>
+          <table className="w-full text-left">
+            <thead>
+              <tr>
+                <th className="font-semibold">Node</th>
+                <th className="font-semibold">Index</th>
+                <th className="font-semibold">Low</th>
+                <th className="font-semibold">On stack</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {[...step.index].map(([nodeId, index]) => (
+                <tr
+                  key={nodeId}
+                  className={
+                    changed.has(nodeId)
+                      ? "bg-yellow-100 dark:bg-yellow-900/40"
+                      : undefined
+                  }
+                >
+                  <td>{name(nodeId)}</td>
+                  <td>{index}</td>
+                  <td>{step.lowLink.get(nodeId)}</td>
+                  <td>{onStack.has(nodeId) ? "yes" : "no"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      </>
+    );
+  } else {
+    const kosarajuStep = run.steps[index];
+    algorithmState = (
+      <>
+        <p className="font-semibold">
+          {kosarajuStep.pass === 1
+            ? "Pass 1: depth-first search of the graph"
+            : "Pass 2: search of the transposed graph, following edges backwards"}
+        </p>
+        <section>
+          <h3 className="font-semibold mb-1">Stack (bottom to top)</h3>
+          {nodeList(kosarajuStep.stack)}
+        </section>
+        <section>
+          <h3 className="font-semibold mb-1">Finish order</h3>
+          {nodeList(kosarajuStep.finished)}
+        </section>
+      </>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      {algorithmState}
+      <section>
+        <h3 className="font-semibold mb-1">Components</h3>
+        {step.components.length === 0 ? (
+          <span className="text-gray-500 dark:text-gray-400">none yet</span>
+        ) : (
+          <ul className="flex flex-col gap-1">
+            {step.components.map((members, i) => (
+              <li key={i} className="flex items-center gap-2">
+                <span
+                  className="inline-block w-3 h-3 rounded-full"
+                  style={{ backgroundColor: componentColors(i).fillColor }}
+                />
+                <span className="font-semibold">C{i + 1}:</span>
+                <span className="font-mono">
+                  {members.map(name).join(", ")}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+interface CondensedViewProps {
+  graph: Graph;
+  components: string[][];
+}
+
+// The condensation of the graph, one node per component in its color.
+const CondensedView: FC<CondensedViewProps> = ({ graph, components }) => {
+  const condensed = useMemo(
+    () => condenseGraph(graph, components),
+    [graph, components],
+  );
+  const highlightedNodes = useMemo(
+    () =>
+      components.map((_, i) => ({
+        nodeId: componentNodeId(i),
+        ...componentColors(i),
+      })),
+    [components],
+  );
+
+  return (
+    <section className="text-sm">
+      <h3 className="font-semibold mb-1">Condensed DAG</h3>
+      <p className="text-gray-500 dark:text-gray-400 mb-2">
+        Each component shrunk to one node; edge weights count the edges between
+        components.
+      </p>
+      <div className="w-full h-72 rounded-md overflow-hidden">
+        <GraphVisualizer
+          width={0}
+          height={0}
+          graph={condensed}
+          highlightedNodes={highlightedNodes}
+        />
+      </div>
+    </section>
+  );
+};
+
+const StronglyConnectedPage: FC = () => {
+  // The graph, method and step are restored from and kept in the link.
+  const input = useGraphInput({ directed: true });
+  const { graph, graphVersion, params, initialStep, urlParams } = input;
+  const [method, setMethod] = useState<Method>(() =>
+    params.get("method") === "kosaraju" ? "kosaraju" : "tarjan",
+  );
+  const [showCondensed, setShowCondensed] = useState(
+    () => params.get("condensed") === "1",
+  );
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Record every step up front
+  const run = useMemo(
+    (): SCCRun =>
+      method === "tarjan"
+        ? { method, ...tarjan(graphVersion.graph) }
+        : { method, ...kosaraju(graphVersion.graph) },
+    [graphVersion, method],
+  );
+  const playback = usePlayback<SCCStep>(run.steps, {
+    baseInterval: 750,
+    initialIndex: initialStep,
+  });
+  useUrlSync({
+    ...urlParams,
+    start: undefined,
+    method: method === "kosaraju" ? "kosaraju" : undefined,
+    condensed: showCondensed ? "1" : undefined,
+    step: String(playback.index),
+  });
+
+  const currentStep = isEditing ? undefined : playback.step;
+  const highlights = useMemo(() => {
+    const { stack, finished } = currentStep
+      ? searchState(run, playback.index)
+      : { stack: [], finished: [] };
+    return getHighlights(graph, currentStep, stack, finished);
+  }, [graph, run, currentStep, playback.index]);
+
+  return (
+    <GraphVisualizerLayout
+      title="Strongly Connected Components Visualizer"
+      graph={graph}
+      steps={run.steps}
+      playback={playback}
+      code={method === "tarjan" ? TARJAN_CODE : KOSARAJU_CODE}
+      markerRules={MARKER_RULES[method]}
+      highlightedNodes={highlights.nodes}
+      highlightedEdges={highlights.edges}
+      isEditing={isEditing}
+      onGraphChange={input.editGraph}
+      panel={
+        <div className="flex flex-col gap-3">
+          {currentStep && (
+            <SCCPanel graph={graph} run={run} index={playback.index} />
+          )}
+          {showCondensed && (
+            <CondensedView graph={graph} components={run.components} />
+          )}
+        </div>
+      }
+      controls={
+        <GraphInputControls
+          input={input}
+          isEditing={isEditing}
+          onEditingChange={setIsEditing}
+          showStart={false}
+        >
+          <label className="flex items-center gap-2 text-sm">
+            Method:
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as Method)}
+              className="px-2 py-1 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200"
+            >
+              <option value="tarjan">Tarjan</option>
+              <option value="kosaraju">Kosaraju</option>
+            </select>
+          </label>
+          <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={showCondensed}
+              onChange={(e) => setShowCondensed(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm">Condensed DAG</span>
+          </label>
+        </GraphInputControls>
+      }
+    />
+  );
+};
+
+export default StronglyConnectedPage;
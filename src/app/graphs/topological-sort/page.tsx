@@ -0,0 +1,341 @@
+"use client"; // needed for d3
+import React, { FC, useMemo, useState } from "react";
+
+// webpage visuals
+import GraphVisualizerLayout from "@/components/graph-visualizer-layout";
+import GraphInputControls from "@/components/graph-input-controls";
+import { useGraphInput } from "@/components/use-graph-input";
+import { usePlayback } from "@/components/use-playback";
+import { useUrlSync } from "@/components/use-url-state";
+
+// algorithms core
+import {
+  EdgeHighlight,
+  Graph,
+  NodeHighlight,
+} from "@/algorithms-core/graphs_common";
+import {
+  dfsTopologicalSort,
+  formatCycle,
+  KAHN_CODE,
+  KahnStep,
+  kahnTopologicalSort,
+  TOPOLOGICAL_DFS_CODE,
+  TopologicalDFSStep,
+  TopologicalSortStep,
+} from "@/algorithms-core/topological_sort";
+import { hasMutation, MarkerRule } from "@/algorithms-core/trace";
+
+type Method = "kahn" | "dfs";
+
+// The steps of a run, tagged with the method that recorded them
+type SortRun = { error: string | null } & (
+  | { method: "kahn"; steps: KahnStep[] }
+  | { method: "dfs"; steps: TopologicalDFSStep[] }
+);
+
+// Define theme colors for the visualization in one place for easy customization
+const COLORS = {
+  CURRENT_NODE: {
+    color: "hsl(270, 100%, 70%)",
+    fillColor: "hsl(270, 100%, 60%)",
+  },
+  WAITING_NODE: {
+    color: "hsl(45, 100%, 50%)",
+    fillColor: "hsl(45, 100%, 45%)",
+  },
+  PLACED_NODE: {
+    color: "hsl(217, 100%, 18%)",
+    fillColor: "hsl(217, 100%, 30%)",
+  },
+  CYCLE_NODE: { color: "hsl(0, 90%, 60%)", fillColor: "hsl(0, 90%, 50%)" },
+  DEFAULT_NODE: {
+    color: "hsl(210, 100%, 50%)",
+    fillColor: "hsl(210, 100%, 40%)",
+  },
+  EXAMINED_EDGE: "hsl(200, 100%, 60%)",
+  CYCLE_EDGE: "hsl(0, 90%, 60%)",
+};
+
+// Events marked on the timeline
+const MARKER_RULES: MarkerRule<TopologicalSortStep>[] = [
+  {
+    label: "Node placed",
+    color: COLORS.PLACED_NODE.fillColor,
+    match: (step) =>
+      hasMutation(step, "order") || hasMutation(step, "finished"),
+  },
+  {
+    label: "Cycle found",
+    color: COLORS.CYCLE_EDGE,
+    match: (step) => step.kind === "done" && step.cycle !== null,
+  },
+];
+
+// Nodes waiting to be placed at a step: Kahn's queue, or the depth-first stack
+function waitingNodes(run: SortRun, index: number): string[] {
+  return run.method === "kahn"
+    ? (run.steps[index]?.queue ?? [])
+    : (run.steps[index]?.stack ?? []);
+}
+
+// Nodes colored by whether they are on a cycle, being handled, waiting or
+// already placed; edges show the cycle and the edge being examined.
+function getHighlights(
+  graph: Graph,
+  step: TopologicalSortStep | undefined,
+  waitingIds: string[],
+): { nodes: NodeHighlight[]; edges: EdgeHighlight[] } {
+  const cycle = new Set(step?.cycle);
+  const waiting = new Set(waitingIds);
+  const placed = new Set(step?.order);
+
+  const nodes = Object.keys(graph.nodes).map((nodeId) => {
+    let colors = COLORS.DEFAULT_NODE;
+    if (cycle.has(nodeId)) colors = COLORS.CYCLE_NODE;
+    else if (nodeId === step?.currentNodeId) colors = COLORS.CURRENT_NODE;
+    else if (placed.has(nodeId)) colors = COLORS.PLACED_NODE;
+    else if (waiting.has(nodeId)) colors = COLORS.WAITING_NODE;
+    return { nodeId, ...colors };
+  });
+
+  const edges: EdgeHighlight[] = [];
+  step?.highlights.forEach((hl) => {
+    if (hl.type !== "edge") return;
+    edges.push({
+      sourceId: hl.sourceId,
+      targetId: hl.targetId,
+      color: hl.role === "path" ? COLORS.CYCLE_EDGE : COLORS.EXAMINED_EDGE,
+      width: 5,
+    });
+  });
+
+  return { nodes, edges };
+}
+
+interface TopologicalSortPanelProps {
+  graph: Graph;
+  run: SortRun;
+  index: number; // Index of the step to show, within the run
+}
+
+// The order so far, and the in-degree table and queue of Kahn's algorithm
+// or the stack and finish order of the depth-first sort.
+const TopologicalSortPanel: FC<TopologicalSortPanelProps> = ({
+  graph,
+  run,
+  index,
+}) => {
+  const step = run.steps[index];
+  if (!step) return null;
+  const name = (nodeId: string) => graph.nodes[nodeId]?.label ?? nodeId;
+  const placed = new Set(step.order);
+  const changed = new Set(
+    step.mutations
+      .filter((m) => m.target === "inDegree")
+      .map((m) => String(m.key)),
+  );
+
+  const nodeList = (nodeIds: string[]) =>
+    nodeIds.length === 0 ? (
+      <span className="text-gray-500 dark:text-gray-400">empty</span>
+    ) : (
+      <ol className="flex flex-wrap gap-1">
+        {nodeIds.map((nodeId) => (
+          <li
+            key={nodeId}
+            className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-800 font-mono"
+          >
+            {name(nodeId)}
+          </li>
+        ))}
+      </ol>
+    );
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      {step.cycle && (
+        <p role="alert" className="text-sm text-center text-red-500">
+          The graph has a cycle, {formatCycle(step.cycle.map(name))}, so it has
+          no topological order.
+        </p>
+      )}
+      <section>
+        <h3 className="font-semibold mb-1">Topological order</h3>
+        {nodeList(step.order)}
+      </section>
+      {run.method === "kahn" ? (
+        <>
+          <section>
+            <h3 className="font-semibold mb-1">Queue (front to back)</h3>
+            {nodeList(run.steps[index].queue)}
+          </section>
+          <section>
+            <h3 className="font-semibold mb-1">Incoming edges left</h3>
+            <table className="w-full text-left">
+              <thead>
+                <tr>
+                  <th className="font-semibold">Node</th>
+                  <th className="font-semibold">In-degree</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {[...run.steps[index].inDegree].map(([nodeId, degree]) => (
+                  <tr
+                    key={nodeId}
+                    className={
+                      changed.has(nodeId)
+                        ? "bg-yellow-100 dark:bg-yellow-900/40"
+                        : placed.has(nodeId)
+                          ? "text-gray-400 dark:text-gray-500"
+                          : undefined
+                    }
+                  >
+                    <td>{name(nodeId)}</td>
+                    <td>{placed.has(nodeId) ? "placed" : degree}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </>
+      ) : (
+        <>
+          <section>
+            <h3 className="font-semibold mb-1">Stack (bottom to top)</h3>
+            {nodeList(run.steps[index].stack)}
+          </section>
+          <section>
+            <h3 className="font-semibold mb-1">Finish order</h3>
+            {nodeList(run.steps[index].finished)}
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+const TopologicalSortPage: FC = () => {
+  // The graph, method and step are restored from and kept in the link.
+  const input = useGraphInput({ directed: true, acyclic: true });
+  const { graph, graphVersion, params, initialStep, urlParams } = input;
+  const [method, setMethod] = useState<Method>(() =>
+    params.get("method") === "dfs" ? "dfs" : "kahn",
+  );
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Record every step up front; imported undirected graphs are refused.
+  const run = useMemo((): SortRun => {
+    try {
+      return method === "kahn"
+        ? {
+            method,
+            steps: kahnTopologicalSort(graphVersion.graph).steps,
+            error: null,
+          }
+        : {
+            method,
+            steps: dfsTopologicalSort(graphVersion.graph).steps,
+            error: null,
+          };
+    } catch (err) {
+      return { method, steps: [], error: (err as Error).message };
+    }
+  }, [graphVersion, method]);
+  const playback = usePlayback<TopologicalSortStep>(run.steps, {
+    baseInterval: 750,
+    initialIndex: initialStep,
+  });
+  useUrlSync({
+    ...urlParams,
+    start: undefined,
+    method: method === "dfs" ? "dfs" : undefined,
+    step: String(playback.index),
+  });
+
+  const currentStep = isEditing ? undefined : playback.step;
+  const highlights = useMemo(
+    () =>
+      getHighlights(
+        graph,
+        currentStep,
+        currentStep ? waitingNodes(run, playback.index) : [],
+      ),
+    [graph, run, currentStep, playback.index],
+  );
+  const finalCycle = run.steps[run.steps.length - 1]?.cycle ?? null;
+
+  return (
+    <GraphVisualizerLayout
+      title="Topological Sort Visualizer"
+      graph={graph}
+      steps={run.steps}
+      playback={playback}
+      code={method === "kahn" ? KAHN_CODE : TOPOLOGICAL_DFS_CODE}
+      markerRules={MARKER_RULES}
+      highlightedNodes={highlights.nodes}
+      highlightedEdges={highlights.edges}
+      isEditing={isEditing}
+      onGraphChange={input.editGraph}
+      panel={
+        <div className="flex flex-col gap-3">
+          {run.error && (
+            <p role="alert" className="text-sm text-center text-red-500">
+              {run.error}
+            </p>
+          )}
+          {finalCycle && !currentStep?.cycle && (
+            <p className="text-sm text-center text-red-500">
+              This graph has a cycle (
+              {formatCycle(
+                finalCycle.map(
+                  (nodeId) => graph.nodes[nodeId]?.label ?? nodeId,
+                ),
+              )}
+              ); play to the end to see where the sort gets stuck.
+            </p>
+          )}
+          {currentStep && (
+            <TopologicalSortPanel
+              graph={graph}
+              run={run}
+              index={playback.index}
+            />
+          )}
+        </div>
+      }
+      controls={
+        <GraphInputControls
+          input={input}
+          isEditing={isEditing}
+          onEditingChange={setIsEditing}
+          showStart={false}
+          allowDirected={false}
+        >
+          <label className="flex items-center gap-2 text-sm">
+            Method:
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as Method)}
+              className="px-2 py-1 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200"
+            >
+              <option value="kahn">Kahn&apos;s algorithm</option>
+              <option value="dfs">Depth-first search</option>
+            </select>
+          </label>
+          <label className="flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={input.acyclic}
+              onChange={(e) => input.setAcyclic(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm">Acyclic</span>
+          </label>
+        </GraphInputControls>
+      }
+    />
+  );
+};
+
+export default TopologicalSortPage;
@@ -215,7 +215,7 @@ export default function Home() {
                   card_name="Dynamic Programming"
                   card_text="Master DP through interactive visualizations."
                   href="/dynamic-programming"
-                  status="wip"
+                  status="partial"
                   preview={<DPPreview />} // Pass preview component
                 />
               </CardWrapper>
@@ -4,12 +4,18 @@ import { useEffect, FC, useRef, useState } from "react";
 import * as d3 from "d3";
 
 interface ArrayBaseProps {
-  array: number[];
+  array: (number | null)[]; // null renders an empty box
   pivotIndex?: number;
   comparing?: number[];
+  writeIndex?: number;
 }
 
-const ArrayBase: FC<ArrayBaseProps> = ({ array, pivotIndex, comparing }) => {
+const ArrayBase: FC<ArrayBaseProps> = ({
+  array,
+  pivotIndex,
+  comparing,
+  writeIndex,
+}) => {
   const svgRef = useRef<SVGSVGElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
@@ -88,7 +94,9 @@ const ArrayBase: FC<ArrayBaseProps> = ({ array, pivotIndex, comparing }) => {
       .attr("stroke", "black")
       .attr("fill", (d, i) => {
         if (pivotIndex !== undefined && i === pivotIndex) return "red";
+        if (writeIndex !== undefined && i === writeIndex) return "limegreen";
         if (comparing && comparing.includes(i)) return "orange";
+        if (d === null) return "lightgray";
         return "white";
       })
       .attr("rx", 10);
@@ -111,8 +119,8 @@ const ArrayBase: FC<ArrayBaseProps> = ({ array, pivotIndex, comparing }) => {
       .attr("text-anchor", "middle")
       .attr("font-size", "18px")
       .attr("font-weight", "bold")
-      .text((d) => d);
-  }, [array, comparing, pivotIndex, dimensions]); // Re-run if the array or dimensions change
+      .text((d) => d ?? "");
+  }, [array, comparing, pivotIndex, writeIndex, dimensions]); // Re-run if the array or dimensions change
 
   return (
     <div
@@ -0,0 +1,129 @@
+"use client";
+import { FC, FormEvent, useState } from "react";
+import {
+  ARRAY_PRESETS,
+  ArrayPreset,
+  generatePresetArray,
+  parseArrayInput,
+} from "@/algorithms-core/arrays_common";
+import { createSeededRandom } from "@/algorithms-core/random";
+import SeedInput from "./seed-input";
+
+interface ArrayInputControlsProps {
+  onSubmit: (arr: number[]) => void;
+  seed: number; // Seed used to generate arrays
+  onSeedChange: (seed: number) => void;
+  length?: number; // Length of generated arrays
+  min?: number; // Smallest generated value
+  max?: number; // Largest generated value
+}
+
+const buttonClass =
+  "px-4 py-2 rounded-md bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200 font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors";
+const fieldClass =
+  "px-2 py-1 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200";
+
+/**
+ * Controls for choosing the array to sort: a preset distribution generated
+ * from a seed, or a list of numbers typed in by the user.
+ *
+ * @param onSubmit: called with the new array
+ * @param seed: the seed generated arrays are drawn from
+ * @param onSeedChange: called with a new seed, before the array it generates
+ * @param length: length of generated arrays, 25 by default
+ * @param min: smallest generated value, 1 by default
+ * @param max: largest generated value, 50 by default
+ * @returns
+ */
+const ArrayInputControls: FC<ArrayInputControlsProps> = ({
+  onSubmit,
+  seed,
+  onSeedChange,
+  length = 25,
+  min = 1,
+  max = 50,
+}) => {
+  const [preset, setPreset] = useState<ArrayPreset>("random");
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = (fromSeed: number) => {
+    setError(null);
+    onSubmit(
+      generatePresetArray(
+        preset,
+        length,
+        min,
+        max,
+        createSeededRandom(fromSeed),
+      ),
+    );
+  };
+
+  // A new seed also generates a new array from it
+  const handleSeedChange = (newSeed: number) => {
+    onSeedChange(newSeed);
+    generate(newSeed);
+  };
+
+  const handleCustom = (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      onSubmit(parseArrayInput(text));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 w-full">
+      <div className="flex flex-wrap gap-2 justify-center items-center">
+        <label className="flex items-center gap-2 text-sm">
+          Input:
+          <select
+            value={preset}
+            onChange={(e) => setPreset(e.target.value as ArrayPreset)}
+            className={fieldClass}
+          >
+            {ARRAY_PRESETS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button className={buttonClass} onClick={() => generate(seed)}>
+          Generate
+        </button>
+      </div>
+
+      <SeedInput seed={seed} onChange={handleSeedChange} />
+
+      <form
+        onSubmit={handleCustom}
+        className="flex flex-wrap gap-2 justify-center items-center"
+      >
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="e.g. 5, 3, 8, 1"
+          aria-label="Custom array"
+          aria-invalid={error !== null}
+          className={`${fieldClass} flex-1 min-w-[12rem] max-w-md`}
+        />
+        <button type="submit" className={buttonClass}>
+          Use Array
+        </button>
+      </form>
+      {error && (
+        <p role="alert" className="text-sm text-center text-red-500">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ArrayInputControls;
@@ -2,6 +2,14 @@ import React, { useRef, useState, useEffect, useCallback } from "react";
 import { motion, useInView, useAnimation } from "framer-motion";
 import { computeShortestPath } from "@/algorithms-core/dynamic_common";
 
+// Table cell size and colors, also used by the Floyd-Warshall distance matrix
+export const CELL_SIZE = 25;
+export const CELL_SPACING = 3;
+export const CELL_FILL = "#374151";
+export const READ_FILL = "#4B5563"; // Cells picked out: the path here, row and column k there
+export const BORDER = "#9CA3AF";
+export const TEXT_FILL = "#D1D5DB";
+
 // DPPreview component for dynamic programming - completely redesigned
 const DPPreview = () => {
   const ref = useRef(null);
@@ -66,8 +74,8 @@ const DPPreview = () => {
   // Grid dimensions
   const rows = 5;
   const cols = 5;
-  const cellSize = 25;
-  const spacing = 3;
+  const cellSize = CELL_SIZE;
+  const spacing = CELL_SPACING;
 
   // DP table mock values (e.g., for a shortest path problem)
   const dpValues = [
@@ -125,8 +133,8 @@ const DPPreview = () => {
             width={cellSize}
             height={cellSize}
             rx={3}
-            fill={isOnPath ? "#4B5563" : "#374151"}
-            stroke="#9CA3AF"
+            fill={isOnPath ? READ_FILL : CELL_FILL}
+            stroke={BORDER}
             strokeWidth={1}
             initial={{ opacity: 0 }}
             animate={cellControls}
@@ -149,7 +157,7 @@ const DPPreview = () => {
               y={y}
               textAnchor="middle"
               dominantBaseline="middle"
-              fill="#D1D5DB"
+              fill={TEXT_FILL}
               fontSize="10"
               fontWeight="bold"
               initial={{ opacity: 0 }}
@@ -166,7 +174,7 @@ const DPPreview = () => {
       <motion.path
         d={createPathString()}
         fill="none"
-        stroke="#9CA3AF"
+        stroke={BORDER}
         strokeWidth={2}
         strokeDasharray="4 2"
         initial={{ pathLength: 0, opacity: 0 }}
@@ -183,7 +191,7 @@ const DPPreview = () => {
           refY="3"
           orient="auto"
         >
-          <polygon points="0 0, 8 3, 0 6" fill="#9CA3AF" />
+          <polygon points="0 0, 8 3, 0 6" fill={BORDER} />
         </marker>
       </defs>
 
@@ -201,7 +209,7 @@ const DPPreview = () => {
 
             return `M${x1},${y1} L${x2},${y2}`;
           })()}
-          stroke="#9CA3AF"
+          stroke={BORDER}
           strokeWidth={2}
           markerEnd="url(#arrowhead)"
           initial={{ pathLength: 0, opacity: 0 }}
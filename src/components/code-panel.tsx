@@ -0,0 +1,96 @@
+"use client";
+import { FC, useEffect, useRef, useState } from "react";
+import {
+  CodeLanguage,
+  CodeListing,
+  getListingLine,
+} from "@/algorithms-core/trace";
+
+interface CodePanelProps {
+  listings: CodeListing[];
+  line?: number; // Pseudo-code line of the current step
+  narration?: string; // Description of the current step
+}
+
+const LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  pseudocode: "Pseudo-code",
+  typescript: "TypeScript",
+  python: "Python",
+  java: "Java",
+};
+
+/**
+ * Code listing for the current algorithm with the executing line highlighted.
+ *
+ * @param listings: the algorithm's listings, pseudo-code first
+ * @param line: the pseudo-code line recorded on the current step
+ * @param narration: description of the current step shown above the code
+ * @returns
+ */
+const CodePanel: FC<CodePanelProps> = ({ listings, line, narration }) => {
+  const [language, setLanguage] = useState<CodeLanguage>(
+    listings[0]?.language ?? "pseudocode",
+  );
+  const activeLineRef = useRef<HTMLDivElement | null>(null);
+
+  const listing =
+    listings.find((item) => item.language === language) ?? listings[0];
+  const activeLine = listing ? getListingLine(listing, line) : undefined;
+
+  // Keep the executing line in view
+  useEffect(() => {
+    activeLineRef.current?.scrollIntoView?.({ block: "nearest" });
+  }, [activeLine, language]);
+
+  if (!listing) return null;
+
+  return (
+    <div className="w-full flex flex-col gap-2">
+      {listings.length > 1 && (
+        <div className="flex flex-wrap gap-1">
+          {listings.map((item) => (
+            <button
+              key={item.language}
+              onClick={() => setLanguage(item.language)}
+              className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                item.language === listing.language
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-700 text-gray-200 hover:bg-gray-600"
+              }`}
+            >
+              {LANGUAGE_LABELS[item.language]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {narration && (
+        <p className="text-sm text-gray-200 bg-gray-900 rounded-md p-2">
+          {narration}
+        </p>
+      )}
+
+      <pre className="text-xs leading-5 bg-gray-900 text-gray-100 rounded-md py-2 overflow-auto max-h-[60vh]">
+        {listing.lines.map((text, index) => {
+          const isActive = index + 1 === activeLine;
+          return (
+            <div
+              key={index}
+              ref={isActive ? activeLineRef : undefined}
+              className={`flex px-2 ${isActive ? "bg-yellow-500/30" : ""}`}
+            >
+              <span className="w-6 shrink-0 text-right pr-2 text-gray-500 select-none">
+                {index + 1}
+              </span>
+              <code className={isActive ? "text-yellow-200 font-bold" : ""}>
+                {text || " "}
+              </code>
+            </div>
+          );
+        })}
+      </pre>
+    </div>
+  );
+};
+
+export default CodePanel;
@@ -1,19 +1,27 @@
 "use client";
 import { useState } from "react";
+import CodePanel from "./code-panel";
+import { CodeListing } from "@/algorithms-core/trace";
 
 interface SidebarProps {
   opt1Action: () => void;
   opt2Action: () => void;
   opt3Action: () => void;
   isAutoStepping?: boolean; // Add this prop
+  code?: CodeListing[]; // Listings shown in the code panel
+  line?: number; // Pseudo-code line of the current step
+  narration?: string; // Description of the current step
 }
 
 /**
- * Sidebar main function will simply execute 3 different functions
- * @param opt1Action: the stepping button, step through the algorithm at one step
- * @param opt2Action: N/A not implemented
- * @param opt3Action: N/A not implemented
+ * Sidebar with the stepping controls and the code panel for the algorithm
+ * @param opt1Action: toggles auto stepping
+ * @param opt2Action: the stepping button, step through the algorithm at one step
+ * @param opt3Action: steps back to the previous step
  * @param isAutoStepping: boolean to determine if the algorithm is auto stepping
+ * @param code: the algorithm's listings, pseudo-code first
+ * @param line: the pseudo-code line to highlight
+ * @param narration: description of the current step
  * @returns
  */
 export default function Sidebar({
@@ -21,6 +29,9 @@ export default function Sidebar({
   opt2Action,
   opt3Action,
   isAutoStepping,
+  code,
+  line,
+  narration,
 }: SidebarProps) {
   const [open, setOpen] = useState(false);
 
@@ -28,7 +39,7 @@ export default function Sidebar({
     <>
       {/* Sidebar Panel */}
       <div
-        className={`fixed top-0 right-0 h-full w-64 bg-gray-800 text-white shadow-lg transition-transform duration-300 transform ${
+        className={`fixed top-0 right-0 h-full w-96 bg-gray-800 text-white shadow-lg transition-transform duration-300 transform overflow-y-auto ${
           open ? "translate-x-0" : "translate-x-full"
         }`}
       >
@@ -42,7 +53,7 @@ export default function Sidebar({
                 : "bg-gray-700 hover:bg-gray-600"
             }`}
           >
-            Toggle Auto Stepping (0.5s)
+            Toggle Auto Stepping
           </button>
           <button
             onClick={opt2Action}
@@ -54,8 +65,14 @@ export default function Sidebar({
             onClick={opt3Action}
             className="w-full p-2 bg-gray-700 rounded-md text-left mt-2 hover:bg-gray-600"
           >
-            Option 3
+            Step Back
           </button>
+          {code && (
+            <div className="mt-6">
+              <h2 className="text-xl font-semibold mb-2">Code</h2>
+              <CodePanel listings={code} line={line} narration={narration} />
+            </div>
+          )}
         </div>
       </div>
 
@@ -63,12 +80,12 @@ export default function Sidebar({
       {/*
         This button is always visible.
         - When closed, it sits at the right edge (right-0) as the only visible element.
-        - When open, it shifts to the left edge of the panel (right-64).
+        - When open, it shifts to the left edge of the panel (right-96).
       */}
       <button
         onClick={() => setOpen(!open)}
         className={`fixed top-1/2 transform -translate-y-1/2 bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-white p-2 rounded-l-md shadow-lg transition-all duration-300 ${
-          open ? "right-64" : "right-0"
+          open ? "right-96" : "right-0"
         }`}
       >
         {open ? (
@@ -0,0 +1,146 @@
+"use client";
+import { FC } from "react";
+import { motion } from "framer-motion";
+import { FloydWarshallStep } from "@/algorithms-core/floyd_warshall";
+import {
+  BORDER,
+  CELL_FILL,
+  CELL_SIZE,
+  CELL_SPACING,
+  READ_FILL,
+  TEXT_FILL,
+} from "@/components/card-animations/dp-preview";
+
+export interface MatrixCell {
+  row: number;
+  col: number;
+}
+
+interface DistanceMatrixProps {
+  step: FloydWarshallStep;
+  stepIndex: number; // Restarts the animation of changed cells on every step
+  name: (id: string) => string; // Label to show for a node
+  hoveredCell: MatrixCell | null;
+  onHover: (cell: MatrixCell | null) => void;
+}
+
+const LABEL_SPACE = 30;
+const CHANGED_FILL = "#92400E";
+const FLASH_FILL = "#F59E0B";
+const HIGHLIGHT = "#FBBF24";
+
+function formatDistance(distance: number): string {
+  return distance === Infinity ? "∞" : String(distance);
+}
+
+/**
+ * The V×V distance matrix of a Floyd-Warshall step, row i and column j
+ * holding the shortest known distance from node i to node j. The row and
+ * column of the intermediate node k are shaded, since every cell is compared
+ * against them, and cells shortened in the step light up as they change.
+ *
+ * @param step: the step to show
+ * @param stepIndex: the index of the step, so changes animate on every step
+ * @param name: the label to show for a node
+ * @param hoveredCell: the cell under the mouse
+ * @param onHover: called with the cell hovered, or null
+ * @returns
+ */
+const DistanceMatrix: FC<DistanceMatrixProps> = ({
+  step,
+  stepIndex,
+  name,
+  hoveredCell,
+  onHover,
+}) => {
+  const n = step.nodeIds.length;
+  const size = LABEL_SPACE + n * (CELL_SIZE + CELL_SPACING);
+  const changed = new Set(
+    step.mutations
+      .filter((m) => m.target === "distances")
+      .map((m) => String(m.key)),
+  );
+  const offset = (index: number) =>
+    LABEL_SPACE + index * (CELL_SIZE + CELL_SPACING);
+
+  return (
+    <svg
+      width="100%"
+      viewBox={`0 0 ${size} ${size}`}
+      className="max-w-full"
+      role="img"
+      aria-label="Distance matrix"
+      onMouseLeave={() => onHover(null)}
+    >
+      {step.nodeIds.map((nodeId, i) => (
+        <g key={nodeId} fill={i === step.k ? HIGHLIGHT : BORDER}>
+          <text
+            x={offset(i) + CELL_SIZE / 2}
+            y={LABEL_SPACE / 2}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fontSize="10"
+            fontWeight="bold"
+          >
+            {name(nodeId)}
+          </text>
+          <text
+            x={LABEL_SPACE / 2}
+            y={offset(i) + CELL_SIZE / 2}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fontSize="10"
+            fontWeight="bold"
+          >
+            {name(nodeId)}
+          </text>
+        </g>
+      ))}
+      {step.distances.map((row, i) =>
+        row.map((distance, j) => {
+          const key = `${i},${j}`;
+          const isChanged = changed.has(key);
+          const isHovered = hoveredCell?.row === i && hoveredCell.col === j;
+          return (
+            <g key={key} onMouseEnter={() => onHover({ row: i, col: j })}>
+              {/* Keyed by step so a cell lights up again when it changes again */}
+              <motion.rect
+                key={isChanged ? stepIndex : "still"}
+                x={offset(j)}
+                y={offset(i)}
+                width={CELL_SIZE}
+                height={CELL_SIZE}
+                rx={3}
+                stroke={isHovered ? HIGHLIGHT : BORDER}
+                strokeWidth={isHovered ? 2 : 1}
+                initial={isChanged ? { fill: FLASH_FILL } : false}
+                animate={{
+                  fill: isChanged
+                    ? CHANGED_FILL
+                    : i === step.k || j === step.k
+                      ? READ_FILL
+                      : CELL_FILL,
+                }}
+                transition={{ duration: 0.6 }}
+              />
+              <text
+                x={offset(j) + CELL_SIZE / 2}
+                y={offset(i) + CELL_SIZE / 2}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fill={TEXT_FILL}
+                fontSize="10"
+                fontWeight="bold"
+                pointerEvents="none"
+              >
+                {formatDistance(distance)}
+              </text>
+            </g>
+          );
+        }),
+      )}
+    </svg>
+  );
+};
+
+export default DistanceMatrix;
@@ -0,0 +1,194 @@
+"use client";
+import { FC, useState } from "react";
+import { Graph } from "@/algorithms-core/graphs_common";
+import { TraceStep } from "@/algorithms-core/trace";
+
+// A step of a shortest-path algorithm, with the distances and previous nodes
+// it has found so far
+export interface DistanceStep extends TraceStep {
+  distances: Map<string, number>;
+  previous: Map<string, string | null>;
+}
+
+type SortColumn = "node" | "distance" | "previous" | "state";
+
+interface DistanceTableProps {
+  graph: Graph;
+  step: DistanceStep;
+  stepIndex: number; // Restarts the flash of changed cells on every step
+  visited?: Set<string>; // Nodes whose distance is final, when the algorithm has them
+  currentNodeId?: string | null; // Node the step works on, shown in bold
+  hoveredNodeId: string | null;
+  onHover: (nodeId: string | null) => void;
+}
+
+function formatDistance(distance: number | undefined): string {
+  if (distance === undefined || distance === Infinity) return "∞";
+  return String(distance);
+}
+
+// Orders numbers with infinity last and labels alphabetically
+function compare(a: number | string, b: number | string): number {
+  if (a === b) return 0;
+  if (typeof a === "number" && typeof b === "number") return a < b ? -1 : 1;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+/**
+ * Every node's tentative distance, previous node and, when the algorithm
+ * finalizes nodes, whether it is final yet. Clicking a heading sorts by that
+ * column and clicking it again reverses the order. Cells changed in the step
+ * flash, and hovering a row highlights its node in the graph; hovering a node
+ * highlights its row.
+ *
+ * @param graph: the graph being searched, for node labels and order
+ * @param step: the step to show
+ * @param stepIndex: the index of the step, so changes flash on every step
+ * @param visited: the nodes whose distance is final
+ * @param currentNodeId: the node the step works on
+ * @param hoveredNodeId: the node hovered in the table or the graph
+ * @param onHover: called with the node of the row hovered, or null
+ * @returns
+ */
+const DistanceTable: FC<DistanceTableProps> = ({
+  graph,
+  step,
+  stepIndex,
+  visited,
+  currentNodeId,
+  hoveredNodeId,
+  onHover,
+}) => {
+  const [sort, setSort] = useState<{ column: SortColumn; ascending: boolean }>({
+    column: "node",
+    ascending: true,
+  });
+  const name = (nodeId: string) => graph.nodes[nodeId]?.label ?? nodeId;
+  const changed = (target: string) =>
+    new Set(
+      step.mutations
+        .filter((m) => m.target === target)
+        .map((m) => String(m.key)),
+    );
+  const changedDistances = changed("distances");
+  const changedPrevious = changed("previous");
+
+  const state = (nodeId: string) => {
+    if (visited?.has(nodeId)) return "final";
+    return (step.distances.get(nodeId) ?? Infinity) < Infinity
+      ? "tentative"
+      : "unreached";
+  };
+  const sortValue = (nodeId: string, position: number): number | string => {
+    switch (sort.column) {
+      case "node":
+        return position;
+      case "distance":
+        return step.distances.get(nodeId) ?? Infinity;
+      case "previous": {
+        const previous = step.previous.get(nodeId);
+        return previous ? name(previous) : "";
+      }
+      case "state":
+        return ["final", "tentative", "unreached"].indexOf(state(nodeId));
+    }
+  };
+  // Ties keep the graph's order
+  const rows = Object.keys(graph.nodes)
+    .map((nodeId, position) => ({ nodeId, position }))
+    .sort(
+      (a, b) =>
+        (sort.ascending ? 1 : -1) *
+          compare(
+            sortValue(a.nodeId, a.position),
+            sortValue(b.nodeId, b.position),
+          ) || a.position - b.position,
+    );
+
+  const columns: { id: SortColumn; label: string }[] = [
+    { id: "node", label: "Node" },
+    { id: "distance", label: "Distance" },
+    { id: "previous", label: "Previous" },
+    ...(visited ? [{ id: "state" as const, label: "State" }] : []),
+  ];
+  const sortBy = (column: SortColumn) =>
+    setSort((current) => ({
+      column,
+      ascending: current.column === column ? !current.ascending : true,
+    }));
+  const cellClass = (isChanged: boolean) =>
+    isChanged ? "bg-yellow-100 dark:bg-yellow-900/40 animate-flash" : "";
+
+  return (
+    <table className="w-full text-left text-sm">
+      <thead>
+        <tr>
+          {columns.map(({ id, label }) => (
+            <th
+              key={id}
+              className="font-semibold"
+              aria-sort={
+                sort.column === id
+                  ? sort.ascending
+                    ? "ascending"
+                    : "descending"
+                  : undefined
+              }
+            >
+              <button className="hover:underline" onClick={() => sortBy(id)}>
+                {label}
+                {sort.column === id && (sort.ascending ? " ▲" : " ▼")}
+              </button>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="font-mono" onMouseLeave={() => onHover(null)}>
+        {rows.map(({ nodeId }) => {
+          const previous = step.previous.get(nodeId);
+          const distanceChanged = changedDistances.has(nodeId);
+          const previousChanged = changedPrevious.has(nodeId);
+          return (
+            <tr
+              key={nodeId}
+              onMouseEnter={() => onHover(nodeId)}
+              className={`${
+                nodeId === hoveredNodeId
+                  ? "bg-blue-100 dark:bg-blue-900/40"
+                  : ""
+              } ${nodeId === currentNodeId ? "font-bold" : ""}`}
+            >
+              <td>{name(nodeId)}</td>
+              {/* Keyed by step so the flash starts over when a cell changes again */}
+              <td
+                key={distanceChanged ? `distance-${stepIndex}` : "distance"}
+                className={cellClass(distanceChanged)}
+              >
+                {formatDistance(step.distances.get(nodeId))}
+              </td>
+              <td
+                key={previousChanged ? `previous-${stepIndex}` : "previous"}
+                className={cellClass(previousChanged)}
+              >
+                {previous ? name(previous) : "-"}
+              </td>
+              {visited && (
+                <td
+                  className={
+                    state(nodeId) === "final"
+                      ? undefined
+                      : "text-gray-500 dark:text-gray-400"
+                  }
+                >
+                  {state(nodeId)}
+                </td>
+              )}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+export default DistanceTable;
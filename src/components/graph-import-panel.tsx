@@ -0,0 +1,164 @@
+"use client";
+import { ChangeEvent, FC, FormEvent, useState } from "react";
+import { Graph } from "@/algorithms-core/graphs_common";
+import {
+  detectGraphFormat,
+  GRAPH_FORMATS,
+  GraphFormat,
+  parseGraph,
+  serializeGraph,
+} from "@/algorithms-core/graph_io";
+
+interface GraphImportPanelProps {
+  graph: Graph | null; // Graph offered for export
+  onImport: (graph: Graph) => void;
+}
+
+const buttonClass =
+  "px-4 py-2 rounded-md bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200 font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors";
+const fieldClass =
+  "px-2 py-1 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200";
+
+/**
+ * Loads a graph from an uploaded file or pasted text in JSON, DOT, edge-list
+ * or GraphML form, and downloads the current graph in any of them.
+ *
+ * @param graph: the graph offered for export
+ * @param onImport: called with a successfully parsed graph
+ * @returns
+ */
+const GraphImportPanel: FC<GraphImportPanelProps> = ({ graph, onImport }) => {
+  const [text, setText] = useState("");
+  const [importFormat, setImportFormat] = useState<GraphFormat | "auto">(
+    "auto",
+  );
+  const [exportFormat, setExportFormat] = useState<GraphFormat>("json");
+  const [error, setError] = useState<string | null>(null);
+
+  const load = (source: string, fileName?: string) => {
+    try {
+      const format =
+        importFormat === "auto"
+          ? detectGraphFormat(source, fileName)
+          : importFormat;
+      const imported = parseGraph(source, format);
+      if (Object.keys(imported.nodes).length === 0) {
+        throw new Error("The graph has no nodes");
+      }
+      onImport(imported);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handlePaste = (e: FormEvent) => {
+    e.preventDefault();
+    load(text);
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const contents = await file.text();
+    setText(contents);
+    load(contents, file.name);
+    // Allow the same file to be picked again after editing it
+    e.target.value = "";
+  };
+
+  const handleExport = () => {
+    if (!graph) return;
+    const format = GRAPH_FORMATS.find((option) => option.id === exportFormat)!;
+    const blob = new Blob([serializeGraph(graph, format.id)], {
+      type: format.mimeType,
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `graph.${format.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 w-full">
+      <form
+        onSubmit={handlePaste}
+        className="flex flex-col gap-2 items-center w-full"
+      >
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={"e.g.\nA B 4\nB C 2"}
+          aria-label="Graph text"
+          aria-invalid={error !== null}
+          rows={5}
+          className={`${fieldClass} w-full max-w-xl font-mono text-sm`}
+        />
+        <div className="flex flex-wrap gap-2 justify-center items-center">
+          <label className="flex items-center gap-2 text-sm">
+            Format:
+            <select
+              value={importFormat}
+              onChange={(e) =>
+                setImportFormat(e.target.value as GraphFormat | "auto")
+              }
+              className={fieldClass}
+            >
+              <option value="auto">Detect</option>
+              {GRAPH_FORMATS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="submit" className={buttonClass}>
+            Import
+          </button>
+          <label className={`${buttonClass} cursor-pointer`}>
+            Upload File
+            <input
+              type="file"
+              accept=".json,.dot,.gv,.txt,.csv,.graphml,.xml"
+              onChange={handleFile}
+              className="hidden"
+            />
+          </label>
+        </div>
+      </form>
+      {error && (
+        <p role="alert" className="text-sm text-center text-red-500">
+          {error}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 justify-center items-center">
+        <label className="flex items-center gap-2 text-sm">
+          Export as:
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as GraphFormat)}
+            className={fieldClass}
+          >
+            {GRAPH_FORMATS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          className={buttonClass}
+          onClick={handleExport}
+          disabled={!graph}
+        >
+          Download
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GraphImportPanel;
@@ -0,0 +1,173 @@
+"use client";
+import { FC, ReactNode } from "react";
+import { generateSeed } from "@/algorithms-core/random";
+import GraphImportPanel from "./graph-import-panel";
+import SeedInput from "./seed-input";
+import { GRAPH_SHAPES, GraphInput, GraphShape } from "./use-graph-input";
+
+interface GraphInputControlsProps {
+  input: GraphInput;
+  isEditing: boolean;
+  onEditingChange: (editing: boolean) => void;
+  showStart?: boolean; // Whether the algorithm takes a start node
+  showTarget?: boolean; // Whether the algorithm takes a target node
+  shapes?: GraphShape[]; // Shapes of generated graph to choose from
+  allowDirected?: boolean; // Whether the algorithm runs on directed graphs
+  children?: ReactNode; // Algorithm specific options shown with the settings
+}
+
+const buttonClass =
+  "px-4 py-2 rounded-md bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200 font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors";
+const fieldClass =
+  "px-3 py-1 w-20 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200";
+const selectClass =
+  "px-2 py-1 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200";
+const toggleClass =
+  "flex items-center px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200";
+
+/**
+ * Controls for choosing the graph to run on: the shape, size, density,
+ * direction and seed of a generated graph, the start and target nodes, the
+ * editor toggle and the import and export panel.
+ *
+ * @param input: the graph state from useGraphInput
+ * @param isEditing: whether the graph editor is on
+ * @param onEditingChange: called when the editor is switched on or off
+ * @param showStart: whether to offer the start node, true by default
+ * @param showTarget: whether to offer the target node, false by default
+ * @param shapes: the graph shapes to offer, none by default
+ * @param allowDirected: whether to offer directed graphs, true by default
+ * @param children: algorithm specific options
+ * @returns
+ */
+const GraphInputControls: FC<GraphInputControlsProps> = ({
+  input,
+  isEditing,
+  onEditingChange,
+  showStart = true,
+  showTarget = false,
+  shapes = [],
+  allowDirected = true,
+  children,
+}) => {
+  const nodeOptions = Object.values(input.graph.nodes).map((node) => (
+    <option key={node.id} value={node.id}>
+      {node.label ?? node.id}
+    </option>
+  ));
+
+  return (
+    <div className="flex flex-col gap-4 items-center w-full">
+      <div className="flex flex-wrap gap-2 justify-center items-center">
+        <button
+          className={buttonClass}
+          onClick={() => input.setSeed(generateSeed())}
+        >
+          New Graph
+        </button>
+        {shapes.length > 1 && (
+          <label className="flex items-center gap-2 text-sm">
+            Shape:
+            <select
+              value={input.shape}
+              onChange={(e) => input.setShape(e.target.value as GraphShape)}
+              className={selectClass}
+            >
+              {GRAPH_SHAPES.filter(({ id }) => shapes.includes(id)).map(
+                ({ id, label }) => (
+                  <option key={id} value={id}>
+                    {label}
+                  </option>
+                ),
+              )}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-sm">
+          Size:
+          <input
+            type="number"
+            value={input.size}
+            onChange={(e) =>
+              input.setSize(Math.min(100, Math.max(2, Number(e.target.value))))
+            }
+            className={fieldClass}
+            min="2"
+            max="100"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          {input.shape === "grid" ? "Walls:" : "Density:"}
+          <input
+            type="number"
+            value={input.density}
+            onChange={(e) =>
+              input.setDensity(
+                Math.min(1, Math.max(0.05, Number(e.target.value))),
+              )
+            }
+            className={fieldClass}
+            step="0.05"
+            min="0.05"
+            max="1"
+          />
+        </label>
+        <SeedInput seed={input.seed} onChange={input.setSeed} />
+      </div>
+
+      <div className="flex flex-wrap gap-2 justify-center items-center">
+        {showStart && (
+          <label className="flex items-center gap-2 text-sm">
+            Start:
+            <select
+              value={input.startNodeId ?? ""}
+              onChange={(e) => input.setStartNodeId(e.target.value)}
+              disabled={input.startNodeId === null}
+              className={selectClass}
+            >
+              {nodeOptions}
+            </select>
+          </label>
+        )}
+        {showTarget && (
+          <label className="flex items-center gap-2 text-sm">
+            Target:
+            <select
+              value={input.targetNodeId ?? ""}
+              onChange={(e) => input.setTargetNodeId(e.target.value)}
+              disabled={input.targetNodeId === null}
+              className={selectClass}
+            >
+              {nodeOptions}
+            </select>
+          </label>
+        )}
+        {allowDirected && (
+          <label className={toggleClass}>
+            <input
+              type="checkbox"
+              checked={input.directed}
+              onChange={(e) => input.setDirected(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm">Directed</span>
+          </label>
+        )}
+        <label className={toggleClass}>
+          <input
+            type="checkbox"
+            checked={isEditing}
+            onChange={(e) => onEditingChange(e.target.checked)}
+            className="mr-2"
+          />
+          <span className="text-sm">Edit Graph</span>
+        </label>
+        {children}
+      </div>
+
+      <GraphImportPanel graph={input.graph} onImport={input.importGraph} />
+    </div>
+  );
+};
+
+export default GraphInputControls;
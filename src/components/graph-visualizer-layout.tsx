@@ -0,0 +1,178 @@
+"use client"; // needed for d3
+import { ReactNode, useEffect, useState } from "react";
+
+// webpage visuals
+import Header from "@/components/header";
+import Footer from "@/components/footer";
+import CodePanel from "@/components/code-panel";
+import PlaybackControls from "@/components/playback-controls";
+import Timeline from "@/components/timeline";
+import { PlaybackController } from "@/components/use-playback";
+
+// algorithms core
+import {
+  BackgroundOptions,
+  EdgeHighlight,
+  Graph,
+  GraphVisualizer,
+  NodeHighlight,
+} from "@/algorithms-core/graphs_common";
+import { CodeListing, MarkerRule, TraceStep } from "@/algorithms-core/trace";
+
+interface GraphVisualizerLayoutProps<T extends TraceStep> {
+  title: string;
+  graph: Graph;
+  steps: T[];
+  playback: PlaybackController<T>;
+  code: CodeListing[];
+  markerRules?: MarkerRule<T>[];
+  highlightedNodes: NodeHighlight[];
+  highlightedEdges: EdgeHighlight[];
+  isEditing?: boolean; // Shows the editor instead of the playback controls
+  onGraphChange?: (graph: Graph) => void; // Called after each edit
+  hoveredNodeId?: string | null; // Node hovered in the panel, drawn as hovered
+  onNodeHover?: (nodeId: string | null) => void; // Called when a node on the canvas is hovered
+  onNodeClick?: (nodeId: string) => void; // Called when a node is clicked outside edit mode
+  hint?: string; // What clicking the canvas does, shown after the dragging hint
+  panel?: ReactNode; // Algorithm state shown under the code listing
+  controls?: ReactNode; // Graph and algorithm settings shown under the playback controls
+}
+
+const BACKGROUND = {
+  gradientStart: "hsl(220, 13%, 95%)",
+  gradientEnd: "hsl(220, 13%, 90%)",
+  darkGradientStart: "hsl(0, 0%, 12%)",
+  darkGradientEnd: "hsl(240, 87%, 30%)",
+};
+
+/**
+ * Page layout shared by the graph visualizers: the graph canvas with the
+ * code listing and the algorithm's own panel beside it, then the timeline,
+ * playback controls and settings. While editing, the timeline and playback
+ * controls are hidden.
+ *
+ * @param title: the page heading
+ * @param graph: the graph drawn on the canvas
+ * @param steps: the recorded steps
+ * @param playback: the controller returned by usePlayback
+ * @param code: the algorithm's code listings
+ * @param markerRules: events marked on the timeline
+ * @param highlightedNodes: node colors for the current step
+ * @param highlightedEdges: edge colors for the current step
+ * @param isEditing: whether the graph editor is on
+ * @param onGraphChange: called after each edit
+ * @param hoveredNodeId: the node hovered in the panel
+ * @param onNodeHover: called when a node on the canvas is hovered
+ * @param onNodeClick: called when a node is clicked outside edit mode
+ * @param hint: what clicking the canvas does outside edit mode
+ * @param panel: algorithm state shown beside the graph
+ * @param controls: settings shown under the playback controls
+ * @returns
+ */
+const GraphVisualizerLayout = <T extends TraceStep>({
+  title,
+  graph,
+  steps,
+  playback,
+  code,
+  markerRules,
+  highlightedNodes,
+  highlightedEdges,
+  isEditing = false,
+  onGraphChange,
+  hoveredNodeId,
+  onNodeHover,
+  onNodeClick,
+  hint,
+  panel,
+  controls,
+}: GraphVisualizerLayoutProps<T>) => {
+  const [backgroundOptions, setBackgroundOptions] = useState<BackgroundOptions>(
+    {
+      gradientStart: BACKGROUND.gradientStart,
+      gradientEnd: BACKGROUND.gradientEnd,
+      useGradient: true,
+    },
+  );
+
+  // Match the canvas to the color scheme
+  useEffect(() => {
+    const isDark =
+      typeof window !== "undefined" &&
+      window.matchMedia &&
+      window.matchMedia("(prefers-color-scheme: dark)").matches;
+    if (!isDark) return;
+    setBackgroundOptions({
+      gradientStart: BACKGROUND.darkGradientStart,
+      gradientEnd: BACKGROUND.darkGradientEnd,
+      useGradient: true,
+    });
+  }, []);
+
+  const currentStep = isEditing ? undefined : playback.step;
+
+  return (
+    <div className="flex flex-col min-h-screen transition-colors">
+      <Header />
+      <main className="flex-grow w-full flex items-center justify-center p-4">
+        <div className="w-full max-w-7xl">
+          <h1 className="text-4xl font-bold text-center mb-8">{title}</h1>
+          <div className="rounded-xl overflow-hidden bg-white dark:bg-gray-900 shadow-md">
+            <div className="p-4 border-b border-gray-200 dark:border-gray-800">
+              <h2 className="text-xl font-semibold">Graph Visualization</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {isEditing
+                  ? "Click the canvas to add a node, drag between nodes to connect them, click a weight to change it, and press Delete to remove the selected node or edge."
+                  : `Drag nodes to rearrange the graph.${hint ? ` ${hint}` : ""}`}
+              </p>
+            </div>
+            <div className="p-4 flex flex-col lg:flex-row gap-4">
+              <div className="w-full h-[600px] flex-1">
+                <GraphVisualizer
+                  width={0}
+                  height={0}
+                  graph={graph}
+                  highlightedNodes={highlightedNodes}
+                  highlightedEdges={highlightedEdges}
+                  backgroundOptions={backgroundOptions}
+                  editable={isEditing}
+                  onGraphChange={onGraphChange}
+                  hoveredNodeId={hoveredNodeId}
+                  onNodeHover={onNodeHover}
+                  onNodeClick={onNodeClick}
+                />
+              </div>
+              <div className="w-full lg:w-96 flex flex-col gap-4">
+                <CodePanel
+                  listings={code}
+                  line={currentStep?.line}
+                  narration={currentStep?.narration}
+                />
+                {!isEditing && panel}
+              </div>
+            </div>
+            <div className="p-4 border-t border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
+              <div className="flex flex-col gap-4">
+                {!isEditing && steps.length > 0 && (
+                  <>
+                    <Timeline
+                      steps={steps}
+                      currentIndex={playback.index}
+                      onSeek={playback.seek}
+                      markerRules={markerRules}
+                    />
+                    <PlaybackControls playback={playback} />
+                  </>
+                )}
+                {controls}
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default GraphVisualizerLayout;
@@ -0,0 +1,150 @@
+"use client";
+import { FC } from "react";
+import { HeapEntry } from "@/algorithms-core/indexed_heap";
+
+interface HeapPanelProps {
+  entries: HeapEntry[]; // The heap in array form
+  name: (id: string) => string; // Label to show for an id
+  changed: Set<string>; // Ids whose priority dropped in this step
+  comparisons: number; // Priority comparisons made so far
+}
+
+// Size of one node's slot in the tree drawing
+const SLOT_WIDTH = 44;
+const LEVEL_HEIGHT = 48;
+const RADIUS = 16;
+
+function formatPriority(priority: number): string {
+  return priority === Infinity ? "∞" : String(priority);
+}
+
+/**
+ * A binary heap drawn both ways: as a tree, each entry below its parent, and
+ * as the array it is stored in, where the children of index i sit at 2i + 1
+ * and 2i + 2. Entries whose priority just dropped are marked.
+ *
+ * @param entries: the heap in array form
+ * @param name: the label to show for an id
+ * @param changed: ids whose priority dropped in this step
+ * @param comparisons: priority comparisons made so far
+ * @returns
+ */
+const HeapPanel: FC<HeapPanelProps> = ({
+  entries,
+  name,
+  changed,
+  comparisons,
+}) => {
+  const levels = Math.max(1, Math.ceil(Math.log2(entries.length + 1)));
+  const width = 2 ** (levels - 1) * SLOT_WIDTH;
+  const height = levels * LEVEL_HEIGHT;
+  const position = (i: number) => {
+    const level = Math.floor(Math.log2(i + 1));
+    const slots = 2 ** level;
+    return {
+      x: (i - (slots - 1) + 0.5) * (width / slots),
+      y: level * LEVEL_HEIGHT + RADIUS + 4,
+    };
+  };
+  const fillClass = (id: string, i: number) =>
+    changed.has(id)
+      ? "fill-yellow-200 dark:fill-yellow-700"
+      : i === 0
+        ? "fill-amber-300 dark:fill-amber-600"
+        : "fill-gray-100 dark:fill-gray-800";
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <p>
+        Heap of {entries.length} node{entries.length === 1 ? "" : "s"};{" "}
+        {comparisons} comparison{comparisons === 1 ? "" : "s"} so far.
+      </p>
+      {entries.length === 0 ? (
+        <span className="text-gray-500 dark:text-gray-400">empty</span>
+      ) : (
+        <>
+          <section>
+            <h3 className="font-semibold mb-1">Tree</h3>
+            <div className="overflow-x-auto">
+              <svg
+                width={width}
+                height={height}
+                className="mx-auto"
+                role="img"
+                aria-label="Heap as a tree"
+              >
+                {entries.slice(1).map((entry, j) => {
+                  const child = position(j + 1);
+                  const parent = position(j >> 1);
+                  return (
+                    <line
+                      key={entry.id}
+                      x1={parent.x}
+                      y1={parent.y}
+                      x2={child.x}
+                      y2={child.y}
+                      className="stroke-gray-400 dark:stroke-gray-500"
+                    />
+                  );
+                })}
+                {entries.map((entry, i) => {
+                  const { x, y } = position(i);
+                  return (
+                    <g key={entry.id}>
+                      <circle
+                        cx={x}
+                        cy={y}
+                        r={RADIUS}
+                        className={`${fillClass(entry.id, i)} stroke-gray-500`}
+                      />
+                      <text
+                        x={x}
+                        y={y - 2}
+                        textAnchor="middle"
+                        className="fill-current text-[10px] font-semibold"
+                      >
+                        {name(entry.id)}
+                      </text>
+                      <text
+                        x={x}
+                        y={y + 9}
+                        textAnchor="middle"
+                        className="fill-current text-[9px] font-mono"
+                      >
+                        {formatPriority(entry.priority)}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+          </section>
+          <section>
+            <h3 className="font-semibold mb-1">Array</h3>
+            <ol className="flex flex-wrap gap-1 font-mono">
+              {entries.map((entry, i) => (
+                <li
+                  key={entry.id}
+                  className={`flex flex-col items-center px-2 py-0.5 rounded ${
+                    changed.has(entry.id)
+                      ? "bg-yellow-100 dark:bg-yellow-900/40"
+                      : "bg-gray-100 dark:bg-gray-800"
+                  }`}
+                >
+                  <span className="text-[10px] text-gray-500 dark:text-gray-400">
+                    {i}
+                  </span>
+                  <span>
+                    {name(entry.id)}: {formatPriority(entry.priority)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HeapPanel;
@@ -0,0 +1,94 @@
+"use client";
+import { FC } from "react";
+import Link from "next/link";
+import { EdgeHighlight } from "@/algorithms-core/graphs_common";
+import { MSTStep } from "@/algorithms-core/mst";
+
+// Colors shared by the minimum spanning tree pages
+export const MST_COLORS = {
+  TREE_EDGE: "hsl(150, 100%, 40%)",
+  CONSIDERING_EDGE: "hsl(200, 100%, 60%)",
+  REJECTED_EDGE: "hsl(0, 90%, 60%)",
+};
+
+/**
+ * Edge colors for a minimum spanning tree step: the tree so far, and the
+ * edge being considered on top, in red when it was just rejected.
+ *
+ * @param step - The step to draw, or undefined before the run
+ * @param rejected - Whether the current edge was rejected in this step
+ */
+export function getMSTEdgeHighlights(
+  step: MSTStep | undefined,
+  rejected = false,
+): EdgeHighlight[] {
+  if (!step) return [];
+  const edges: EdgeHighlight[] = step.tree.map((edge) => ({
+    sourceId: edge.sourceId,
+    targetId: edge.targetId,
+    color: MST_COLORS.TREE_EDGE,
+    width: 4,
+  }));
+  if (step.currentEdge && step.kind !== "done") {
+    edges.push({
+      sourceId: step.currentEdge.sourceId,
+      targetId: step.currentEdge.targetId,
+      color: rejected
+        ? MST_COLORS.REJECTED_EDGE
+        : step.tree.some((edge) => edge.id === step.currentEdge!.id)
+          ? MST_COLORS.TREE_EDGE
+          : MST_COLORS.CONSIDERING_EDGE,
+      width: 6,
+    });
+  }
+  return edges;
+}
+
+interface MSTSummaryProps {
+  step: MSTStep | undefined;
+  nodeCount: number;
+  compareHref: string; // The other algorithm's page, on the same graph
+  compareLabel: string;
+}
+
+/**
+ * Size and weight of the tree built so far, with a link that opens the
+ * other minimum spanning tree algorithm on the same graph.
+ *
+ * @param step: the step to show
+ * @param nodeCount: nodes in the graph, for the size of a spanning tree
+ * @param compareHref: link to the other algorithm's page
+ * @param compareLabel: text of that link
+ * @returns
+ */
+const MSTSummary: FC<MSTSummaryProps> = ({
+  step,
+  nodeCount,
+  compareHref,
+  compareLabel,
+}) => {
+  return (
+    <div className="flex flex-col gap-1 text-sm">
+      <dl className="flex gap-6">
+        <div className="flex gap-1">
+          <dt className="font-semibold">Tree edges:</dt>
+          <dd>
+            {step?.tree.length ?? 0} of {Math.max(nodeCount - 1, 0)}
+          </dd>
+        </div>
+        <div className="flex gap-1">
+          <dt className="font-semibold">Total weight:</dt>
+          <dd>{step?.totalWeight ?? 0}</dd>
+        </div>
+      </dl>
+      <Link
+        href={compareHref}
+        className="text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        {compareLabel}
+      </Link>
+    </div>
+  );
+};
+
+export default MSTSummary;
@@ -0,0 +1,128 @@
+"use client";
+import { FC } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import {
+  faBackwardFast,
+  faBackwardStep,
+  faForwardFast,
+  faForwardStep,
+  faPause,
+  faPlay,
+} from "@fortawesome/free-solid-svg-icons";
+import { PLAYBACK_SPEEDS, PlaybackController } from "./use-playback";
+
+interface PlaybackControlsProps {
+  playback: PlaybackController<unknown>;
+}
+
+const buttonClass =
+  "px-3 py-2 rounded-md bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200 font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Buttons, scrubber and speed selector for a usePlayback controller.
+ *
+ * @param playback: the controller returned by usePlayback
+ * @returns
+ */
+const PlaybackControls: FC<PlaybackControlsProps> = ({ playback }) => {
+  const {
+    index,
+    length,
+    isPlaying,
+    speed,
+    isAtStart,
+    isAtEnd,
+    togglePlay,
+    stepForward,
+    stepBackward,
+    jumpToStart,
+    jumpToEnd,
+    seek,
+    setSpeed,
+  } = playback;
+  const hasSteps = length > 0;
+
+  return (
+    <div className="flex flex-col gap-3 w-full">
+      <div className="flex flex-wrap gap-2 justify-center items-center">
+        <button
+          className={buttonClass}
+          onClick={jumpToStart}
+          disabled={!hasSteps || isAtStart}
+          aria-label="Jump to start"
+        >
+          <FontAwesomeIcon icon={faBackwardFast} />
+        </button>
+        <button
+          className={buttonClass}
+          onClick={stepBackward}
+          disabled={!hasSteps || isAtStart}
+          aria-label="Previous step"
+        >
+          <FontAwesomeIcon icon={faBackwardStep} />
+        </button>
+        <button
+          className={`px-4 py-2 rounded-md font-medium transition-colors disabled:opacity-50 ${
+            isPlaying
+              ? "bg-yellow-500 text-white hover:bg-yellow-600"
+              : "bg-green-600 text-white hover:bg-green-700"
+          }`}
+          onClick={togglePlay}
+          disabled={length < 2}
+          aria-label={isPlaying ? "Pause" : "Play"}
+        >
+          <FontAwesomeIcon icon={isPlaying ? faPause : faPlay} />
+        </button>
+        <button
+          className={buttonClass}
+          onClick={stepForward}
+          disabled={!hasSteps || isAtEnd}
+          aria-label="Next step"
+        >
+          <FontAwesomeIcon icon={faForwardStep} />
+        </button>
+        <button
+          className={buttonClass}
+          onClick={jumpToEnd}
+          disabled={!hasSteps || isAtEnd}
+          aria-label="Jump to end"
+        >
+          <FontAwesomeIcon icon={faForwardFast} />
+        </button>
+
+        <label className="flex items-center gap-2 ml-2 text-sm">
+          Speed:
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="px-2 py-1 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200"
+          >
+            {PLAYBACK_SPEEDS.map((option) => (
+              <option key={option} value={option}>
+                {option}x
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3 w-full">
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, length - 1)}
+          value={index}
+          onChange={(e) => seek(Number(e.target.value))}
+          disabled={length < 2}
+          className="flex-1"
+          aria-label="Scrub through steps"
+        />
+        <span className="text-sm whitespace-nowrap">
+          Step {hasSteps ? index + 1 : 0} of {length}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackControls;
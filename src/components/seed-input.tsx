@@ -0,0 +1,78 @@
+"use client";
+import { FC, FormEvent, useState } from "react";
+import { generateSeed, parseSeed } from "@/algorithms-core/random";
+
+interface SeedInputProps {
+  seed: number;
+  onChange: (seed: number) => void;
+}
+
+const buttonClass =
+  "px-4 py-2 rounded-md bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200 font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors";
+
+/**
+ * Shows the seed of the current run and lets the user type in another one,
+ * or draw a fresh one, to reproduce a run.
+ *
+ * @param seed: the seed in use
+ * @param onChange: called with a valid new seed
+ * @returns
+ */
+const SeedInput: FC<SeedInputProps> = ({ seed, onChange }) => {
+  const [text, setText] = useState(String(seed));
+  const [trackedSeed, setTrackedSeed] = useState(seed);
+  const [error, setError] = useState<string | null>(null);
+
+  // Show the new seed when it is changed from outside
+  if (trackedSeed !== seed) {
+    setTrackedSeed(seed);
+    setText(String(seed));
+    setError(null);
+  }
+
+  const handleApply = (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      onChange(parseSeed(text));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleApply}
+      className="flex flex-wrap gap-2 justify-center items-center"
+    >
+      <label className="flex items-center gap-2 text-sm">
+        Seed:
+        <input
+          type="text"
+          inputMode="numeric"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          aria-invalid={error !== null}
+          className="px-2 py-1 w-28 rounded-md border border-gray-300 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200"
+        />
+      </label>
+      <button type="submit" className={buttonClass}>
+        Apply Seed
+      </button>
+      <button
+        type="button"
+        className={buttonClass}
+        onClick={() => onChange(generateSeed())}
+      >
+        New Seed
+      </button>
+      {error && (
+        <p role="alert" className="w-full text-sm text-center text-red-500">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+};
+
+export default SeedInput;
@@ -0,0 +1,113 @@
+"use client"; // needed for d3
+import { FC, ReactNode } from "react";
+
+// webpage visuals
+import Header from "@/components/header";
+import Footer from "@/components/footer";
+import Sidebar from "@/components/code-side-bar";
+import ArrayBase from "@/components/array-base";
+import PlaybackControls from "@/components/playback-controls";
+import Timeline from "@/components/timeline";
+import { PlaybackController } from "@/components/use-playback";
+
+// algorithms core
+import { ArrayVisualizer } from "@/algorithms-core/arrays_common";
+import { SortStep } from "@/algorithms-core/quicksort";
+import { CodeListing, MarkerRule } from "@/algorithms-core/trace";
+
+interface SortVisualizerLayoutProps {
+  title: string;
+  steps: SortStep[];
+  playback: PlaybackController<SortStep>;
+  code: CodeListing[];
+  markerRules?: MarkerRule<SortStep>[];
+  controls?: ReactNode; // Algorithm specific controls shown under the playback controls
+}
+
+/**
+ * Page layout shared by the sorting visualizers: running comparison, swap
+ * and write counts, bars, array boxes, an auxiliary buffer row when the step
+ * has one, the timeline and playback controls, and the code sidebar.
+ */
+const SortVisualizerLayout: FC<SortVisualizerLayoutProps> = ({
+  title,
+  steps,
+  playback,
+  code,
+  markerRules,
+  controls,
+}) => {
+  const currentStep = playback.step ?? steps[0];
+
+  return (
+    <div className="flex flex-col min-h-screen transition-colors">
+      <Header />
+      <main className="flex-grow w-full flex items-center justify-center px-4">
+        <div className="w-full max-w-screen-2xl">
+          <h1 className="text-4xl font-bold text-center mb-8">{title}</h1>
+          <div className="flex flex-col md:flex-row gap-8 bg-gray-100 dark:bg-gray-800 p-4 rounded-lg">
+            <Sidebar
+              opt1Action={playback.togglePlay}
+              opt2Action={playback.stepForward}
+              opt3Action={playback.stepBackward}
+              isAutoStepping={playback.isPlaying}
+              code={code}
+              line={currentStep.line}
+              narration={currentStep.narration}
+            />
+            <div className="p-4 rounded-lg flex-1 flex flex-col items-center">
+              {currentStep.stats && (
+                <dl className="flex gap-6 mb-4 text-sm">
+                  <div className="flex gap-1">
+                    <dt className="font-semibold">Comparisons:</dt>
+                    <dd>{currentStep.stats.comparisons}</dd>
+                  </div>
+                  <div className="flex gap-1">
+                    <dt className="font-semibold">Swaps:</dt>
+                    <dd>{currentStep.stats.swaps}</dd>
+                  </div>
+                  <div className="flex gap-1">
+                    <dt className="font-semibold">Writes:</dt>
+                    <dd>{currentStep.stats.writes}</dd>
+                  </div>
+                </dl>
+              )}
+              <ArrayVisualizer step={currentStep} />
+              <div className="flex justify-center items-center w-full mt-6">
+                <ArrayBase
+                  array={currentStep.arr}
+                  pivotIndex={currentStep.pivotIndex}
+                  comparing={currentStep.comparing}
+                  writeIndex={currentStep.writeIndex}
+                />
+              </div>
+              {currentStep.auxiliary && (
+                <div className="flex flex-col items-center w-full mt-4">
+                  <h2 className="text-lg font-semibold">Auxiliary buffer</h2>
+                  <ArrayBase
+                    array={currentStep.auxiliary}
+                    comparing={currentStep.auxComparing}
+                  />
+                </div>
+              )}
+              <p className="mt-4 text-center">{currentStep.narration}</p>
+              <div className="w-full mt-6 flex flex-col gap-4">
+                <Timeline
+                  steps={steps}
+                  currentIndex={playback.index}
+                  onSeek={playback.seek}
+                  markerRules={markerRules}
+                />
+                <PlaybackControls playback={playback} />
+                {controls}
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default SortVisualizerLayout;
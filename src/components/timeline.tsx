@@ -0,0 +1,99 @@
+"use client";
+import { MouseEvent, useMemo } from "react";
+import { getStepMarkers, MarkerRule, TraceStep } from "@/algorithms-core/trace";
+
+interface TimelineProps<T extends TraceStep> {
+  steps: T[];
+  currentIndex: number;
+  onSeek: (index: number) => void;
+  markerRules?: MarkerRule<T>[];
+}
+
+/**
+ * Timeline bar showing every recorded step, with one lane of markers per
+ * notable event. Clicking the bar or a marker jumps to that step.
+ *
+ * @param steps: the recorded trace
+ * @param currentIndex: the step currently shown
+ * @param onSeek: called with the index of the step to jump to
+ * @param markerRules: the events to mark, one lane each
+ * @returns
+ */
+const Timeline = <T extends TraceStep>({
+  steps,
+  currentIndex,
+  onSeek,
+  markerRules = [],
+}: TimelineProps<T>) => {
+  const markers = useMemo(
+    () => getStepMarkers(steps, markerRules),
+    [steps, markerRules],
+  );
+
+  if (steps.length === 0) return null;
+
+  // Center of step i as a percentage of the bar width
+  const position = (index: number) => ((index + 0.5) / steps.length) * 100;
+
+  const handleBarClick = (event: MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = (event.clientX - rect.left) / rect.width;
+    onSeek(Math.floor(fraction * steps.length));
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-1">
+      {markerRules.map((rule, ruleIndex) => (
+        <div key={rule.label} className="relative w-full h-4">
+          {markers
+            .filter((marker) => marker.rule === ruleIndex)
+            .map((marker) => (
+              <button
+                key={marker.index}
+                onClick={() => onSeek(marker.index)}
+                title={`${marker.label} (step ${marker.index + 1}): ${steps[marker.index].narration}`}
+                aria-label={`${marker.label} at step ${marker.index + 1}`}
+                className="absolute top-0 w-2 h-4 -ml-1 rounded-sm hover:scale-150 transition-transform"
+                style={{
+                  left: `${position(marker.index)}%`,
+                  backgroundColor: marker.color,
+                  opacity: marker.index === currentIndex ? 1 : 0.7,
+                }}
+              />
+            ))}
+        </div>
+      ))}
+
+      <div
+        className="relative w-full h-3 rounded-full bg-gray-300 dark:bg-gray-600 cursor-pointer"
+        onClick={handleBarClick}
+      >
+        <div
+          className="absolute top-0 left-0 h-3 rounded-full bg-blue-600"
+          style={{ width: `${((currentIndex + 1) / steps.length) * 100}%` }}
+        />
+        <div
+          className="absolute -top-1 w-1 h-5 -ml-0.5 bg-gray-900 dark:bg-white rounded"
+          style={{ left: `${position(currentIndex)}%` }}
+        />
+      </div>
+
+      {markerRules.length > 0 && (
+        <div className="flex flex-wrap gap-4 justify-center text-xs mt-1">
+          {markerRules.map((rule, ruleIndex) => (
+            <span key={rule.label} className="flex items-center gap-1">
+              <span
+                className="inline-block w-3 h-3 rounded-sm"
+                style={{ backgroundColor: rule.color }}
+              />
+              {rule.label} (
+              {markers.filter((marker) => marker.rule === ruleIndex).length})
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Timeline;
@@ -0,0 +1,183 @@
+"use client";
+import { FC } from "react";
+import {
+  EdgeHighlight,
+  Graph,
+  NodeHighlight,
+} from "@/algorithms-core/graphs_common";
+import {
+  EDGE_CLASSES,
+  EdgeClass,
+  TraversalStep,
+} from "@/algorithms-core/traversal";
+
+// Colors shared by the traversal pages
+export const TRAVERSAL_COLORS = {
+  START_NODE: {
+    color: "hsl(120, 100%, 40%)",
+    fillColor: "hsl(120, 100%, 35%)",
+  },
+  CURRENT_NODE: {
+    color: "hsl(270, 100%, 70%)",
+    fillColor: "hsl(270, 100%, 60%)",
+  },
+  FRONTIER_NODE: {
+    color: "hsl(45, 100%, 50%)",
+    fillColor: "hsl(45, 100%, 45%)",
+  },
+  FINISHED_NODE: {
+    color: "hsl(217, 100%, 18%)",
+    fillColor: "hsl(217, 100%, 30%)",
+  },
+  DEFAULT_NODE: {
+    color: "hsl(210, 100%, 50%)",
+    fillColor: "hsl(210, 100%, 40%)",
+  },
+  EDGES: {
+    tree: "hsl(150, 100%, 40%)",
+    back: "hsl(0, 90%, 60%)",
+    forward: "hsl(30, 100%, 55%)",
+    cross: "hsl(290, 60%, 65%)",
+  } as Record<EdgeClass, string>,
+};
+
+/**
+ * Node and edge colors for a traversal step. Nodes are colored by whether
+ * they are undiscovered, waiting in the frontier, being expanded or
+ * finished; the start node keeps its color until it is expanded. Edges are
+ * colored by their classification, and the edge examined in the step is
+ * drawn thicker.
+ *
+ * @param graph - The graph being traversed
+ * @param step - The step to draw, or undefined before the traversal
+ * @param startNodeId - The node the traversal starts from
+ */
+export function getTraversalHighlights(
+  graph: Graph,
+  step: TraversalStep | undefined,
+  startNodeId: string | null,
+): { nodes: NodeHighlight[]; edges: EdgeHighlight[] } {
+  const frontier = new Set(step?.frontier);
+  const finished = new Set(step?.finished);
+
+  const nodes = Object.keys(graph.nodes).map((nodeId) => {
+    let colors = TRAVERSAL_COLORS.DEFAULT_NODE;
+    if (nodeId === step?.currentNodeId) colors = TRAVERSAL_COLORS.CURRENT_NODE;
+    else if (nodeId === startNodeId) colors = TRAVERSAL_COLORS.START_NODE;
+    else if (frontier.has(nodeId)) colors = TRAVERSAL_COLORS.FRONTIER_NODE;
+    else if (finished.has(nodeId)) colors = TRAVERSAL_COLORS.FINISHED_NODE;
+    return { nodeId, ...colors };
+  });
+
+  const examined = new Set(
+    step?.highlights.flatMap((hl) =>
+      hl.type === "edge" ? [graph._getEdgeId(hl.sourceId, hl.targetId)] : [],
+    ),
+  );
+  const edges: EdgeHighlight[] = [];
+  graph.get_all_edges().forEach((edge) => {
+    const edgeClass = step?.edgeClasses.get(edge.id);
+    if (!edgeClass) return;
+    edges.push({
+      sourceId: edge.from_node.id,
+      targetId: edge.to_node.id,
+      color: TRAVERSAL_COLORS.EDGES[edgeClass],
+      width: examined.has(edge.id) ? 5 : 3,
+    });
+  });
+
+  return { nodes, edges };
+}
+
+interface TraversalPanelProps {
+  graph: Graph;
+  step: TraversalStep | undefined;
+  frontierLabel: string; // e.g. "Queue (front to back)"
+  edgeClasses?: EdgeClass[]; // Classes the traversal can produce, all by default
+  annotate?: (nodeId: string) => string | undefined; // Extra text after a node, e.g. its level
+}
+
+/**
+ * The state of a graph traversal: the queue or stack, the discovery and
+ * finish orders, and a legend counting each class of edge seen so far.
+ *
+ * @param graph: the graph being traversed, for node labels
+ * @param step: the step to show
+ * @param frontierLabel: heading of the queue or stack
+ * @param edgeClasses: the edge classes shown in the legend
+ * @param annotate: extra text shown after a node in the orders
+ * @returns
+ */
+const TraversalPanel: FC<TraversalPanelProps> = ({
+  graph,
+  step,
+  frontierLabel,
+  edgeClasses = EDGE_CLASSES.map((option) => option.id),
+  annotate,
+}) => {
+  const name = (nodeId: string) => graph.nodes[nodeId]?.label ?? nodeId;
+  const counts = new Map<EdgeClass, number>();
+  step?.edgeClasses.forEach((edgeClass) =>
+    counts.set(edgeClass, (counts.get(edgeClass) ?? 0) + 1),
+  );
+
+  const nodeList = (nodeIds: string[], withNotes: boolean) =>
+    nodeIds.length === 0 ? (
+      <span className="text-gray-500 dark:text-gray-400">empty</span>
+    ) : (
+      <ol className="flex flex-wrap gap-1">
+        {nodeIds.map((nodeId) => {
+          const note = withNotes ? annotate?.(nodeId) : undefined;
+          return (
+            <li
+              key={nodeId}
+              className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-800 font-mono"
+            >
+              {name(nodeId)}
+              {note !== undefined && (
+                <span className="text-gray-500 dark:text-gray-400">
+                  {" "}
+                  {note}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    );
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <section>
+        <h3 className="font-semibold mb-1">{frontierLabel}</h3>
+        {nodeList(step?.frontier ?? [], false)}
+      </section>
+      <section>
+        <h3 className="font-semibold mb-1">Discovery order</h3>
+        {nodeList(step?.discovered ?? [], true)}
+      </section>
+      <section>
+        <h3 className="font-semibold mb-1">Finish order</h3>
+        {nodeList(step?.finished ?? [], false)}
+      </section>
+      <section>
+        <h3 className="font-semibold mb-1">Edges</h3>
+        <ul className="flex flex-wrap gap-3">
+          {EDGE_CLASSES.filter((option) => edgeClasses.includes(option.id)).map(
+            (option) => (
+              <li key={option.id} className="flex items-center gap-1">
+                <span
+                  className="inline-block w-4 h-1 rounded"
+                  style={{ backgroundColor: TRAVERSAL_COLORS.EDGES[option.id] }}
+                />
+                {option.label}: {counts.get(option.id) ?? 0}
+              </li>
+            ),
+          )}
+        </ul>
+      </section>
+    </div>
+  );
+};
+
+export default TraversalPanel;
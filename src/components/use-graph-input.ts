@@ -0,0 +1,247 @@
+"use client";
+import { useMemo, useState } from "react";
+import {
+  createGeometricGraph,
+  createGridGraph,
+  createRandomGraph,
+  Graph,
+} from "@/algorithms-core/graphs_common";
+import {
+  createSeededRandom,
+  generateSeed,
+  MAX_SEED,
+} from "@/algorithms-core/random";
+import {
+  decodeGraph,
+  decodeInteger,
+  decodeOption,
+  encodeGraph,
+} from "@/algorithms-core/url_state";
+import { readUrlParams } from "./use-url-state";
+
+// How generated graphs are laid out: edges between random nodes, nodes
+// scattered over the plane and joined to their nearest neighbors, or a grid
+export type GraphShape = "random" | "geometric" | "grid";
+
+export const GRAPH_SHAPES: { id: GraphShape; label: string }[] = [
+  { id: "random", label: "Random" },
+  { id: "geometric", label: "Geometric" },
+  { id: "grid", label: "Grid" },
+];
+
+export interface GraphInputOptions {
+  size?: number; // Node count of generated graphs unless the link sets one
+  density?: number; // Edge density of generated graphs unless the link sets one
+  directed?: boolean; // Whether generated graphs are directed unless the link says
+  acyclic?: boolean; // Whether generated directed graphs avoid cycles unless the link says
+  shape?: GraphShape; // Shape of generated graphs unless the link says
+  target?: boolean; // Whether the page has a target node to keep in the link
+}
+
+// The graph together with its edit count. Edits change the graph in place,
+// so memos over the graph depend on this instead, which is new after each.
+export interface GraphVersion {
+  graph: Graph;
+  revision: number;
+}
+
+export interface GraphInput {
+  params: URLSearchParams; // Query parameters the page was opened with
+  seed: number;
+  setSeed: (seed: number) => void;
+  size: number;
+  setSize: (size: number) => void;
+  density: number;
+  setDensity: (density: number) => void;
+  directed: boolean;
+  setDirected: (directed: boolean) => void;
+  acyclic: boolean; // Whether generated directed graphs have no cycles
+  setAcyclic: (acyclic: boolean) => void;
+  shape: GraphShape;
+  setShape: (shape: GraphShape) => void;
+  negativeWeights: boolean; // Whether generated edge weights can be negative
+  setNegativeWeights: (negativeWeights: boolean) => void;
+  graph: Graph;
+  graphVersion: GraphVersion; // New on every edit, for memos over the graph
+  importGraph: (graph: Graph) => void;
+  editGraph: (graph: Graph) => void;
+  startNodeId: string | null; // Null only when the graph has no nodes
+  setStartNodeId: (nodeId: string) => void;
+  targetNodeId: string | null; // Null only when the graph has no nodes
+  setTargetNodeId: (nodeId: string) => void;
+  initialStep: number; // Step index to open at
+  urlParams: Record<string, string | undefined>; // Graph settings, graph, start and target nodes, for useUrlSync
+}
+
+// Smallest weight drawn when negative weights are allowed; weights still go up to 10
+const NEGATIVE_MIN_WEIGHT = -4;
+
+// Rows and columns of a grid with about size cells, half again as wide as tall
+function gridDimensions(size: number): { rows: number; cols: number } {
+  const cols = Math.ceil(Math.sqrt(size * 1.5));
+  return { rows: Math.max(1, Math.round(size / cols)), cols };
+}
+
+/**
+ * State shared by the graph pages: the settings random graphs are generated
+ * from, a graph imported or edited by the user, and the start and target
+ * nodes, all restored from the page's link when present. Changing a setting replaces an
+ * imported or edited graph with a generated one.
+ *
+ * @param options - Defaults for the generated graph
+ */
+export function useGraphInput(options: GraphInputOptions = {}): GraphInput {
+  const [params] = useState(readUrlParams);
+  const [seed, setSeedState] = useState(
+    () => decodeInteger(params.get("seed"), 0, MAX_SEED) ?? generateSeed(),
+  );
+  const [size, setSizeState] = useState(
+    () => decodeInteger(params.get("size"), 2, 100) ?? options.size ?? 14,
+  );
+  const [density, setDensityState] = useState(() => {
+    const value = Number(params.get("density"));
+    return value >= 0.05 && value <= 1 ? value : (options.density ?? 0.1);
+  });
+  // Graph imported, edited or restored from the link, kept until a setting changes
+  const [loadedGraph, setLoadedGraph] = useState<Graph | null>(() =>
+    decodeGraph(params.get("graph")),
+  );
+  const defaultDirected = options.directed ?? false;
+  const [directed, setDirectedState] = useState(
+    () =>
+      loadedGraph?.directed ??
+      (params.has("directed")
+        ? params.get("directed") === "1"
+        : defaultDirected),
+  );
+  const defaultAcyclic = options.acyclic ?? false;
+  const [acyclic, setAcyclicState] = useState(() =>
+    params.has("acyclic") ? params.get("acyclic") === "1" : defaultAcyclic,
+  );
+  const defaultShape = options.shape ?? "random";
+  const [shape, setShapeState] = useState<GraphShape>(
+    () => decodeOption(params.get("shape"), GRAPH_SHAPES) ?? defaultShape,
+  );
+  const [negativeWeights, setNegativeWeightsState] = useState(
+    () => params.get("negative") === "1",
+  );
+  const [revision, setRevision] = useState(0);
+  const [chosenStart, setStartNodeId] = useState<string | null>(() =>
+    params.get("start"),
+  );
+  const [chosenTarget, setTargetNodeId] = useState<string | null>(() =>
+    params.get("target"),
+  );
+  const [initialStep] = useState(
+    () => decodeInteger(params.get("step"), 0, Number.MAX_SAFE_INTEGER) ?? 0,
+  );
+
+  const graph = useMemo(() => {
+    if (loadedGraph) return loadedGraph;
+    const rng = createSeededRandom(seed);
+    if (shape === "grid") {
+      const { rows, cols } = gridDimensions(size);
+      return createGridGraph(rows, cols, density, rng);
+    }
+    if (shape === "geometric") {
+      return createGeometricGraph(size, density, 1, 30, rng);
+    }
+    return createRandomGraph(
+      size,
+      density,
+      1, // minValue
+      30, // maxValue
+      undefined,
+      rng,
+      directed,
+      negativeWeights ? NEGATIVE_MIN_WEIGHT : 1,
+      undefined, // maxWeight
+      acyclic,
+    );
+  }, [
+    loadedGraph,
+    shape,
+    size,
+    density,
+    seed,
+    directed,
+    acyclic,
+    negativeWeights,
+  ]);
+
+  // Fall back to the first node when the chosen one is missing
+  const nodeIds = Object.keys(graph.nodes);
+  const startNodeId =
+    chosenStart !== null && graph.nodes[chosenStart]
+      ? chosenStart
+      : (nodeIds[0] ?? null);
+  const targetNodeId =
+    chosenTarget !== null && graph.nodes[chosenTarget]
+      ? chosenTarget
+      : (nodeIds[nodeIds.length - 1] ?? null);
+
+  // A new setting asks for a generated graph
+  const changeSetting =
+    <T>(set: (value: T) => void) =>
+    (value: T) => {
+      setLoadedGraph(null);
+      set(value);
+    };
+
+  const importGraph = (imported: Graph) => {
+    setLoadedGraph(imported);
+    setDirectedState(imported.directed);
+    setStartNodeId(null);
+    setTargetNodeId(null);
+  };
+
+  const editGraph = (edited: Graph) => {
+    setLoadedGraph(edited);
+    setRevision((r) => r + 1);
+  };
+
+  const graphVersion = useMemo(() => ({ graph, revision }), [graph, revision]);
+  const encodedGraph = useMemo(
+    () => (loadedGraph ? encodeGraph(graphVersion.graph) : undefined),
+    [loadedGraph, graphVersion],
+  );
+
+  return {
+    params,
+    seed,
+    setSeed: changeSetting(setSeedState),
+    size,
+    setSize: changeSetting(setSizeState),
+    density,
+    setDensity: changeSetting(setDensityState),
+    directed,
+    setDirected: changeSetting(setDirectedState),
+    acyclic,
+    setAcyclic: changeSetting(setAcyclicState),
+    shape,
+    setShape: changeSetting(setShapeState),
+    negativeWeights,
+    setNegativeWeights: changeSetting(setNegativeWeightsState),
+    graph,
+    graphVersion,
+    importGraph,
+    editGraph,
+    startNodeId,
+    setStartNodeId,
+    targetNodeId,
+    setTargetNodeId,
+    initialStep,
+    urlParams: {
+      seed: String(seed),
+      size: String(size),
+      density: String(density),
+      directed: directed === defaultDirected ? undefined : directed ? "1" : "0",
+      acyclic: acyclic === defaultAcyclic ? undefined : acyclic ? "1" : "0",
+      shape: shape === defaultShape ? undefined : shape,
+      negative: negativeWeights ? "1" : undefined,
+      graph: encodedGraph,
+      start: startNodeId ?? undefined,
+      target: options.target ? (targetNodeId ?? undefined) : undefined,
+    },
+  };
+}
@@ -0,0 +1,156 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+
+// Speeds offered by the playback controls, as multiples of the base interval.
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+export const MIN_PLAYBACK_SPEED = 0.25;
+export const MAX_PLAYBACK_SPEED = 8;
+
+// Keep a requested speed within the supported range.
+export function clampSpeed(speed: number): number {
+  if (Number.isNaN(speed)) return 1;
+  return Math.min(MAX_PLAYBACK_SPEED, Math.max(MIN_PLAYBACK_SPEED, speed));
+}
+
+export interface PlaybackOptions {
+  baseInterval?: number; // Milliseconds between steps at 1x speed
+  initialSpeed?: number;
+  initialIndex?: number; // Index to open the first non-empty steps array at, e.g. from a link
+}
+
+export interface PlaybackController<T> {
+  step: T | undefined; // The step at the current index
+  index: number;
+  length: number;
+  isPlaying: boolean;
+  speed: number;
+  isAtStart: boolean;
+  isAtEnd: boolean;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  stepForward: () => void;
+  stepBackward: () => void;
+  jumpToStart: () => void;
+  jumpToEnd: () => void;
+  seek: (index: number) => void;
+  setSpeed: (speed: number) => void;
+}
+
+/**
+ * Playback controller for a recorded list of algorithm steps.
+ * Loading a new steps array rewinds to the first step and pauses.
+ *
+ * @param steps - The recorded steps to play back
+ * @param options - Base interval, initial speed and initial index
+ * @returns The current step and the actions to move through the steps
+ */
+export function usePlayback<T>(
+  steps: T[],
+  options: PlaybackOptions = {},
+): PlaybackController<T> {
+  const { baseInterval = 500, initialSpeed = 1, initialIndex = 0 } = options;
+
+  const [trackedSteps, setTrackedSteps] = useState(steps);
+  // The initial index waits for the first steps if there are none yet
+  const [pendingIndex, setPendingIndex] = useState<number | null>(
+    steps.length > 0 ? null : initialIndex,
+  );
+  const [index, setIndex] = useState(steps.length > 0 ? initialIndex : 0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeedState] = useState(() => clampSpeed(initialSpeed));
+
+  // Rewind when a different steps array is loaded
+  if (trackedSteps !== steps) {
+    setTrackedSteps(steps);
+    if (steps.length > 0 && pendingIndex !== null) {
+      setIndex(pendingIndex);
+      setPendingIndex(null);
+    } else {
+      setIndex(0);
+    }
+    setIsPlaying(false);
+  }
+
+  const lastIndex = Math.max(0, steps.length - 1);
+  const currentIndex = Math.max(0, Math.min(index, lastIndex));
+
+  // Advance one step per tick while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (currentIndex >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setIndex((prev) => Math.min(prev + 1, lastIndex));
+    }, baseInterval / speed);
+
+    return () => clearTimeout(timeout);
+  }, [isPlaying, currentIndex, lastIndex, speed, baseInterval]);
+
+  const seek = useCallback(
+    (target: number) => {
+      setIndex(Math.max(0, Math.min(lastIndex, Math.round(target))));
+    },
+    [lastIndex],
+  );
+
+  const play = useCallback(() => {
+    if (steps.length < 2) return;
+    // If already at the end, start over
+    if (currentIndex >= lastIndex) setIndex(0);
+    setIsPlaying(true);
+  }, [steps.length, currentIndex, lastIndex]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const togglePlay = useCallback(() => {
+    if (isPlaying) pause();
+    else play();
+  }, [isPlaying, play, pause]);
+
+  const stepForward = useCallback(() => {
+    setIsPlaying(false);
+    setIndex((prev) => Math.min(prev + 1, lastIndex));
+  }, [lastIndex]);
+
+  const stepBackward = useCallback(() => {
+    setIsPlaying(false);
+    setIndex((prev) => Math.max(Math.min(prev, lastIndex) - 1, 0));
+  }, [lastIndex]);
+
+  const jumpToStart = useCallback(() => {
+    setIsPlaying(false);
+    setIndex(0);
+  }, []);
+
+  const jumpToEnd = useCallback(() => {
+    setIsPlaying(false);
+    setIndex(lastIndex);
+  }, [lastIndex]);
+
+  const setSpeed = useCallback((value: number) => {
+    setSpeedState(clampSpeed(value));
+  }, []);
+
+  return {
+    step: steps[currentIndex],
+    index: currentIndex,
+    length: steps.length,
+    isPlaying,
+    speed,
+    isAtStart: currentIndex === 0,
+    isAtEnd: currentIndex >= lastIndex,
+    play,
+    pause,
+    togglePlay,
+    stepForward,
+    stepBackward,
+    jumpToStart,
+    jumpToEnd,
+    seek,
+    setSpeed,
+  };
+}
@@ -0,0 +1,68 @@
+"use client";
+import { useState } from "react";
+import {
+  generateRandomArray,
+  parseArrayInput,
+} from "@/algorithms-core/arrays_common";
+import {
+  createSeededRandom,
+  generateSeed,
+  MAX_SEED,
+} from "@/algorithms-core/random";
+import {
+  decodeInteger,
+  decodeUrlValue,
+  encodeNumberList,
+} from "@/algorithms-core/url_state";
+import { readUrlParams } from "./use-url-state";
+
+export interface SortInput {
+  params: URLSearchParams; // Query parameters the page was opened with
+  seed: number;
+  setSeed: (seed: number) => void;
+  input: number[];
+  setInput: (arr: number[]) => void;
+  initialStep: number; // Step index to open at
+  urlParams: Record<string, string>; // Seed and array, for useUrlSync
+}
+
+// Restore the input array from the link, if it holds a valid one.
+function decodeInput(value: string | null): number[] | null {
+  const text = value === null ? null : decodeUrlValue(value);
+  if (text === null) return null;
+  try {
+    return parseArrayInput(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * State shared by the sorting pages: the seed and the array to sort, both
+ * restored from the page's link when present. Otherwise a random array of 25
+ * values from 1 to 50 is drawn from a fresh seed.
+ */
+export function useSortInput(): SortInput {
+  const [params] = useState(readUrlParams);
+  const [seed, setSeed] = useState(
+    () => decodeInteger(params.get("seed"), 0, MAX_SEED) ?? generateSeed(),
+  );
+  const [input, setInput] = useState<number[]>(
+    () =>
+      decodeInput(params.get("arr")) ??
+      generateRandomArray(25, 1, 50, createSeededRandom(seed)),
+  );
+  const [initialStep] = useState(
+    () => decodeInteger(params.get("step"), 0, Number.MAX_SAFE_INTEGER) ?? 0,
+  );
+
+  return {
+    params,
+    seed,
+    setSeed,
+    input,
+    setInput,
+    initialStep,
+    urlParams: { seed: String(seed), arr: encodeNumberList(input) },
+  };
+}
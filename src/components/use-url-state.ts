@@ -0,0 +1,42 @@
+"use client";
+import { useEffect } from "react";
+
+// Query parameters of the current page; empty while rendering on the server.
+export function readUrlParams(): URLSearchParams {
+  if (typeof window === "undefined") return new URLSearchParams();
+  return new URLSearchParams(window.location.search);
+}
+
+// Query string for the given parameters, leaving out those that are undefined.
+export function toQueryString(
+  params: Record<string, string | undefined>,
+): string {
+  return new URLSearchParams(
+    Object.entries(params).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined,
+    ),
+  ).toString();
+}
+
+/**
+ * Keeps the query string of the current page in sync with the given
+ * parameters, without adding history entries. Parameters that are undefined
+ * are left out. Updates are debounced so playback does not flood history.
+ *
+ * @param params - The state to write into the URL
+ * @param delay - Milliseconds to wait for further changes before writing
+ */
+export function useUrlSync(
+  params: Record<string, string | undefined>,
+  delay = 300,
+): void {
+  const query = toQueryString(params);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`;
+      window.history.replaceState(window.history.state, "", url);
+    }, delay);
+    return () => clearTimeout(timeout);
+  }, [query, delay]);
+}
@@ -1,4 +1,11 @@
-import { generateRandomArray } from "@/algorithms-core/arrays_common";
+import {
+  generateRandomArray,
+  generatePresetArray,
+  parseArrayInput,
+  ARRAY_PRESETS,
+  MAX_INPUT_LENGTH,
+} from "@/algorithms-core/arrays_common";
+import { createSeededRandom } from "@/algorithms-core/random";
 import "@testing-library/jest-dom";
 
 describe("generateRandomArray", () => {
@@ -45,3 +52,98 @@ describe("generateRandomArray", () => {
     });
   });
 });
+
+describe("seeded generation", () => {
+  test("the same seed generates the same arrays", () => {
+    expect(generateRandomArray(30, 1, 50, createSeededRandom(42))).toEqual(
+      generateRandomArray(30, 1, 50, createSeededRandom(42)),
+    );
+    ARRAY_PRESETS.forEach(({ id }) => {
+      expect(generatePresetArray(id, 30, 1, 50, createSeededRandom(9))).toEqual(
+        generatePresetArray(id, 30, 1, 50, createSeededRandom(9)),
+      );
+    });
+  });
+
+  test("the random preset matches generateRandomArray with the same seed", () => {
+    expect(
+      generatePresetArray("random", 30, 1, 50, createSeededRandom(7)),
+    ).toEqual(generateRandomArray(30, 1, 50, createSeededRandom(7)));
+  });
+});
+
+describe("generatePresetArray", () => {
+  test.each(ARRAY_PRESETS.map((preset) => [preset.id]))(
+    "%s keeps the length and range",
+    (preset) => {
+      const result = generatePresetArray(preset, 21, 5, 20);
+      expect(result).toHaveLength(21);
+      result.forEach((num) => {
+        expect(num).toBeGreaterThanOrEqual(5);
+        expect(num).toBeLessThanOrEqual(20);
+      });
+    },
+  );
+
+  test("sorted and reverse presets are ordered", () => {
+    const sorted = generatePresetArray("sorted", 30, 1, 50);
+    const reverse = generatePresetArray("reverse", 30, 1, 50);
+
+    expect(sorted).toEqual(sorted.slice().sort((a, b) => a - b));
+    expect(reverse).toEqual(reverse.slice().sort((a, b) => b - a));
+  });
+
+  test("all-equal and many-duplicates limit the distinct values", () => {
+    expect(new Set(generatePresetArray("all-equal", 30, 1, 50)).size).toBe(1);
+    expect(
+      new Set(generatePresetArray("many-duplicates", 30, 1, 50)).size,
+    ).toBeLessThanOrEqual(4);
+  });
+
+  test("organ-pipe rises to a peak then falls", () => {
+    const result = generatePresetArray("organ-pipe", 30, 1, 50);
+    const peak = result.indexOf(Math.max(...result));
+
+    for (let i = 1; i <= peak; i++) {
+      expect(result[i]).toBeGreaterThanOrEqual(result[i - 1]);
+    }
+    for (let i = peak + 1; i < result.length; i++) {
+      expect(result[i]).toBeLessThanOrEqual(result[i - 1]);
+    }
+  });
+
+  test("nearly sorted differs from sorted by neighbouring swaps", () => {
+    const result = generatePresetArray("nearly-sorted", 30, 1, 50);
+    const sorted = result.slice().sort((a, b) => a - b);
+    result.forEach((num, i) => {
+      expect([sorted[i - 1], sorted[i], sorted[i + 1]]).toContain(num);
+    });
+  });
+});
+
+describe("parseArrayInput", () => {
+  test("accepts commas and whitespace as separators", () => {
+    expect(parseArrayInput(" 5, 3 8,1 ,, 0 ")).toEqual([5, 3, 8, 1, 0]);
+  });
+
+  test("rejects empty input", () => {
+    expect(() => parseArrayInput("  , ")).toThrow("at least one number");
+  });
+
+  test("rejects values that are not whole numbers", () => {
+    expect(() => parseArrayInput("1, 2.5, 3")).toThrow('"2.5" at position 2');
+    expect(() => parseArrayInput("-4")).toThrow('"-4" at position 1');
+    expect(() => parseArrayInput("1, abc")).toThrow('"abc"');
+  });
+
+  test("rejects values and lengths over the limits", () => {
+    expect(() => parseArrayInput("1, 1000")).toThrow("larger than 999");
+    expect(() =>
+      parseArrayInput(
+        Array(MAX_INPUT_LENGTH + 1)
+          .fill("1")
+          .join(","),
+      ),
+    ).toThrow(`at most ${MAX_INPUT_LENGTH}`);
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  astar,
+  ASTAR_CODE,
+  countDijkstraExpansions,
+  HEURISTICS,
+} from "@/algorithms-core/astar";
+import { dijkstra } from "@/algorithms-core/dijkstras";
+import {
+  createGeometricGraph,
+  createGridGraph,
+  Graph,
+} from "@/algorithms-core/graphs_common";
+import { createSeededRandom } from "@/algorithms-core/random";
+import { buildGraph } from "./graph-fixtures";
+
+// A grid with no walls, so every cell is open
+function openGrid(rows: number, cols: number): Graph {
+  return createGridGraph(rows, cols, 0, createSeededRandom(1));
+}
+
+describe("heuristics", () => {
+  test("measure the distance between two points", () => {
+    const estimates = Object.fromEntries(
+      HEURISTICS.map(({ id, estimate }) => [
+        id,
+        estimate({ x: 0, y: 0 }, { x: 3, y: 4 }),
+      ]),
+    );
+
+    expect(estimates).toEqual({
+      manhattan: 7,
+      euclidean: 5,
+      chebyshev: 4,
+      zero: 0,
+    });
+  });
+});
+
+describe("A* search", () => {
+  test("finds the shortest path on a grid", () => {
+    const graph = openGrid(4, 6);
+    const result = astar(graph, "cell-0-0", "cell-3-5", "manhattan");
+
+    expect(result.distance).toBe(8);
+    expect(result.path).toHaveLength(9);
+    expect(result.path![0]).toBe("cell-0-0");
+    expect(result.path![8]).toBe("cell-3-5");
+    expect(result.steps[result.steps.length - 1].path).toEqual(result.path);
+  });
+
+  test("expands fewer nodes than Dijkstra with a heuristic", () => {
+    const graph = openGrid(5, 9);
+    const guided = astar(graph, "cell-2-0", "cell-2-8", "manhattan");
+    const blind = astar(graph, "cell-2-0", "cell-2-8", "zero");
+
+    expect(guided.distance).toBe(blind.distance);
+    expect(guided.expanded).toBe(9);
+    expect(blind.expanded).toBeGreaterThan(guided.expanded);
+    // Dijkstra breaks ties differently, but also spreads out in every direction
+    expect(
+      countDijkstraExpansions(graph, "cell-2-0", "cell-2-8"),
+    ).toBeGreaterThan(30);
+  });
+
+  test("agrees with Dijkstra on geometric graphs with a Euclidean heuristic", () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const graph = createGeometricGraph(
+        20,
+        0.2,
+        1,
+        20,
+        createSeededRandom(seed),
+      );
+      const { distances } = dijkstra(graph, "node-0");
+      const result = astar(graph, "node-0", "node-19", "euclidean");
+
+      expect(result.distance).toBe(distances.get("node-19"));
+    }
+  });
+
+  test("keeps the open set ordered by f, then h", () => {
+    const graph = openGrid(3, 3);
+    const { steps } = astar(graph, "cell-0-0", "cell-2-2", "euclidean");
+
+    steps.forEach((step) => {
+      const f = step.open.map((id) => step.g.get(id)! + step.h.get(id)!);
+      f.slice(1).forEach((value, i) =>
+        expect(value).toBeGreaterThanOrEqual(f[i] - 1e-9),
+      );
+    });
+  });
+
+  test("never reopens a closed node", () => {
+    const graph = openGrid(4, 4);
+    const { steps } = astar(graph, "cell-0-0", "cell-3-3", "chebyshev");
+
+    steps.forEach((step) => {
+      const closed = new Set(step.closed);
+      expect(step.open.some((id) => closed.has(id))).toBe(false);
+    });
+  });
+
+  test("reports an unreachable goal", () => {
+    const graph = buildGraph(["A", "B", "C"], [["A", "B", 1]]);
+    const result = astar(graph, "A", "C", "zero");
+
+    expect(result.path).toBeNull();
+    expect(result.distance).toBeNull();
+    expect(result.expanded).toBe(2);
+    expect(result.steps[result.steps.length - 1].line).toBe(11);
+  });
+
+  test("refuses graphs it cannot search", () => {
+    const unplaced = buildGraph(["A", "B"], [["A", "B", 1]]);
+    expect(() => astar(unplaced, "A", "B", "manhattan")).toThrow(/no position/);
+    expect(() => astar(unplaced, "A", "Z", "zero")).toThrow(/Goal node Z/);
+
+    const negative = buildGraph(["A", "B"], [["A", "B", -1]]);
+    expect(() => astar(negative, "A", "B", "zero")).toThrow(/non-negative/);
+  });
+
+  test("steps only point at lines of the listing", () => {
+    const lines = ASTAR_CODE[0].lines.length;
+    const { steps } = astar(openGrid(3, 4), "cell-0-0", "cell-2-3", "zero");
+
+    steps.forEach((step) => {
+      expect(step.line).toBeGreaterThanOrEqual(1);
+      expect(step.line).toBeLessThanOrEqual(lines);
+    });
+  });
+});
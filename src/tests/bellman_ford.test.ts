@@ -0,0 +1,182 @@
+import { Graph } from "@/algorithms-core/graphs_common";
+import {
+  bellmanFord,
+  BELLMAN_FORD_CODE,
+  findNegativeCycle,
+} from "@/algorithms-core/bellman_ford";
+import { dijkstra } from "@/algorithms-core/dijkstras";
+import { buildGraph } from "./graph-fixtures";
+
+describe("findNegativeCycle", () => {
+  test("should follow previous links around the cycle", () => {
+    const previous = new Map<string, string | null>([
+      ["S", null],
+      ["A", "S"],
+      ["B", "A"],
+      ["C", "B"],
+    ]);
+
+    // C -> A still relaxes, closing A -> B -> C -> A
+    expect(findNegativeCycle(previous, "C", "A", 4)).toEqual(["A", "B", "C"]);
+  });
+});
+
+describe("Bellman-Ford Algorithm", () => {
+  test("should handle negative weights without a cycle", () => {
+    const graph = buildGraph(
+      ["S", "A", "B", "C"],
+      [
+        ["S", "A", 4],
+        ["S", "B", 5],
+        ["B", "A", -3],
+        ["A", "C", 2],
+      ],
+      true,
+    );
+
+    const result = bellmanFord(graph, "S");
+
+    expect(result.negativeCycle).toBeNull();
+    expect(result.distances.get("A")).toBe(2);
+    expect(result.distances.get("C")).toBe(4);
+    expect(result.previous.get("A")).toBe("B");
+  });
+
+  test("should agree with Dijkstra on non-negative weights", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D", "E"],
+      [
+        ["A", "B", 4],
+        ["A", "C", 1],
+        ["C", "B", 2],
+        ["B", "D", 5],
+        ["C", "D", 8],
+        ["D", "E", 3],
+      ],
+    );
+
+    expect(bellmanFord(graph, "A").distances).toEqual(
+      dijkstra(graph, "A").distances,
+    );
+  });
+
+  test("should find a reachable negative cycle", () => {
+    const graph = buildGraph(
+      ["S", "A", "B", "C", "D"],
+      [
+        ["S", "A", 1],
+        ["A", "B", 1],
+        ["B", "C", -4],
+        ["C", "A", 1],
+        ["C", "D", 1],
+      ],
+      true,
+    );
+
+    const result = bellmanFord(graph, "S");
+    const last = result.steps[result.steps.length - 1];
+
+    expect(result.negativeCycle).not.toBeNull();
+    expect([...result.negativeCycle!].sort()).toEqual(["A", "B", "C"]);
+    expect(last.kind).toBe("done");
+    expect(last.negativeCycle).toEqual(result.negativeCycle);
+    // Consecutive cycle nodes are joined by edges
+    result.negativeCycle!.forEach((nodeId, i, cycle) => {
+      expect(graph.hasEdge(nodeId, cycle[(i + 1) % cycle.length])).toBe(true);
+    });
+  });
+
+  test("should ignore a negative cycle the start cannot reach", () => {
+    const graph = buildGraph(
+      ["S", "A", "B", "C"],
+      [
+        ["S", "A", 2],
+        ["B", "C", -2],
+        ["C", "B", 1],
+      ],
+      true,
+    );
+
+    const result = bellmanFord(graph, "S");
+
+    expect(result.negativeCycle).toBeNull();
+    expect(result.distances.get("B")).toBe(Infinity);
+  });
+
+  test("should treat a negative undirected edge as a cycle", () => {
+    const graph = buildGraph(["A", "B"], [["A", "B", -1]]);
+
+    expect([...bellmanFord(graph, "A").negativeCycle!].sort()).toEqual([
+      "A",
+      "B",
+    ]);
+  });
+
+  test("should stop early once a pass changes nothing", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D"],
+      [
+        ["A", "B", 1],
+        ["B", "C", 1],
+        ["C", "D", 1],
+      ],
+      true,
+    );
+
+    const result = bellmanFord(graph, "A");
+
+    // Edges are listed in path order, so one pass settles everything
+    expect(result.passes).toBe(2);
+    expect(
+      result.steps.filter((step) => step.kind === "finalize"),
+    ).toHaveLength(2);
+  });
+
+  test("should record one step per edge in each pass", () => {
+    const graph = buildGraph(
+      ["A", "B", "C"],
+      [
+        ["A", "B", 1],
+        ["B", "C", 1],
+      ],
+      true,
+    );
+
+    const { steps } = bellmanFord(graph, "A");
+    const firstPass = steps.filter(
+      (step) => step.pass === 1 && step.currentEdge !== null,
+    );
+
+    expect(firstPass.map((step) => step.currentEdge)).toEqual([
+      { sourceId: "A", targetId: "B" },
+      { sourceId: "B", targetId: "C" },
+    ]);
+    expect(firstPass.every((step) => step.kind === "relax")).toBe(true);
+  });
+
+  test("should record pseudo-code lines within the listing", () => {
+    const graph = buildGraph(
+      ["S", "A", "B"],
+      [
+        ["S", "A", 1],
+        ["A", "B", -2],
+        ["B", "A", 1],
+      ],
+      true,
+    );
+    const pseudocode = BELLMAN_FORD_CODE.find(
+      (l) => l.language === "pseudocode",
+    )!;
+
+    bellmanFord(graph, "S").steps.forEach((step) => {
+      expect(step.line).toBeGreaterThanOrEqual(1);
+      expect(step.line).toBeLessThanOrEqual(pseudocode.lines.length);
+    });
+  });
+
+  test("should throw an error if the start node does not exist", () => {
+    expect(() => bellmanFord(new Graph(), "A")).toThrow(
+      "Start node A not found in the graph",
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { Graph } from "@/algorithms-core/graphs_common";
+import { bfs, BFS_CODE } from "@/algorithms-core/bfs";
+import { buildGraph } from "./graph-fixtures";
+
+describe("Breadth-First Search", () => {
+  test("should discover nodes level by level", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D", "E"],
+      [
+        ["A", "B"],
+        ["A", "C"],
+        ["B", "D"],
+        ["C", "D"],
+        ["D", "E"],
+      ],
+    );
+
+    const result = bfs(graph, "A");
+
+    expect(result.order).toEqual(["A", "B", "C", "D", "E"]);
+    expect(result.levels.get("D")).toBe(2);
+    expect(result.levels.get("E")).toBe(3);
+    expect(result.parents.get("D")).toBe("B");
+    expect(result.parents.get("A")).toBeNull();
+  });
+
+  test("should show the queue in each step", () => {
+    const graph = buildGraph(
+      ["A", "B", "C"],
+      [
+        ["A", "B"],
+        ["A", "C"],
+      ],
+    );
+
+    const { steps } = bfs(graph, "A");
+    const expanded = steps.find(
+      (step) => step.kind === "finalize" && step.finished.includes("A"),
+    )!;
+
+    expect(steps[0].frontier).toEqual(["A"]);
+    expect(expanded.frontier).toEqual(["B", "C"]);
+    expect(steps[steps.length - 1].kind).toBe("done");
+    expect(steps[steps.length - 1].frontier).toEqual([]);
+  });
+
+  test("should classify each undirected edge once", () => {
+    const graph = buildGraph(
+      ["A", "B", "C"],
+      [
+        ["A", "B"],
+        ["A", "C"],
+        ["B", "C"],
+      ],
+    );
+
+    const { steps } = bfs(graph, "A");
+    const classes = steps[steps.length - 1].edgeClasses;
+    const classified = steps.filter((step) =>
+      step.mutations.some((m) => m.target === "edgeClasses"),
+    );
+
+    expect(classified).toHaveLength(3);
+    expect(classes.get(graph._getEdgeId("A", "B"))).toBe("tree");
+    expect(classes.get(graph._getEdgeId("A", "C"))).toBe("tree");
+    expect(classes.get(graph._getEdgeId("B", "C"))).toBe("cross");
+  });
+
+  test("should find back edges in a directed cycle", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D"],
+      [
+        ["A", "B"],
+        ["B", "C"],
+        ["C", "A"],
+        ["A", "D"],
+        ["D", "C"],
+      ],
+      true,
+    );
+
+    const { steps } = bfs(graph, "A");
+    const classes = steps[steps.length - 1].edgeClasses;
+
+    expect(classes.get("C->A")).toBe("back");
+    expect(classes.get("D->C")).toBe("cross");
+    expect(classes.get("B->C")).toBe("tree");
+  });
+
+  test("should only follow directed edges forwards", () => {
+    const graph = buildGraph(["A", "B"], [["B", "A"]], true);
+
+    expect(bfs(graph, "A").order).toEqual(["A"]);
+    expect(bfs(graph, "A", { visitAll: true }).order).toEqual(["A", "B"]);
+  });
+
+  test("should restart from unreached nodes when visiting all", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D"],
+      [
+        ["A", "B"],
+        ["C", "D"],
+      ],
+    );
+
+    const result = bfs(graph, "A", { visitAll: true });
+
+    expect(result.order).toEqual(["A", "B", "C", "D"]);
+    expect(result.parents.get("C")).toBeNull();
+    expect(result.levels.get("D")).toBe(1);
+    expect(bfs(graph, "A").order).toEqual(["A", "B"]);
+  });
+
+  test("should record pseudo-code lines within the listing", () => {
+    const graph = buildGraph(
+      ["A", "B", "C"],
+      [
+        ["A", "B"],
+        ["B", "C"],
+        ["C", "A"],
+      ],
+    );
+    const pseudocode = BFS_CODE.find((l) => l.language === "pseudocode")!;
+
+    bfs(graph, "A", { visitAll: true }).steps.forEach((step) => {
+      if (step.line === undefined) return;
+      expect(step.line).toBeGreaterThanOrEqual(1);
+      expect(step.line).toBeLessThanOrEqual(pseudocode.lines.length);
+    });
+  });
+
+  test("should throw an error if the start node does not exist", () => {
+    expect(() => bfs(new Graph(), "A")).toThrow(
+      "Start node A not found in the graph",
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import {
+  getBubbleSortSteps,
+  BUBBLESORT_CODE,
+} from "@/algorithms-core/bubblesort";
+
+describe("getBubbleSortSteps", () => {
+  test("starts with the unsorted input and ends sorted", () => {
+    const input = [5, 3, 8, 1, 9, 2, 7];
+    const steps = getBubbleSortSteps(input);
+
+    expect(steps[0].kind).toBe("init");
+    expect(steps[0].arr).toEqual(input);
+    expect(steps[steps.length - 1].kind).toBe("done");
+    expect(steps[steps.length - 1].arr).toEqual([1, 2, 3, 5, 7, 8, 9]);
+    expect(input).toEqual([5, 3, 8, 1, 9, 2, 7]);
+  });
+
+  test("stops after one pass over a sorted array", () => {
+    const steps = getBubbleSortSteps([1, 2, 3, 4]);
+    const last = steps[steps.length - 1];
+
+    expect(steps.filter((step) => step.kind === "compare")).toHaveLength(3);
+    expect(steps.some((step) => step.kind === "finalize")).toBe(true);
+    expect(last.stats).toEqual({ comparisons: 3, swaps: 0, writes: 0 });
+  });
+
+  test("counts every comparison and swap on a reversed array", () => {
+    const steps = getBubbleSortSteps([4, 3, 2, 1]);
+
+    expect(steps[steps.length - 1].stats).toEqual({
+      comparisons: 6,
+      swaps: 6,
+      writes: 12,
+    });
+  });
+
+  test("every step but the last points at a pseudo-code line", () => {
+    const steps = getBubbleSortSteps([3, 1, 2]);
+    steps.slice(0, -1).forEach((step) => {
+      expect(step.line).toBeGreaterThanOrEqual(1);
+      expect(step.line).toBeLessThanOrEqual(BUBBLESORT_CODE[0].lines.length);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Graph } from "@/algorithms-core/graphs_common";
+import { dfs, DFS_CODE } from "@/algorithms-core/dfs";
+import { buildGraph } from "./graph-fixtures";
+
+describe("Depth-First Search", () => {
+  test("should go deep before backtracking", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D"],
+      [
+        ["A", "B"],
+        ["B", "C"],
+        ["A", "D"],
+      ],
+    );
+
+    const result = dfs(graph, "A");
+
+    expect(result.order).toEqual(["A", "B", "C", "D"]);
+    expect(result.finishOrder).toEqual(["C", "B", "D", "A"]);
+    expect(result.discoveryTime.get("C")).toBe(3);
+    expect(result.finishTime.get("C")).toBe(4);
+    expect(result.finishTime.get("A")).toBe(8);
+  });
+
+  test("should keep the current path on the stack", () => {
+    const graph = buildGraph(
+      ["A", "B", "C"],
+      [
+        ["A", "B"],
+        ["B", "C"],
+      ],
+    );
+
+    const { steps } = dfs(graph, "A");
+    const deepest = steps.find(
+      (step) => step.kind === "visit" && step.currentNodeId === "C",
+    )!;
+
+    expect(deepest.frontier).toEqual(["A", "B", "C"]);
+    expect(steps[steps.length - 1].frontier).toEqual([]);
+  });
+
+  test("should classify every kind of directed edge", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D"],
+      [
+        ["A", "B"],
+        ["B", "C"],
+        ["C", "A"],
+        ["A", "C"],
+        ["A", "D"],
+        ["D", "B"],
+      ],
+      true,
+    );
+
+    const { steps } = dfs(graph, "A");
+    const classes = steps[steps.length - 1].edgeClasses;
+
+    expect(classes.get("A->B")).toBe("tree");
+    expect(classes.get("B->C")).toBe("tree");
+    expect(classes.get("C->A")).toBe("back");
+    expect(classes.get("A->C")).toBe("forward");
+    expect(classes.get("D->B")).toBe("cross");
+  });
+
+  test("should find only tree and back edges in an undirected graph", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D"],
+      [
+        ["A", "B"],
+        ["B", "C"],
+        ["C", "A"],
+        ["C", "D"],
+      ],
+    );
+
+    const { steps } = dfs(graph, "A");
+    const classes = steps[steps.length - 1].edgeClasses;
+
+    expect(classes.size).toBe(4);
+    expect(classes.get(graph._getEdgeId("A", "C"))).toBe("back");
+    expect([...classes.values()].filter((c) => c === "tree")).toHaveLength(3);
+  });
+
+  test("should restart from unreached nodes when visiting all", () => {
+    const graph = buildGraph(["A", "B", "C"], [["B", "C"]], true);
+
+    const result = dfs(graph, "A", { visitAll: true });
+
+    expect(result.order).toEqual(["A", "B", "C"]);
+    expect(result.discoveryTime.get("B")).toBe(3);
+    expect(result.parents.get("B")).toBeNull();
+    expect(dfs(graph, "A").order).toEqual(["A"]);
+  });
+
+  test("should record pseudo-code lines within the listing", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D"],
+      [
+        ["A", "B"],
+        ["B", "C"],
+        ["C", "A"],
+        ["A", "C"],
+        ["D", "B"],
+      ],
+      true,
+    );
+    const pseudocode = DFS_CODE.find((l) => l.language === "pseudocode")!;
+
+    dfs(graph, "A", { visitAll: true }).steps.forEach((step) => {
+      if (step.line === undefined) return;
+      expect(step.line).toBeGreaterThanOrEqual(1);
+      expect(step.line).toBeLessThanOrEqual(pseudocode.lines.length);
+    });
+  });
+
+  test("should throw an error if the start node does not exist", () => {
+    expect(() => dfs(new Graph(), "A")).toThrow(
+      "Start node A not found in the graph",
+    );
+  });
+});
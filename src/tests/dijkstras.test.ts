@@ -1,10 +1,12 @@
-import { Graph } from "@/algorithms-core/graphs_common";
+import { createRandomGraph, Graph } from "@/algorithms-core/graphs_common";
+import { createSeededRandom } from "@/algorithms-core/random";
 import type { Node } from "@/algorithms-core/graphs_common";
 import {
   dijkstra,
   findNodeWithSmallestDistance,
   createDijkstraStep,
   reconstructPath,
+  DIJKSTRA_CODE,
 } from "@/algorithms-core/dijkstras";
 
 // Helper function for conditional debug logging in tests
@@ -322,6 +324,45 @@ describe("Dijkstra Algorithm", () => {
     expect(finalStep.unvisited.size).toBe(0); // No unvisited nodes
   });
 
+  test("should describe each step with the common trace fields", () => {
+    const graph = createTestGraph();
+    const result = dijkstra(graph, "A");
+
+    expect(result.steps[0].kind).toBe("init");
+    // Unreached distances are Infinity, before and after the first step
+    expect(result.steps[0].mutations).toEqual([
+      { target: "distances", key: "A", from: Infinity, to: 0 },
+    ]);
+    result.steps.slice(1).forEach((step) => {
+      expect(step.kind).toBe("finalize");
+      expect(step.highlights).toContainEqual({
+        type: "node",
+        nodeId: step.currentNodeId,
+        role: "current",
+      });
+    });
+
+    // Every step points at a pseudo-code line
+    result.steps.forEach((step) => {
+      expect(step.line).toBeGreaterThanOrEqual(1);
+      expect(step.line).toBeLessThanOrEqual(DIJKSTRA_CODE[0].lines.length);
+    });
+
+    // Finalizing A improves both of its neighbors
+    expect(result.steps[1].mutations).toContainEqual({
+      target: "distances",
+      key: "B",
+      from: Infinity,
+      to: 1,
+    });
+    expect(result.steps[1].mutations).toContainEqual({
+      target: "previous",
+      key: "C",
+      from: null,
+      to: "A",
+    });
+  });
+
   test("should be able to find shortest path using reconstructPath", () => {
     const graph = createTestGraph();
     const startNodeId = "A";
@@ -429,4 +470,305 @@ describe("Dijkstra Algorithm", () => {
     expect(result.distances.get("C")).toBe(3); // A -> B -> C : 2 + 1
     expect(result.distances.get("D")).toBe(5); // A -> B -> C -> D : 2 + 1 + 2
   });
+
+  test("should only follow directed edges forwards", () => {
+    const graph = new Graph(true);
+    graph.add_node("A", 0);
+    graph.add_node("B", 0);
+    graph.add_node("C", 0);
+
+    graph.add_edge("A", "B", 1);
+    graph.add_edge("C", "B", 1); // Leads into B, so C cannot be reached
+    graph.add_edge("B", "A", 7);
+
+    const result = dijkstra(graph, "A");
+
+    expect(result.distances.get("B")).toBe(1);
+    expect(result.distances.get("C")).toBe(Infinity);
+    expect(dijkstra(graph, "B").distances.get("A")).toBe(7);
+  });
+});
+
+describe("Dijkstra with a target", () => {
+  function createPathGraph(): Graph {
+    const graph = new Graph();
+    ["A", "B", "C", "D", "E"].forEach((id) => graph.add_node(id, 0));
+    graph.add_edge("A", "B", 1);
+    graph.add_edge("B", "C", 2);
+    graph.add_edge("A", "C", 5);
+    graph.add_edge("C", "D", 1);
+    graph.add_edge("D", "E", 1);
+    return graph;
+  }
+
+  test("stops once the target is finalized and returns its path", () => {
+    const result = dijkstra(createPathGraph(), "A", false, "heap", "C");
+
+    expect(result.shortestPath).toEqual(["A", "B", "C"]);
+    expect(result.totalDistance).toBe(3);
+    const last = result.steps[result.steps.length - 1];
+    expect(last.currentNodeId).toBe("C");
+    expect(last.line).toBe(8);
+    expect(last.visited.has("D")).toBe(false);
+    expect(last.highlights).toContainEqual({
+      type: "edge",
+      sourceId: "B",
+      targetId: "C",
+      role: "path",
+    });
+  });
+
+  test("the target's finalize step highlights the whole path", () => {
+    const { steps } = dijkstra(
+      createPathGraph(),
+      "A",
+      false,
+      "heap",
+      "E",
+      "edge",
+    );
+    const last = steps[steps.length - 1];
+
+    expect(last.kind).toBe("finalize");
+    expect(last.narration).toBe(
+      "Finalize the target E at distance 5; its shortest path is known, so stop",
+    );
+    expect(last.mutations).toEqual([]);
+    expect(last.highlights).toEqual([
+      { type: "node", nodeId: "E", role: "current" },
+      { type: "edge", sourceId: "A", targetId: "B", role: "path" },
+      { type: "edge", sourceId: "B", targetId: "C", role: "path" },
+      { type: "edge", sourceId: "C", targetId: "D", role: "path" },
+      { type: "edge", sourceId: "D", targetId: "E", role: "path" },
+    ]);
+    // Only the target's step stops the run; no edges of E are examined
+    expect(steps.filter((step) => step.line === 8)).toEqual([last]);
+    expect(steps[steps.length - 2].currentNodeId).toBe("D");
+  });
+
+  test("the start as target is a path of one node", () => {
+    const result = dijkstra(createPathGraph(), "A", false, "linear", "A");
+
+    expect(result.shortestPath).toEqual(["A"]);
+    expect(result.totalDistance).toBe(0);
+    expect(result.steps).toHaveLength(2);
+  });
+
+  test("reports an unreachable target", () => {
+    const graph = createPathGraph();
+    graph.add_node("F", 0);
+    const result = dijkstra(graph, "A", false, "heap", "F");
+
+    expect(result.shortestPath).toBeNull();
+    expect(result.totalDistance).toBeNull();
+    expect(result.distances.get("E")).toBe(5);
+    // Every reachable node is finalized, and no step claims a path
+    const last = result.steps[result.steps.length - 1];
+    expect([...last.visited].sort()).toEqual(["A", "B", "C", "D", "E"]);
+    expect(last.distances.get("F")).toBe(Infinity);
+    result.steps.forEach((step) => {
+      expect(step.line).not.toBe(8);
+      expect(step.highlights.some((h) => h.role === "path")).toBe(false);
+    });
+  });
+
+  test("leaves the path empty without a target", () => {
+    const result = dijkstra(createPathGraph(), "A");
+
+    expect(result.shortestPath).toBeNull();
+    expect(result.totalDistance).toBeNull();
+  });
+
+  test("throws an error if the target does not exist", () => {
+    expect(() => dijkstra(createPathGraph(), "A", false, "heap", "Z")).toThrow(
+      "Target node Z not found in the graph",
+    );
+  });
+});
+
+describe("Dijkstra priority queues", () => {
+  function randomGraph(seed: number): Graph {
+    return createRandomGraph(
+      40,
+      0.15,
+      1,
+      20,
+      undefined,
+      createSeededRandom(seed),
+    );
+  }
+
+  test("the heap and the linear scan finalize nodes in the same order", () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const graph = randomGraph(seed);
+      const heap = dijkstra(graph, "node-0", false, "heap");
+      const linear = dijkstra(graph, "node-0", false, "linear");
+
+      expect(heap.steps.map((step) => step.currentNodeId)).toEqual(
+        linear.steps.map((step) => step.currentNodeId),
+      );
+      expect(heap.distances).toEqual(linear.distances);
+    }
+  });
+
+  test("each step records the heap of unvisited nodes", () => {
+    const { steps } = dijkstra(randomGraph(7), "node-0");
+
+    steps.forEach((step) => {
+      const heap = step.heap!;
+      expect(heap.map((entry) => entry.id).sort()).toEqual(
+        [...step.unvisited].sort(),
+      );
+      heap.forEach((entry, i) => {
+        expect(entry.priority).toBe(step.distances.get(entry.id));
+        if (i > 0) {
+          expect(heap[(i - 1) >> 1].priority).toBeLessThanOrEqual(
+            entry.priority,
+          );
+        }
+      });
+    });
+    expect(steps[0].heap![0]).toEqual({ id: "node-0", priority: 0 });
+  });
+
+  test("the heap makes fewer comparisons than the scan", () => {
+    const graph = randomGraph(3);
+    const heap = dijkstra(graph, "node-0", false, "heap");
+    const linear = dijkstra(graph, "node-0", false, "linear");
+
+    expect(linear.steps.every((step) => step.heap === null)).toBe(true);
+    expect(heap.steps[heap.steps.length - 1].comparisons).toBeLessThan(
+      linear.steps[linear.steps.length - 1].comparisons,
+    );
+  });
+});
+
+describe("Dijkstra per-edge steps", () => {
+  function createTriangle(): Graph {
+    const graph = new Graph();
+    ["A", "B", "C"].forEach((id) => graph.add_node(id, 0));
+    graph.add_edge("A", "B", 1);
+    graph.add_edge("A", "C", 1);
+    graph.add_edge("B", "C", 5);
+    return graph;
+  }
+
+  test("finalizes the same nodes at the same distances as per-node steps", () => {
+    const graph = createRandomGraph(
+      20,
+      0.2,
+      1,
+      20,
+      undefined,
+      createSeededRandom(4),
+    );
+    const perNode = dijkstra(graph, "node-0");
+    const perEdge = dijkstra(graph, "node-0", false, "heap", null, "edge");
+
+    expect(perEdge.distances).toEqual(perNode.distances);
+    expect(
+      perEdge.steps
+        .filter((step) => step.kind === "finalize")
+        .map((step) => step.currentNodeId),
+    ).toEqual(
+      perNode.steps
+        .filter((step) => step.kind === "finalize")
+        .map((step) => step.currentNodeId),
+    );
+  });
+
+  test("records each edge examined and whether it improved a distance", () => {
+    const { steps } = dijkstra(
+      createTriangle(),
+      "A",
+      false,
+      "heap",
+      null,
+      "edge",
+    );
+    const examined = steps.filter((step) => step.line === 11);
+    const improved = steps.filter((step) => step.kind === "relax");
+    const unchanged = steps.filter((step) => step.line === 12);
+
+    expect(examined).toHaveLength(3);
+    expect(improved.map((step) => step.mutations[0].key).sort()).toEqual([
+      "B",
+      "C",
+    ]);
+    improved.forEach((step) => expect(step.line).toBe(13));
+    expect(unchanged).toHaveLength(1);
+    expect(unchanged[0].narration).toBe(
+      "No improvement: 6 is not less than the distance of C, 1",
+    );
+    expect(unchanged[0].highlights).toContainEqual({
+      type: "edge",
+      sourceId: "B",
+      targetId: "C",
+      role: "compare",
+    });
+  });
+
+  test("skips edges back to finalized nodes", () => {
+    const { steps } = dijkstra(
+      createTriangle(),
+      "A",
+      false,
+      "heap",
+      null,
+      "edge",
+    );
+    const skipped = steps.filter((step) => step.line === 10);
+
+    // B and C each lead back to A, and C back to B
+    expect(skipped.map((step) => step.narration)).toEqual([
+      "A is already final, so skip B - A",
+      "A is already final, so skip C - A",
+      "B is already final, so skip C - B",
+    ]);
+    skipped.forEach((step) => {
+      expect(step.kind).toBe("compare");
+      expect(step.mutations).toEqual([]);
+    });
+    expect(skipped[0].highlights).toContainEqual({
+      type: "edge",
+      sourceId: "B",
+      targetId: "A",
+      role: "compare",
+    });
+  });
+
+  test("leaves distances alone when an edge brings no improvement", () => {
+    const { steps } = dijkstra(
+      createTriangle(),
+      "A",
+      false,
+      "heap",
+      null,
+      "edge",
+    );
+    const index = steps.findIndex((step) => step.line === 12);
+    const unchanged = steps[index];
+
+    // B - C examined from B: 1 + 5 is no better than the 1 C already has
+    expect(steps[index - 1].narration).toBe("Examine B - C: alt = 1 + 5 = 6");
+    expect(unchanged.kind).toBe("compare");
+    expect(unchanged.mutations).toEqual([]);
+    expect(unchanged.distances.get("C")).toBe(1);
+    expect(unchanged.previous.get("C")).toBe("A");
+  });
+
+  test("throws an error for an edge without a numeric weight", () => {
+    const graph = createTriangle();
+    graph.get_all_edges()[0].data = "heavy";
+
+    expect(() => dijkstra(graph, "A", false, "heap", null, "edge")).toThrow(
+      "Edge A - B has no numeric weight",
+    );
+  });
+
+  test("keeps one step per node by default", () => {
+    const { steps } = dijkstra(createTriangle(), "A");
+
+    expect(steps.map((step) => step.line)).toEqual([4, 9, 9, 9]);
+  });
 });
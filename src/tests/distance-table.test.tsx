@@ -0,0 +1,95 @@
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import DistanceTable from "@/components/distance-table";
+import { dijkstra } from "@/algorithms-core/dijkstras";
+import { Graph } from "@/algorithms-core/graphs_common";
+
+// A - B costs 4, A - C costs 1 and C - B costs 2, so B is improved twice
+function createGraph(): Graph {
+  const graph = new Graph();
+  ["A", "B", "C", "D"].forEach((id) => graph.add_node(id, 0));
+  graph.add_edge("A", "B", 4);
+  graph.add_edge("A", "C", 1);
+  graph.add_edge("C", "B", 2);
+  return graph;
+}
+
+// The node column of every row, top to bottom
+function nodeOrder(): string[] {
+  return screen
+    .getAllByRole("row")
+    .slice(1)
+    .map((row) => within(row).getAllByRole("cell")[0].textContent ?? "");
+}
+
+describe("DistanceTable", () => {
+  const graph = createGraph();
+  const { steps } = dijkstra(graph, "A");
+
+  function renderStep(index: number, onHover = jest.fn()) {
+    const step = steps[index];
+    render(
+      <DistanceTable
+        graph={graph}
+        step={step}
+        stepIndex={index}
+        visited={step.visited}
+        currentNodeId={step.currentNodeId}
+        hoveredNodeId={null}
+        onHover={onHover}
+      />,
+    );
+    return onHover;
+  }
+
+  test("lists every node's distance, previous node and state", () => {
+    renderStep(1);
+
+    const row = screen.getByRole("row", { name: /^B/ });
+    expect(
+      within(row)
+        .getAllByRole("cell")
+        .map((cell) => cell.textContent),
+    ).toEqual(["B", "4", "A", "tentative"]);
+    expect(screen.getByRole("row", { name: /^A/ }).textContent).toBe(
+      "A0-final",
+    );
+    expect(screen.getByRole("row", { name: /^D/ }).textContent).toBe(
+      "D∞-unreached",
+    );
+  });
+
+  test("sorts by a column and reverses on a second click", () => {
+    renderStep(steps.length - 1);
+    expect(nodeOrder()).toEqual(["A", "B", "C", "D"]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Distance" }));
+    expect(nodeOrder()).toEqual(["A", "C", "B", "D"]);
+
+    fireEvent.click(screen.getByRole("button", { name: /Distance/ }));
+    expect(nodeOrder()).toEqual(["D", "B", "C", "A"]);
+  });
+
+  test("flashes the cells changed in the step", () => {
+    // Finalizing C lowers B's distance to 3 and routes it through C
+    renderStep(2);
+
+    const cells = within(screen.getByRole("row", { name: /^B/ })).getAllByRole(
+      "cell",
+    );
+    expect(cells[1].classList).toContain("animate-flash");
+    expect(cells[2].classList).toContain("animate-flash");
+    expect(
+      within(screen.getByRole("row", { name: /^D/ })).getAllByRole("cell")[1]
+        .classList,
+    ).not.toContain("animate-flash");
+  });
+
+  test("reports the row hovered", () => {
+    const onHover = renderStep(1);
+
+    fireEvent.mouseEnter(screen.getByRole("row", { name: /^C/ }));
+    expect(onHover).toHaveBeenLastCalledWith("C");
+    fireEvent.mouseLeave(screen.getAllByRole("rowgroup")[1]);
+    expect(onHover).toHaveBeenLastCalledWith(null);
+  });
+});
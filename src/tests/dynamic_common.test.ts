@@ -1,4 +1,7 @@
-import { computeShortestPath } from "@/algorithms-core/dynamic_common";
+import {
+  computeShortestPath,
+  getShortestPathSteps,
+} from "@/algorithms-core/dynamic_common";
 
 // Helper function for conditional debug logging in tests
 function debugLog(debug: boolean, ...args: unknown[]): void {
@@ -231,4 +234,39 @@ describe("Dynamic Programming - Shortest Path", () => {
       expect(path[path.length - 1]).toEqual([2, 2]);
     });
   });
+
+  describe("getShortestPathSteps", () => {
+    test("records one step per cell plus init and done steps", () => {
+      const grid = [
+        [1, 3, 1],
+        [2, 8, 1],
+        [1, 1, 1],
+      ];
+
+      const steps = getShortestPathSteps(grid);
+
+      expect(steps).toHaveLength(9 + 1);
+      expect(steps[0].kind).toBe("init");
+      expect(steps[0].mutations).toEqual([
+        { target: "distances", key: "0,0", from: Infinity, to: 1 },
+      ]);
+      expect(steps[steps.length - 1].kind).toBe("done");
+      expect(steps[steps.length - 1].path).toEqual(computeShortestPath(grid));
+      expect(steps[steps.length - 1].distances[2][2]).toBe(6);
+    });
+
+    test("each step snapshots the DP table", () => {
+      const steps = getShortestPathSteps([
+        [1, 2],
+        [3, 4],
+      ]);
+
+      expect(steps[1].cell).toEqual([0, 1]);
+      expect(steps[1].distances[0][1]).toBe(3);
+      expect(steps[1].distances[1][1]).toBe(Infinity);
+      expect(steps[1].mutations).toEqual([
+        { target: "distances", key: "0,1", from: Infinity, to: 3 },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,140 @@
+import { createRandomGraph } from "@/algorithms-core/graphs_common";
+import {
+  floydWarshall,
+  FLOYD_WARSHALL_CODE,
+  floydWarshallPath,
+} from "@/algorithms-core/floyd_warshall";
+import { dijkstra } from "@/algorithms-core/dijkstras";
+import { createSeededRandom } from "@/algorithms-core/random";
+import { buildGraph } from "./graph-fixtures";
+
+describe("Floyd-Warshall", () => {
+  test("finds the shortest distance between every pair", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D"],
+      [
+        ["A", "B", 4],
+        ["A", "C", 1],
+        ["C", "B", 2],
+        ["B", "D", 1],
+      ],
+      true,
+    );
+
+    const result = floydWarshall(graph);
+
+    expect(result.nodeIds).toEqual(["A", "B", "C", "D"]);
+    expect(result.distances).toEqual([
+      [0, 3, 1, 4],
+      [Infinity, 0, Infinity, 1],
+      [Infinity, 2, 0, 3],
+      [Infinity, Infinity, Infinity, 0],
+    ]);
+    expect(floydWarshallPath(result, 0, 3)).toEqual(["A", "C", "B", "D"]);
+    expect(floydWarshallPath(result, 3, 0)).toBeNull();
+    expect(result.negativeCycle).toBeNull();
+  });
+
+  test("agrees with Dijkstra from every start", () => {
+    const graph = createRandomGraph(
+      12,
+      0.2,
+      1,
+      20,
+      undefined,
+      createSeededRandom(6),
+    );
+    const { nodeIds, distances } = floydWarshall(graph);
+
+    nodeIds.forEach((startId, i) => {
+      const fromStart = dijkstra(graph, startId).distances;
+      nodeIds.forEach((nodeId, j) =>
+        expect(distances[i][j]).toBe(fromStart.get(nodeId)),
+      );
+    });
+  });
+
+  test("records one step per intermediate node", () => {
+    const graph = buildGraph(
+      ["A", "B", "C"],
+      [
+        ["A", "B", 1],
+        ["B", "C", 1],
+      ],
+      true,
+    );
+
+    const { steps } = floydWarshall(graph);
+
+    expect(steps.map((step) => step.k)).toEqual([null, 0, 1, 2, null]);
+    expect(steps.map((step) => step.kind)).toEqual([
+      "init",
+      "compare",
+      "relax",
+      "compare",
+      "done",
+    ]);
+    // Only A -> C gets shorter, by going through B
+    expect(steps[2].mutations).toEqual([
+      { target: "distances", key: "0,2", from: Infinity, to: 2 },
+    ]);
+    expect(steps[1].distances[0][2]).toBe(Infinity);
+    expect(steps[2].distances[0][2]).toBe(2);
+  });
+
+  test("counts undirected edges both ways", () => {
+    const graph = buildGraph(["A", "B"], [["A", "B", 3]]);
+
+    expect(floydWarshall(graph).distances).toEqual([
+      [0, 3],
+      [3, 0],
+    ]);
+  });
+
+  test("handles negative weights and reports negative cycles", () => {
+    const negative = buildGraph(
+      ["S", "A", "B"],
+      [
+        ["S", "A", 4],
+        ["S", "B", 5],
+        ["B", "A", -3],
+      ],
+      true,
+    );
+    expect(floydWarshall(negative).distances[0][1]).toBe(2);
+
+    const cycle = buildGraph(
+      ["S", "A", "B", "C"],
+      [
+        ["S", "A", 1],
+        ["A", "B", 1],
+        ["B", "C", -3],
+        ["C", "A", 1],
+      ],
+      true,
+    );
+    const result = floydWarshall(cycle);
+    const last = result.steps[result.steps.length - 1];
+
+    expect(result.negativeCycle).toEqual(["A", "B", "C"]);
+    expect(last.line).toBe(10);
+    expect(last.negativeCycle).toEqual(["A", "B", "C"]);
+  });
+
+  test("steps only point at lines of the listing", () => {
+    const lines = FLOYD_WARSHALL_CODE[0].lines.length;
+    const graph = createRandomGraph(
+      6,
+      0.3,
+      1,
+      10,
+      undefined,
+      createSeededRandom(2),
+    );
+
+    floydWarshall(graph).steps.forEach((step) => {
+      expect(step.line).toBeGreaterThanOrEqual(1);
+      expect(step.line).toBeLessThanOrEqual(lines);
+    });
+  });
+});
@@ -0,0 +1,16 @@
+import { Graph } from "@/algorithms-core/graphs_common";
+
+// An edge as [from, to, weight], or [from, to] for weight 1
+export type FixtureEdge = [string, string] | [string, string, number];
+
+// A graph of the given nodes, valued by their position in the list
+export function buildGraph(
+  nodeIds: string[],
+  edges: FixtureEdge[],
+  directed = false,
+): Graph {
+  const graph = new Graph(directed);
+  nodeIds.forEach((id, i) => graph.add_node(id, i));
+  edges.forEach(([from, to, weight]) => graph.add_edge(from, to, weight));
+  return graph;
+}
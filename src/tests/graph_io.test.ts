@@ -0,0 +1,298 @@
+import {
+  detectGraphFormat,
+  GRAPH_FORMATS,
+  GraphParseError,
+  parseGraph,
+  serializeGraph,
+} from "@/algorithms-core/graph_io";
+import { Graph } from "@/algorithms-core/graphs_common";
+
+function sampleGraph(): Graph {
+  const graph = new Graph();
+  graph.add_node("a", 3);
+  graph.add_node("b", 5, "Bee");
+  graph.add_node("node c", 0, 'say "hi"');
+  graph.add_node("lonely", 1);
+  graph.add_edge("a", "b", 4);
+  graph.add_edge("b", "node c", 2.5);
+  return graph;
+}
+
+function edgesOf(graph: Graph) {
+  return graph
+    .get_all_edges()
+    .map((e) => [e.from_node.id, e.to_node.id, e.data]);
+}
+
+function parseError(text: string, format: Parameters<typeof parseGraph>[1]) {
+  try {
+    parseGraph(text, format);
+  } catch (err) {
+    expect(err).toBeInstanceOf(GraphParseError);
+    return err as GraphParseError;
+  }
+  throw new Error("Expected a parse error");
+}
+
+describe("round trips", () => {
+  test.each(GRAPH_FORMATS.map((format) => [format.id]))(
+    "%s keeps nodes and weighted edges",
+    (format) => {
+      const graph = sampleGraph();
+      const restored = parseGraph(serializeGraph(graph, format), format);
+
+      expect(Object.keys(restored.nodes).sort()).toEqual(
+        Object.keys(graph.nodes).sort(),
+      );
+      expect(edgesOf(restored)).toEqual(edgesOf(graph));
+    },
+  );
+
+  test.each([["json"], ["dot"], ["graphml"]] as const)(
+    "%s keeps node values and labels",
+    (format) => {
+      const restored = parseGraph(
+        serializeGraph(sampleGraph(), format),
+        format,
+      );
+
+      expect(restored.nodes.a.value).toBe(3);
+      expect(restored.nodes.a.label).toBeUndefined();
+      expect(restored.nodes.b.label).toBe("Bee");
+      expect(restored.nodes["node c"].label).toBe('say "hi"');
+    },
+  );
+});
+
+describe("node positions", () => {
+  test.each([["json"], ["dot"], ["graphml"]] as const)(
+    "%s keeps them",
+    (format) => {
+      const graph = sampleGraph();
+      graph.nodes.a.position = { x: 3, y: 4.5 };
+      graph.nodes["node c"].position = { x: -1, y: 0 };
+
+      const restored = parseGraph(serializeGraph(graph, format), format);
+
+      expect(restored.nodes.a.position).toEqual({ x: 3, y: 4.5 });
+      expect(restored.nodes["node c"].position).toEqual({ x: -1, y: 0 });
+      expect(restored.nodes.b.position).toBeUndefined();
+    },
+  );
+
+  test("DOT reads pinned Graphviz positions", () => {
+    const graph = parseGraph('graph { a [pos="2,7!"] }', "dot");
+    expect(graph.nodes.a.position).toEqual({ x: 2, y: 7 });
+  });
+
+  test("DOT and GraphML need both coordinates", () => {
+    expect(parseError('graph {\n  a [pos="1"]\n}', "dot").line).toBe(2);
+    expect(parseError('graph {\n  a [pos="1,b"]\n}', "dot").line).toBe(2);
+
+    const text = `<graphml>
+  <graph>
+    <node id="a"><data key="x">1</data></node>
+  </graph>
+</graphml>`;
+    const error = parseError(text, "graphml");
+    expect(error.line).toBe(3);
+    expect(error.message).toContain('"a"');
+  });
+
+  test("JSON needs both coordinates", () => {
+    const text = '{"nodes": [{"id": "a", "x": 1}], "edges": []}';
+    expect(parseError(text, "json").message).toContain('"a"');
+  });
+});
+
+describe("directed graphs", () => {
+  test.each(GRAPH_FORMATS.map((format) => [format.id]))(
+    "%s keeps edge direction",
+    (format) => {
+      const graph = new Graph(true);
+      graph.add_node("a", 1);
+      graph.add_node("b", 2);
+      graph.add_edge("a", "b", 3);
+      graph.add_edge("b", "a", 4);
+
+      const restored = parseGraph(serializeGraph(graph, format), format);
+
+      expect(restored.directed).toBe(true);
+      expect(edgesOf(restored)).toEqual([
+        ["a", "b", 3],
+        ["b", "a", 4],
+      ]);
+    },
+  );
+
+  test("a DOT digraph imports as directed", () => {
+    const graph = parseGraph("digraph { x -> y -> z }", "dot");
+
+    expect(graph.directed).toBe(true);
+    expect(graph.hasEdge("y", "x")).toBe(false);
+    expect(parseGraph("graph { x -- y }", "dot").directed).toBe(false);
+  });
+});
+
+describe("parsing", () => {
+  test("nodes named only by edges are labelled with their name", () => {
+    const graph = parseGraph("x y 2\ny, z", "edgelist");
+
+    expect(graph.nodes.x.label).toBe("x");
+    expect(graph.nodes.x.value).toBe(0);
+    expect(edgesOf(graph)).toEqual([
+      ["x", "y", 2],
+      ["y", "z", 1],
+    ]);
+  });
+
+  test("reads DOT edge chains, comments and attribute statements", () => {
+    const graph = parseGraph(
+      `// routes
+graph G {
+  rankdir=LR; node [shape=circle];
+  a [value=7]
+  /* chain */ a -- b -- c [weight=3];
+  c -- "d e" [label=9]
+}`,
+      "dot",
+    );
+
+    expect(graph.nodes.a.value).toBe(7);
+    expect(edgesOf(graph)).toEqual([
+      ["a", "b", 3],
+      ["b", "c", 3],
+      ["c", "d e", 9],
+    ]);
+  });
+
+  test("reads GraphML keys by name", () => {
+    const graph = parseGraph(
+      `<?xml version="1.0"?>
+<graphml>
+  <key id="d0" for="edge" attr.name="weight"/>
+  <graph edgedefault="undirected">
+    <node id="n0"/>
+    <node id="n1"/>
+    <edge source="n0" target="n1"><data key="d0">6</data></edge>
+  </graph>
+</graphml>`,
+      "graphml",
+    );
+
+    expect(edgesOf(graph)).toEqual([["n0", "n1", 6]]);
+  });
+
+  test.each([
+    ["edgelist", "constructor toString 1\n__proto__ constructor 2"],
+    [
+      "json",
+      JSON.stringify({
+        nodes: [{ id: "constructor" }, { id: "toString" }, { id: "__proto__" }],
+        edges: [
+          { source: "constructor", target: "toString", weight: 1 },
+          { source: "__proto__", target: "constructor", weight: 2 },
+        ],
+      }),
+    ],
+    [
+      "dot",
+      "graph { constructor -- toString [weight=1]; __proto__ -- constructor [weight=2] }",
+    ],
+    [
+      "graphml",
+      `<graphml><key id="w" for="edge" attr.name="weight"/><graph>
+  <node id="constructor"/><node id="toString"/><node id="__proto__"/>
+  <edge source="constructor" target="toString"><data key="w">1</data></edge>
+  <edge source="__proto__" target="constructor"><data key="w">2</data></edge>
+</graph></graphml>`,
+    ],
+  ] as const)("%s reads ids named like object members", (format, text) => {
+    const graph = parseGraph(text, format);
+
+    expect(Object.keys(graph.nodes).sort()).toEqual([
+      "__proto__",
+      "constructor",
+      "toString",
+    ]);
+    expect(edgesOf(graph)).toEqual([
+      ["constructor", "toString", 1],
+      ["__proto__", "constructor", 2],
+    ]);
+  });
+});
+
+describe("errors report the line", () => {
+  test("edge list", () => {
+    const error = parseError("a b 1\n\nb c heavy", "edgelist");
+    expect(error.line).toBe(3);
+    expect(error.message).toMatch(/^Line 3: /);
+
+    expect(parseError("a b\na b 2", "edgelist").line).toBe(2);
+    expect(parseError("a b 1 2", "edgelist").line).toBe(1);
+  });
+
+  test("JSON syntax and schema", () => {
+    expect(
+      parseError('{\n  "nodes": [\n    {"id": "a",}\n  ]\n}', "json").line,
+    ).toBe(3);
+
+    const schema = `{
+  "nodes": [
+    {"id": "a"},
+    {"id": "b"}
+  ],
+  "edges": [
+    {"source": "a", "target": "b"},
+    {"source": "a", "target": "z"}
+  ]
+}`;
+    const error = parseError(schema, "json");
+    expect(error.line).toBe(8);
+    expect(error.message).toContain('"z"');
+    // Object members are not nodes
+    expect(
+      parseError(schema.replace('"z"', '"constructor"'), "json").line,
+    ).toBe(8);
+  });
+
+  test("DOT", () => {
+    expect(parseError("graph {\n  a -- b\n  a -> c\n}", "dot").line).toBe(3);
+    expect(parseError("graph {\n  a -- b [weight=x]\n}", "dot").line).toBe(2);
+    expect(parseError("graph {\n  a -- b\n", "dot").line).toBe(2);
+  });
+
+  test("GraphML", () => {
+    const text = `<graphml>
+  <graph>
+    <node id="a"/>
+    <edge source="a" target="b"/>
+  </graph>
+</graphml>`;
+    expect(parseError(text, "graphml").line).toBe(4);
+    expect(parseError("<graphml>\n<graph>\n</graphml>", "graphml").line).toBe(
+      3,
+    );
+    const character = `<graphml>
+  <graph>
+    <node id="&#99999999;"/>
+  </graph>
+</graphml>`;
+    expect(parseError(character, "graphml").line).toBe(3);
+  });
+});
+
+describe("detectGraphFormat", () => {
+  test("uses the file extension first", () => {
+    expect(detectGraphFormat("a b", "routes.dot")).toBe("dot");
+    expect(detectGraphFormat("", "routes.graphml")).toBe("graphml");
+    expect(detectGraphFormat("{}", "routes.txt")).toBe("edgelist");
+  });
+
+  test("falls back to the content", () => {
+    expect(detectGraphFormat('  {"nodes": []}')).toBe("json");
+    expect(detectGraphFormat("<?xml?><graphml/>")).toBe("graphml");
+    expect(detectGraphFormat("strict digraph G {}")).toBe("dot");
+    expect(detectGraphFormat("a b 3")).toBe("edgelist");
+  });
+});
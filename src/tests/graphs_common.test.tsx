@@ -1,8 +1,12 @@
 import {
   Graph,
+  createGeometricGraph,
+  createGridGraph,
+  createPositionScale,
   createRandomGraph,
   Node,
 } from "@/algorithms-core/graphs_common";
+import { createSeededRandom } from "@/algorithms-core/random";
 
 describe("Graph class", () => {
   test("creates a new graph with no nodes", () => {
@@ -153,6 +157,47 @@ describe("Graph class", () => {
     ).toBeNull();
   });
 
+  test("remove_node removes the node and every edge touching it", () => {
+    const graph = new Graph();
+    graph.add_node("node-1", 10);
+    graph.add_node("node-2", 20);
+    graph.add_node("node-3", 30);
+
+    graph.add_edge("node-1", "node-2", 5);
+    graph.add_edge("node-3", "node-2", 10);
+    graph.add_edge("node-1", "node-3", 15);
+    graph.remove_node("node-2");
+
+    expect(Object.keys(graph.nodes)).toEqual(["node-1", "node-3"]);
+    expect(graph.get_all_edges().map((e) => e.id)).toEqual(["node-1-node-3"]);
+    expect(graph.nodes["node-1"].outgoing_edges?.next_from).toBeNull();
+    expect(graph.nodes["node-3"].outgoing_edges).toBeNull();
+  });
+
+  test("remove_node ignores unknown nodes", () => {
+    const graph = new Graph();
+    graph.add_node("node-1", 10);
+
+    graph.remove_node("non-existent");
+
+    expect(Object.keys(graph.nodes)).toEqual(["node-1"]);
+  });
+
+  test("get_neighbors follows undirected edges from either end", () => {
+    const graph = new Graph();
+    graph.add_node("node-1", 10);
+    graph.add_node("node-2", 20);
+    graph.add_node("node-3", 30);
+    graph.add_edge("node-1", "node-2", 5);
+    graph.add_edge("node-3", "node-2", 10);
+
+    expect(graph.get_neighbors("node-2").map(({ node }) => node.id)).toEqual([
+      "node-1",
+      "node-3",
+    ]);
+    expect(graph.get_neighbors("missing")).toEqual([]);
+  });
+
   test("get_all_edges returns all edges in the graph", () => {
     const graph = new Graph();
     graph.add_node("node-1", 10);
@@ -175,6 +220,72 @@ describe("Graph class", () => {
   });
 });
 
+describe("directed Graph", () => {
+  test("keeps edges in opposite directions apart", () => {
+    const graph = new Graph(true);
+    graph.add_node("a", 1);
+    graph.add_node("b", 2);
+
+    const forward = graph.add_edge("a", "b", 3);
+    const backward = graph.add_edge("b", "a", 4);
+
+    expect(forward?.id).toBe("a->b");
+    expect(backward?.id).toBe("b->a");
+    expect(graph.add_edge("a", "b", 5)).toBeNull();
+    expect(graph.hasEdge("a", "b")).toBe(true);
+
+    graph.remove_edge("b", "a");
+    expect(graph.hasEdge("b", "a")).toBe(false);
+    expect(graph.get_all_edges().map((e) => e.id)).toEqual(["a->b"]);
+  });
+
+  test("get_neighbors only follows outgoing edges", () => {
+    const graph = new Graph(true);
+    graph.add_node("a", 1);
+    graph.add_node("b", 2);
+    graph.add_node("c", 3);
+    graph.add_edge("a", "b");
+    graph.add_edge("c", "a");
+
+    expect(graph.get_neighbors("a").map(({ node }) => node.id)).toEqual(["b"]);
+    expect(graph.get_neighbors("b")).toEqual([]);
+  });
+
+  test("get_predecessors follows incoming edges backwards", () => {
+    const graph = new Graph(true);
+    graph.add_node("a", 1);
+    graph.add_node("b", 2);
+    graph.add_node("c", 3);
+    graph.add_edge("a", "b");
+    graph.add_edge("c", "b");
+
+    expect(
+      graph
+        .get_predecessors("b")
+        .map(({ node }) => node.id)
+        .sort(),
+    ).toEqual(["a", "c"]);
+    expect(graph.get_predecessors("a")).toEqual([]);
+  });
+
+  test("createRandomGraph can create a directed graph", () => {
+    const graph = createRandomGraph(
+      8,
+      0.5,
+      1,
+      20,
+      undefined,
+      createSeededRandom(7),
+      true,
+    );
+
+    expect(graph.directed).toBe(true);
+    graph.get_all_edges().forEach((edge) => {
+      expect(edge.id).toBe(`${edge.from_node.id}->${edge.to_node.id}`);
+    });
+  });
+});
+
 describe("createRandomGraph", () => {
   test("creates a graph with the specified number of nodes", () => {
     const nodeCount = 10;
@@ -257,4 +368,163 @@ describe("createRandomGraph", () => {
     expect(edges.length).toBeLessThanOrEqual(expectedMaxEdges);
     expect(edges.length).toBeGreaterThanOrEqual(nodeCount - 1);
   });
+
+  test("the same seed creates the same graph", () => {
+    const edgesOf = (seed: number) =>
+      createRandomGraph(8, 0.4, 1, 20, undefined, createSeededRandom(seed))
+        .get_all_edges()
+        .map((edge) => [edge.id, edge.data]);
+    const valuesOf = (seed: number) =>
+      Object.values(
+        createRandomGraph(8, 0.4, 1, 20, undefined, createSeededRandom(seed))
+          .nodes,
+      ).map((node) => node.value);
+
+    expect(edgesOf(42)).toEqual(edgesOf(42));
+    expect(valuesOf(42)).toEqual(valuesOf(42));
+    expect(edgesOf(42)).not.toEqual(edgesOf(43));
+  });
+
+  test("draws edge weights from the given range", () => {
+    const weights = createRandomGraph(
+      20,
+      0.5,
+      1,
+      20,
+      undefined,
+      createSeededRandom(7),
+      true,
+      -4,
+      2,
+    )
+      .get_all_edges()
+      .map((edge) => edge.data as number);
+
+    expect(Math.min(...weights)).toBeGreaterThanOrEqual(-4);
+    expect(Math.max(...weights)).toBeLessThanOrEqual(2);
+    expect(weights.some((weight) => weight < 0)).toBe(true);
+  });
+
+  test("can create a directed graph without cycles", () => {
+    const graph = createRandomGraph(
+      12,
+      0.6,
+      1,
+      20,
+      undefined,
+      createSeededRandom(3),
+      true,
+      1,
+      10,
+      true,
+    );
+
+    // Repeatedly removing nodes with no incoming edges must remove them all
+    const remaining = new Set(Object.keys(graph.nodes));
+    const edges = graph.get_all_edges();
+    let removed = true;
+    while (removed) {
+      removed = false;
+      remaining.forEach((nodeId) => {
+        const blocked = edges.some(
+          (edge) =>
+            edge.to_node.id === nodeId && remaining.has(edge.from_node.id),
+        );
+        if (!blocked) {
+          remaining.delete(nodeId);
+          removed = true;
+        }
+      });
+    }
+    expect(remaining.size).toBe(0);
+    expect(edges.length).toBeGreaterThan(11);
+  });
+});
+
+describe("createGridGraph", () => {
+  test("joins each cell to its neighbors with unit weights", () => {
+    const graph = createGridGraph(3, 4, 0);
+
+    expect(Object.keys(graph.nodes)).toHaveLength(12);
+    // Each row has 3 horizontal edges and each column 2 vertical ones
+    expect(graph.get_all_edges()).toHaveLength(3 * 3 + 4 * 2);
+    expect(graph.get_all_edges().every((edge) => edge.data === 1)).toBe(true);
+    expect(graph.nodes["cell-2-1"].label).toBe("C2");
+    expect(graph.nodes["cell-2-1"].position).toEqual({ x: 1, y: 2 });
+  });
+
+  test("leaves walls out but keeps the corners", () => {
+    const graph = createGridGraph(6, 6, 0.5, createSeededRandom(4));
+    const count = Object.keys(graph.nodes).length;
+
+    expect(count).toBeLessThan(36);
+    expect(count).toBeGreaterThan(2);
+    expect(graph.nodes["cell-0-0"]).toBeDefined();
+    expect(graph.nodes["cell-5-5"]).toBeDefined();
+  });
+});
+
+describe("createGeometricGraph", () => {
+  test("creates a connected graph weighted by distance", () => {
+    const graph = createGeometricGraph(15, 0.2, 1, 20, createSeededRandom(2));
+    const nodes = Object.values(graph.nodes);
+
+    nodes.forEach((node) => {
+      expect(node.position!.x).toBeGreaterThanOrEqual(0);
+      expect(node.position!.x).toBeLessThanOrEqual(100);
+    });
+    graph.get_all_edges().forEach((edge) => {
+      const from = edge.from_node.position!;
+      const to = edge.to_node.position!;
+      expect(edge.data).toBeGreaterThanOrEqual(
+        Math.hypot(from.x - to.x, from.y - to.y),
+      );
+    });
+
+    const reached = new Set(["node-0"]);
+    const queue = ["node-0"];
+    while (queue.length > 0) {
+      graph.get_neighbors(queue.shift()!).forEach(({ node }) => {
+        if (reached.has(node.id)) return;
+        reached.add(node.id);
+        queue.push(node.id);
+      });
+    }
+    expect(reached.size).toBe(15);
+  });
+});
+
+describe("createPositionScale", () => {
+  // A 5 by 3 grid of positions on a 500 by 300 canvas
+  const corners = [
+    { x: 0, y: 0 },
+    { x: 4, y: 2 },
+  ];
+
+  test("stretches positions to fill the canvas inside the padding", () => {
+    const scale = createPositionScale(corners, 500, 300, 50);
+
+    expect(scale.toCanvas({ x: 0, y: 0 })).toEqual({ x: 50, y: 50 });
+    expect(scale.toCanvas({ x: 4, y: 2 })).toEqual({ x: 450, y: 250 });
+    expect(scale.toCanvas({ x: 2, y: 1 })).toEqual({ x: 250, y: 150 });
+  });
+
+  test("maps canvas points back to positions, for nodes added there", () => {
+    const scale = createPositionScale(corners, 500, 300, 50);
+
+    expect(scale.toPosition(250, 150)).toEqual({ x: 2, y: 1 });
+    // Points in the padding lie beyond the outermost positions
+    expect(scale.toPosition(0, 300)).toEqual({ x: -0.5, y: 2.5 });
+    const point = scale.toCanvas({ x: 3.2, y: 0.4 });
+    const position = scale.toPosition(point.x, point.y);
+    expect(position.x).toBeCloseTo(3.2);
+    expect(position.y).toBeCloseTo(0.4);
+  });
+
+  test("centers a single value along an axis", () => {
+    const scale = createPositionScale([{ x: 7, y: 7 }], 500, 300, 50);
+
+    expect(scale.toCanvas({ x: 7, y: 7 })).toEqual({ x: 250, y: 150 });
+    expect(scale.toPosition(250, 150)).toEqual({ x: 7, y: 7 });
+  });
 });
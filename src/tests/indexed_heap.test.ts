@@ -0,0 +1,86 @@
+import { IndexedMinHeap } from "@/algorithms-core/indexed_heap";
+import { createSeededRandom } from "@/algorithms-core/random";
+
+function drain(heap: IndexedMinHeap): string[] {
+  const ids: string[] = [];
+  for (let entry = heap.pop(); entry; entry = heap.pop()) ids.push(entry.id);
+  return ids;
+}
+
+describe("IndexedMinHeap", () => {
+  test("pops entries lowest priority first", () => {
+    const heap = new IndexedMinHeap();
+    const rng = createSeededRandom(5);
+    const priorities = Array.from({ length: 30 }, () => Math.floor(rng() * 50));
+    priorities.forEach((priority, i) => heap.push(`n${i}`, priority));
+
+    const popped: number[] = [];
+    for (let entry = heap.pop(); entry; entry = heap.pop()) {
+      popped.push(entry.priority);
+    }
+    expect(popped).toEqual(priorities.slice().sort((a, b) => a - b));
+    expect(heap.size).toBe(0);
+    expect(heap.peek()).toBeNull();
+  });
+
+  test("breaks ties by the order ids were pushed", () => {
+    const heap = new IndexedMinHeap();
+    ["d", "b", "a", "c"].forEach((id) => heap.push(id, Infinity));
+    heap.push("e", 1);
+
+    expect(drain(heap)).toEqual(["e", "d", "b", "a", "c"]);
+  });
+
+  test("puts an id pushed again behind the ids pushed before it", () => {
+    const heap = new IndexedMinHeap();
+    heap.push("a", 1);
+    heap.push("b", 1);
+    heap.pop();
+    heap.push("c", 1);
+    heap.push("a", 1);
+
+    expect(drain(heap)).toEqual(["b", "c", "a"]);
+    expect(heap.order.size).toBe(0);
+  });
+
+  test("decreaseKey moves an entry up and keeps the index current", () => {
+    const heap = new IndexedMinHeap();
+    heap.push("a", 5);
+    heap.push("b", 8);
+    heap.push("c", 9);
+    heap.push("d", 7);
+
+    heap.decreaseKey("c", 1);
+
+    expect(heap.peek()).toEqual({ id: "c", priority: 1 });
+    expect(heap.priority("c")).toBe(1);
+    heap.entries.forEach((entry, i) =>
+      expect(heap.positions.get(entry.id)).toBe(i),
+    );
+    expect(drain(heap)).toEqual(["c", "a", "d", "b"]);
+  });
+
+  test("snapshot copies the array form", () => {
+    const heap = new IndexedMinHeap();
+    heap.push("a", 2);
+    heap.push("b", 1);
+    const snapshot = heap.snapshot();
+    heap.decreaseKey("a", 0);
+
+    expect(snapshot).toEqual([
+      { id: "b", priority: 1 },
+      { id: "a", priority: 2 },
+    ]);
+  });
+
+  test("rejects duplicate ids and raised priorities", () => {
+    const heap = new IndexedMinHeap();
+    heap.push("a", 2);
+
+    expect(() => heap.push("a", 1)).toThrow(/already/);
+    expect(() => heap.decreaseKey("a", 3)).toThrow(/raise/);
+    expect(() => heap.decreaseKey("z", 1)).toThrow(/not in the heap/);
+    expect(heap.has("z")).toBe(false);
+    expect(heap.priority("z")).toBeUndefined();
+  });
+});
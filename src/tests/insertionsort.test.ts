@@ -0,0 +1,59 @@
+import {
+  getInsertionSortSteps,
+  INSERTIONSORT_CODE,
+} from "@/algorithms-core/insertionsort";
+
+describe("getInsertionSortSteps", () => {
+  test("starts with the unsorted input and ends sorted", () => {
+    const input = [5, 3, 8, 1, 9, 2, 7];
+    const steps = getInsertionSortSteps(input);
+
+    expect(steps[0].kind).toBe("init");
+    expect(steps[0].arr).toEqual(input);
+    expect(steps[steps.length - 1].kind).toBe("done");
+    expect(steps[steps.length - 1].arr).toEqual([1, 2, 3, 5, 7, 8, 9]);
+    expect(input).toEqual([5, 3, 8, 1, 9, 2, 7]);
+  });
+
+  test("shifts instead of swapping", () => {
+    const steps = getInsertionSortSteps([3, 2, 1]);
+
+    // 2 is shifted past 3, then 1 is shifted past 3 and 2
+    expect(steps[steps.length - 1].stats).toEqual({
+      comparisons: 3,
+      swaps: 0,
+      writes: 5,
+    });
+  });
+
+  test("makes no writes on a sorted array", () => {
+    const steps = getInsertionSortSteps([1, 2, 3, 4]);
+
+    expect(steps[steps.length - 1].stats).toEqual({
+      comparisons: 3,
+      swaps: 0,
+      writes: 0,
+    });
+  });
+
+  test("replaying the mutations reproduces every step", () => {
+    const steps = getInsertionSortSteps([4, 1, 3, 1, 2]);
+    const arr = steps[0].arr.slice();
+
+    steps.forEach((step) => {
+      step.mutations.forEach((m) => {
+        expect(arr[m.key as number]).toBe(m.from);
+        arr[m.key as number] = m.to as number;
+      });
+      expect(arr).toEqual(step.arr);
+    });
+  });
+
+  test("every step but the last points at a pseudo-code line", () => {
+    const steps = getInsertionSortSteps([3, 1, 2]);
+    steps.slice(0, -1).forEach((step) => {
+      expect(step.line).toBeGreaterThanOrEqual(1);
+      expect(step.line).toBeLessThanOrEqual(INSERTIONSORT_CODE[0].lines.length);
+    });
+  });
+});
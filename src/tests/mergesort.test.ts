@@ -0,0 +1,61 @@
+import { getMergeSortSteps, MERGESORT_CODE } from "@/algorithms-core/mergesort";
+
+describe("getMergeSortSteps", () => {
+  test("starts with the unsorted input and ends sorted", () => {
+    const input = [5, 3, 8, 1, 9, 2, 7];
+    const steps = getMergeSortSteps(input);
+
+    expect(steps[0].kind).toBe("init");
+    expect(steps[0].arr).toEqual(input);
+    expect(steps[steps.length - 1].kind).toBe("done");
+    expect(steps[steps.length - 1].arr).toEqual([1, 2, 3, 5, 7, 8, 9]);
+    expect(input).toEqual([5, 3, 8, 1, 9, 2, 7]);
+  });
+
+  test("records a split for every range of two or more elements", () => {
+    const steps = getMergeSortSteps([4, 3, 2, 1]);
+    const splits = steps.filter((step) => step.kind === "split");
+
+    expect(splits.map((step) => step.range)).toEqual([
+      [0, 3],
+      [0, 1],
+      [2, 3],
+    ]);
+  });
+
+  test("copies the merged range into the auxiliary buffer", () => {
+    const steps = getMergeSortSteps([2, 1]);
+    const copy = steps.find(
+      (step) => step.kind === "write" && step.writeIndex === undefined,
+    )!;
+
+    expect(copy.auxiliary).toEqual([2, 1]);
+    expect(copy.range).toEqual([0, 1]);
+  });
+
+  test("each write step writes one element back from the buffer", () => {
+    const steps = getMergeSortSteps([6, 5, 4, 3, 2, 1]);
+    const writes = steps.filter((step) => step.writeIndex !== undefined);
+
+    expect(writes.length).toBeGreaterThan(0);
+    writes.forEach((step) => {
+      expect(step.mutations).toHaveLength(1);
+      expect(step.mutations[0].key).toBe(step.writeIndex);
+      expect(step.arr[step.writeIndex!]).toBe(step.mutations[0].to);
+      expect(step.auxiliary![step.auxComparing![0]]).toBe(step.mutations[0].to);
+    });
+  });
+
+  test("handles duplicate values", () => {
+    const steps = getMergeSortSteps([2, 1, 2, 1]);
+    expect(steps[steps.length - 1].arr).toEqual([1, 1, 2, 2]);
+  });
+
+  test("every step but the last points at a pseudo-code line", () => {
+    const steps = getMergeSortSteps([3, 1, 2]);
+    steps.slice(0, -1).forEach((step) => {
+      expect(step.line).toBeGreaterThanOrEqual(1);
+      expect(step.line).toBeLessThanOrEqual(MERGESORT_CODE[0].lines.length);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { createRandomGraph } from "@/algorithms-core/graphs_common";
+import { kruskal, KRUSKAL_CODE } from "@/algorithms-core/kruskal";
+import { UnionFind } from "@/algorithms-core/mst";
+import { prim, PRIM_CODE } from "@/algorithms-core/prim";
+import { createSeededRandom } from "@/algorithms-core/random";
+import { buildGraph } from "./graph-fixtures";
+
+// A square with one diagonal; the lightest spanning tree weighs 1 + 2 + 3
+const SQUARE: [string, string, number][] = [
+  ["A", "B", 1],
+  ["B", "C", 2],
+  ["C", "D", 3],
+  ["D", "A", 4],
+  ["A", "C", 5],
+];
+
+describe("UnionFind", () => {
+  test("should merge sets and report when they were already joined", () => {
+    const sets = new UnionFind(["A", "B", "C", "D"]);
+
+    expect(sets.union("A", "B")).toBe(true);
+    expect(sets.union("C", "D")).toBe(true);
+    expect(sets.find("A")).toBe(sets.find("B"));
+    expect(sets.find("A")).not.toBe(sets.find("C"));
+
+    expect(sets.union("B", "D")).toBe(true);
+    expect(sets.union("A", "C")).toBe(false);
+    expect(new Set(["A", "B", "C", "D"].map((id) => sets.find(id))).size).toBe(
+      1,
+    );
+  });
+
+  test("should compress paths on find", () => {
+    const sets = new UnionFind(["A", "B", "C"]);
+    sets.parents.set("C", "B");
+    sets.parents.set("B", "A");
+
+    expect(sets.find("C")).toBe("A");
+    expect(sets.parents.get("C")).toBe("A");
+  });
+});
+
+describe("Prim's Algorithm", () => {
+  test("should build the minimum spanning tree", () => {
+    const result = prim(buildGraph(["A", "B", "C", "D"], SQUARE), "A");
+
+    expect(result.totalWeight).toBe(6);
+    expect(result.components).toBe(1);
+    expect(result.tree.map((edge) => edge.targetId)).toEqual(["B", "C", "D"]);
+    expect(result.steps[result.steps.length - 1].kind).toBe("done");
+  });
+
+  test("should keep the queue sorted by key", () => {
+    const result = prim(buildGraph(["A", "B", "C", "D"], SQUARE), "A");
+
+    result.steps.forEach((step) => {
+      const keys = step.queue.map((entry) => entry.key);
+      expect(keys).toEqual([...keys].sort((a, b) => a - b));
+    });
+  });
+
+  test("should grow a forest on a disconnected graph", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D"],
+      [
+        ["A", "B", 2],
+        ["C", "D", 3],
+      ],
+    );
+
+    const result = prim(graph, "A");
+
+    expect(result.components).toBe(2);
+    expect(result.totalWeight).toBe(5);
+    expect(result.tree).toHaveLength(2);
+  });
+});
+
+describe("Kruskal's Algorithm", () => {
+  test("should stop once the tree has |V| - 1 edges", () => {
+    const result = kruskal(buildGraph(["A", "B", "C", "D"], SQUARE));
+
+    expect(result.totalWeight).toBe(6);
+    expect(result.tree.map((edge) => edge.weight)).toEqual([1, 2, 3]);
+    // The tree is complete after C - D, so later edges are never looked at
+    expect(result.steps.some((step) => step.rejected.length > 0)).toBe(false);
+  });
+
+  test("should reject an edge that would close a cycle", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D"],
+      [
+        ["A", "B", 1],
+        ["B", "C", 2],
+        ["A", "C", 3],
+        ["C", "D", 4],
+      ],
+    );
+
+    const result = kruskal(graph);
+    const rejectedStep = result.steps.find((step) => step.kind === "compare");
+
+    expect(rejectedStep?.currentEdge?.weight).toBe(3);
+    expect(rejectedStep?.mutations[0].target).toBe("rejected");
+    expect(result.steps[result.steps.length - 1].rejected).toHaveLength(1);
+    expect(result.totalWeight).toBe(7);
+  });
+
+  test("should find a spanning forest on a disconnected graph", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D", "E"],
+      [
+        ["A", "B", 2],
+        ["C", "D", 3],
+      ],
+    );
+
+    const result = kruskal(graph);
+
+    expect(result.components).toBe(3);
+    expect(result.totalWeight).toBe(5);
+  });
+});
+
+describe("Minimum spanning trees", () => {
+  test("should agree on the total weight of random graphs", () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const graph = createRandomGraph(
+        10,
+        0.4,
+        1,
+        30,
+        undefined,
+        createSeededRandom(seed),
+        false,
+        -4,
+      );
+
+      const fromPrim = prim(graph, Object.keys(graph.nodes)[0]);
+      const fromKruskal = kruskal(graph);
+
+      expect(fromPrim.totalWeight).toBe(fromKruskal.totalWeight);
+      expect(fromPrim.components).toBe(fromKruskal.components);
+      expect(fromPrim.tree).toHaveLength(fromKruskal.tree.length);
+    }
+  });
+
+  test("should refuse directed graphs", () => {
+    const graph = buildGraph(["A", "B"], [["A", "B", 1]], true);
+
+    expect(() => prim(graph, "A")).toThrow("undirected");
+    expect(() => kruskal(graph)).toThrow("undirected");
+  });
+
+  test("should only record lines within the pseudocode", () => {
+    const graph = buildGraph(["A", "B", "C", "D"], SQUARE);
+    const runs = [
+      { steps: prim(graph, "A").steps, code: PRIM_CODE },
+      { steps: kruskal(graph).steps, code: KRUSKAL_CODE },
+    ];
+
+    runs.forEach(({ steps, code }) => {
+      steps.forEach((step) => {
+        expect(step.line).toBeGreaterThanOrEqual(1);
+        expect(step.line).toBeLessThanOrEqual(code[0].lines.length);
+      });
+    });
+  });
+});
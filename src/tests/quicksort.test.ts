@@ -0,0 +1,231 @@
+import {
+  getQuickSortSteps,
+  createInitialSortStep,
+  annotateSortStats,
+  choosePivotIndex,
+  getMaxDepth,
+  getQuickSortCode,
+  PARTITION_SCHEMES,
+  PIVOT_STRATEGIES,
+  QUICKSORT_CODE,
+} from "@/algorithms-core/quicksort";
+import { createSeededRandom } from "@/algorithms-core/random";
+
+describe("getQuickSortSteps", () => {
+  test("starts with the unsorted input and ends sorted", () => {
+    const input = [5, 3, 8, 1, 9, 2];
+    const steps = getQuickSortSteps(input);
+
+    expect(steps[0].kind).toBe("init");
+    expect(steps[0].arr).toEqual(input);
+    expect(steps[steps.length - 1].kind).toBe("done");
+    expect(steps[steps.length - 1].arr).toEqual([1, 2, 3, 5, 8, 9]);
+  });
+
+  test("does not modify the input array", () => {
+    const input = [4, 2, 7, 1];
+    getQuickSortSteps(input);
+    expect(input).toEqual([4, 2, 7, 1]);
+  });
+
+  test("every step carries the common trace fields", () => {
+    const steps = getQuickSortSteps([3, 1, 2, 5, 4]);
+
+    steps.forEach((step) => {
+      expect(typeof step.narration).toBe("string");
+      expect(step.narration.length).toBeGreaterThan(0);
+      expect(Array.isArray(step.highlights)).toBe(true);
+      expect(Array.isArray(step.mutations)).toBe(true);
+    });
+  });
+
+  test("swap mutations describe the writes made to the array", () => {
+    const steps = getQuickSortSteps([9, 8, 7, 6, 5, 4, 3, 2, 1]);
+
+    for (let s = 1; s < steps.length; s++) {
+      const before = steps[s - 1].arr.slice();
+      steps[s].mutations.forEach((mutation) => {
+        expect(mutation.target).toBe("arr");
+        expect(before[mutation.key as number]).toBe(mutation.from);
+        before[mutation.key as number] = mutation.to as number;
+      });
+      expect(before).toEqual(steps[s].arr);
+    }
+  });
+
+  test("createInitialSortStep copies the array", () => {
+    const input = [1, 2, 3];
+    const step = createInitialSortStep(input);
+    input[0] = 99;
+    expect(step.arr).toEqual([1, 2, 3]);
+    expect(step.kind).toBe("init");
+  });
+});
+
+describe("annotateSortStats", () => {
+  test("keeps running totals of comparisons, swaps and writes", () => {
+    const steps = annotateSortStats([
+      createInitialSortStep([2, 1]),
+      {
+        ...createInitialSortStep([2, 1]),
+        kind: "compare",
+      },
+      {
+        ...createInitialSortStep([1, 2]),
+        kind: "swap",
+        mutations: [
+          { target: "arr", key: 0, from: 2, to: 1 },
+          { target: "arr", key: 1, from: 1, to: 2 },
+        ],
+      },
+      {
+        ...createInitialSortStep([1, 2]),
+        kind: "write",
+        mutations: [{ target: "aux", key: 0, from: null, to: 1 }],
+      },
+    ]);
+
+    expect(steps.map((step) => step.stats)).toEqual([
+      { comparisons: 0, swaps: 0, writes: 0 },
+      { comparisons: 1, swaps: 0, writes: 0 },
+      { comparisons: 1, swaps: 1, writes: 2 },
+      { comparisons: 1, swaps: 1, writes: 2 },
+    ]);
+  });
+
+  test("the last quicksort step holds the totals", () => {
+    const steps = getQuickSortSteps([3, 1, 2]);
+    const last = steps[steps.length - 1];
+    const compares = steps.filter((step) => step.kind === "compare").length;
+
+    expect(last.stats!.comparisons).toBe(compares);
+    expect(last.stats!.writes).toBe(last.stats!.swaps * 2);
+  });
+});
+
+describe("pivot strategies and partition schemes", () => {
+  const inputs = [
+    [5, 3, 8, 1, 9, 2, 7],
+    [1, 2, 3, 4, 5, 6],
+    [6, 5, 4, 3, 2, 1],
+    [4, 4, 4, 4, 4],
+    [2, 1, 2, 1, 2, 1, 3],
+  ];
+  const combinations = PIVOT_STRATEGIES.flatMap((pivot) =>
+    PARTITION_SCHEMES.map((scheme) => [pivot.id, scheme.id] as const),
+  );
+
+  test.each(combinations)("%s pivot with %s partitioning", (pivot, scheme) => {
+    inputs.forEach((input) => {
+      const steps = getQuickSortSteps(input, { pivot, scheme });
+      const arr = steps[0].arr.slice();
+
+      steps.forEach((step) => {
+        step.mutations.forEach((m) => {
+          expect(arr[m.key as number]).toBe(m.from);
+          arr[m.key as number] = m.to as number;
+        });
+        expect(arr).toEqual(step.arr);
+      });
+      expect(arr).toEqual(input.slice().sort((a, b) => a - b));
+    });
+  });
+
+  test("a seeded random pivot reproduces the run", () => {
+    const input = [9, 4, 7, 1, 8, 2, 6, 3, 5];
+    const run = (seed: number) =>
+      getQuickSortSteps(input, { rng: createSeededRandom(seed) }).map(
+        (step) => step.narration,
+      );
+
+    expect(run(42)).toEqual(run(42));
+  });
+
+  test("choosePivotIndex picks the expected index", () => {
+    const arr = [7, 1, 3, 9, 5];
+
+    expect(choosePivotIndex(arr, 0, 4, "first")).toBe(0);
+    expect(choosePivotIndex(arr, 0, 4, "last")).toBe(4);
+    expect(choosePivotIndex(arr, 0, 4, "middle")).toBe(2);
+    // Median of 7, 3 and 5 is 5
+    expect(choosePivotIndex(arr, 0, 4, "median-of-three")).toBe(4);
+    expect(choosePivotIndex(arr, 1, 3, "median-of-three")).toBe(2);
+    const random = choosePivotIndex(arr, 1, 3, "random");
+    expect(random).toBeGreaterThanOrEqual(1);
+    expect(random).toBeLessThanOrEqual(3);
+  });
+
+  test("a first-element pivot recurses deepest on sorted input", () => {
+    const sorted = Array.from({ length: 16 }, (_, i) => i);
+    const first = getQuickSortSteps(sorted, { pivot: "first" });
+    const median = getQuickSortSteps(sorted, { pivot: "median-of-three" });
+
+    expect(getMaxDepth(first)).toBe(15);
+    expect(getMaxDepth(median)).toBeLessThan(8);
+    expect(median.length).toBeLessThan(first.length);
+  });
+
+  test("Hoare records splits instead of pivot placements", () => {
+    const steps = getQuickSortSteps([3, 1, 2], { scheme: "hoare" });
+
+    expect(steps.some((step) => step.kind === "split")).toBe(true);
+    expect(steps.some((step) => step.kind === "pivot")).toBe(false);
+  });
+
+  test("every step records the depth of its call", () => {
+    const steps = getQuickSortSteps([5, 3, 8, 1, 9, 2, 7]);
+    steps.slice(1, -1).forEach((step) => {
+      expect(step.depth).toBeGreaterThanOrEqual(1);
+    });
+  });
+});
+
+describe("getQuickSortCode", () => {
+  test.each(PARTITION_SCHEMES.map((scheme) => [scheme.id]))(
+    "%s steps point inside the pseudo-code",
+    (scheme) => {
+      const pseudocode = getQuickSortCode({ scheme })[0];
+      const steps = getQuickSortSteps([6, 2, 9, 4, 1, 7], { scheme });
+
+      steps.slice(0, -1).forEach((step) => {
+        expect(step.line).toBeGreaterThanOrEqual(1);
+        expect(step.line).toBeLessThanOrEqual(pseudocode.lines.length);
+      });
+    },
+  );
+
+  test("writes out the pivot choice in every language", () => {
+    const listings = getQuickSortCode({ pivot: "middle", scheme: "hoare" });
+
+    listings.forEach((listing) => {
+      const text = listing.lines.join("\n");
+      expect(text).not.toContain("{pivot}");
+      expect(text).toMatch(/\(lo \+ hi\)/);
+      Object.values(listing.lineMap ?? {}).forEach((line) => {
+        expect(line).toBeLessThanOrEqual(listing.lines.length);
+      });
+    });
+  });
+});
+
+describe("QUICKSORT_CODE", () => {
+  test("every step but the last points at a pseudo-code line", () => {
+    const pseudocode = QUICKSORT_CODE[0];
+    const steps = getQuickSortSteps([6, 2, 9, 4, 1, 7]);
+
+    expect(pseudocode.language).toBe("pseudocode");
+    steps.slice(0, -1).forEach((step) => {
+      expect(step.line).toBeGreaterThanOrEqual(1);
+      expect(step.line).toBeLessThanOrEqual(pseudocode.lines.length);
+    });
+  });
+
+  test("line maps point inside each listing", () => {
+    QUICKSORT_CODE.slice(1).forEach((listing) => {
+      Object.values(listing.lineMap ?? {}).forEach((line) => {
+        expect(line).toBeGreaterThanOrEqual(1);
+        expect(line).toBeLessThanOrEqual(listing.lines.length);
+      });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  createSeededRandom,
+  generateSeed,
+  parseSeed,
+  randomInt,
+  MAX_SEED,
+} from "@/algorithms-core/random";
+
+describe("createSeededRandom", () => {
+  test("the same seed gives the same sequence", () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const first = Array.from({ length: 20 }, a);
+
+    expect(Array.from({ length: 20 }, b)).toEqual(first);
+  });
+
+  test("different seeds give different sequences", () => {
+    const a = Array.from({ length: 20 }, createSeededRandom(1));
+    const b = Array.from({ length: 20 }, createSeededRandom(2));
+    expect(a).not.toEqual(b);
+  });
+
+  test("returns floats in [0, 1)", () => {
+    const rng = createSeededRandom(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = rng();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("randomInt", () => {
+  test("stays within the bounds and reaches both ends", () => {
+    const rng = createSeededRandom(3);
+    const seen = new Set<number>();
+    for (let i = 0; i < 200; i++) {
+      const value = randomInt(rng, 1, 4);
+      expect(value).toBeGreaterThanOrEqual(1);
+      expect(value).toBeLessThanOrEqual(4);
+      seen.add(value);
+    }
+    expect(seen).toEqual(new Set([1, 2, 3, 4]));
+  });
+});
+
+describe("seeds", () => {
+  test("generateSeed returns a parseable seed", () => {
+    const seed = generateSeed();
+    expect(parseSeed(String(seed))).toBe(seed);
+  });
+
+  test("parseSeed accepts whole numbers in range", () => {
+    expect(parseSeed(" 42 ")).toBe(42);
+    expect(parseSeed(String(MAX_SEED))).toBe(MAX_SEED);
+  });
+
+  test("parseSeed rejects anything else", () => {
+    ["", "abc", "-1", "1.5", String(MAX_SEED + 1)].forEach((text) => {
+      expect(() => parseSeed(text)).toThrow("Seed must be a whole number");
+    });
+  });
+});
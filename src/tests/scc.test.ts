@@ -0,0 +1,165 @@
+import { createRandomGraph } from "@/algorithms-core/graphs_common";
+import { kosaraju, KOSARAJU_CODE } from "@/algorithms-core/kosaraju";
+import { createSeededRandom } from "@/algorithms-core/random";
+import {
+  componentNodeId,
+  condenseGraph,
+  getComponentIndex,
+} from "@/algorithms-core/scc";
+import { tarjan, TARJAN_CODE } from "@/algorithms-core/tarjan";
+import { buildGraph } from "./graph-fixtures";
+
+// Components as sorted lists in a canonical order, for comparing results
+function normalize(components: string[][]): string[][] {
+  return components
+    .map((members) => [...members].sort())
+    .sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+// Two cycles joined one way, and a node hanging off the second
+const TWO_CYCLES = buildGraph(
+  ["A", "B", "C", "D", "E", "F"],
+  [
+    ["A", "B"],
+    ["B", "C"],
+    ["C", "A"],
+    ["C", "D"],
+    ["D", "E"],
+    ["E", "D"],
+    ["E", "F"],
+  ],
+  true,
+);
+const EXPECTED = [["A", "B", "C"], ["D", "E"], ["F"]];
+
+describe("Tarjan's algorithm", () => {
+  test("should find the strongly connected components", () => {
+    const result = tarjan(TWO_CYCLES);
+
+    expect(normalize(result.components)).toEqual(EXPECTED);
+    // Components come out sinks first
+    expect(result.components[0]).toEqual(["F"]);
+  });
+
+  test("should lower low-links along back edges", () => {
+    const result = tarjan(TWO_CYCLES);
+    const last = result.steps[result.steps.length - 1];
+
+    expect(last.index.get("A")).toBe(0);
+    expect(last.lowLink.get("C")).toBe(0);
+    expect(last.lowLink.get("E")).toBe(last.index.get("D"));
+    expect(last.stack).toEqual([]);
+    expect(
+      result.steps.some((step) =>
+        step.mutations.some((m) => m.target === "lowLink" && m.key === "C"),
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("Kosaraju's algorithm", () => {
+  test("should find the strongly connected components", () => {
+    const result = kosaraju(TWO_CYCLES);
+
+    expect(normalize(result.components)).toEqual(EXPECTED);
+    // Components come out sources first
+    expect([...result.components[0]].sort()).toEqual(["A", "B", "C"]);
+  });
+
+  test("should finish the first pass before searching the transpose", () => {
+    const result = kosaraju(TWO_CYCLES);
+    const firstOfPass2 = result.steps.findIndex((step) => step.pass === 2);
+
+    expect(result.steps[firstOfPass2 - 1].finished).toHaveLength(6);
+    expect(result.steps[firstOfPass2 - 1].components).toEqual([]);
+    expect(
+      result.steps.slice(firstOfPass2).every((step) => step.pass === 2),
+    ).toBe(true);
+  });
+});
+
+describe("Strongly connected components", () => {
+  test("should agree on random directed graphs", () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const graph = createRandomGraph(
+        10,
+        0.2,
+        1,
+        30,
+        undefined,
+        createSeededRandom(seed),
+        true,
+      );
+
+      expect(normalize(tarjan(graph).components)).toEqual(
+        normalize(kosaraju(graph).components),
+      );
+    }
+  });
+
+  test("should find connected components of an undirected graph", () => {
+    const graph = buildGraph(
+      ["A", "B", "C", "D"],
+      [
+        ["A", "B"],
+        ["C", "D"],
+      ],
+    );
+
+    expect(normalize(tarjan(graph).components)).toEqual([
+      ["A", "B"],
+      ["C", "D"],
+    ]);
+    expect(normalize(kosaraju(graph).components)).toEqual([
+      ["A", "B"],
+      ["C", "D"],
+    ]);
+  });
+
+  test("should condense components into a DAG", () => {
+    const components = tarjan(TWO_CYCLES).components;
+    const index = getComponentIndex(components);
+    const condensed = condenseGraph(TWO_CYCLES, components);
+
+    expect(Object.keys(condensed.nodes)).toHaveLength(3);
+    expect(condensed.get_all_edges()).toHaveLength(2);
+    expect(
+      condensed.hasEdge(
+        componentNodeId(index.get("A")!),
+        componentNodeId(index.get("D")!),
+      ),
+    ).toBe(true);
+    expect(condensed.nodes[componentNodeId(index.get("A")!)].value).toBe(3);
+  });
+
+  test("should weight condensed edges by the edges they stand for", () => {
+    const graph = buildGraph(
+      ["A", "B", "C"],
+      [
+        ["A", "C"],
+        ["B", "C"],
+        ["A", "B"],
+        ["B", "A"],
+      ],
+      true,
+    );
+    const condensed = condenseGraph(graph, tarjan(graph).components);
+
+    expect(condensed.get_all_edges().map((edge) => edge.data)).toEqual([2]);
+  });
+
+  test("should only record lines within the pseudocode", () => {
+    const runs = [
+      { steps: tarjan(TWO_CYCLES).steps, code: TARJAN_CODE },
+      { steps: kosaraju(TWO_CYCLES).steps, code: KOSARAJU_CODE },
+    ];
+
+    runs.forEach(({ steps, code }) => {
+      steps.forEach((step) => {
+        if (step.line === undefined) return;
+        expect(step.line).toBeGreaterThanOrEqual(1);
+        expect(step.line).toBeLessThanOrEqual(code[0].lines.length);
+      });
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import {
+  getSelectionSortSteps,
+  SELECTIONSORT_CODE,
+} from "@/algorithms-core/selectionsort";
+
+describe("getSelectionSortSteps", () => {
+  test("starts with the unsorted input and ends sorted", () => {
+    const input = [5, 3, 8, 1, 9, 2, 7];
+    const steps = getSelectionSortSteps(input);
+
+    expect(steps[0].kind).toBe("init");
+    expect(steps[0].arr).toEqual(input);
+    expect(steps[steps.length - 1].kind).toBe("done");
+    expect(steps[steps.length - 1].arr).toEqual([1, 2, 3, 5, 7, 8, 9]);
+    expect(input).toEqual([5, 3, 8, 1, 9, 2, 7]);
+  });
+
+  test("always makes n(n-1)/2 comparisons", () => {
+    const sorted = getSelectionSortSteps([1, 2, 3, 4, 5]);
+    const shuffled = getSelectionSortSteps([4, 2, 5, 1, 3]);
+
+    expect(sorted[sorted.length - 1].stats!.comparisons).toBe(10);
+    expect(shuffled[shuffled.length - 1].stats!.comparisons).toBe(10);
+    expect(sorted[sorted.length - 1].stats!.swaps).toBe(0);
+  });
+
+  test("marks the minimum found so far as the pivot", () => {
+    const steps = getSelectionSortSteps([3, 1, 2]);
+    const compares = steps.filter((step) => step.kind === "compare");
+
+    expect(compares.map((step) => step.pivotIndex)).toEqual([0, 1, 1]);
+  });
+
+  test("every step but the last points at a pseudo-code line", () => {
+    const steps = getSelectionSortSteps([3, 1, 2]);
+    steps.slice(0, -1).forEach((step) => {
+      expect(step.line).toBeGreaterThanOrEqual(1);
+      expect(step.line).toBeLessThanOrEqual(SELECTIONSORT_CODE[0].lines.length);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import {
+  SORTING_ALGORITHMS,
+  getSortingAlgorithm,
+  getRaceFrames,
+} from "@/algorithms-core/sorting";
+import { createInitialSortStep } from "@/algorithms-core/quicksort";
+
+describe("SORTING_ALGORITHMS", () => {
+  test.each(SORTING_ALGORITHMS.map((a) => [a.name, a]))(
+    "%s sorts and counts its work",
+    (_, algorithm) => {
+      const steps = algorithm.getSteps([4, 2, 5, 1, 3, 2]);
+      const last = steps[steps.length - 1];
+
+      expect(last.arr).toEqual([1, 2, 2, 3, 4, 5]);
+      expect(last.stats!.comparisons).toBeGreaterThan(0);
+    },
+  );
+
+  test("ids are unique and can be looked up", () => {
+    const ids = SORTING_ALGORITHMS.map((algorithm) => algorithm.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(getSortingAlgorithm("mergesort")!.name).toBe("Merge Sort");
+    expect(getSortingAlgorithm("bogosort")).toBeUndefined();
+  });
+});
+
+describe("getRaceFrames", () => {
+  test("holds each lane on its last step once it runs out", () => {
+    const short = [createInitialSortStep([1]), createInitialSortStep([2])];
+    const long = [1, 2, 3, 4].map((n) => createInitialSortStep([n]));
+    const frames = getRaceFrames([short, long]);
+
+    expect(frames).toHaveLength(4);
+    expect(frames[1]).toEqual([short[1], long[1]]);
+    expect(frames[3]).toEqual([short[1], long[3]]);
+  });
+
+  test("returns no frames for no lanes", () => {
+    expect(getRaceFrames([])).toEqual([]);
+  });
+});
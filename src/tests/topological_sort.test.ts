@@ -0,0 +1,178 @@
+import { createRandomGraph, Graph } from "@/algorithms-core/graphs_common";
+import { createSeededRandom } from "@/algorithms-core/random";
+import {
+  dfsTopologicalSort,
+  formatCycle,
+  KAHN_CODE,
+  kahnTopologicalSort,
+  TOPOLOGICAL_DFS_CODE,
+} from "@/algorithms-core/topological_sort";
+import { buildGraph } from "./graph-fixtures";
+
+// Checks that every edge goes from earlier to later in the order
+function expectTopological(graph: Graph, order: string[] | null) {
+  expect(order).not.toBeNull();
+  expect([...order!].sort()).toEqual(Object.keys(graph.nodes).sort());
+  graph.get_all_edges().forEach((edge) => {
+    expect(order!.indexOf(edge.from_node.id)).toBeLessThan(
+      order!.indexOf(edge.to_node.id),
+    );
+  });
+}
+
+// Checks that consecutive nodes of a cycle are joined by edges
+function expectCycle(graph: Graph, cycle: string[] | null) {
+  expect(cycle).not.toBeNull();
+  cycle!.forEach((nodeId, i) => {
+    expect(graph.hasEdge(nodeId, cycle![(i + 1) % cycle!.length])).toBe(true);
+  });
+}
+
+const DIAMOND = buildGraph(
+  ["A", "B", "C", "D", "E"],
+  [
+    ["A", "B"],
+    ["A", "C"],
+    ["B", "D"],
+    ["C", "D"],
+    ["E", "A"],
+  ],
+  true,
+);
+
+describe("Kahn's algorithm", () => {
+  test("should order a directed acyclic graph", () => {
+    const result = kahnTopologicalSort(DIAMOND);
+
+    expect(result.order).toEqual(["E", "A", "B", "C", "D"]);
+    expect(result.cycle).toBeNull();
+    expectTopological(DIAMOND, result.order);
+  });
+
+  test("should count down in-degrees as edges are removed", () => {
+    const result = kahnTopologicalSort(DIAMOND);
+
+    expect(result.steps[0].inDegree.get("D")).toBe(2);
+    const dropped = result.steps.filter((step) =>
+      step.mutations.some((m) => m.target === "inDegree" && m.key === "D"),
+    );
+    expect(dropped.map((step) => step.inDegree.get("D"))).toEqual([1, 0]);
+    expect(dropped[1].queue).toContain("D");
+  });
+
+  test("should report a cycle among the nodes left over", () => {
+    const graph = buildGraph(
+      ["S", "A", "B", "C", "T"],
+      [
+        ["S", "A"],
+        ["A", "B"],
+        ["B", "C"],
+        ["C", "A"],
+        ["C", "T"],
+      ],
+      true,
+    );
+
+    const result = kahnTopologicalSort(graph);
+    const last = result.steps[result.steps.length - 1];
+
+    expect(result.order).toBeNull();
+    expect([...result.cycle!].sort()).toEqual(["A", "B", "C"]);
+    expectCycle(graph, result.cycle);
+    expect(last.order).toEqual(["S"]);
+    expect(last.cycle).toEqual(result.cycle);
+  });
+});
+
+describe("Depth-first topological sort", () => {
+  test("should order a directed acyclic graph", () => {
+    const result = dfsTopologicalSort(DIAMOND);
+
+    expectTopological(DIAMOND, result.order);
+    expect(result.steps[result.steps.length - 1].finished).toEqual([
+      "D",
+      "B",
+      "C",
+      "A",
+      "E",
+    ]);
+  });
+
+  test("should stop at the first back edge with its cycle", () => {
+    const graph = buildGraph(
+      ["A", "B", "C"],
+      [
+        ["A", "B"],
+        ["B", "C"],
+        ["C", "A"],
+      ],
+      true,
+    );
+
+    const result = dfsTopologicalSort(graph);
+
+    expect(result.order).toBeNull();
+    expect(result.cycle).toEqual(["A", "B", "C"]);
+    expect(result.steps[result.steps.length - 1].line).toBe(7);
+  });
+
+  test("should treat a self-loop as a cycle", () => {
+    const graph = buildGraph(["A"], [["A", "A"]], true);
+
+    expect(dfsTopologicalSort(graph).cycle).toEqual(["A"]);
+    expect(kahnTopologicalSort(graph).cycle).toEqual(["A"]);
+  });
+});
+
+describe("Topological sort", () => {
+  test("should agree on whether random graphs have a cycle", () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const graph = createRandomGraph(
+        10,
+        0.2,
+        1,
+        30,
+        undefined,
+        createSeededRandom(seed),
+        true,
+      );
+
+      const fromKahn = kahnTopologicalSort(graph);
+      const fromDFS = dfsTopologicalSort(graph);
+
+      expect(fromKahn.cycle === null).toBe(fromDFS.cycle === null);
+      if (fromKahn.cycle) {
+        expectCycle(graph, fromKahn.cycle);
+        expectCycle(graph, fromDFS.cycle);
+      } else {
+        expectTopological(graph, fromKahn.order);
+        expectTopological(graph, fromDFS.order);
+      }
+    }
+  });
+
+  test("should refuse undirected graphs", () => {
+    const graph = buildGraph(["A", "B"], [["A", "B"]]);
+
+    expect(() => kahnTopologicalSort(graph)).toThrow("directed graph");
+    expect(() => dfsTopologicalSort(graph)).toThrow("directed graph");
+  });
+
+  test("should format a cycle back to its start", () => {
+    expect(formatCycle(["A", "B", "C"])).toBe("A -> B -> C -> A");
+  });
+
+  test("should only record lines within the pseudocode", () => {
+    const runs = [
+      { steps: kahnTopologicalSort(DIAMOND).steps, code: KAHN_CODE },
+      { steps: dfsTopologicalSort(DIAMOND).steps, code: TOPOLOGICAL_DFS_CODE },
+    ];
+
+    runs.forEach(({ steps, code }) => {
+      steps.forEach((step) => {
+        expect(step.line).toBeGreaterThanOrEqual(1);
+        expect(step.line).toBeLessThanOrEqual(code[0].lines.length);
+      });
+    });
+  });
+});
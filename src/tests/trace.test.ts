@@ -0,0 +1,82 @@
+import {
+  createTraceStep,
+  getListingLine,
+  getStepMarkers,
+  hasMutation,
+} from "@/algorithms-core/trace";
+
+describe("createTraceStep", () => {
+  test("fills in empty highlights and mutations", () => {
+    const step = createTraceStep("init", "Start");
+
+    expect(step).toEqual({
+      kind: "init",
+      highlights: [],
+      mutations: [],
+      narration: "Start",
+    });
+  });
+
+  test("keeps the provided options", () => {
+    const step = createTraceStep("compare", "Compare", {
+      highlights: [{ type: "index", index: 2, role: "compare" }],
+      line: 4,
+    });
+
+    expect(step.highlights).toHaveLength(1);
+    expect(step.line).toBe(4);
+  });
+});
+
+describe("getStepMarkers", () => {
+  const steps = [
+    createTraceStep("init", "Start"),
+    createTraceStep("pivot", "Pivot", {
+      mutations: [{ target: "arr", key: 0, from: 1, to: 2 }],
+    }),
+    createTraceStep("compare", "Compare"),
+    createTraceStep("pivot", "Pivot"),
+  ];
+
+  test("marks every step matching a rule", () => {
+    const markers = getStepMarkers(steps, [
+      { label: "Pivot", color: "red", match: (s) => s.kind === "pivot" },
+    ]);
+
+    expect(markers.map((m) => m.index)).toEqual([1, 3]);
+    expect(markers[0]).toEqual({
+      index: 1,
+      rule: 0,
+      label: "Pivot",
+      color: "red",
+    });
+  });
+
+  test("a step can match several rules", () => {
+    const markers = getStepMarkers(steps, [
+      { label: "Pivot", color: "red", match: (s) => s.kind === "pivot" },
+      { label: "Write", color: "blue", match: (s) => hasMutation(s, "arr") },
+    ]);
+
+    expect(markers.filter((m) => m.index === 1)).toHaveLength(2);
+    expect(markers.filter((m) => m.rule === 1)).toHaveLength(1);
+  });
+});
+
+describe("getListingLine", () => {
+  test("pseudo-code listings use the recorded line", () => {
+    expect(getListingLine({ language: "pseudocode", lines: [] }, 3)).toBe(3);
+  });
+
+  test("other listings map the recorded line", () => {
+    const listing = {
+      language: "python" as const,
+      lines: [],
+      lineMap: { 3: 5 },
+    };
+
+    expect(getListingLine(listing, 3)).toBe(5);
+    expect(getListingLine(listing, 4)).toBeUndefined();
+    expect(getListingLine(listing, undefined)).toBeUndefined();
+  });
+});
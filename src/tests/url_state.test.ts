@@ -0,0 +1,176 @@
+import {
+  compressToBase64Url,
+  decompressFromBase64Url,
+  encodeUrlValue,
+  decodeUrlValue,
+  encodeNumberList,
+  decodeNumberList,
+  decodeInteger,
+  decodeOption,
+  encodeGraph,
+  decodeGraph,
+  COMPRESSED_PREFIX,
+} from "@/algorithms-core/url_state";
+import { Graph } from "@/algorithms-core/graphs_common";
+
+describe("LZW compression", () => {
+  test.each([
+    [""],
+    ["a"],
+    ["abababababababab"],
+    ['{"nodes":[["node-0",3]],"edges":[]}'],
+    ["unicode → ✓ ünïcödé"],
+  ])("round trips %j", (text) => {
+    expect(decompressFromBase64Url(compressToBase64Url(text))).toBe(text);
+  });
+
+  test("output only uses URL-safe characters", () => {
+    const text = Array.from({ length: 300 }, (_, i) => i % 97).join(",");
+    expect(compressToBase64Url(text)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  test("rejects malformed input", () => {
+    expect(() => decompressFromBase64Url("not valid!")).toThrow("Malformed");
+    expect(() => decompressFromBase64Url("_w")).toThrow("Malformed");
+  });
+});
+
+describe("encodeUrlValue", () => {
+  test("leaves short values readable", () => {
+    expect(encodeUrlValue("5,3,8")).toBe("5,3,8");
+    expect(decodeUrlValue("5,3,8")).toBe("5,3,8");
+  });
+
+  test("compresses long repetitive values", () => {
+    const text = Array(100).fill("12").join(",");
+    const encoded = encodeUrlValue(text);
+
+    expect(encoded.startsWith(COMPRESSED_PREFIX)).toBe(true);
+    expect(encoded.length).toBeLessThan(text.length);
+    expect(decodeUrlValue(encoded)).toBe(text);
+  });
+
+  test("returns null for a malformed compressed value", () => {
+    expect(decodeUrlValue(`${COMPRESSED_PREFIX}???`)).toBeNull();
+  });
+});
+
+describe("number lists and scalars", () => {
+  test("round trips arrays", () => {
+    const arr = Array.from({ length: 80 }, (_, i) => (i * 7) % 50);
+    expect(decodeNumberList(encodeNumberList(arr))).toEqual(arr);
+  });
+
+  test("rejects malformed lists", () => {
+    expect(decodeNumberList(null)).toBeNull();
+    expect(decodeNumberList("1,,2")).toBeNull();
+    expect(decodeNumberList("1,-2")).toBeNull();
+  });
+
+  test("decodeInteger checks the range", () => {
+    expect(decodeInteger("12", 0, 20)).toBe(12);
+    expect(decodeInteger("21", 0, 20)).toBeNull();
+    expect(decodeInteger("1.5", 0, 20)).toBeNull();
+    expect(decodeInteger(null, 0, 20)).toBeNull();
+  });
+
+  test("decodeOption only accepts known ids", () => {
+    const options = [{ id: "lomuto" }, { id: "hoare" }] as const;
+    expect(decodeOption("hoare", options)).toBe("hoare");
+    expect(decodeOption("shell", options)).toBeNull();
+  });
+});
+
+describe("graphs", () => {
+  test("round trips nodes and weighted edges", () => {
+    const graph = new Graph();
+    graph.add_node("a", 1);
+    graph.add_node("b", 2);
+    graph.add_node("c", 3);
+    graph.add_edge("a", "b", 4);
+    graph.add_edge("c", "b", 7);
+
+    const restored = decodeGraph(encodeGraph(graph))!;
+
+    expect(Object.keys(restored.nodes)).toEqual(["a", "b", "c"]);
+    expect(restored.nodes.c.value).toBe(3);
+    expect(
+      restored
+        .get_all_edges()
+        .map((e) => [e.from_node.id, e.to_node.id, e.data]),
+    ).toEqual([
+      ["a", "b", 4],
+      ["c", "b", 7],
+    ]);
+  });
+
+  test("keeps edge direction", () => {
+    const graph = new Graph(true);
+    graph.add_node("a", 1);
+    graph.add_node("b", 2);
+    graph.add_edge("a", "b", 3);
+    graph.add_edge("b", "a", 4);
+
+    const restored = decodeGraph(encodeGraph(graph))!;
+
+    expect(restored.directed).toBe(true);
+    expect(restored.get_all_edges().map((e) => [e.id, e.data])).toEqual([
+      ["a->b", 3],
+      ["b->a", 4],
+    ]);
+    expect(decodeGraph(encodeGraph(new Graph()))!.directed).toBe(false);
+  });
+
+  test("keeps node labels", () => {
+    const graph = new Graph();
+    graph.add_node("a", 0, "Start");
+    graph.add_node("b", 5);
+
+    const restored = decodeGraph(encodeGraph(graph))!;
+
+    expect(restored.nodes.a.label).toBe("Start");
+    expect(restored.nodes.b.label).toBeUndefined();
+  });
+
+  test("keeps node positions", () => {
+    const graph = new Graph();
+    graph.add_node("a", 0);
+    graph.add_node("b", 0);
+    graph.nodes.a.position = { x: 1.5, y: -2 };
+
+    const restored = decodeGraph(encodeGraph(graph))!;
+
+    expect(restored.nodes.a.position).toEqual({ x: 1.5, y: -2 });
+    expect(restored.nodes.b.position).toBeUndefined();
+  });
+
+  test("rejects malformed graphs", () => {
+    expect(decodeGraph("{")).toBeNull();
+    expect(decodeGraph('{"nodes":[["a",1]],"edges":[["a","z",1]]}')).toBeNull();
+  });
+
+  test("rejects links naming object members as nodes", () => {
+    expect(
+      decodeGraph('{"nodes":[["a",1]],"edges":[["a","constructor",1]]}'),
+    ).toBeNull();
+    expect(
+      decodeGraph(
+        '{"nodes":[["a",1]],"edges":[],"positions":{"toString":[1,2]}}',
+      ),
+    ).toBeNull();
+  });
+
+  test("rejects positions that are not two finite numbers", () => {
+    const link = (position: string) =>
+      `{"nodes":[["a",1]],"edges":[],"positions":{"a":${position}}}`;
+
+    expect(decodeGraph(link("[1,2]"))!.nodes.a.position).toEqual({
+      x: 1,
+      y: 2,
+    });
+    expect(decodeGraph(link("[1]"))).toBeNull();
+    expect(decodeGraph(link("[1,2,3]"))).toBeNull();
+    expect(decodeGraph(link('[1,"2"]'))).toBeNull();
+    expect(decodeGraph(link("[1,null]"))).toBeNull();
+  });
+});
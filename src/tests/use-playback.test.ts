@@ -0,0 +1,129 @@
+import { act, renderHook } from "@testing-library/react";
+import { clampSpeed, usePlayback } from "@/components/use-playback";
+
+const STEPS = ["a", "b", "c", "d"];
+
+describe("clampSpeed", () => {
+  test("keeps speeds between 0.25x and 8x", () => {
+    expect(clampSpeed(0.1)).toBe(0.25);
+    expect(clampSpeed(2)).toBe(2);
+    expect(clampSpeed(20)).toBe(8);
+    expect(clampSpeed(NaN)).toBe(1);
+  });
+});
+
+describe("usePlayback", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("starts at the first step", () => {
+    const { result } = renderHook(() => usePlayback(STEPS));
+
+    expect(result.current.index).toBe(0);
+    expect(result.current.step).toBe("a");
+    expect(result.current.isAtStart).toBe(true);
+    expect(result.current.isPlaying).toBe(false);
+  });
+
+  test("steps forward and backward within bounds", () => {
+    const { result } = renderHook(() => usePlayback(STEPS));
+
+    act(() => result.current.stepBackward());
+    expect(result.current.index).toBe(0);
+
+    act(() => result.current.stepForward());
+    act(() => result.current.stepForward());
+    expect(result.current.step).toBe("c");
+
+    act(() => result.current.stepBackward());
+    expect(result.current.step).toBe("b");
+  });
+
+  test("jumps to either end and seeks to a clamped index", () => {
+    const { result } = renderHook(() => usePlayback(STEPS));
+
+    act(() => result.current.jumpToEnd());
+    expect(result.current.index).toBe(3);
+    expect(result.current.isAtEnd).toBe(true);
+
+    act(() => result.current.jumpToStart());
+    expect(result.current.index).toBe(0);
+
+    act(() => result.current.seek(2));
+    expect(result.current.step).toBe("c");
+
+    act(() => result.current.seek(99));
+    expect(result.current.index).toBe(3);
+  });
+
+  test("plays at the selected speed and stops at the end", () => {
+    const { result } = renderHook(() =>
+      usePlayback(STEPS, { baseInterval: 400 }),
+    );
+
+    act(() => result.current.setSpeed(2));
+    act(() => result.current.play());
+    expect(result.current.isPlaying).toBe(true);
+
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+    expect(result.current.index).toBe(1);
+
+    // Each tick is scheduled after the previous one renders
+    for (let tick = 0; tick < 4; tick++) {
+      act(() => {
+        jest.advanceTimersByTime(200);
+      });
+    }
+    expect(result.current.index).toBe(3);
+    expect(result.current.isPlaying).toBe(false);
+  });
+
+  test("playing from the end starts over", () => {
+    const { result } = renderHook(() => usePlayback(STEPS));
+
+    act(() => result.current.jumpToEnd());
+    act(() => result.current.play());
+    expect(result.current.index).toBe(0);
+    expect(result.current.isPlaying).toBe(true);
+  });
+
+  test("rewinds when new steps are loaded", () => {
+    const { result, rerender } = renderHook(({ steps }) => usePlayback(steps), {
+      initialProps: { steps: STEPS },
+    });
+
+    act(() => result.current.seek(2));
+    rerender({ steps: ["x", "y"] });
+
+    expect(result.current.index).toBe(0);
+    expect(result.current.step).toBe("x");
+  });
+
+  test("opens at the initial index", () => {
+    const { result } = renderHook(() =>
+      usePlayback(STEPS, { initialIndex: 2 }),
+    );
+    expect(result.current.step).toBe("c");
+  });
+
+  test("applies the initial index to the first steps loaded later", () => {
+    const { result, rerender } = renderHook(
+      ({ steps }) => usePlayback(steps, { initialIndex: 9 }),
+      { initialProps: { steps: [] as string[] } },
+    );
+
+    rerender({ steps: STEPS });
+    // Clamped to the last step
+    expect(result.current.step).toBe("d");
+
+    rerender({ steps: ["x", "y"] });
+    expect(result.current.index).toBe(0);
+  });
+});
@@ -12,6 +12,13 @@ export default {
         background: "var(--background)",
         foreground: "var(--foreground)",
       },
+      // Briefly lights up a cell whose value just changed
+      keyframes: {
+        flash: { "0%": { backgroundColor: "rgb(250 204 21 / 0.8)" } },
+      },
+      animation: {
+        flash: "flash 0.8s ease-out",
+      },
     },
   },
   plugins: [],